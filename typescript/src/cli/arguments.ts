@@ -0,0 +1,132 @@
+/*
+    This script converts the arguments of the bootcamp CLI into the values
+    expected by the use cases, failing with a UsageError when they are invalid.
+
+    Accounts can be given in two ways:
+    - Signers (the accounts that sign a transaction) as a secret key (S...)
+      or the name of an identity of the keystore or of the Stellar CLI.
+    - Other accounts as a public key (G...) or the name of an identity.
+*/
+
+import { Asset, Keypair, StrKey } from "@stellar/stellar-sdk";
+import {
+  listIdentities,
+  resolveIdentity,
+} from "../infrastructure/keystore/keystore.ts";
+import { IdentityNotFoundError } from "../infrastructure/keystore/keystore-error.ts";
+import { UsageError } from "./command.ts";
+
+// Up to 7 decimal places, the precision of Stellar amounts
+const AMOUNT_PATTERN = /^\d+(\.\d{1,7})?$/;
+// Up to 12 alphanumeric characters, e.g. USDC or BOOTCAMP
+const ASSET_CODE_PATTERN = /^[a-zA-Z0-9]{1,12}$/;
+
+// An unknown identity is most likely a typo in the command line
+async function resolveNamedIdentity(
+  option: string,
+  name: string,
+): Promise<Keypair> {
+  try {
+    return await resolveIdentity(name);
+  } catch (e) {
+    if (e instanceof IdentityNotFoundError) {
+      throw new UsageError(`--${option}: ${e.message}`);
+    }
+    throw e;
+  }
+}
+
+// This function returns the keypair of a signer.
+//
+// Args:
+// - option: The name of the option, used in the error messages
+// - value: A secret key (S...) or the name of an identity
+export async function parseSigner(
+  option: string,
+  value: string,
+): Promise<Keypair> {
+  if (StrKey.isValidEd25519SecretSeed(value)) {
+    return Keypair.fromSecret(value);
+  }
+  if (value.startsWith("S") && value.length === 56) {
+    throw new UsageError(`--${option} is not a valid secret key.`);
+  }
+  return await resolveNamedIdentity(option, value);
+}
+
+// This function returns the public key of an account.
+//
+// Args:
+// - option: The name of the option, used in the error messages
+// - value: A public key (G...) or the name of an identity
+export async function parseAccount(
+  option: string,
+  value: string,
+): Promise<string> {
+  if (StrKey.isValidEd25519PublicKey(value)) {
+    return value;
+  }
+  if (value.startsWith("G") && value.length === 56) {
+    throw new UsageError(`--${option} is not a valid public key.`);
+  }
+  // The keystore stores the public keys in clear, so no passphrase
+  // is needed for its identities
+  const identity = (await listIdentities()).find((id) => id.name === value);
+  if (identity) {
+    return identity.publicKey;
+  }
+  return (await resolveNamedIdentity(option, value)).publicKey();
+}
+
+export function parseAmount(option: string, value: string): string {
+  if (!AMOUNT_PATTERN.test(value) || Number(value) <= 0) {
+    throw new UsageError(
+      `--${option} must be a positive amount with up to 7 decimals, received '${value}'.`,
+    );
+  }
+  return value;
+}
+
+export function parseInteger(option: string, value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(
+      `--${option} must be a non-negative integer, received '${value}'.`,
+    );
+  }
+  return BigInt(value);
+}
+
+export function parseAssetCode(option: string, value: string): string {
+  if (!ASSET_CODE_PATTERN.test(value)) {
+    throw new UsageError(
+      `--${option} must be 1 to 12 letters or digits, received '${value}'.`,
+    );
+  }
+  return value;
+}
+
+// This function returns the asset identified by CODE:ISSUER, or the
+// native asset for "native" or "XLM".
+export function parseAsset(option: string, value: string): Asset {
+  if (value === "native" || value === "XLM") {
+    return Asset.native();
+  }
+
+  const [code, issuer, ...rest] = value.split(":");
+  if (!issuer || rest.length) {
+    throw new UsageError(
+      `--${option} must be 'native' or CODE:ISSUER, received '${value}'.`,
+    );
+  }
+  if (!StrKey.isValidEd25519PublicKey(issuer)) {
+    throw new UsageError(`--${option} has an invalid issuer '${issuer}'.`);
+  }
+  return new Asset(parseAssetCode(option, code), issuer);
+}
+
+export function parseContractId(option: string, value: string): string {
+  if (!StrKey.isValidContract(value)) {
+    throw new UsageError(`--${option} is not a valid contract ID (C...).`);
+  }
+  return value;
+}
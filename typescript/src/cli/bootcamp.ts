@@ -0,0 +1,170 @@
+/*
+    This script is the command-line interface of the bootcamp. It runs the
+    use cases with the accounts, assets and amounts given as arguments,
+    instead of the values hardcoded in their demos.
+
+    Commands are grouped by topic, e.g. `account create` or `asset issue`.
+    Accounts are given as keys (G... or S...) or as the names of identities
+    of the keystore or of the Stellar CLI.
+
+    Global options must come before the command and override the
+    environment variables with the same purpose:
+    --network      STELLAR_NETWORK
+    --explorer     STELLAR_EXPLORER
+    --log-format   STELLAR_LOG_FORMAT
+    --log-level    STELLAR_LOG_LEVEL
+
+    Exit codes:
+    0  The command succeeded
+    1  The command failed, e.g. a transaction was rejected
+    2  The command line is invalid
+
+    Usage:
+    deno task bootcamp --help
+    deno task bootcamp --network local account create --admin alice --destination bob
+    deno task bootcamp asset issue --issuer issuer --distribution alice --code BOOT
+*/
+
+import {
+  type Command,
+  EXIT_FAILURE,
+  EXIT_SUCCESS,
+  EXIT_USAGE,
+  formatCommandHelp,
+  formatProgramHelp,
+  parseCommandArgs,
+  UsageError,
+} from "./command.ts";
+
+const PROGRAM = "bootcamp";
+
+// Each global option sets the environment variable read by the network
+// profile or the logger
+const GLOBAL_OPTIONS: Record<string, { env: string; description: string }> = {
+  "--network": {
+    env: "STELLAR_NETWORK",
+    description: "Network: testnet, futurenet, pubnet, local or custom",
+  },
+  "--explorer": {
+    env: "STELLAR_EXPLORER",
+    description: "Explorer: stellar.expert, stellarchain or horizon",
+  },
+  "--log-format": {
+    env: "STELLAR_LOG_FORMAT",
+    description: "Log format: pretty, json or silent",
+  },
+  "--log-level": {
+    env: "STELLAR_LOG_LEVEL",
+    description: "Log level: debug, info, warn or error",
+  },
+};
+
+// This function applies the global options at the start of the arguments
+// and returns the remaining arguments.
+function applyGlobalOptions(args: string[]): string[] {
+  const remaining = [...args];
+  while (remaining[0]?.startsWith("--")) {
+    const [flag, inlineValue] = remaining[0].split(/=(.*)/s);
+    const option = GLOBAL_OPTIONS[flag];
+    if (!option) {
+      break;
+    }
+    remaining.shift();
+    const value = inlineValue ?? remaining.shift();
+    if (!value) {
+      throw new UsageError(`Missing value for the global option ${flag}.`);
+    }
+    Deno.env.set(option.env, value);
+  }
+  return remaining;
+}
+
+const isHelp = (arg?: string) => arg === "--help" || arg === "-h";
+
+function printProgramHelp(commands: Command[]) {
+  console.log(
+    formatProgramHelp(
+      commands,
+      PROGRAM,
+      Object.fromEntries(
+        Object.entries(GLOBAL_OPTIONS).map((
+          [flag, option],
+        ) => [`${flag} <VALUE>`, option.description]),
+      ),
+    ),
+  );
+}
+
+async function main(args: string[]): Promise<number> {
+  let commandArgs: string[];
+  try {
+    commandArgs = applyGlobalOptions(args);
+  } catch (e) {
+    console.error((e as Error).message);
+    return EXIT_USAGE;
+  }
+
+  // The commands are loaded once the global options are applied, since
+  // the network and the logger are configured when they are imported
+  let modules;
+  try {
+    modules = await Promise.all([
+      import("./commands.ts"),
+      import("../utils/logger.ts"),
+    ]);
+  } catch (e) {
+    // e.g. an unknown network or log format
+    console.error((e as Error).message);
+    return EXIT_USAGE;
+  }
+  const [{ COMMANDS }, { LOGGER }] = modules;
+
+  const [group, name, ...rest] = commandArgs;
+  if (!group || isHelp(group)) {
+    printProgramHelp(COMMANDS);
+    return group ? EXIT_SUCCESS : EXIT_USAGE;
+  }
+
+  const groupCommands = COMMANDS.filter((command) => command.group === group);
+  if (!groupCommands.length) {
+    console.error(`Unknown command '${group}'.\n`);
+    printProgramHelp(COMMANDS);
+    return EXIT_USAGE;
+  }
+
+  const command = groupCommands.find((command) => command.name === name);
+  if (!command) {
+    if (name && !isHelp(name)) {
+      console.error(`Unknown command '${group} ${name}'.\n`);
+    }
+    printProgramHelp(groupCommands);
+    return isHelp(name) ? EXIT_SUCCESS : EXIT_USAGE;
+  }
+
+  if (rest.some(isHelp)) {
+    console.log(formatCommandHelp(command, PROGRAM));
+    return EXIT_SUCCESS;
+  }
+
+  try {
+    const { options, positionals } = parseCommandArgs(command, rest);
+    const result = await command.run(options, positionals);
+    LOGGER.info("");
+    LOGGER.info("Done!", result === undefined ? undefined : { result });
+    return EXIT_SUCCESS;
+  } catch (e) {
+    if (e instanceof UsageError) {
+      console.error(`${e.message}\n`);
+      console.error(formatCommandHelp(command, PROGRAM));
+      return EXIT_USAGE;
+    }
+    LOGGER.error(`${group} ${name} failed: ${(e as Error).message}`, {
+      error: (e as Error).name,
+    });
+    return EXIT_FAILURE;
+  }
+}
+
+if (import.meta.main) {
+  Deno.exit(await main(Deno.args));
+}
@@ -0,0 +1,167 @@
+/*
+    This script defines the structure of the commands of the bootcamp CLI,
+    how their arguments are parsed and validated, and how their help is
+    printed.
+
+    It must not import the use cases or the infrastructure: they read the
+    network and the logger options when they are loaded, which only happens
+    after the global options (e.g. --network) have been applied.
+*/
+
+import { parseArgs } from "node:util";
+
+// Exit codes of the CLI
+export const EXIT_SUCCESS = 0;
+// The command ran but failed, e.g. a transaction was rejected
+export const EXIT_FAILURE = 1;
+// The command line is invalid, e.g. an unknown command or a missing option
+export const EXIT_USAGE = 2;
+
+export interface CommandOption {
+  description: string;
+  // Boolean options are flags and take no value
+  type?: "string" | "boolean";
+  required?: boolean;
+  // The option can be repeated, e.g. --signer alice --signer bob
+  multiple?: boolean;
+  default?: string;
+  // Name of the value in the help, e.g. --amount <AMOUNT>
+  valueName?: string;
+}
+
+export type OptionValues = Record<string, string | string[] | boolean>;
+
+export interface Command {
+  group: string;
+  name: string;
+  description: string;
+  options: Record<string, CommandOption>;
+  // Positional arguments, in order. They are all required.
+  positionals?: { name: string; description: string }[];
+  run: (options: OptionValues, positionals: string[]) => Promise<unknown>;
+}
+
+// Error thrown when the command line is invalid. The CLI prints the
+// message with the help of the command and exits with EXIT_USAGE.
+export class UsageError extends Error {
+  constructor(message: string, readonly command?: Command) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+// This function parses and validates the arguments of a command.
+export function parseCommandArgs(
+  command: Command,
+  args: string[],
+): { options: OptionValues; positionals: string[] } {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      strict: true,
+      options: Object.fromEntries(
+        Object.entries(command.options).map(([name, option]) => [
+          name,
+          {
+            type: option.type ?? "string",
+            multiple: option.multiple ?? false,
+            ...(option.default !== undefined && { default: option.default }),
+          },
+        ]),
+      ),
+    });
+  } catch (e) {
+    throw new UsageError((e as Error).message, command);
+  }
+
+  const expected = command.positionals ?? [];
+  if (parsed.positionals.length !== expected.length) {
+    throw new UsageError(
+      `Expected ${expected.length} argument(s), received ${parsed.positionals.length}.`,
+      command,
+    );
+  }
+
+  for (const [name, option] of Object.entries(command.options)) {
+    if (option.required && parsed.values[name] === undefined) {
+      throw new UsageError(`Missing required option --${name}.`, command);
+    }
+  }
+
+  return {
+    options: parsed.values as OptionValues,
+    positionals: parsed.positionals,
+  };
+}
+
+// This function formats the help of a command.
+export function formatCommandHelp(command: Command, program: string): string {
+  const positionals = (command.positionals ?? []).map((arg) => `<${arg.name}>`);
+  const lines = [
+    command.description,
+    "",
+    `Usage: ${program} ${command.group} ${command.name} ${
+      [...positionals, "[options]"].join(" ")
+    }`,
+  ];
+
+  if (command.positionals?.length) {
+    lines.push("", "Arguments:");
+    for (const arg of command.positionals) {
+      lines.push(`  ${`<${arg.name}>`.padEnd(26)}${arg.description}`);
+    }
+  }
+
+  lines.push("", "Options:");
+  for (const [name, option] of Object.entries(command.options)) {
+    const flag = option.type === "boolean"
+      ? `--${name}`
+      : `--${name} <${option.valueName ?? name.toUpperCase()}>`;
+    const notes = [
+      option.required ? "required" : undefined,
+      option.multiple ? "repeatable" : undefined,
+      option.default !== undefined ? `default: ${option.default}` : undefined,
+    ].filter(Boolean);
+    lines.push(
+      `  ${flag.padEnd(26)}${option.description}${
+        notes.length ? ` (${notes.join(", ")})` : ""
+      }`,
+    );
+  }
+  lines.push(`  ${"--help".padEnd(26)}Show this help`);
+
+  return lines.join("\n");
+}
+
+// This function formats the list of commands of the CLI.
+export function formatProgramHelp(
+  commands: Command[],
+  program: string,
+  globalOptions: Record<string, string>,
+): string {
+  const lines = [
+    `Usage: ${program} [global options] <group> <command> [options]`,
+    "",
+    "Commands:",
+  ];
+  for (const command of commands) {
+    lines.push(
+      `  ${
+        `${command.group} ${command.name}`.padEnd(30)
+      }${command.description}`,
+    );
+  }
+
+  lines.push("", "Global options:");
+  for (const [flag, description] of Object.entries(globalOptions)) {
+    lines.push(`  ${flag.padEnd(30)}${description}`);
+  }
+  lines.push(
+    "",
+    `Run '${program} <group> <command> --help' for the options of a command.`,
+  );
+
+  return lines.join("\n");
+}
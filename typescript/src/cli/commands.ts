@@ -0,0 +1,1176 @@
+/*
+    This script lists the commands of the bootcamp CLI. Each command parses
+    its options and calls the use case that does the actual work, so the
+    use cases can be run with any account, asset or amount instead of the
+    values hardcoded in their demos.
+
+    This module is only loaded once the global options have been applied,
+    since the use cases read the network and the logger options on import.
+*/
+
+import chalk from "chalk";
+import { Buffer } from "node:buffer";
+import { Keypair, type SignerKeyOptions, StrKey } from "@stellar/stellar-sdk";
+import {
+  exportSecret,
+  importCliIdentity,
+  importSecret,
+  listIdentities,
+  removeIdentity,
+  saveIdentity,
+} from "../infrastructure/keystore/keystore.ts";
+import { LOGGER, loggerOptionsFromEnv } from "../utils/logger.ts";
+import createAccount from "../use cases/classic/account/create-account.ts";
+import createAccountWithTrustline from "../use cases/classic/account/create-account-with-trustline.ts";
+import generateKeypair from "../use cases/classic/account/generate-keypair.ts";
+import generateVanityKeypair from "../use cases/classic/account/generate-vanity-keypair.ts";
+import initalizeWithFriendbot from "../use cases/classic/account/initialize-with-friendbot.ts";
+import inspectAccount from "../use cases/classic/account/inspect-account.ts";
+import provisionAccounts from "../use cases/classic/account/provision-accounts.ts";
+import teardownAccount, {
+  planTeardown,
+} from "../use cases/classic/account/teardown-account.ts";
+import createSponsoredAccountWithTrustline from "../use cases/classic/account/sponsor-account.ts";
+import {
+  DATA_CODECS,
+  type DataCodec,
+  deleteDataEntry,
+  getDataEntry,
+  listDataEntries,
+  setDataEntry,
+} from "../use cases/classic/account/manage-data.ts";
+import createAsset from "../use cases/classic/asset/create-asset-and-mint.ts";
+import {
+  listSponsorships,
+  logSponsorships,
+  revokeSponsorship,
+  sponsorDataEntry,
+  type SponsoredEntry,
+  sponsorSigner,
+  sponsorTrustlines,
+  transferSponsorship,
+} from "../use cases/classic/sponsorship/sponsorships.ts";
+import {
+  generateStellarToml,
+  serveStellarToml,
+  setHomeDomain,
+  STELLAR_TOML_PATH,
+  validateStellarToml,
+} from "../use cases/classic/asset/stellar-toml.ts";
+import {
+  clawback,
+  createTrustline,
+  enableControlFlags,
+  makePayment,
+  setTrustlineAuthorization,
+} from "../use cases/classic/asset/configure-flags.ts";
+import {
+  configureMultisig,
+  configureSigners,
+  makeMultisigPayment,
+} from "../use cases/classic/authorization/multisig.ts";
+import * as counter from "../use cases/soroban/counter/counter.ts";
+import * as events from "../use cases/soroban/events/events.ts";
+import { runScenarioFile } from "../scenarios/scenario-runner.ts";
+import { defaultContext } from "../infrastructure/context/stellar-context.ts";
+import { createSimulatorContext } from "../infrastructure/simulator/simulated-horizon.ts";
+import {
+  parseAccount,
+  parseAmount,
+  parseAsset,
+  parseAssetCode,
+  parseContractId,
+  parseInteger,
+  parseSigner,
+} from "./arguments.ts";
+import { type Command, type CommandOption, UsageError } from "./command.ts";
+
+// Options shared by several commands
+const signerOption = (description: string): CommandOption => ({
+  description: `${description}: secret key or identity`,
+  required: true,
+  valueName: "SIGNER",
+});
+const accountOption = (description: string): CommandOption => ({
+  description: `${description}: public key or identity`,
+  required: true,
+  valueName: "ACCOUNT",
+});
+const amountOption = (description: string, value?: string): CommandOption => ({
+  description,
+  required: value === undefined,
+  default: value,
+  valueName: "AMOUNT",
+});
+const contractOption: CommandOption = {
+  description: "Contract ID, defaults to the contract deployed to testnet",
+  valueName: "CONTRACT",
+};
+
+// parseArgs returns every value as a string, except for boolean and
+// repeatable options
+const text = (value: unknown) => value as string;
+const optionalText = (value: unknown) => value as string | undefined;
+
+// The asset of a trustline is issued by the issuer given on the command
+// line, so only its code is needed
+const issuedAsset = (issuer: string, code: string) =>
+  parseAsset("asset", `${parseAssetCode("asset", code)}:${issuer}`);
+
+// Options identifying a sponsored entry of an account. Without any of
+// them, the entry is the account itself.
+const entryOptions: Record<string, CommandOption> = {
+  account: accountOption("Account owning the entry"),
+  trustline: { description: "Trustline to an asset", valueName: "CODE:ISSUER" },
+  signer: {
+    description: "Signer of the account: public key or identity",
+    valueName: "ACCOUNT",
+  },
+  data: { description: "Name of a data entry", valueName: "NAME" },
+  offer: { description: "ID of an offer of the account", valueName: "ID" },
+};
+
+async function parseEntry(
+  options: Record<string, unknown>,
+): Promise<SponsoredEntry> {
+  const account = await parseAccount("account", text(options.account));
+  const given = ["trustline", "signer", "data", "offer"].filter((name) =>
+    options[name] !== undefined
+  );
+  if (given.length > 1) {
+    throw new UsageError(
+      `Expected at most one of --${given.join(", --")}, to identify the entry.`,
+    );
+  }
+
+  switch (given[0]) {
+    case "trustline":
+      return {
+        type: "trustline",
+        account,
+        asset: parseAsset("trustline", text(options.trustline)),
+      };
+    case "signer":
+      return {
+        type: "signer",
+        account,
+        signer: {
+          ed25519PublicKey: await parseAccount("signer", text(options.signer)),
+        },
+      };
+    case "data":
+      return { type: "data", account, name: text(options.data) };
+    case "offer":
+      return {
+        type: "offer",
+        seller: account,
+        offerId: parseInteger("offer", text(options.offer)).toString(),
+      };
+    default:
+      return { type: "account", account };
+  }
+}
+
+// Options identifying a signer of any type
+const signerKeyOptions: Record<string, CommandOption> = {
+  key: { description: "Public key or identity", valueName: "ACCOUNT" },
+  "hash-x": {
+    description: "SHA-256 hash of a secret, in hex",
+    valueName: "HASH",
+  },
+  "pre-auth-tx": {
+    description: "Hash of a pre-authorized transaction, in hex",
+    valueName: "HASH",
+  },
+  "signed-payload": {
+    description: "Signed payload signer (P...)",
+    valueName: "SIGNER",
+  },
+};
+
+function parseHash(option: string, value: string): Buffer {
+  if (!/^[0-9a-fA-F]{64}$/.test(value)) {
+    throw new UsageError(
+      `--${option} must be 32 bytes in hex, received '${value}'.`,
+    );
+  }
+  return Buffer.from(value, "hex");
+}
+
+async function parseSignerKey(
+  options: Record<string, unknown>,
+): Promise<SignerKeyOptions> {
+  const given = Object.keys(signerKeyOptions).filter((name) =>
+    options[name] !== undefined
+  );
+  if (given.length !== 1) {
+    throw new UsageError(
+      `Expected exactly one of --${
+        Object.keys(signerKeyOptions).join(", --")
+      }, to identify the signer.`,
+    );
+  }
+
+  const value = text(options[given[0]]);
+  switch (given[0]) {
+    case "hash-x":
+      return { sha256Hash: parseHash("hash-x", value) };
+    case "pre-auth-tx":
+      return { preAuthTx: parseHash("pre-auth-tx", value) };
+    case "signed-payload":
+      try {
+        StrKey.decodeSignedPayload(value);
+      } catch {
+        throw new UsageError(
+          `--signed-payload must be a signed payload signer, received '${value}'.`,
+        );
+      }
+      return { ed25519SignedPayload: value };
+    default:
+      return { ed25519PublicKey: await parseAccount("key", value) };
+  }
+}
+
+// Options of the value of a data entry
+const DATA_TYPES = Object.keys(DATA_CODECS) as (keyof typeof DATA_CODECS)[];
+const dataTypeOption: CommandOption = {
+  description: `Codec of the value: ${DATA_TYPES.join(", ")}`,
+  default: "string",
+  valueName: "TYPE",
+};
+
+function parseDataType(value: string): keyof typeof DATA_CODECS {
+  const type = DATA_TYPES.find((type) => type === value);
+  if (!type) {
+    throw new UsageError(
+      `--type must be one of ${DATA_TYPES.join(", ")}, received '${value}'.`,
+    );
+  }
+  return type;
+}
+
+// This function parses the value of a data entry and passes it to a
+// setter with its codec, e.g. 42 as an integer or {"a":1} as JSON.
+async function withDataValue<R>(
+  type: keyof typeof DATA_CODECS,
+  value: string,
+  set: <T>(value: T, codec: DataCodec<T>) => Promise<R>,
+): Promise<R> {
+  switch (type) {
+    case "integer":
+      if (!/^-?\d+$/.test(value)) {
+        throw new UsageError(
+          `--value must be an integer, received '${value}'.`,
+        );
+      }
+      return await set(BigInt(value), DATA_CODECS.integer);
+    case "json": {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(value);
+      } catch (e) {
+        throw new UsageError(
+          `--value is not valid JSON: ${(e as Error).message}`,
+        );
+      }
+      return await set(parsed, DATA_CODECS.json);
+    }
+    case "publicKey":
+      return await set(
+        await parseAccount("value", value),
+        DATA_CODECS.publicKey,
+      );
+    default:
+      return await set(value, DATA_CODECS[type]);
+  }
+}
+
+export const COMMANDS: Command[] = [
+  {
+    group: "account",
+    name: "generate",
+    description: "Generate a new keypair",
+    options: {
+      save: {
+        description: "Save the keypair in the keystore under this name",
+        valueName: "NAME",
+      },
+    },
+    run: async (options) => {
+      const keypair = await generateKeypair();
+      const name = optionalText(options.save);
+      if (name) {
+        await saveIdentity(name, keypair);
+        LOGGER.info(`Saved in the keystore as ${chalk.green(name)}.`);
+      }
+      return { publicKey: keypair.publicKey() };
+    },
+  },
+  {
+    group: "account",
+    name: "vanity",
+    description: "Search for an address with a chosen prefix and/or suffix",
+    options: {
+      prefix: { description: "Characters at the start of the address" },
+      suffix: { description: "Characters at the end of the address" },
+      workers: {
+        description: "Number of workers, defaults to the number of CPU cores",
+      },
+      save: {
+        description: "Save the keypair in the keystore under this name",
+        valueName: "NAME",
+      },
+    },
+    run: async (options) => {
+      if (!options.prefix && !options.suffix) {
+        throw new UsageError("Provide --prefix and/or --suffix.");
+      }
+      const workers = options.workers !== undefined
+        ? Number(parseInteger("workers", text(options.workers)))
+        : undefined;
+      if (workers !== undefined && workers < 1) {
+        throw new UsageError(
+          `--workers must be at least 1, received '${options.workers}'.`,
+        );
+      }
+      const { keypair, attempts, seconds } = await generateVanityKeypair({
+        prefix: optionalText(options.prefix),
+        suffix: optionalText(options.suffix),
+        workers,
+        saveAs: optionalText(options.save),
+      });
+      return { publicKey: keypair.publicKey(), attempts, seconds };
+    },
+  },
+  {
+    group: "account",
+    name: "fund",
+    description: "Fund an account with friendbot or the funder account",
+    options: {},
+    positionals: [{ name: "account", description: "Public key or identity" }],
+    run: async (_options, [account]) =>
+      await initalizeWithFriendbot(await parseAccount("account", account)),
+  },
+  {
+    group: "account",
+    name: "inspect",
+    description: "Show the balances, reserve, signers and flags of an account",
+    options: {},
+    positionals: [{ name: "account", description: "Public key or identity" }],
+    run: async (_options, [account]) =>
+      await inspectAccount(await parseAccount("account", account)),
+  },
+  {
+    group: "account",
+    name: "create",
+    description: "Create an account funded by an admin account",
+    options: {
+      admin: signerOption("Account paying for the new account"),
+      destination: accountOption("Account to create"),
+      balance: amountOption("Starting balance in XLM", "2"),
+    },
+    run: async (options) =>
+      await createAccount(
+        await parseSigner("admin", text(options.admin)),
+        await parseAccount("destination", text(options.destination)),
+        parseAmount("balance", text(options.balance)),
+      ),
+  },
+  {
+    group: "account",
+    name: "create-with-trustline",
+    description: "Create an account with a trustline to an admin asset",
+    options: {
+      admin: signerOption("Account paying for the new account"),
+      account: signerOption("Account to create"),
+      asset: {
+        description: "Code of the asset issued by the admin account",
+        required: true,
+        valueName: "CODE",
+      },
+    },
+    run: async (options) =>
+      await createAccountWithTrustline(
+        await parseSigner("admin", text(options.admin)),
+        await parseSigner("account", text(options.account)),
+        parseAssetCode("asset", text(options.asset)),
+      ),
+  },
+  {
+    group: "account",
+    name: "sponsor",
+    description: "Create an account whose reserves are sponsored by the admin",
+    options: {
+      admin: signerOption("Sponsoring account"),
+      account: signerOption("Account to create"),
+      asset: {
+        description: "Code of the asset issued by the admin account",
+        default: "TEST",
+        valueName: "CODE",
+      },
+    },
+    run: async (options) =>
+      await createSponsoredAccountWithTrustline(
+        await parseSigner("admin", text(options.admin)),
+        await parseSigner("account", text(options.account)),
+        parseAssetCode("asset", text(options.asset)),
+      ),
+  },
+  {
+    group: "account",
+    name: "provision",
+    description:
+      "Create many accounts, packed in transactions of up to 100 operations",
+    options: {
+      funder: signerOption("Account funding the new accounts"),
+      count: {
+        description: "Number of accounts to generate",
+        valueName: "COUNT",
+      },
+      account: {
+        description: "Account to create: secret key or identity",
+        multiple: true,
+        valueName: "SIGNER",
+      },
+      balance: {
+        description:
+          "Starting balance in XLM, defaults to 10 or 0 when sponsored",
+        valueName: "AMOUNT",
+      },
+      asset: {
+        description: "Asset trusted by the new accounts",
+        multiple: true,
+        valueName: "CODE:ISSUER",
+      },
+      sponsored: {
+        description: "Sponsor the reserves of the new accounts",
+        type: "boolean",
+      },
+      save: {
+        description:
+          "Save the generated keypairs in the keystore as PREFIX-1, PREFIX-2...",
+        valueName: "PREFIX",
+      },
+    },
+    run: async (options) => {
+      const signers = (options.account as string[] | undefined) ?? [];
+      if (!options.count === !signers.length) {
+        throw new UsageError("Expected either --count or --account.");
+      }
+      const accounts = options.count
+        ? Number(parseInteger("count", text(options.count)))
+        : await Promise.all(
+          signers.map((signer) => parseSigner("account", signer)),
+        );
+      const sponsored = options.sponsored as boolean | undefined;
+      const result = await provisionAccounts(
+        await parseSigner("funder", text(options.funder)),
+        accounts,
+        {
+          // Sponsored accounts do not need XLM for their reserves
+          startingBalance: options.balance
+            ? parseAmount("balance", text(options.balance))
+            : sponsored
+            ? "0"
+            : "10",
+          assets: ((options.asset as string[] | undefined) ?? []).map((
+            asset,
+          ) => parseAsset("asset", asset)),
+          sponsored,
+        },
+      );
+
+      const prefix = optionalText(options.save);
+      if (prefix && options.count) {
+        for (const [index, account] of result.accounts.entries()) {
+          if (account.created) {
+            await saveIdentity(`${prefix}-${index + 1}`, account.keypair!);
+          }
+        }
+        LOGGER.info(`Saved in the keystore as ${chalk.green(`${prefix}-N`)}.`);
+      }
+      return result.accounts.map(({ keypair: _keypair, ...account }) =>
+        account
+      );
+    },
+  },
+  {
+    group: "account",
+    name: "teardown",
+    description:
+      "Remove the offers, trustlines, data and signers of an account and merge it",
+    options: {
+      account: signerOption("Account to tear down"),
+      destination: accountOption("Account receiving the remaining XLM"),
+      signer: {
+        description:
+          "Signer of the teardown, defaults to the account: secret key or identity",
+        multiple: true,
+        valueName: "SIGNER",
+      },
+      "dry-run": {
+        description: "Only plan the operations, without submitting them",
+        type: "boolean",
+      },
+    },
+    run: async (options) => {
+      const account = await parseSigner("account", text(options.account));
+      const destination = await parseAccount(
+        "destination",
+        text(options.destination),
+      );
+      if (options["dry-run"]) {
+        const { batches, ...plan } = await planTeardown(
+          account.publicKey(),
+          destination,
+        );
+        return { ...plan, transactions: batches.map((ops) => ops.length) };
+      }
+      const signers = options.signer as string[] | undefined;
+      return await teardownAccount(
+        account,
+        destination,
+        signers?.length
+          ? await Promise.all(
+            signers.map((signer) => parseSigner("signer", signer)),
+          )
+          : undefined,
+      );
+    },
+  },
+  {
+    group: "asset",
+    name: "issue",
+    description: "Issue an asset and mint it to a distribution account",
+    options: {
+      issuer: signerOption("Issuer account"),
+      distribution: signerOption("Distribution account"),
+      code: {
+        description: "Code of the asset",
+        required: true,
+        valueName: "CODE",
+      },
+      amount: amountOption("Amount minted", "1000000"),
+    },
+    run: async (options) =>
+      await createAsset(
+        await parseSigner("issuer", text(options.issuer)),
+        await parseSigner("distribution", text(options.distribution)),
+        parseAssetCode("code", text(options.code)),
+        parseAmount("amount", text(options.amount)),
+      ),
+  },
+  {
+    group: "asset",
+    name: "flags",
+    description:
+      "Enable the AUTH_REQUIRED, AUTH_REVOCABLE and AUTH_CLAWBACK_ENABLED flags",
+    options: { issuer: signerOption("Issuer account") },
+    run: async (options) =>
+      await enableControlFlags(
+        await parseSigner("issuer", text(options.issuer)),
+      ),
+  },
+  {
+    group: "asset",
+    name: "clawback",
+    description: "Claw back an asset from an account",
+    options: {
+      issuer: signerOption("Issuer account"),
+      from: accountOption("Account holding the asset"),
+      asset: {
+        description: "Code of the asset",
+        required: true,
+        valueName: "CODE",
+      },
+      amount: amountOption("Amount to claw back"),
+    },
+    run: async (options) => {
+      const issuer = await parseSigner("issuer", text(options.issuer));
+      return await clawback(
+        issuer,
+        await parseAccount("from", text(options.from)),
+        issuedAsset(issuer.publicKey(), text(options.asset)),
+        parseAmount("amount", text(options.amount)),
+      );
+    },
+  },
+  {
+    group: "toml",
+    name: "home-domain",
+    description: "Set the home domain serving the stellar.toml of an issuer",
+    options: {
+      issuer: signerOption("Issuer account"),
+      domain: {
+        description: "Domain, without protocol, e.g. bootcamp.example",
+        required: true,
+        valueName: "DOMAIN",
+      },
+    },
+    run: async (options) =>
+      await setHomeDomain(
+        await parseSigner("issuer", text(options.issuer)),
+        text(options.domain),
+      ),
+  },
+  {
+    group: "toml",
+    name: "generate",
+    description: "Generate the stellar.toml of issuers from the network",
+    options: {
+      issuer: {
+        description: "Issuer of the assets: public key or identity",
+        required: true,
+        multiple: true,
+        valueName: "ACCOUNT",
+      },
+      "org-name": {
+        description: "Name of the organization",
+        valueName: "NAME",
+      },
+      output: {
+        description: "File to write, printed otherwise",
+        valueName: "FILE",
+      },
+    },
+    run: async (options) => {
+      const issuers = await Promise.all(
+        (options.issuer as string[]).map((issuer) =>
+          parseAccount("issuer", issuer)
+        ),
+      );
+      const orgName = optionalText(options["org-name"]);
+      const toml = await generateStellarToml(issuers, {
+        documentation: orgName ? { ORG_NAME: orgName } : undefined,
+      });
+      const output = optionalText(options.output);
+      if (output) {
+        await Deno.writeTextFile(output, toml);
+        LOGGER.info(`Written to ${chalk.green(output)}.`);
+      } else {
+        LOGGER.info(`\n${toml}`);
+      }
+    },
+  },
+  {
+    group: "toml",
+    name: "validate",
+    description: "Check the stellar.toml of a domain against the network",
+    options: {
+      http: {
+        description: "Read the file over http, e.g. from toml serve",
+        type: "boolean",
+      },
+    },
+    positionals: [{ name: "domain", description: "e.g. bootcamp.example" }],
+    run: async (options, [domain]) => {
+      const { problems } = await validateStellarToml(
+        domain,
+        options.http === true,
+      );
+      if (problems.length) {
+        throw new Error(
+          `The stellar.toml of ${domain} has ${problems.length} problems.`,
+        );
+      }
+    },
+  },
+  {
+    group: "toml",
+    name: "serve",
+    description: "Serve a stellar.toml locally at /.well-known/stellar.toml",
+    options: {
+      port: { description: "Port", default: "8002", valueName: "PORT" },
+    },
+    positionals: [{ name: "file", description: "Path of the stellar.toml" }],
+    run: async (options, [file]) => {
+      const port = Number(parseInteger("port", text(options.port)));
+      const server = serveStellarToml(await Deno.readTextFile(file), port);
+      LOGGER.info(
+        `Serving ${
+          chalk.green(file)
+        } at http://localhost:${port}${STELLAR_TOML_PATH}`,
+      );
+      await server.finished;
+    },
+  },
+  {
+    group: "trustline",
+    name: "create",
+    description: "Create a trustline to an asset",
+    options: {
+      account: signerOption("Account trusting the asset"),
+      asset: {
+        description: "Asset to trust",
+        required: true,
+        valueName: "CODE:ISSUER",
+      },
+    },
+    run: async (options) =>
+      await createTrustline(
+        await parseSigner("account", text(options.account)),
+        parseAsset("asset", text(options.asset)),
+      ),
+  },
+  ...[true, false].map((authorize): Command => ({
+    group: "trustline",
+    name: authorize ? "authorize" : "deauthorize",
+    description: `${
+      authorize ? "Authorize" : "Deauthorize"
+    } the trustline of an account`,
+    options: {
+      issuer: signerOption("Issuer account"),
+      account: accountOption("Account holding the trustline"),
+      asset: {
+        description: "Code of the asset",
+        required: true,
+        valueName: "CODE",
+      },
+    },
+    run: async (options) => {
+      const issuer = await parseSigner("issuer", text(options.issuer));
+      return await setTrustlineAuthorization(
+        issuer,
+        await parseAccount("account", text(options.account)),
+        issuedAsset(issuer.publicKey(), text(options.asset)),
+        authorize,
+      );
+    },
+  })),
+  {
+    group: "payment",
+    name: "send",
+    description: "Send a payment",
+    options: {
+      from: signerOption("Sending account"),
+      to: accountOption("Receiving account"),
+      asset: {
+        description: "Asset to send, 'native' or CODE:ISSUER",
+        default: "native",
+        valueName: "ASSET",
+      },
+      amount: amountOption("Amount to send"),
+    },
+    run: async (options) =>
+      await makePayment(
+        await parseSigner("from", text(options.from)),
+        await parseAccount("to", text(options.to)),
+        parseAsset("asset", text(options.asset)),
+        parseAmount("amount", text(options.amount)),
+      ),
+  },
+  {
+    group: "multisig",
+    name: "configure",
+    description:
+      "Add two signers with weights 1 and 2 and thresholds of 1, 2 and 3",
+    options: {
+      account: signerOption("Account to configure"),
+      signer: {
+        description: "Signer to add: public key or identity",
+        required: true,
+        multiple: true,
+        valueName: "ACCOUNT",
+      },
+    },
+    run: async (options) => {
+      const signers = options.signer as string[];
+      if (signers.length !== 2) {
+        throw new UsageError(
+          `Expected 2 --signer options, received ${signers.length}.`,
+        );
+      }
+      // Only the public keys of the signers are needed to add them
+      const [signer1, signer2] = await Promise.all(
+        signers.map(async (signer) =>
+          Keypair.fromPublicKey(await parseAccount("signer", signer))
+        ),
+      );
+      return await configureMultisig(
+        await parseSigner("account", text(options.account)),
+        signer1,
+        signer2,
+      );
+    },
+  },
+  {
+    group: "multisig",
+    name: "pay",
+    description: "Send an XLM payment from a multisig account",
+    options: {
+      account: accountOption("Multisig account"),
+      to: accountOption("Receiving account"),
+      amount: amountOption("Amount of XLM to send"),
+      signer: {
+        description: "Signer of the payment: secret key or identity",
+        required: true,
+        multiple: true,
+        valueName: "SIGNER",
+      },
+    },
+    run: async (options) => {
+      const signers = await Promise.all(
+        (options.signer as string[]).map((signer) =>
+          parseSigner("signer", signer)
+        ),
+      );
+      return await makeMultisigPayment(
+        Keypair.fromPublicKey(
+          await parseAccount("account", text(options.account)),
+        ),
+        await parseAccount("to", text(options.to)),
+        parseAmount("amount", text(options.amount)),
+        signers,
+      );
+    },
+  },
+  {
+    group: "multisig",
+    name: "signer",
+    description:
+      "Add, update or remove a signer of any type: key, hash(x), pre-authorized transaction or signed payload",
+    options: {
+      account: signerOption("Account to configure"),
+      ...signerKeyOptions,
+      weight: {
+        description: "Weight of the signer, 0 to remove it",
+        default: "1",
+        valueName: "WEIGHT",
+      },
+    },
+    run: async (options) =>
+      await configureSigners(
+        await parseSigner("account", text(options.account)),
+        [{
+          signer: await parseSignerKey(options),
+          weight: Number(parseInteger("weight", text(options.weight))),
+        }],
+      ),
+  },
+  {
+    group: "sponsorship",
+    name: "list",
+    description:
+      "List the entries an account sponsors and the entries sponsored for it",
+    options: {},
+    positionals: [{ name: "account", description: "Public key or identity" }],
+    run: async (_options, [account]) => {
+      const report = await listSponsorships(
+        await parseAccount("account", account),
+      );
+      logSponsorships(report);
+      return report;
+    },
+  },
+  {
+    group: "sponsorship",
+    name: "trustline",
+    description: "Create trustlines of an account with sponsored reserves",
+    options: {
+      sponsor: signerOption("Account paying the reserves"),
+      account: signerOption("Account trusting the assets"),
+      asset: {
+        description: "Asset to trust",
+        required: true,
+        multiple: true,
+        valueName: "CODE:ISSUER",
+      },
+    },
+    run: async (options) =>
+      await sponsorTrustlines(
+        await parseSigner("sponsor", text(options.sponsor)),
+        await parseSigner("account", text(options.account)),
+        (options.asset as string[]).map((asset) => parseAsset("asset", asset)),
+      ),
+  },
+  {
+    group: "sponsorship",
+    name: "signer",
+    description: "Add a signer to an account with a sponsored reserve",
+    options: {
+      sponsor: signerOption("Account paying the reserve"),
+      account: signerOption("Account to add the signer to"),
+      signer: accountOption("Signer to add"),
+      weight: {
+        description: "Weight of the signer",
+        default: "1",
+        valueName: "WEIGHT",
+      },
+    },
+    run: async (options) =>
+      await sponsorSigner(
+        await parseSigner("sponsor", text(options.sponsor)),
+        await parseSigner("account", text(options.account)),
+        {
+          ed25519PublicKey: await parseAccount("signer", text(options.signer)),
+        },
+        Number(parseInteger("weight", text(options.weight))),
+      ),
+  },
+  {
+    group: "sponsorship",
+    name: "revoke",
+    description:
+      "Revoke the sponsorship of an entry, so its owner pays for its reserve",
+    options: {
+      sponsor: signerOption("Current sponsor of the entry"),
+      ...entryOptions,
+    },
+    run: async (options) =>
+      await revokeSponsorship(
+        await parseSigner("sponsor", text(options.sponsor)),
+        await parseEntry(options),
+      ),
+  },
+  {
+    group: "sponsorship",
+    name: "transfer",
+    description: "Transfer the sponsorship of an entry to another sponsor",
+    options: {
+      sponsor: signerOption(
+        "Current sponsor of the entry, or its owner when not sponsored",
+      ),
+      to: signerOption("New sponsor of the entry"),
+      ...entryOptions,
+    },
+    run: async (options) =>
+      await transferSponsorship(
+        await parseSigner("sponsor", text(options.sponsor)),
+        await parseSigner("to", text(options.to)),
+        await parseEntry(options),
+      ),
+  },
+  {
+    group: "data",
+    name: "set",
+    description: "Set a data entry of an account, with a typed value",
+    options: {
+      account: signerOption("Account to set the entry of"),
+      name: { description: "Name of the entry", required: true },
+      value: { description: "Value of the entry", required: true },
+      type: dataTypeOption,
+      sponsor: {
+        description:
+          "Account paying the reserve of the entry: secret key or identity",
+        valueName: "SIGNER",
+      },
+    },
+    run: async (options) => {
+      const account = await parseSigner("account", text(options.account));
+      const sponsor = options.sponsor
+        ? await parseSigner("sponsor", text(options.sponsor))
+        : undefined;
+      const name = text(options.name);
+      return await withDataValue(
+        parseDataType(text(options.type)),
+        text(options.value),
+        (value, codec) =>
+          sponsor
+            ? sponsorDataEntry(sponsor, account, name, value, codec)
+            : setDataEntry(account, name, value, codec),
+      );
+    },
+  },
+  {
+    group: "data",
+    name: "get",
+    description: "Read a data entry of an account",
+    options: {
+      account: accountOption("Account owning the entry"),
+      name: { description: "Name of the entry", required: true },
+      type: dataTypeOption,
+    },
+    run: async (options) => {
+      const name = text(options.name);
+      const codec = DATA_CODECS[parseDataType(text(options.type))];
+      const value = await getDataEntry(
+        await parseAccount("account", text(options.account)),
+        name,
+        codec,
+      );
+      if (value === undefined) {
+        throw new Error(`The account has no data entry '${name}'.`);
+      }
+      return { name, value };
+    },
+  },
+  {
+    group: "data",
+    name: "delete",
+    description: "Remove a data entry of an account, releasing its reserve",
+    options: {
+      account: signerOption("Account owning the entry"),
+      name: { description: "Name of the entry", required: true },
+    },
+    run: async (options) =>
+      await deleteDataEntry(
+        await parseSigner("account", text(options.account)),
+        text(options.name),
+      ),
+  },
+  {
+    group: "data",
+    name: "list",
+    description: "List the data entries of an account, decoded as text or hex",
+    options: {},
+    positionals: [{ name: "account", description: "Public key or identity" }],
+    run: async (_options, [account]) =>
+      await listDataEntries(await parseAccount("account", account)),
+  },
+  {
+    group: "counter",
+    name: "read",
+    description: "Read the value of the counter contract",
+    options: {
+      admin: signerOption("Account simulating the call"),
+      contract: contractOption,
+    },
+    run: async (options) => {
+      const client = await counter.createContractClient(
+        await parseSigner("admin", text(options.admin)),
+        options.contract
+          ? parseContractId("contract", text(options.contract))
+          : undefined,
+      );
+      return { count: await counter.readCounter(client) };
+    },
+  },
+  ...[true, false].map((add): Command => ({
+    group: "counter",
+    name: add ? "add" : "sub",
+    description: `${add ? "Add to" : "Subtract from"} the counter contract`,
+    options: {
+      admin: signerOption("Account signing the transaction"),
+      amount: { description: "Amount", required: true, valueName: "AMOUNT" },
+      contract: contractOption,
+    },
+    run: async (options) => {
+      const amount = parseInteger("amount", text(options.amount));
+      const client = await counter.createContractClient(
+        await parseSigner("admin", text(options.admin)),
+        options.contract
+          ? parseContractId("contract", text(options.contract))
+          : undefined,
+      );
+      const count = add
+        ? await counter.incrementCounter(client, amount)
+        : await counter.decrementCounter(client, amount);
+      return { count };
+    },
+  })),
+  {
+    group: "events",
+    name: "emit",
+    description: "Emit the default event, or a custom event with a message",
+    options: {
+      admin: signerOption("Account signing the transaction"),
+      message: { description: "Message of a custom event" },
+      contract: contractOption,
+    },
+    run: async (options) => {
+      const client = await events.createContractClient(
+        await parseSigner("admin", text(options.admin)),
+        options.contract
+          ? parseContractId("contract", text(options.contract))
+          : undefined,
+      );
+      const message = optionalText(options.message);
+      if (message) {
+        await events.emitCustomEvent(client, message);
+      } else {
+        await events.emitDefaultEvent(client);
+      }
+    },
+  },
+  {
+    group: "scenario",
+    name: "run",
+    description: "Run a JSON or YAML scenario and report its steps",
+    options: {
+      simulator: {
+        description:
+          "Run on a new ledger simulator instead of the network, offline",
+        type: "boolean",
+      },
+    },
+    positionals: [{ name: "file", description: "Path of the scenario" }],
+    run: async (options, [file]) => {
+      const report = await runScenarioFile(
+        file,
+        options.simulator ? createSimulatorContext() : defaultContext(),
+      );
+      if (!report.passed) {
+        throw new Error(`The scenario '${report.name}' did not pass.`);
+      }
+      return { passed: report.passed };
+    },
+  },
+  {
+    group: "identity",
+    name: "list",
+    description: "List the identities of the keystore",
+    options: {},
+    run: async () => {
+      const identities = await listIdentities();
+      identities.forEach((identity) =>
+        LOGGER.info(
+          `${chalk.blue(identity.name)}: ${chalk.green(identity.publicKey)}`,
+        )
+      );
+      return { identities };
+    },
+  },
+  {
+    group: "identity",
+    name: "import",
+    description:
+      "Import a secret key, or an identity of the Stellar CLI, in the keystore",
+    options: {
+      secret: {
+        description: "Secret key to import, instead of a Stellar CLI identity",
+        valueName: "SECRET",
+      },
+      overwrite: {
+        description: "Replace an existing identity with the same name",
+        type: "boolean",
+      },
+    },
+    positionals: [{ name: "name", description: "Name of the identity" }],
+    run: async (options, [name]) => {
+      const secret = optionalText(options.secret);
+      const overwrite = options.overwrite === true;
+      const identity = secret
+        ? await importSecret(name, secret, undefined, overwrite)
+        : await importCliIdentity(name, undefined, overwrite);
+      LOGGER.info(`Imported ${chalk.green(identity.publicKey)}.`);
+      return identity;
+    },
+  },
+  {
+    group: "identity",
+    name: "export",
+    description: "Print the secret key of an identity",
+    options: {},
+    positionals: [{ name: "name", description: "Name of the identity" }],
+    run: async (_options, [name]) => {
+      const secret = await exportSecret(name);
+      // The logger would print the secret key redacted
+      LOGGER.info(
+        loggerOptionsFromEnv().redactSecrets
+          ? `Secret keys are redacted! Set STELLAR_LOG_REDACT=false to print it.`
+          : `Secret Key: ${chalk.red(secret)}`,
+      );
+    },
+  },
+  {
+    group: "identity",
+    name: "remove",
+    description: "Remove an identity from the keystore",
+    options: {},
+    positionals: [{ name: "name", description: "Name of the identity" }],
+    run: async (_options, [name]) => {
+      await removeIdentity(name);
+      LOGGER.info(`Removed ${chalk.blue(name)}.`);
+    },
+  },
+];
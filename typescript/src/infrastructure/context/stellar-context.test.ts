@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { NETWORK_PROFILES } from "../network/network-profile.ts";
+import { FEE_POLICY } from "../transaction/fee-policy.ts";
+import {
+  createContext,
+  defaultContext,
+  setDefaultContext,
+} from "./stellar-context.ts";
+
+Deno.test("the default context replaces its network and clients together", () => {
+  const initial = defaultContext();
+  try {
+    setDefaultContext({ network: NETWORK_PROFILES.local });
+    const local = defaultContext();
+    assert.equal(local.network, NETWORK_PROFILES.local);
+    assert.notEqual(local.horizon, initial.horizon);
+    assert.notEqual(local.sequences, initial.sequences);
+    // The clients are created once per default context
+    assert.equal(defaultContext().horizon, local.horizon);
+    // The policies are shared with the module defaults
+    assert.equal(local.feePolicy, FEE_POLICY);
+
+    // New contexts are created on the network of the default context,
+    // with their own policies
+    const context = createContext();
+    assert.equal(context.network, NETWORK_PROFILES.local);
+    assert.notEqual(context.horizon, local.horizon);
+    assert.notEqual(context.feePolicy, FEE_POLICY);
+    assert.deepEqual(context.feePolicy, FEE_POLICY);
+  } finally {
+    setDefaultContext();
+  }
+  assert.equal(defaultContext().network, initial.network);
+});
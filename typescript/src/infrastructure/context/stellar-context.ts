@@ -0,0 +1,157 @@
+/*
+    This script defines the context the use cases run in: the network, its
+    clients and the policies of the transaction pipeline.
+
+    Every use case accepts an optional context as its last argument. Without
+    one, it runs in the default context, built by the same factory as any
+    other context from:
+    - DEFAULT_NETWORK (network-profile.ts), and its Horizon and RPC clients
+    - LOGGER (logger.ts)
+    - FEE_POLICY (fee-policy.ts) and RETRY_POLICY (retry-policy.ts)
+    - FUNDING_POLICY (funding-policy.ts)
+
+    The network and the clients of the default context are only replaced
+    together, with setDefaultContext, so they always target the same
+    network. The policies are shared with the module defaults, so
+    configureFeePolicy and the like apply to the default context.
+
+    A context can target another network, or a test double, without changing
+    the defaults. Contexts are independent, so flows on different networks
+    can run in the same process. e.g.
+
+    const quickstart = createContext({ network: NETWORK_PROFILES.local });
+    await createAccount(admin, newPublicKey, "10", quickstart);
+
+    const simulated = createContext({
+      network: SIMULATOR_NETWORK,
+      horizon: new SimulatedHorizonServer(simulator),
+    });
+
+    Each context keeps the sequence numbers of its source accounts (see
+    transaction-pipeline.ts), since they only make sense on their network.
+*/
+
+import {
+  type Account,
+  type FeeBumpTransaction,
+  type Keypair,
+  rpc,
+  type Transaction,
+} from "@stellar/stellar-sdk";
+import {
+  createHorizonServer,
+  type HorizonClient,
+} from "../horizon/get-horizon-server.ts";
+import {
+  DEFAULT_NETWORK,
+  type NetworkProfile,
+} from "../network/network-profile.ts";
+import { FEE_POLICY, type FeePolicy } from "../transaction/fee-policy.ts";
+import { RETRY_POLICY, type RetryPolicy } from "../transaction/retry-policy.ts";
+import {
+  FUNDING_POLICY,
+  type FundingPolicy,
+} from "../funding/funding-policy.ts";
+import { LOGGER, type Logger } from "../../utils/logger.ts";
+
+// This function signs a transaction for the keypairs of a request. A signer
+// can also forward the transaction to a wallet or a signing service, or
+// record the signers in tests.
+export type TransactionSigner = (
+  tx: Transaction | FeeBumpTransaction,
+  keypairs: Keypair[],
+) => Promise<void>;
+
+export interface StellarContext {
+  // Network profile, including the passphrase the transactions are
+  // signed for
+  network: NetworkProfile;
+  horizon: HorizonClient;
+  // Soroban RPC client, when the network has an RPC URL
+  rpc?: rpc.Server;
+  logger: Logger;
+  signer: TransactionSigner;
+  feePolicy: FeePolicy;
+  retryPolicy: RetryPolicy;
+  // Funding of the accounts created by the use cases
+  fundingPolicy: FundingPolicy;
+  // Source accounts with a locally tracked sequence number, by public key
+  sequences: Map<string, Account>;
+}
+
+// Signs with the keypairs themselves
+export const keypairSigner: TransactionSigner = (tx, keypairs) => {
+  keypairs.forEach((keypair) => tx.sign(keypair));
+  return Promise.resolve();
+};
+
+// This function creates a Soroban RPC client for a network profile, or
+// returns undefined when the network has no RPC URL.
+export function createRpcServer(
+  network: NetworkProfile,
+): rpc.Server | undefined {
+  return network.rpcUrl
+    ? new rpc.Server(network.rpcUrl, { allowHttp: network.allowHttp })
+    : undefined;
+}
+
+// This function builds a context on a network. The clients are created
+// for the network unless provided, and the policies are the module
+// defaults unless provided.
+function buildContext(
+  network: NetworkProfile,
+  options: Partial<StellarContext>,
+): StellarContext {
+  return {
+    network,
+    horizon: options.horizon ?? createHorizonServer(network),
+    rpc: "rpc" in options ? options.rpc : createRpcServer(network),
+    logger: LOGGER,
+    signer: keypairSigner,
+    feePolicy: FEE_POLICY,
+    retryPolicy: RETRY_POLICY,
+    fundingPolicy: FUNDING_POLICY,
+    ...options,
+    sequences: options.sequences ?? new Map(),
+  };
+}
+
+// The clients of the default context are created on first use
+let defaults: StellarContext | undefined;
+
+// This function returns the default context. The logger is the one of
+// the time of the call, since setLogger replaces it.
+export function defaultContext(): StellarContext {
+  defaults ??= buildContext(DEFAULT_NETWORK, {});
+  return { ...defaults, logger: LOGGER };
+}
+
+// This function replaces the default context, e.g. to run the use cases
+// against the ledger simulator (see infrastructure/simulator). The
+// clients are created for the network unless provided, and the tracked
+// sequence numbers are discarded.
+//
+// Args:
+// - options: The parts of the context that differ from the initial
+//   default, e.g. { network: NETWORK_PROFILES.local }
+export function setDefaultContext(options: Partial<StellarContext> = {}) {
+  defaults = buildContext(options.network ?? DEFAULT_NETWORK, options);
+}
+
+// This function creates a new context. The clients are created for the
+// network unless provided, and the policies are copied from the defaults,
+// so the context can be configured on its own.
+//
+// Args:
+// - options: The parts of the context that differ from the default one,
+//   e.g. { network: NETWORK_PROFILES.local }
+export function createContext(
+  options: Partial<StellarContext> = {},
+): StellarContext {
+  return buildContext(options.network ?? defaultContext().network, {
+    feePolicy: { ...FEE_POLICY },
+    retryPolicy: { ...RETRY_POLICY },
+    fundingPolicy: { ...FUNDING_POLICY },
+    ...options,
+  });
+}
@@ -0,0 +1,62 @@
+/*
+    This script defines how new accounts are funded by the funding service.
+
+    Friendbot is a free service, but it is shared by everyone using the test
+    networks: it rate limits its clients (HTTP 429) and is sometimes
+    unavailable (HTTP 5xx). These failures are temporary, so the request is
+    retried with an exponential backoff: each retry waits twice as long as the
+    previous one, plus a random jitter so concurrent clients don't retry at
+    the same time.
+
+    When friendbot is still unavailable after the retries, or when the network
+    has no friendbot at all (e.g. pubnet), the account can be created with a
+    create_account operation paid by a funder account instead.
+*/
+
+import { Keypair } from "@stellar/stellar-sdk";
+
+export interface FundingPolicy {
+  // Maximum number of retries of a friendbot request
+  maxRetries: number;
+  // Delay before the first retry, in milliseconds
+  initialBackoff: number;
+  // Maximum delay between retries, in milliseconds
+  maxBackoff: number;
+  // Maximum number of accounts funded at the same time
+  concurrency: number;
+  // Account paying for the accounts created when friendbot is unavailable.
+  // Defaults to the keystore identity named in STELLAR_FUNDER_IDENTITY.
+  funderAccount?: Keypair;
+  // Balance of the accounts created by the funder, in XLM
+  startingBalance: string;
+}
+
+export const FUNDING_POLICY: FundingPolicy = {
+  maxRetries: 4,
+  initialBackoff: 1000,
+  maxBackoff: 15000,
+  concurrency: 5,
+  startingBalance: "100",
+};
+
+// This function changes the funding policy used by the funding service.
+// e.g. configureFundingPolicy({ funderAccount: adminKeypair, concurrency: 2 })
+export function configureFundingPolicy(changes: Partial<FundingPolicy>) {
+  Object.assign(FUNDING_POLICY, changes);
+}
+
+// This function returns the delay before a retry, in milliseconds.
+//
+// Args:
+// - attempt: The number of failed attempts so far, starting at 1
+export function backoffDelay(
+  attempt: number,
+  policy: FundingPolicy = FUNDING_POLICY,
+): number {
+  const delay = Math.min(
+    policy.initialBackoff * 2 ** (attempt - 1),
+    policy.maxBackoff,
+  );
+  // Jitter between 50% and 100% of the delay
+  return delay / 2 + Math.random() * delay / 2;
+}
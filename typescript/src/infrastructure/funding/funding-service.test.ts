@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { Keypair } from "@stellar/stellar-sdk";
+import { createSimulatorContext } from "../simulator/simulated-horizon.ts";
+import { LedgerSimulator } from "../simulator/ledger-simulator.ts";
+import { FUNDING_POLICY } from "./funding-policy.ts";
+import { fundFromFunder } from "./funding-service.ts";
+
+Deno.test("a funder waiting on one network does not block the others", async () => {
+  const blocked = new LedgerSimulator("Blocked Network");
+  const blockedContext = createSimulatorContext(blocked);
+  const context = createSimulatorContext();
+  const funder = context.fundingPolicy.funderAccount!;
+
+  // The accounts of the blocked network are only loaded once it resumes
+  let resume = () => {};
+  const resumed = new Promise<void>((resolve) => resume = resolve);
+  const horizon = blockedContext.horizon;
+  const loadAccount = horizon.loadAccount.bind(horizon);
+  horizon.loadAccount = (accountId) =>
+    resumed.then(() => loadAccount(accountId));
+
+  const waiting = fundFromFunder(
+    blocked.rootKeypair,
+    Keypair.random().publicKey(),
+    FUNDING_POLICY,
+    blockedContext,
+  );
+  const funded = await fundFromFunder(
+    funder,
+    Keypair.random().publicKey(),
+    FUNDING_POLICY,
+    context,
+  );
+  assert.equal(funded.method, "createAccount");
+
+  resume();
+  assert.equal((await waiting).method, "createAccount");
+});
+
+Deno.test("the accounts of a funder are created one after the other", async () => {
+  const context = createSimulatorContext();
+  const funder = context.fundingPolicy.funderAccount!;
+
+  const results = await Promise.all(
+    Array.from(
+      { length: 5 },
+      () =>
+        fundFromFunder(
+          funder,
+          Keypair.random().publicKey(),
+          FUNDING_POLICY,
+          context,
+        ),
+    ),
+  );
+  assert.deepEqual(
+    results.map(({ ledger }) => ledger),
+    [...results.map(({ ledger }) => ledger)].sort((a, b) => a - b),
+  );
+  assert.equal(new Set(results.map(({ ledger }) => ledger)).size, 5);
+});
@@ -0,0 +1,254 @@
+/*
+    This script funds new accounts so they can be used on the network.
+
+    Each account is funded in the following order:
+    1. Friendbot, retrying temporary failures (rate limiting, 5xx, network
+       errors) with the backoff of the funding policy.
+    2. A create_account operation paid by the funder account, when the
+       network has no friendbot or friendbot is still unavailable.
+
+    Many accounts can be funded at the same time, up to the concurrency of
+    the policy. Friendbot requests run in parallel, while the create_account
+    transactions of a funder are submitted one at a time on each network,
+    since they share the sequence number of the funder account.
+*/
+
+import { Keypair, Operation } from "@stellar/stellar-sdk";
+import { resolveIdentity } from "../keystore/keystore.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../context/stellar-context.ts";
+import { submitTransaction } from "../transaction/transaction-pipeline.ts";
+import {
+  backoffDelay,
+  FUNDING_POLICY,
+  type FundingPolicy,
+} from "./funding-policy.ts";
+
+export interface FundingResult {
+  accountId: string;
+  hash: string;
+  ledger: number;
+  method: "friendbot" | "createAccount";
+}
+
+// Error thrown when an account could not be funded by any method
+export class FundingError extends Error {
+  constructor(
+    message: string,
+    readonly accountId: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = "FundingError";
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Rate limiting and server errors are temporary, but a 400 means the
+// request itself is invalid, e.g. the account already exists.
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+async function requestFriendbot(
+  friendbotUrl: string,
+  publicKey: string,
+): Promise<FundingResult> {
+  let response: Response;
+  try {
+    response = await fetch(`${friendbotUrl}?addr=${publicKey}`);
+  } catch (e) {
+    // Network failures are retried like server errors
+    throw new FundingError(
+      `Could not reach friendbot: ${(e as Error).message}`,
+      publicKey,
+      503,
+    );
+  }
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new FundingError(
+      `Friendbot responded with an error! status: ${response.status} Message: ${
+        response.statusText || body
+      }`,
+      publicKey,
+      response.status,
+    );
+  }
+
+  const { hash, ledger } = await response.json();
+  return { accountId: publicKey, hash, ledger, method: "friendbot" };
+}
+
+async function fundWithFriendbot(
+  friendbotUrl: string,
+  publicKey: string,
+  policy: FundingPolicy,
+  context: StellarContext,
+): Promise<FundingResult> {
+  for (let attempt = 1;; attempt++) {
+    try {
+      return await requestFriendbot(friendbotUrl, publicKey);
+    } catch (e) {
+      const status = (e as FundingError).status ?? 0;
+      if (!isRetryableStatus(status) || attempt > policy.maxRetries) {
+        throw e;
+      }
+      const delay = backoffDelay(attempt, policy);
+      context.logger.warn(
+        `Friendbot is unavailable (${status}), retrying in ${
+          (delay / 1000).toFixed(1)
+        }s (retry ${attempt} of ${policy.maxRetries})...`,
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+async function resolveFunder(
+  policy: FundingPolicy,
+): Promise<Keypair | undefined> {
+  if (policy.funderAccount) {
+    return policy.funderAccount;
+  }
+  const identity = Deno.env.get("STELLAR_FUNDER_IDENTITY");
+  return identity ? await resolveIdentity(identity) : undefined;
+}
+
+// The create_account transactions of each funder are chained per network,
+// so that only one of them uses its sequence number at a time. Other
+// funders and networks are not blocked.
+const funderQueues = new Map<string, Promise<unknown>>();
+
+// This function creates an account with a create_account operation
+// paid by the funder account.
+export function fundFromFunder(
+  funder: Keypair,
+  publicKey: string,
+  policy: FundingPolicy = FUNDING_POLICY,
+  context: StellarContext = defaultContext(),
+): Promise<FundingResult> {
+  const key = `${context.network.networkPassphrase}/${funder.publicKey()}`;
+  const funding = (funderQueues.get(key) ?? Promise.resolve()).then(
+    async () => {
+      context.logger.info(
+        `Funding ${publicKey} with ${policy.startingBalance} XLM from ${funder.publicKey()}...`,
+      );
+      const result = await submitTransaction({
+        source: funder.publicKey(),
+        operations: [
+          Operation.createAccount({
+            destination: publicKey,
+            startingBalance: policy.startingBalance,
+          }),
+        ],
+        signers: [funder],
+      }, context);
+      return {
+        accountId: publicKey,
+        hash: result.hash,
+        ledger: result.ledger,
+        method: "createAccount",
+      } satisfies FundingResult;
+    },
+  );
+  const queue = funding.catch(() => undefined).then(() => {
+    // The queue is forgotten once the last transaction is over
+    if (funderQueues.get(key) === queue) {
+      funderQueues.delete(key);
+    }
+  });
+  funderQueues.set(key, queue);
+  return funding;
+}
+
+// This function funds a new account with friendbot, falling back to the
+// funder account when friendbot is not available.
+export async function fundAccount(
+  publicKey: string,
+  policy: FundingPolicy = FUNDING_POLICY,
+  context: StellarContext = defaultContext(),
+): Promise<FundingResult> {
+  const { network } = context;
+  let friendbotError: FundingError | undefined;
+
+  if (network.friendbotUrl) {
+    try {
+      return await fundWithFriendbot(
+        network.friendbotUrl,
+        publicKey,
+        policy,
+        context,
+      );
+    } catch (e) {
+      const status = (e as FundingError).status;
+      if (
+        !(e instanceof FundingError) || !status || !isRetryableStatus(status)
+      ) {
+        throw e;
+      }
+      friendbotError = e;
+    }
+  }
+
+  const funder = await resolveFunder(policy);
+  if (!funder) {
+    throw friendbotError ?? new FundingError(
+      `The '${network.name}' network does not have a friendbot service! Configure a funder account to create accounts.`,
+      publicKey,
+    );
+  }
+
+  if (friendbotError) {
+    context.logger.warn(
+      `Friendbot is still unavailable, falling back to the funder account.`,
+    );
+  }
+  return fundFromFunder(funder, publicKey, policy, context);
+}
+
+// This function funds many accounts concurrently, up to the concurrency
+// of the policy. The results are in the same order as the public keys.
+// Throws an AggregateError with every failure once all the accounts
+// have been processed.
+export async function fundAccounts(
+  publicKeys: string[],
+  policy: FundingPolicy = FUNDING_POLICY,
+  context: StellarContext = defaultContext(),
+): Promise<FundingResult[]> {
+  const results: FundingResult[] = new Array(publicKeys.length);
+  const errors: unknown[] = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < publicKeys.length) {
+      const index = next++;
+      try {
+        results[index] = await fundAccount(
+          publicKeys[index],
+          policy,
+          context,
+        );
+      } catch (e) {
+        errors.push(e);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.min(policy.concurrency, publicKeys.length) },
+      worker,
+    ),
+  );
+
+  if (errors.length) {
+    throw new AggregateError(
+      errors,
+      `${errors.length} of ${publicKeys.length} accounts could not be funded.`,
+    );
+  }
+  return results;
+}
@@ -0,0 +1,120 @@
+/*
+    This script runs a small friendbot stand-in for local networks, e.g. a
+    quickstart container started with `--local` without its friendbot, or
+    when the built-in friendbot is too slow for many concurrent requests.
+
+    It answers the same requests as friendbot (GET /?addr=G...) by creating
+    the account with a create_account operation paid by a funder account:
+    - On local networks, the root account of the network by default. Its
+      keypair is derived from the network passphrase.
+    - Otherwise, the keystore identity named in STELLAR_FUNDER_IDENTITY.
+
+    To use it, start the server and point the friendbotUrl of the network
+    profile to it, e.g. in stellar-network.json:
+
+    {
+      "network": "local",
+      "friendbotUrl": "http://localhost:8001"
+    }
+
+    Usage:
+    STELLAR_NETWORK=local deno task friendbot --port 8001 --balance 10000
+*/
+
+import chalk from "chalk";
+import { Keypair, StrKey } from "@stellar/stellar-sdk";
+import { parseArgs } from "node:util";
+import { resolveIdentity } from "../keystore/keystore.ts";
+import { defaultContext } from "../context/stellar-context.ts";
+import { StellarSubmissionError } from "../transaction/submission-error.ts";
+import { LOGGER } from "../../utils/logger.ts";
+import { FUNDING_POLICY } from "./funding-policy.ts";
+import { fundFromFunder } from "./funding-service.ts";
+
+export interface LocalFriendbotOptions {
+  port: number;
+  funder: Keypair;
+  // Balance of the new accounts, in XLM
+  startingBalance: string;
+}
+
+// Errors are returned in the same format as Horizon and friendbot
+const problem = (
+  status: number,
+  title: string,
+  detail: string,
+  extras?: object,
+) => Response.json({ status, title, detail, extras }, { status });
+
+// This function starts the local friendbot server.
+export function startLocalFriendbot(
+  options: LocalFriendbotOptions,
+): Deno.HttpServer {
+  const policy = {
+    ...FUNDING_POLICY,
+    startingBalance: options.startingBalance,
+  };
+
+  return Deno.serve({ port: options.port }, async (request) => {
+    const address = new URL(request.url).searchParams.get("addr");
+    if (!address || !StrKey.isValidEd25519PublicKey(address)) {
+      return problem(
+        400,
+        "Bad Request",
+        "The 'addr' parameter must be a valid public key (G...).",
+      );
+    }
+
+    try {
+      const result = await fundFromFunder(options.funder, address, policy);
+      return Response.json({
+        successful: true,
+        hash: result.hash,
+        ledger: result.ledger,
+      });
+    } catch (e) {
+      if (e instanceof StellarSubmissionError) {
+        return problem(400, "Transaction Failed", e.message, {
+          result_codes: {
+            transaction: e.transactionCode,
+            operations: e.operationCodes,
+          },
+        });
+      }
+      LOGGER.error(`Could not fund ${address}: ${(e as Error).message}`);
+      return problem(500, "Internal Server Error", (e as Error).message);
+    }
+  });
+}
+
+if (import.meta.main) {
+  const { values } = parseArgs({
+    args: Deno.args,
+    options: {
+      port: { type: "string", default: "8001" },
+      balance: { type: "string", default: "10000" },
+    },
+  });
+
+  const { network } = defaultContext();
+  const identity = Deno.env.get("STELLAR_FUNDER_IDENTITY");
+  if (!identity && network.name !== "local") {
+    throw new Error(
+      `Set STELLAR_FUNDER_IDENTITY to run a friendbot on the '${network.name}' network.`,
+    );
+  }
+  const funder = identity
+    ? await resolveIdentity(identity)
+    : Keypair.master(network.networkPassphrase);
+
+  LOGGER.info(
+    `Funding accounts with ${chalk.blue(values.balance)} XLM from ${
+      chalk.green(funder.publicKey())
+    }`,
+  );
+  startLocalFriendbot({
+    port: Number(values.port),
+    funder,
+    startingBalance: values.balance,
+  });
+}
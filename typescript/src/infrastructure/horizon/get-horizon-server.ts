@@ -1,14 +1,78 @@
 /*
-    This script instantiates a Horizon server client for the Stellar Testnet
-    to be used in the use cases.
+    This script instantiates the Horizon server client of a network
+    profile, used by the contexts of the use cases
+    (see infrastructure/context/stellar-context.ts).
+
+    See infrastructure/network/network-profile.ts to learn how to
+    select a different network.
+
+    The client can be replaced by anything implementing the endpoints used
+    by the use cases, such as the ledger simulator in
+    infrastructure/simulator.
 */
 
 import { Horizon } from "@stellar/stellar-sdk";
+import type { NetworkProfile } from "../network/network-profile.ts";
+
+// Endpoints of the Horizon server used by the use cases
+export type HorizonClient = Pick<
+  Horizon.Server,
+  | "loadAccount"
+  | "submitTransaction"
+  | "feeStats"
+  | "accounts"
+  | "transactions"
+  | "ledgers"
+  | "offers"
+  | "claimableBalances"
+  | "assets"
+>;
+
+// Signer of an account record. Horizon also returns the sponsor of the
+// signer, missing from the SDK types.
+export type SignerRecord = Horizon.ServerApi.AccountRecordSigners & {
+  sponsor?: string;
+};
+
+// Data entry of an account, returned by the endpoint of each entry. The
+// sponsor is missing from the SDK types.
+export type DataEntryRecord = { value: string; sponsor?: string };
+
+// This function loads the data entries of an account record, with their
+// sponsor. The record only has their values, so each entry is loaded from
+// its own endpoint, whose URI template expects the name as "key" (the SDK
+// types have "value" instead).
+export async function loadDataEntries(
+  account: Horizon.ServerApi.AccountRecord,
+): Promise<(DataEntryRecord & { name: string })[]> {
+  const loadData = account.data as unknown as (
+    options: { key: string },
+  ) => Promise<DataEntryRecord>;
+  return await Promise.all(
+    Object.keys(account.data_attr ?? {}).map(async (name) => ({
+      ...await loadData({ key: name }),
+      name,
+    })),
+  );
+}
 
-const testnetHorizonUrl = "https://horizon-testnet.stellar.org";
-const horizonOptions: Horizon.Server.Options = { allowHttp: true };
+// This function loads every page of a collection, e.g. the offers of an
+// account.
+export async function loadAll<T extends Horizon.HorizonApi.BaseResponse>(
+  firstPage: Promise<Horizon.ServerApi.CollectionPage<T>>,
+): Promise<T[]> {
+  const records: T[] = [];
+  let page = await firstPage;
+  while (page.records.length) {
+    records.push(...page.records);
+    page = await page.next();
+  }
+  return records;
+}
 
-export const HORIZON = await new Horizon.Server(
-  testnetHorizonUrl,
-  horizonOptions,
-);
+// This function creates a Horizon client for a network profile.
+export function createHorizonServer(network: NetworkProfile): HorizonClient {
+  return new Horizon.Server(network.horizonUrl, {
+    allowHttp: network.allowHttp,
+  });
+}
@@ -0,0 +1,16 @@
+// Error thrown when an identity cannot be saved, found or decrypted.
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KeystoreError";
+  }
+}
+
+// Error thrown when an identity does not exist in the keystore or
+// among the Stellar CLI identities.
+export class IdentityNotFoundError extends KeystoreError {
+  constructor(readonly identityName: string, location: string) {
+    super(`Identity '${identityName}' not found in ${location}.`);
+    this.name = "IdentityNotFoundError";
+  }
+}
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { Keypair } from "@stellar/stellar-sdk";
+import { IdentityNotFoundError, KeystoreError } from "./keystore-error.ts";
+import {
+  exportSecret,
+  importSecret,
+  listIdentities,
+  loadIdentity,
+  removeIdentity,
+  saveIdentity,
+} from "./keystore.ts";
+
+const PASSPHRASE = "correct horse battery staple";
+
+// Runs a function with a new keystore file, whose path it receives
+async function withKeystore(run: (path: string) => Promise<void>) {
+  const path = join(await Deno.makeTempDir(), "keystore.json");
+  const previous = Deno.env.get("STELLAR_KEYSTORE");
+  Deno.env.set("STELLAR_KEYSTORE", path);
+  try {
+    await run(path);
+  } finally {
+    if (previous === undefined) {
+      Deno.env.delete("STELLAR_KEYSTORE");
+    } else {
+      Deno.env.set("STELLAR_KEYSTORE", previous);
+    }
+  }
+}
+
+Deno.test("an identity is decrypted with its passphrase", async () => {
+  const keypair = Keypair.random();
+  await withKeystore(async (path) => {
+    const saved = await saveIdentity("admin", keypair, PASSPHRASE);
+    assert.equal(saved.publicKey, keypair.publicKey());
+
+    // Only the public key is stored in plain text
+    const content = await Deno.readTextFile(path);
+    assert.ok(content.includes(keypair.publicKey()));
+    assert.ok(!content.includes(keypair.secret()));
+
+    const loaded = await loadIdentity("admin", PASSPHRASE);
+    assert.equal(loaded.secret(), keypair.secret());
+    assert.equal(await exportSecret("admin", PASSPHRASE), keypair.secret());
+    assert.deepEqual(await listIdentities(), [saved]);
+  });
+});
+
+Deno.test("a wrong passphrase fails with a KeystoreError", async () => {
+  await withKeystore(async () => {
+    await importSecret("admin", Keypair.random().secret(), PASSPHRASE);
+
+    await assert.rejects(
+      loadIdentity("admin", "wrong passphrase"),
+      (e) =>
+        e instanceof KeystoreError && !(e instanceof IdentityNotFoundError) &&
+        /wrong passphrase/.test(e.message),
+    );
+  });
+});
+
+Deno.test("identities are not overwritten unless requested", async () => {
+  const replacement = Keypair.random();
+  await withKeystore(async () => {
+    await saveIdentity("admin", Keypair.random(), PASSPHRASE);
+
+    await assert.rejects(
+      saveIdentity("admin", replacement, PASSPHRASE),
+      KeystoreError,
+    );
+    await saveIdentity("admin", replacement, PASSPHRASE, true);
+    assert.equal(
+      (await loadIdentity("admin", PASSPHRASE)).publicKey(),
+      replacement.publicKey(),
+    );
+    await assert.rejects(
+      importSecret("other", "SNOTASECRET", PASSPHRASE),
+      KeystoreError,
+    );
+  });
+});
+
+Deno.test("a missing identity fails with an IdentityNotFoundError", async () => {
+  await withKeystore(async () => {
+    await assert.rejects(
+      loadIdentity("nobody", PASSPHRASE),
+      (e) => e instanceof IdentityNotFoundError && e.identityName === "nobody",
+    );
+
+    await saveIdentity("admin", Keypair.random(), PASSPHRASE);
+    await removeIdentity("admin");
+    await assert.rejects(removeIdentity("admin"), IdentityNotFoundError);
+    assert.deepEqual(await listIdentities(), []);
+  });
+});
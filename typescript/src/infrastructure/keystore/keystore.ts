@@ -0,0 +1,287 @@
+/*
+    This script implements a local keystore where the use cases can save
+    named identities (e.g. "admin") and reuse them across runs, instead of
+    generating and funding new accounts every time.
+
+    The secret keys are never stored in plain text. Each identity is
+    encrypted with a passphrase:
+    - A key is derived from the passphrase with PBKDF2-SHA256 and a random salt
+    - The secret key is encrypted with AES-256-GCM and a random IV
+    - The public key is stored in plain text, so identities can be listed
+      without the passphrase
+
+    The keystore is a JSON file read from the path in the STELLAR_KEYSTORE
+    environment variable, or `stellar-keystore.json` in the current directory.
+    The passphrase can be provided to each function or through the
+    STELLAR_KEYSTORE_PASSPHRASE environment variable.
+
+    Identities created by the Stellar CLI (see stellar-cli-identity.ts) can
+    be used directly with resolveIdentity, so the TypeScript use cases and the
+    contract deployment share the same account.
+*/
+
+import { Keypair } from "@stellar/stellar-sdk";
+import { IdentityNotFoundError, KeystoreError } from "./keystore-error.ts";
+import { loadCliIdentity } from "./stellar-cli-identity.ts";
+
+export interface EncryptedIdentity {
+  publicKey: string;
+  createdAt: string;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  ciphertext: string;
+}
+
+interface KeystoreFile {
+  version: 1;
+  identities: Record<string, EncryptedIdentity>;
+}
+
+export interface IdentitySummary {
+  name: string;
+  publicKey: string;
+  createdAt: string;
+}
+
+const DEFAULT_KEYSTORE_FILE = "stellar-keystore.json";
+const PBKDF2_ITERATIONS = 210_000;
+
+const keystorePath = () =>
+  Deno.env.get("STELLAR_KEYSTORE") ?? DEFAULT_KEYSTORE_FILE;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+function resolvePassphrase(passphrase?: string): string {
+  const resolved = passphrase ?? Deno.env.get("STELLAR_KEYSTORE_PASSPHRASE");
+  if (!resolved) {
+    throw new KeystoreError(
+      "A passphrase is required. Provide it or set STELLAR_KEYSTORE_PASSPHRASE.",
+    );
+  }
+  return resolved;
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: BufferSource,
+  iterations: number,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+async function encryptIdentity(
+  keypair: Keypair,
+  passphrase: string,
+): Promise<EncryptedIdentity> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(keypair.secret()),
+  );
+
+  return {
+    publicKey: keypair.publicKey(),
+    createdAt: new Date().toISOString(),
+    kdf: {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt),
+    },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+async function decryptIdentity(
+  name: string,
+  identity: EncryptedIdentity,
+  passphrase: string,
+): Promise<Keypair> {
+  const key = await deriveKey(
+    passphrase,
+    fromBase64(identity.kdf.salt),
+    identity.kdf.iterations,
+  );
+
+  let secret: string;
+  try {
+    secret = new TextDecoder().decode(
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(identity.cipher.iv) },
+        key,
+        fromBase64(identity.ciphertext),
+      ),
+    );
+  } catch {
+    // AES-GCM authenticates the ciphertext, so a wrong passphrase
+    // fails instead of returning garbage.
+    throw new KeystoreError(
+      `Could not decrypt identity '${name}': wrong passphrase or corrupted keystore.`,
+    );
+  }
+
+  const keypair = Keypair.fromSecret(secret);
+  if (keypair.publicKey() !== identity.publicKey) {
+    throw new KeystoreError(
+      `The secret key of identity '${name}' does not match its public key.`,
+    );
+  }
+  return keypair;
+}
+
+async function readKeystore(): Promise<KeystoreFile> {
+  try {
+    return JSON.parse(await Deno.readTextFile(keystorePath())) as KeystoreFile;
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) {
+      return { version: 1, identities: {} };
+    }
+    throw new KeystoreError(
+      `Could not read the keystore '${keystorePath()}': ${
+        (e as Error).message
+      }`,
+    );
+  }
+}
+
+async function writeKeystore(keystore: KeystoreFile) {
+  // Only the owner can read the file on systems that support permissions
+  await Deno.writeTextFile(
+    keystorePath(),
+    JSON.stringify(keystore, null, 2) + "\n",
+    { mode: 0o600 },
+  );
+}
+
+// This function encrypts and saves an identity in the keystore.
+//
+// Args:
+// - name: The name of the identity, e.g. "admin"
+// - keypair: The keypair to save
+// - passphrase: The passphrase used to encrypt the secret key
+// - overwrite: Replace an existing identity with the same name
+export async function saveIdentity(
+  name: string,
+  keypair: Keypair,
+  passphrase?: string,
+  overwrite = false,
+): Promise<IdentitySummary> {
+  const keystore = await readKeystore();
+  if (keystore.identities[name] && !overwrite) {
+    throw new KeystoreError(`Identity '${name}' already exists.`);
+  }
+
+  const identity = await encryptIdentity(
+    keypair,
+    resolvePassphrase(passphrase),
+  );
+  keystore.identities[name] = identity;
+  await writeKeystore(keystore);
+
+  return { name, publicKey: identity.publicKey, createdAt: identity.createdAt };
+}
+
+// This function loads and decrypts an identity from the keystore.
+export async function loadIdentity(
+  name: string,
+  passphrase?: string,
+): Promise<Keypair> {
+  const identity = (await readKeystore()).identities[name];
+  if (!identity) {
+    throw new IdentityNotFoundError(name, "the keystore");
+  }
+  return decryptIdentity(name, identity, resolvePassphrase(passphrase));
+}
+
+// This function lists the identities of the keystore without decrypting them.
+export async function listIdentities(): Promise<IdentitySummary[]> {
+  const { identities } = await readKeystore();
+  return Object.entries(identities).map(([name, identity]) => ({
+    name,
+    publicKey: identity.publicKey,
+    createdAt: identity.createdAt,
+  }));
+}
+
+// This function removes an identity from the keystore.
+export async function removeIdentity(name: string) {
+  const keystore = await readKeystore();
+  if (!keystore.identities[name]) {
+    throw new IdentityNotFoundError(name, "the keystore");
+  }
+  delete keystore.identities[name];
+  await writeKeystore(keystore);
+}
+
+// This function imports an existing secret key (S...) as a named identity.
+export async function importSecret(
+  name: string,
+  secret: string,
+  passphrase?: string,
+  overwrite = false,
+): Promise<IdentitySummary> {
+  let keypair: Keypair;
+  try {
+    keypair = Keypair.fromSecret(secret.trim());
+  } catch {
+    throw new KeystoreError(`The secret key for '${name}' is invalid.`);
+  }
+  return await saveIdentity(name, keypair, passphrase, overwrite);
+}
+
+// This function returns the secret key of an identity, e.g. to import
+// it in a wallet.
+export async function exportSecret(
+  name: string,
+  passphrase?: string,
+): Promise<string> {
+  return (await loadIdentity(name, passphrase)).secret();
+}
+
+// This function imports an identity created by the Stellar CLI into
+// the keystore, keeping its name.
+export async function importCliIdentity(
+  name: string,
+  passphrase?: string,
+  overwrite = false,
+): Promise<IdentitySummary> {
+  const { keypair } = await loadCliIdentity(name);
+  return saveIdentity(name, keypair, passphrase, overwrite);
+}
+
+// This function finds an identity by name, first in the keystore and
+// then among the Stellar CLI identities.
+export async function resolveIdentity(
+  name: string,
+  passphrase?: string,
+): Promise<Keypair> {
+  const { identities } = await readKeystore();
+  if (identities[name]) {
+    return decryptIdentity(
+      name,
+      identities[name],
+      resolvePassphrase(passphrase),
+    );
+  }
+  return (await loadCliIdentity(name)).keypair;
+}
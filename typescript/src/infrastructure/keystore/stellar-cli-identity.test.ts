@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { Keypair } from "@stellar/stellar-sdk";
+import { IdentityNotFoundError, KeystoreError } from "./keystore-error.ts";
+import { loadCliIdentity } from "./stellar-cli-identity.ts";
+
+// First account of the first test vector of SEP-5
+const SEED_PHRASE =
+  "illness spike retreat truth genius clock brain pass fit cave bargain toe";
+const SEED_PHRASE_ACCOUNT =
+  "GDRXE2BQUC3AZNPVFSCEZ76NJ3WWL25FYFK6RGZGIEKWE4SOOHSUJUJ6";
+
+// Runs a function in an empty directory, with the configuration of the
+// Stellar CLI in another one, and returns both. The identities of the
+// user running the tests are out of reach.
+async function inTemporaryDirectories<T>(
+  run: (directories: { cwd: string; config: string }) => Promise<T>,
+): Promise<T> {
+  const cwd = await Deno.makeTempDir();
+  const config = await Deno.makeTempDir();
+  const environment: Record<string, string> = {
+    STELLAR_CONFIG_HOME: config,
+    XDG_CONFIG_HOME: join(config, "xdg"),
+  };
+  const previousCwd = Deno.cwd();
+  const previous = Object.keys(environment).map((name) =>
+    [name, Deno.env.get(name)] as const
+  );
+  Deno.chdir(cwd);
+  Object.entries(environment).forEach(([name, value]) =>
+    Deno.env.set(name, value)
+  );
+  try {
+    return await run({ cwd, config });
+  } finally {
+    Deno.chdir(previousCwd);
+    for (const [name, value] of previous) {
+      if (value === undefined) {
+        Deno.env.delete(name);
+      } else {
+        Deno.env.set(name, value);
+      }
+    }
+  }
+}
+
+async function writeIdentity(directory: string, name: string, toml: string) {
+  await Deno.mkdir(directory, { recursive: true });
+  await Deno.writeTextFile(join(directory, `${name}.toml`), toml);
+}
+
+Deno.test("an identity with a secret key is loaded", async () => {
+  const keypair = Keypair.random();
+  await inTemporaryDirectories(async ({ config }) => {
+    await writeIdentity(
+      join(config, "identity"),
+      "alice",
+      `secret_key = "${keypair.secret()}"\n`,
+    );
+
+    const identity = await loadCliIdentity("alice");
+    assert.equal(identity.name, "alice");
+    assert.equal(identity.path, join(config, "identity", "alice.toml"));
+    assert.equal(identity.keypair.secret(), keypair.secret());
+  });
+});
+
+Deno.test("an identity with a seed phrase is derived at index 0", async () => {
+  await inTemporaryDirectories(async ({ config }) => {
+    await writeIdentity(
+      join(config, "identity"),
+      "bob",
+      `seed_phrase = "${SEED_PHRASE}"\n`,
+    );
+
+    const identity = await loadCliIdentity("bob");
+    assert.equal(identity.keypair.publicKey(), SEED_PHRASE_ACCOUNT);
+  });
+});
+
+Deno.test("local identities come before the global ones", async () => {
+  const local = Keypair.random();
+  await inTemporaryDirectories(async ({ cwd, config }) => {
+    await writeIdentity(
+      join(config, "identity"),
+      "alice",
+      `secret_key = "${Keypair.random().secret()}"\n`,
+    );
+    await writeIdentity(
+      join(cwd, ".stellar", "identity"),
+      "alice",
+      `secret_key = "${local.secret()}"\n`,
+    );
+    // From a subdirectory of the project
+    await Deno.mkdir(join(cwd, "contracts"));
+    Deno.chdir(join(cwd, "contracts"));
+
+    const identity = await loadCliIdentity("alice");
+    assert.equal(identity.keypair.publicKey(), local.publicKey());
+  });
+});
+
+Deno.test("missing and unreadable identities are rejected", async () => {
+  await inTemporaryDirectories(async ({ config }) => {
+    await assert.rejects(loadCliIdentity("carol"), IdentityNotFoundError);
+
+    // e.g. an identity stored in the keychain of the operating system
+    await writeIdentity(
+      join(config, "identity"),
+      "carol",
+      `public_key = "${Keypair.random().publicKey()}"\n`,
+    );
+    await assert.rejects(
+      loadCliIdentity("carol"),
+      (e) =>
+        e instanceof KeystoreError && !(e instanceof IdentityNotFoundError),
+    );
+  });
+});
@@ -0,0 +1,105 @@
+/*
+    This script reads the identities created by the Stellar CLI, e.g. with
+    `stellar keys generate --network testnet --fund alice` in the Makefiles
+    of the Soroban contracts.
+
+    The CLI stores each identity in a TOML file named after it, either with
+    a secret key or with a recovery phrase:
+
+    secret_key = "SC3..."
+    seed_phrase = "word1 word2 ..."
+
+    Recovery phrases are derived with SEP-5 at index 0, like the CLI does.
+
+    The file is searched in the following directories, in order:
+    - .stellar/identity (and the legacy .soroban/identity) in the current
+      directory and each of its parents: identities created with --local
+    - $STELLAR_CONFIG_HOME/identity
+    - $XDG_CONFIG_HOME/stellar/identity, or ~/.config/stellar/identity
+    - ~/.config/soroban/identity: identities created by older versions
+
+    Identities stored in the operating system keychain only hold a public
+    key and cannot be read from here.
+*/
+
+import { Keypair } from "@stellar/stellar-sdk";
+import { dirname, join } from "node:path";
+import { deriveKeypair } from "../../utils/mnemonic.ts";
+import { IdentityNotFoundError, KeystoreError } from "./keystore-error.ts";
+
+export interface CliIdentity {
+  name: string;
+  path: string;
+  keypair: Keypair;
+}
+
+function identityDirectories(): string[] {
+  const directories: string[] = [];
+
+  let current = Deno.cwd();
+  while (true) {
+    directories.push(join(current, ".stellar", "identity"));
+    directories.push(join(current, ".soroban", "identity"));
+    const parent = dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+
+  const home = Deno.env.get("HOME") ?? Deno.env.get("USERPROFILE");
+  const configHome = Deno.env.get("XDG_CONFIG_HOME") ??
+    (home && join(home, ".config"));
+  const stellarHome = Deno.env.get("STELLAR_CONFIG_HOME");
+
+  if (stellarHome) directories.push(join(stellarHome, "identity"));
+  if (configHome) {
+    directories.push(join(configHome, "stellar", "identity"));
+    directories.push(join(configHome, "soroban", "identity"));
+  }
+
+  return directories;
+}
+
+// Identity files only contain flat `key = "value"` pairs, so a full
+// TOML parser is not needed.
+function parseIdentityFile(content: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const line of content.split("\n")) {
+    const match = line.match(/^\s*([\w-]+)\s*=\s*"([^"]*)"\s*$/);
+    if (match) values[match[1]] = match[2];
+  }
+  return values;
+}
+
+async function readIfExists(path: string): Promise<string | undefined> {
+  try {
+    return await Deno.readTextFile(path);
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return undefined;
+    throw e;
+  }
+}
+
+// This function loads an identity created by the Stellar CLI.
+//
+// Args:
+// - name: The name of the identity, e.g. "alice"
+export async function loadCliIdentity(name: string): Promise<CliIdentity> {
+  for (const directory of identityDirectories()) {
+    const path = join(directory, `${name}.toml`);
+    const content = await readIfExists(path);
+    if (content === undefined) continue;
+
+    const values = parseIdentityFile(content);
+    if (values.secret_key) {
+      return { name, path, keypair: Keypair.fromSecret(values.secret_key) };
+    }
+    if (values.seed_phrase) {
+      return { name, path, keypair: await deriveKeypair(values.seed_phrase) };
+    }
+    throw new KeystoreError(
+      `The Stellar CLI identity '${name}' at ${path} has no secret key or seed phrase.`,
+    );
+  }
+
+  throw new IdentityNotFoundError(name, "the Stellar CLI identities");
+}
@@ -0,0 +1,181 @@
+/*
+    This script resolves the network profile used by all the use cases.
+
+    A network profile gathers every endpoint and identifier that changes
+    from one Stellar network to another:
+    - Horizon URL: used by the classic use cases to load accounts and submit transactions
+    - RPC URL: used by the Soroban use cases to simulate and submit contract calls
+    - Network passphrase: used to sign transactions for the correct network
+    - Friendbot URL: used to fund new accounts on test networks
+    - Explorer: the block explorer used to print links to transactions,
+      accounts, assets and contracts (see utils/explorerLinks.ts)
+
+    The profile is selected with the STELLAR_NETWORK environment variable:
+    - testnet (default): Public SDF Testnet
+    - futurenet: Public SDF Futurenet
+    - local: Quickstart container started with `--local` on port 8000
+    - pubnet: Public production network (no friendbot!)
+    - custom: Every value must be provided by the config file
+
+    Alternatively, a JSON config file can be used to select the network and
+    override any of the profile values. The file is read from the path in the
+    STELLAR_NETWORK_CONFIG environment variable, or from `stellar-network.json`
+    in the current directory when it exists. e.g.:
+
+    {
+      "network": "local",
+      "horizonUrl": "http://localhost:8001"
+    }
+
+    The STELLAR_NETWORK environment variable takes precedence over the
+    network defined in the config file. In the same way, STELLAR_EXPLORER
+    selects the explorer (stellar.expert, stellarchain or horizon) and takes
+    precedence over the `explorer` field of the config file.
+*/
+
+import { Networks } from "@stellar/stellar-sdk";
+
+export type NetworkName =
+  | "testnet"
+  | "futurenet"
+  | "local"
+  | "pubnet"
+  | "custom";
+
+export type ExplorerName = "stellar.expert" | "stellarchain" | "horizon";
+
+export interface NetworkProfile {
+  name: NetworkName;
+  horizonUrl: string;
+  rpcUrl?: string;
+  networkPassphrase: string;
+  friendbotUrl?: string;
+  explorer: ExplorerName;
+  // Overrides the base URL of the explorer, e.g. for a self-hosted instance
+  explorerUrl?: string;
+  allowHttp: boolean;
+}
+
+type NetworkConfigFile = Partial<Omit<NetworkProfile, "name">> & {
+  network?: string;
+};
+
+const DEFAULT_CONFIG_FILE = "stellar-network.json";
+
+export const NETWORK_PROFILES: Record<
+  Exclude<NetworkName, "custom">,
+  NetworkProfile
+> = {
+  testnet: {
+    name: "testnet",
+    horizonUrl: "https://horizon-testnet.stellar.org",
+    rpcUrl: "https://soroban-testnet.stellar.org",
+    networkPassphrase: Networks.TESTNET,
+    friendbotUrl: "https://friendbot.stellar.org",
+    explorer: "stellar.expert",
+    allowHttp: false,
+  },
+  futurenet: {
+    name: "futurenet",
+    horizonUrl: "https://horizon-futurenet.stellar.org",
+    rpcUrl: "https://rpc-futurenet.stellar.org",
+    networkPassphrase: Networks.FUTURENET,
+    friendbotUrl: "https://friendbot-futurenet.stellar.org",
+    explorer: "stellar.expert",
+    allowHttp: false,
+  },
+  // The quickstart image exposes all services behind the same port.
+  // There is no public explorer for a local network, so the links
+  // point directly to the local Horizon instead.
+  local: {
+    name: "local",
+    horizonUrl: "http://localhost:8000",
+    rpcUrl: "http://localhost:8000/rpc",
+    networkPassphrase: Networks.STANDALONE,
+    friendbotUrl: "http://localhost:8000/friendbot",
+    explorer: "horizon",
+    allowHttp: true,
+  },
+  pubnet: {
+    name: "pubnet",
+    horizonUrl: "https://horizon.stellar.org",
+    networkPassphrase: Networks.PUBLIC,
+    explorer: "stellar.expert",
+    allowHttp: false,
+  },
+};
+
+const EXPLORER_NAMES: ExplorerName[] = [
+  "stellar.expert",
+  "stellarchain",
+  "horizon",
+];
+
+const isNetworkName = (value: string): value is NetworkName =>
+  value === "custom" || value in NETWORK_PROFILES;
+
+const isExplorerName = (value: string): value is ExplorerName =>
+  EXPLORER_NAMES.includes(value as ExplorerName);
+
+async function readConfigFile(): Promise<NetworkConfigFile> {
+  const explicitPath = Deno.env.get("STELLAR_NETWORK_CONFIG");
+  const path = explicitPath ?? DEFAULT_CONFIG_FILE;
+
+  try {
+    return JSON.parse(await Deno.readTextFile(path)) as NetworkConfigFile;
+  } catch (e) {
+    // The default config file is optional, but a file that was
+    // explicitly requested must exist.
+    if (e instanceof Deno.errors.NotFound && !explicitPath) {
+      return {};
+    }
+    throw new Error(
+      `Could not read the network config file '${path}': ${
+        (e as Error).message
+      }`,
+    );
+  }
+}
+
+// This function resolves the network profile by combining
+// the STELLAR_NETWORK environment variable, the config file and
+// the built-in profiles.
+export async function loadNetworkProfile(): Promise<NetworkProfile> {
+  const config = await readConfigFile();
+  const name = Deno.env.get("STELLAR_NETWORK") ?? config.network ?? "testnet";
+
+  if (!isNetworkName(name)) {
+    throw new Error(
+      `Unknown network '${name}'. Use one of: ${
+        [...Object.keys(NETWORK_PROFILES), "custom"].join(", ")
+      }`,
+    );
+  }
+
+  const { network: _network, ...overrides } = config;
+  const base = name === "custom" ? undefined : NETWORK_PROFILES[name];
+  const profile = { ...base, ...overrides, name } as NetworkProfile;
+
+  if (!profile.horizonUrl || !profile.networkPassphrase) {
+    throw new Error(
+      `The '${name}' network requires 'horizonUrl' and 'networkPassphrase' in the config file.`,
+    );
+  }
+
+  // Custom networks have no public explorer unless configured otherwise
+  const explorer = Deno.env.get("STELLAR_EXPLORER") ?? profile.explorer ??
+    "horizon";
+  if (!isExplorerName(explorer)) {
+    throw new Error(
+      `Unknown explorer '${explorer}'. Use one of: ${
+        EXPLORER_NAMES.join(", ")
+      }`,
+    );
+  }
+
+  return { ...profile, explorer, allowHttp: profile.allowHttp ?? false };
+}
+
+// Network profile selected when the process starts, the network of the
+// default context (see infrastructure/context/stellar-context.ts)
+export const DEFAULT_NETWORK = await loadNetworkProfile();
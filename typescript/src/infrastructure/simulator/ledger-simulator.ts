@@ -0,0 +1,672 @@
+/*
+    This script implements an in-memory Stellar ledger, so the classic use
+    cases can run without a network, e.g. in tests or workshops offline.
+
+    Transactions are checked and applied like Stellar Core does:
+    1. Validation: source account, sequence number, time bounds, fee and
+       signatures. A transaction failing validation is rejected without
+       being included in a ledger, e.g. tx_bad_seq or tx_bad_auth.
+    2. Application: the fee is charged, the sequence number is consumed and
+       the operations are applied (see simulated-operations.ts). When any
+       operation fails, none of them take effect and the transaction fails
+       with tx_failed.
+
+    Each transaction closes a new ledger. The network starts with a single
+    root account holding all the lumens, whose keypair is derived from the
+    network passphrase (like on quickstart networks).
+
+    Signatures are checked against the weights and thresholds of each
+    account, for every type of signer:
+    - ed25519 keys, with a signature of the transaction hash
+    - hash(x), with the preimage of the hash as the signature
+    - pre-authorized transactions, without a signature. The signer is
+      removed once the transaction is applied, even when it fails.
+    - signed payloads (CAP-40), with a signature of the payload
+
+    Fee-bump transactions (CAP-15) are checked against their fee account,
+    which pays the fee of the inner transaction and of an extra operation.
+    The fee of the inner transaction can then be below the base fee. When
+    the inner transaction is rejected or fails, the fee bump fails with
+    tx_fee_bump_inner_failed and the code of the inner transaction.
+*/
+
+import {
+  FeeBumpTransaction,
+  hash,
+  Keypair,
+  type Operation,
+  StrKey,
+  Transaction,
+  xdr,
+} from "@stellar/stellar-sdk";
+import {
+  availableBalance,
+  BASE_FEE,
+  type LedgerState,
+  newAccount,
+  type SimulatedAccount,
+  type SimulatedTrustline,
+  trustlineKey,
+} from "./ledger-state.ts";
+import {
+  applyOperation,
+  type OperationContext,
+} from "./simulated-operations.ts";
+
+export interface SimulatedTransaction {
+  hash: string;
+  ledger: number;
+  // Time the ledger was closed, in UNIX seconds
+  closedAt: number;
+  successful: boolean;
+  sourceAccount: string;
+  // Account paying the fee, i.e. the fee account of a fee bump
+  feeAccount: string;
+  // Fee charged in stroops
+  feeCharged: bigint;
+  envelopeXdr: string;
+  resultXdr: string;
+  resultMetaXdr: string;
+}
+
+// Outcome of a submitted transaction. Rejected transactions are not
+// included in a ledger, so they have no record.
+export interface SubmissionOutcome {
+  // Horizon transaction code, e.g. tx_success, tx_failed, tx_bad_seq
+  transactionCode: string;
+  // Horizon code of the inner transaction of a fee bump
+  innerTransactionCode?: string;
+  // Horizon operation codes, e.g. op_success, op_underfunded
+  operationCodes: string[];
+  resultXdr: string;
+  record?: SimulatedTransaction;
+}
+
+// 100 billion XLM, in stroops
+const TOTAL_SUPPLY = 1_000_000_000_000_000_000n;
+
+// Transaction and operation codes whose XDR name does not follow
+// the Horizon name, e.g. tx_no_source_account -> txNoAccount
+const XDR_TRANSACTION_NAMES: Record<string, string> = {
+  tx_no_source_account: "txNoAccount",
+};
+const XDR_OUTER_OPERATION_NAMES: Record<string, string> = {
+  op_bad_auth: "opBadAuth",
+  op_no_source_account: "opNoAccount",
+  op_not_supported: "opNotSupported",
+  op_too_many_subentries: "opTooManySubentries",
+};
+const XDR_OPERATION_SUFFIXES: Record<string, string> = {
+  op_already_exists: "AlreadyExist",
+  op_data_name_not_found: "NameNotFound",
+  op_data_invalid_name: "InvalidName",
+  op_no_trustline: "NoTrustLine",
+};
+
+const toCamelCase = (code: string) =>
+  code.replace(/_([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+
+const capitalize = (name: string) =>
+  name.charAt(0).toUpperCase() + name.slice(1);
+
+// The revoke operations are decoded with a type per ledger entry,
+// e.g. revokeTrustlineSponsorship, but share a single XDR type
+const xdrOperationType = (type: string) =>
+  type.startsWith("revoke") ? "revokeSponsorship" : type;
+
+// The type definitions declare factories for the unions switched on an
+// integer, e.g. TransactionMeta[0](), but the SDK only provides their
+// constructors
+const TransactionResultExt = xdr.TransactionResultExt as unknown as new (
+  version: number,
+) => xdr.TransactionResultExt;
+const InnerTransactionResultExt = xdr
+  .InnerTransactionResultExt as unknown as new (
+    version: number,
+  ) => xdr.InnerTransactionResultExt;
+const TransactionMeta = xdr.TransactionMeta as unknown as new (
+  version: number,
+  operations: xdr.OperationMeta[],
+) => xdr.TransactionMeta;
+
+// This function builds the XDR result of an operation from its code.
+function operationResultXdr(
+  type: string,
+  code: string,
+): xdr.OperationResult {
+  const outer = XDR_OUTER_OPERATION_NAMES[code];
+  if (outer) {
+    return (xdr.OperationResult as unknown as Record<
+      string,
+      () => xdr.OperationResult
+    >)[outer]();
+  }
+
+  // e.g. payment + op_underfunded -> xdr.PaymentResult(paymentUnderfunded)
+  const xdrType = xdrOperationType(type);
+  const resultName = `${capitalize(xdrType)}Result`;
+  const codeName = `${xdrType}${
+    XDR_OPERATION_SUFFIXES[code] ?? capitalize(toCamelCase(code.slice(3)))
+  }`;
+  const types = xdr as unknown as Record<string, unknown>;
+  const ResultType = types[resultName] as new (
+    code: unknown,
+    value?: unknown,
+  ) => unknown;
+  const codes = types[`${resultName}Code`] as Record<string, () => unknown>;
+  // A successful merge reports the balance merged, which is not kept
+  const value = xdrType === "accountMerge" && code === "op_success"
+    ? xdr.Int64.fromString("0")
+    : undefined;
+
+  return xdr.OperationResult.opInner(
+    (xdr.OperationResultTr as unknown as Record<
+      string,
+      (result: unknown) => xdr.OperationResultTr
+    >)[xdrType](new ResultType(codes[codeName](), value)),
+  );
+}
+
+// This function builds the result of a transaction from its codes, in
+// the union of the results of a transaction or of an inner transaction.
+function resultOf<T>(
+  union: unknown,
+  transactionCode: string,
+  operations: Operation[],
+  operationCodes: string[],
+): T {
+  const name = XDR_TRANSACTION_NAMES[transactionCode] ??
+    toCamelCase(transactionCode);
+  const results = union as Record<
+    string,
+    (results?: xdr.OperationResult[]) => T
+  >;
+  return operationCodes.length
+    ? results[name](
+      operationCodes.map((code, index) =>
+        operationResultXdr(operations[index].type, code)
+      ),
+    )
+    : results[name]();
+}
+
+// This function builds the XDR result of a transaction from its codes.
+function transactionResultXdr(
+  transactionCode: string,
+  operations: Operation[],
+  operationCodes: string[],
+  feeCharged: bigint,
+): string {
+  return new xdr.TransactionResult({
+    feeCharged: xdr.Int64.fromString(feeCharged.toString()),
+    result: resultOf<xdr.TransactionResultResult>(
+      xdr.TransactionResultResult,
+      transactionCode,
+      operations,
+      operationCodes,
+    ),
+    ext: new TransactionResultExt(0),
+  }).toXDR("base64");
+}
+
+// This function builds the XDR result of a fee bump from the codes of
+// its inner transaction, whose fee is paid by the fee bump.
+function feeBumpResultXdr(
+  inner: Transaction,
+  transactionCode: string,
+  operationCodes: string[],
+  feeCharged: bigint,
+): string {
+  const innerResult = new xdr.InnerTransactionResult({
+    feeCharged: xdr.Int64.fromString("0"),
+    result: resultOf<xdr.InnerTransactionResultResult>(
+      xdr.InnerTransactionResultResult,
+      transactionCode,
+      inner.operations,
+      operationCodes,
+    ),
+    ext: new InnerTransactionResultExt(0),
+  });
+  const pair = new xdr.InnerTransactionResultPair({
+    transactionHash: inner.hash(),
+    result: innerResult,
+  });
+
+  return new xdr.TransactionResult({
+    feeCharged: xdr.Int64.fromString(feeCharged.toString()),
+    result: transactionCode === "tx_success"
+      ? xdr.TransactionResultResult.txFeeBumpInnerSuccess(pair)
+      : xdr.TransactionResultResult.txFeeBumpInnerFailed(pair),
+    ext: new TransactionResultExt(0),
+  }).toXDR("base64");
+}
+
+// The ledger changes of the operations are not recorded, so the
+// meta only has an empty entry per operation
+const emptyResultMeta = (operationCount: number) =>
+  new TransactionMeta(
+    0,
+    Array.from(
+      { length: operationCount },
+      () => new xdr.OperationMeta({ changes: [] }),
+    ),
+  ).toXDR("base64");
+
+// This class checks the signatures of a transaction against the signers
+// of the accounts, and remembers which signatures were used.
+class SignatureChecker {
+  private used = new Set<number>();
+
+  constructor(private readonly tx: Transaction | FeeBumpTransaction) {}
+
+  // This function returns whether a signer signed the transaction.
+  //
+  // Args:
+  // - key: The key of the signer, in the StrKey format (see signerStrKey)
+  private signedBy(key: string): boolean {
+    // The transaction itself is the signature
+    if (key.startsWith("T")) {
+      return StrKey.decodePreAuthTx(key).equals(this.tx.hash());
+    }
+
+    let matches: (signature: xdr.DecoratedSignature) => boolean;
+    if (key.startsWith("X")) {
+      const hashX = StrKey.decodeSha256Hash(key);
+      matches = (signature) =>
+        signature.hint().equals(hashX.subarray(-4)) &&
+        hash(signature.signature()).equals(hashX);
+    } else if (key.startsWith("P")) {
+      const signedPayload = xdr.SignerKeyEd25519SignedPayload.fromXDR(
+        StrKey.decodeSignedPayload(key),
+      );
+      const keypair = Keypair.fromPublicKey(
+        StrKey.encodeEd25519PublicKey(signedPayload.ed25519()),
+      );
+      matches = (signature) =>
+        keypair.verify(signedPayload.payload(), signature.signature());
+    } else {
+      const keypair = Keypair.fromPublicKey(key);
+      matches = (signature) =>
+        signature.hint().equals(keypair.signatureHint()) &&
+        keypair.verify(this.tx.hash(), signature.signature());
+    }
+
+    const index = this.tx.signatures.findIndex(matches);
+    if (index === -1) {
+      return false;
+    }
+    this.used.add(index);
+    return true;
+  }
+
+  // Returns whether the signers of the account reach the threshold.
+  // A threshold of 0 still requires a signature.
+  meetsThreshold(account: SimulatedAccount, threshold: number): boolean {
+    let weight = account.masterWeight > 0 && this.signedBy(account.accountId)
+      ? account.masterWeight
+      : 0;
+    for (const [key, signer] of Object.entries(account.signers)) {
+      if (this.signedBy(key)) {
+        weight += signer.weight;
+      }
+    }
+    return weight >= Math.max(threshold, 1);
+  }
+
+  // Accounts created by the transaction itself can only sign with their
+  // master key, e.g. the change_trust of a sponsored account creation
+  signedByMasterKey(accountId: string): boolean {
+    return this.signedBy(accountId);
+  }
+
+  allSignaturesUsed(): boolean {
+    return this.used.size === this.tx.signatures.length;
+  }
+}
+
+// Threshold required by each operation from its source account
+function thresholdLevel(op: Operation): "low" | "med" | "high" {
+  switch (op.type) {
+    case "allowTrust":
+    case "setTrustLineFlags":
+    case "bumpSequence":
+      return "low";
+    case "accountMerge":
+      return "high";
+    case "setOptions":
+      return op.masterWeight !== undefined || op.signer ||
+          op.lowThreshold !== undefined || op.medThreshold !== undefined ||
+          op.highThreshold !== undefined
+        ? "high"
+        : "med";
+    default:
+      return "med";
+  }
+}
+
+export class LedgerSimulator {
+  readonly rootKeypair: Keypair;
+  private state: LedgerState = { accounts: {}, trustlines: {} };
+  private transactions = new Map<string, SimulatedTransaction>();
+  private ledger = 1;
+
+  constructor(readonly networkPassphrase: string) {
+    this.rootKeypair = Keypair.master(networkPassphrase);
+    this.state.accounts[this.rootKeypair.publicKey()] = newAccount(
+      this.rootKeypair.publicKey(),
+      TOTAL_SUPPLY,
+      0n,
+    );
+  }
+
+  get latestLedger(): number {
+    return this.ledger;
+  }
+
+  getAccount(accountId: string): SimulatedAccount | undefined {
+    return structuredClone(this.state.accounts[accountId]);
+  }
+
+  // This function returns the accounts whose entry, trustlines or signers
+  // are sponsored by an account.
+  getSponsoredAccounts(sponsorId: string): SimulatedAccount[] {
+    const sponsored = Object.values(this.state.accounts).filter((account) =>
+      account.sponsor === sponsorId ||
+      Object.values(account.signers).some((signer) =>
+        signer.sponsor === sponsorId
+      ) ||
+      Object.values(account.data).some((entry) =>
+        entry.sponsor === sponsorId
+      ) ||
+      this.getTrustlines(account.accountId).some((trustline) =>
+        trustline.sponsor === sponsorId
+      )
+    );
+    return structuredClone(sponsored);
+  }
+
+  getTrustline(
+    accountId: string,
+    asset: string,
+  ): SimulatedTrustline | undefined {
+    return structuredClone(
+      this.state.trustlines[trustlineKey(accountId, asset)],
+    );
+  }
+
+  getTrustlines(accountId: string): SimulatedTrustline[] {
+    return structuredClone(
+      Object.values(this.state.trustlines).filter((trustline) =>
+        trustline.accountId === accountId
+      ),
+    );
+  }
+
+  // This function returns the trustlines to the assets issued by an
+  // account, i.e. the balances of its holders.
+  getIssuedTrustlines(issuerId: string): SimulatedTrustline[] {
+    return structuredClone(
+      Object.values(this.state.trustlines).filter((trustline) =>
+        trustline.asset.endsWith(`:${issuerId}`)
+      ),
+    );
+  }
+
+  getTransaction(hash: string): SimulatedTransaction | undefined {
+    return this.transactions.get(hash);
+  }
+
+  getTransactions(accountId: string): SimulatedTransaction[] {
+    return [...this.transactions.values()].filter((record) =>
+      record.sourceAccount === accountId
+    );
+  }
+
+  private reject(
+    transactionCode: string,
+    operations: Operation[] = [],
+    operationCodes: string[] = [],
+  ): SubmissionOutcome {
+    return {
+      transactionCode,
+      operationCodes,
+      resultXdr: transactionResultXdr(
+        transactionCode,
+        operations,
+        operationCodes,
+        0n,
+      ),
+    };
+  }
+
+  // This function checks a transaction before it is applied. Returns the
+  // outcome of a rejected transaction, or undefined when it is valid.
+  //
+  // Args:
+  // - tx: The transaction to check
+  // - feeBumped: Whether the transaction is the inner transaction of a fee
+  //   bump, whose fee is checked and paid by the fee bump instead
+  private validate(
+    tx: Transaction,
+    feeBumped = false,
+  ): SubmissionOutcome | undefined {
+    const source = this.state.accounts[tx.source];
+    const now = Math.floor(Date.now() / 1000);
+    const { minTime = "0", maxTime = "0" } = tx.timeBounds ?? {};
+
+    if (!source) {
+      return this.reject("tx_no_source_account");
+    }
+    if (!tx.operations.length) {
+      return this.reject("tx_missing_operation");
+    }
+    if (Number(maxTime) && now > Number(maxTime)) {
+      return this.reject("tx_too_late");
+    }
+    if (now < Number(minTime)) {
+      return this.reject("tx_too_early");
+    }
+    if (
+      !feeBumped && BigInt(tx.fee) < BASE_FEE * BigInt(tx.operations.length)
+    ) {
+      return this.reject("tx_insufficient_fee");
+    }
+    if (BigInt(tx.sequence) !== source.sequence + 1n) {
+      return this.reject("tx_bad_seq");
+    }
+
+    // The source of the transaction signs for the fee and the sequence
+    // number with the low threshold, and the source of each operation
+    // with the threshold of the operation
+    const checker = new SignatureChecker(tx);
+    if (!checker.meetsThreshold(source, source.thresholds.low)) {
+      return this.reject("tx_bad_auth");
+    }
+    const operationCodes = tx.operations.map((op) => {
+      const opSource = this.state.accounts[op.source ?? tx.source];
+      const authorized = opSource
+        ? checker.meetsThreshold(
+          opSource,
+          opSource.thresholds[thresholdLevel(op)],
+        )
+        : checker.signedByMasterKey(op.source!);
+      return authorized ? "op_success" : "op_bad_auth";
+    });
+    if (operationCodes.includes("op_bad_auth")) {
+      return this.reject("tx_failed", tx.operations, operationCodes);
+    }
+    if (!checker.allSignaturesUsed()) {
+      return this.reject("tx_bad_auth_extra");
+    }
+
+    if (!feeBumped && availableBalance(source) < BigInt(tx.fee)) {
+      return this.reject("tx_insufficient_balance");
+    }
+    return undefined;
+  }
+
+  // This function checks a fee bump and its inner transaction before they
+  // are applied. Returns the outcome of a rejected fee bump, or undefined
+  // when it is valid.
+  private validateFeeBump(
+    tx: FeeBumpTransaction,
+  ): SubmissionOutcome | undefined {
+    const feeAccount = this.state.accounts[tx.feeSource];
+    const inner = tx.innerTransaction;
+    const fee = BigInt(tx.fee);
+    const operationCount = BigInt(inner.operations.length);
+
+    if (!feeAccount) {
+      return this.reject("tx_no_source_account");
+    }
+    // The fee bump pays for an extra operation, at a fee per operation
+    // no lower than the one of the inner transaction
+    if (
+      fee < BASE_FEE * (operationCount + 1n) ||
+      fee * operationCount < BigInt(inner.fee) * (operationCount + 1n)
+    ) {
+      return this.reject("tx_insufficient_fee");
+    }
+
+    // The fee account signs the fee bump with the low threshold
+    const checker = new SignatureChecker(tx);
+    if (!checker.meetsThreshold(feeAccount, feeAccount.thresholds.low)) {
+      return this.reject("tx_bad_auth");
+    }
+    if (!checker.allSignaturesUsed()) {
+      return this.reject("tx_bad_auth_extra");
+    }
+    if (availableBalance(feeAccount) < fee) {
+      return this.reject("tx_insufficient_balance");
+    }
+
+    const rejection = this.validate(inner, true);
+    if (!rejection) {
+      return undefined;
+    }
+    return {
+      transactionCode: "tx_fee_bump_inner_failed",
+      innerTransactionCode: rejection.transactionCode,
+      operationCodes: rejection.operationCodes,
+      resultXdr: feeBumpResultXdr(
+        inner,
+        rejection.transactionCode,
+        rejection.operationCodes,
+        0n,
+      ),
+    };
+  }
+
+  // This function removes the signer pre-authorizing a transaction from
+  // its source accounts, since a transaction can only be applied once.
+  private removePreAuthSigners(tx: Transaction) {
+    const key = StrKey.encodePreAuthTx(tx.hash());
+    const sources = new Set([
+      tx.source,
+      ...tx.operations.map((op) => op.source ?? tx.source),
+    ]);
+    for (const accountId of sources) {
+      const account = this.state.accounts[accountId];
+      const signer = account?.signers[key];
+      if (!signer) {
+        continue;
+      }
+      delete account.signers[key];
+      account.subentries--;
+      if (signer.sponsor) {
+        this.state.accounts[signer.sponsor].numSponsoring--;
+        account.numSponsored--;
+      }
+    }
+  }
+
+  // This function submits a transaction to the simulated network.
+  submit(tx: Transaction | FeeBumpTransaction): SubmissionOutcome {
+    if (tx.networkPassphrase !== this.networkPassphrase) {
+      // Signatures for another network do not match the hash
+      return this.reject("tx_bad_auth");
+    }
+
+    const feeBump = tx instanceof FeeBumpTransaction ? tx : undefined;
+    const inner = tx instanceof FeeBumpTransaction ? tx.innerTransaction : tx;
+    const rejection = feeBump
+      ? this.validateFeeBump(feeBump)
+      : this.validate(inner);
+    if (rejection) {
+      return rejection;
+    }
+
+    // The fee and the sequence number are consumed even if the
+    // operations fail. A fee bump pays for an extra operation.
+    this.ledger++;
+    const feeAccount = feeBump?.feeSource ?? inner.source;
+    const feeCharged = BASE_FEE *
+      BigInt(inner.operations.length + (feeBump ? 1 : 0));
+    this.state.accounts[feeAccount].balance -= feeCharged;
+    this.state.accounts[inner.source].sequence = BigInt(inner.sequence);
+    this.removePreAuthSigners(inner);
+
+    const context: OperationContext = {
+      state: structuredClone(this.state),
+      ledger: this.ledger,
+      sponsorships: {},
+    };
+    const operationCodes = inner.operations.map((op) => {
+      const opSource = op.source ?? inner.source;
+      return context.state.accounts[opSource]
+        ? applyOperation(op, opSource, context)
+        : "op_no_source_account";
+    });
+
+    const operationsSucceeded = operationCodes.every((code) =>
+      code === "op_success"
+    );
+    // Every begin_sponsoring_future_reserves must be ended
+    const transactionCode = !operationsSucceeded
+      ? "tx_failed"
+      : Object.keys(context.sponsorships).length
+      ? "tx_bad_sponsorship"
+      : "tx_success";
+    if (transactionCode === "tx_success") {
+      this.state = context.state;
+    }
+
+    const resultCodes = transactionCode === "tx_bad_sponsorship"
+      ? []
+      : operationCodes;
+    const resultXdr = feeBump
+      ? feeBumpResultXdr(inner, transactionCode, resultCodes, feeCharged)
+      : transactionResultXdr(
+        transactionCode,
+        inner.operations,
+        resultCodes,
+        feeCharged,
+      );
+    const record: SimulatedTransaction = {
+      hash: tx.hash().toString("hex"),
+      ledger: this.ledger,
+      closedAt: Math.floor(Date.now() / 1000),
+      successful: transactionCode === "tx_success",
+      sourceAccount: inner.source,
+      feeAccount,
+      feeCharged,
+      envelopeXdr: tx.toEnvelope().toXDR("base64"),
+      resultXdr,
+      resultMetaXdr: emptyResultMeta(inner.operations.length),
+    };
+    this.transactions.set(record.hash, record);
+
+    if (feeBump) {
+      return {
+        transactionCode: transactionCode === "tx_success"
+          ? "tx_fee_bump_inner_success"
+          : "tx_fee_bump_inner_failed",
+        innerTransactionCode: transactionCode,
+        operationCodes,
+        resultXdr,
+        record,
+      };
+    }
+    return { transactionCode, operationCodes, resultXdr, record };
+  }
+}
@@ -0,0 +1,141 @@
+/*
+    This script defines the ledger entries kept by the ledger simulator and
+    the reserve rules shared by its operations.
+
+    Balances are kept in stroops (1 XLM = 10,000,000 stroops) as bigints, so
+    amounts are never rounded.
+
+    Every account must keep a minimum balance in XLM:
+
+    (2 + subentries + sponsoring - sponsored) * base reserve
+
+    - subentries: trustlines, signers, offers and data entries
+    - sponsoring: reserves the account pays for other accounts
+    - sponsored: reserves of the account paid by other accounts
+*/
+
+import { Asset, type SignerKeyOptions, StrKey } from "@stellar/stellar-sdk";
+import { Buffer } from "node:buffer";
+
+// Account flags, as set by set_options
+export const AUTH_REQUIRED_FLAG = 0x1;
+export const AUTH_REVOCABLE_FLAG = 0x2;
+export const AUTH_IMMUTABLE_FLAG = 0x4;
+export const AUTH_CLAWBACK_ENABLED_FLAG = 0x8;
+
+// Trustline flags, as set by allow_trust and set_trust_line_flags
+export const AUTHORIZED_FLAG = 0x1;
+export const AUTHORIZED_TO_MAINTAIN_LIABILITIES_FLAG = 0x2;
+export const TRUSTLINE_CLAWBACK_ENABLED_FLAG = 0x4;
+
+export const BASE_RESERVE = 5_000_000n;
+export const BASE_FEE = 100n;
+export const MAX_SIGNERS = 20;
+// Default limit of a trustline, the maximum int64 amount
+export const MAX_AMOUNT = 9_223_372_036_854_775_807n;
+
+export interface SimulatedSigner {
+  weight: number;
+  // Account paying the reserve of the signer
+  sponsor?: string;
+}
+
+export interface SimulatedDataEntry {
+  // Value in base64, as returned by Horizon
+  value: string;
+  // Account paying the reserve of the entry
+  sponsor?: string;
+}
+
+export interface SimulatedAccount {
+  accountId: string;
+  // Balance in stroops
+  balance: bigint;
+  sequence: bigint;
+  subentries: number;
+  numSponsoring: number;
+  numSponsored: number;
+  // Account paying the reserves of the account itself
+  sponsor?: string;
+  flags: number;
+  masterWeight: number;
+  thresholds: { low: number; med: number; high: number };
+  // Additional signers, by public key
+  signers: Record<string, SimulatedSigner>;
+  // Data entries, by name
+  data: Record<string, SimulatedDataEntry>;
+  homeDomain: string;
+}
+
+export interface SimulatedTrustline {
+  accountId: string;
+  // Asset in the CODE:ISSUER format
+  asset: string;
+  // Balance and limit in stroops
+  balance: bigint;
+  limit: bigint;
+  flags: number;
+  // Account paying the reserve of the trustline
+  sponsor?: string;
+}
+
+export interface LedgerState {
+  accounts: Record<string, SimulatedAccount>;
+  // Trustlines, by account and asset (see trustlineKey)
+  trustlines: Record<string, SimulatedTrustline>;
+}
+
+export const assetKey = (asset: Asset) =>
+  `${asset.getCode()}:${asset.getIssuer()}`;
+
+export const trustlineKey = (accountId: string, asset: string) =>
+  `${accountId}/${asset}`;
+
+// This function returns the key of a signer in the StrKey format used by
+// Horizon: G... for ed25519 keys, T... for pre-authorized transactions,
+// X... for hash(x) and P... for signed payloads. Hashes given as strings
+// are in hex.
+export function signerStrKey(signer: SignerKeyOptions): string {
+  const bytes = (hash: Buffer | string) =>
+    typeof hash === "string" ? Buffer.from(hash, "hex") : hash;
+  if ("preAuthTx" in signer) {
+    return StrKey.encodePreAuthTx(bytes(signer.preAuthTx));
+  }
+  if ("sha256Hash" in signer) {
+    return StrKey.encodeSha256Hash(bytes(signer.sha256Hash));
+  }
+  if ("ed25519SignedPayload" in signer) {
+    return signer.ed25519SignedPayload;
+  }
+  return signer.ed25519PublicKey;
+}
+
+export function newAccount(
+  accountId: string,
+  balance: bigint,
+  sequence: bigint,
+): SimulatedAccount {
+  return {
+    accountId,
+    balance,
+    sequence,
+    subentries: 0,
+    numSponsoring: 0,
+    numSponsored: 0,
+    flags: 0,
+    masterWeight: 1,
+    thresholds: { low: 0, med: 0, high: 0 },
+    signers: {},
+    data: {},
+    homeDomain: "",
+  };
+}
+
+export const minimumBalance = (account: SimulatedAccount) =>
+  BigInt(
+    2 + account.subentries + account.numSponsoring - account.numSponsored,
+  ) * BASE_RESERVE;
+
+// Balance that can be spent without going below the minimum balance
+export const availableBalance = (account: SimulatedAccount) =>
+  account.balance - minimumBalance(account);
@@ -0,0 +1,530 @@
+/*
+    This script exposes the ledger simulator through the endpoints of the
+    Horizon client used by the use cases, so they can run without a network.
+
+    The responses and errors have the same shape as the ones of Horizon:
+    - loadAccount and accounts().accountId() return the account record, or
+      throw a NotFoundError. Its data() function loads a data entry.
+    - submitTransaction returns the submission response, or throws a
+      BadResponseError with the result codes of the failure.
+    - transactions().transaction() and transactions().forAccount() return
+      the records of the transactions included in the simulated ledgers.
+    - feeStats always reports the base fee.
+    - ledgers() returns the latest ledger, with the base fee and reserve.
+    - accounts().sponsor() returns the accounts with sponsored entries, in
+      a single page.
+    - assets().forIssuer() returns the assets of an issuer with at least
+      one trustline, with the balances of their holders, optionally
+      filtered with forCode().
+    - offers() and claimableBalances() return no records, since offers
+      and claimable balances are not supported.
+
+    useLedgerSimulator() switches the default context and the funding
+    policy to a new simulated network, e.g.
+
+    const simulator = useLedgerSimulator();
+    await demonstrateAssetControls();
+    simulator.getTrustline(alice.publicKey(), "CTRL:G...");
+
+    createSimulatorContext() does the same for a single context instead,
+    leaving the defaults unchanged, e.g.
+
+    const context = createSimulatorContext();
+    await demonstrateMultisig(context);
+
+    The accounts are funded by the root account of the simulated network,
+    which holds all the lumens.
+*/
+
+import chalk from "chalk";
+import {
+  BadResponseError,
+  FeeBumpTransaction,
+  Horizon,
+  NotFoundError,
+  type Transaction,
+} from "@stellar/stellar-sdk";
+import type { HorizonClient } from "../horizon/get-horizon-server.ts";
+import type { NetworkProfile } from "../network/network-profile.ts";
+import {
+  configureFundingPolicy,
+  FUNDING_POLICY,
+} from "../funding/funding-policy.ts";
+import {
+  createContext,
+  setDefaultContext,
+  type StellarContext,
+} from "../context/stellar-context.ts";
+import { LOGGER } from "../../utils/logger.ts";
+import { fromStroops } from "../../utils/amounts.ts";
+import {
+  AUTH_CLAWBACK_ENABLED_FLAG,
+  AUTH_IMMUTABLE_FLAG,
+  AUTH_REQUIRED_FLAG,
+  AUTH_REVOCABLE_FLAG,
+  AUTHORIZED_FLAG,
+  AUTHORIZED_TO_MAINTAIN_LIABILITIES_FLAG,
+  BASE_FEE,
+  BASE_RESERVE,
+  TRUSTLINE_CLAWBACK_ENABLED_FLAG,
+} from "./ledger-state.ts";
+import {
+  LedgerSimulator,
+  type SimulatedTransaction,
+} from "./ledger-simulator.ts";
+
+export const SIMULATOR_PASSPHRASE = "Bootcamp Ledger Simulator ; 2025";
+
+// The URL is never requested, it only appears in the explorer links
+export const SIMULATOR_NETWORK: NetworkProfile = {
+  name: "custom",
+  horizonUrl: "http://ledger-simulator.invalid",
+  networkPassphrase: SIMULATOR_PASSPHRASE,
+  explorer: "horizon",
+  allowHttp: true,
+};
+
+type AccountCallBuilder = ReturnType<Horizon.Server["accounts"]>;
+type TransactionCallBuilder = ReturnType<Horizon.Server["transactions"]>;
+type LedgerCallBuilder = ReturnType<Horizon.Server["ledgers"]>;
+type OfferCallBuilder = ReturnType<Horizon.Server["offers"]>;
+type AssetsCallBuilder = ReturnType<Horizon.Server["assets"]>;
+type ClaimableBalanceCallBuilder = ReturnType<
+  Horizon.Server["claimableBalances"]
+>;
+
+const notFound = (resource: string) =>
+  new NotFoundError(`${resource} not found`, {
+    status: 404,
+    data: {
+      type: "https://stellar.org/horizon-errors/not_found",
+      title: "Resource Missing",
+      status: 404,
+    },
+  });
+
+// Builds a call returning the records in a single page, whatever the
+// order and limit requested
+const singlePage = <T>(records: T[]) => {
+  const builder = {
+    order: () => builder,
+    limit: () => builder,
+    cursor: () => builder,
+    call: () =>
+      Promise.resolve({
+        records,
+        next: () => singlePage([]).call(),
+        prev: () => singlePage([]).call(),
+      }),
+  };
+  return builder;
+};
+
+// Horizon type of a signer, from the prefix of its key
+const signerType = (key: string) =>
+  ({
+    T: "preauth_tx",
+    X: "sha256_hash",
+    P: "ed25519_signed_payload",
+  })[key[0]] ?? "ed25519_public_key";
+
+const assetType = (code: string) =>
+  code.length <= 4 ? "credit_alphanum4" : "credit_alphanum12";
+
+const toTransactionRecord = (record: SimulatedTransaction) =>
+  ({
+    id: record.hash,
+    paging_token: record.hash,
+    hash: record.hash,
+    ledger_attr: record.ledger,
+    created_at: new Date(record.closedAt * 1000).toISOString(),
+    source_account: record.sourceAccount,
+    fee_account: record.feeAccount,
+    fee_charged: record.feeCharged.toString(),
+    successful: record.successful,
+    envelope_xdr: record.envelopeXdr,
+    result_xdr: record.resultXdr,
+    result_meta_xdr: record.resultMetaXdr,
+  }) as unknown as Horizon.ServerApi.TransactionRecord;
+
+export class SimulatedHorizonServer implements HorizonClient {
+  constructor(readonly simulator: LedgerSimulator) {}
+
+  // This function builds the Horizon record of an account, with its
+  // balances, flags, thresholds and signers.
+  private accountRecord(accountId: string): Horizon.ServerApi.AccountRecord {
+    const account = this.simulator.getAccount(accountId);
+    if (!account) {
+      throw notFound(`Account ${accountId}`);
+    }
+
+    const trustlines = this.simulator.getTrustlines(accountId).map((line) => {
+      const [code, issuer] = line.asset.split(":");
+      return {
+        balance: fromStroops(line.balance),
+        limit: fromStroops(line.limit),
+        // There are no offers on the simulator, so no liabilities either
+        buying_liabilities: "0.0000000",
+        selling_liabilities: "0.0000000",
+        asset_type: assetType(code),
+        asset_code: code,
+        asset_issuer: issuer,
+        is_authorized: (line.flags & AUTHORIZED_FLAG) !== 0,
+        is_authorized_to_maintain_liabilities:
+          (line.flags & AUTHORIZED_TO_MAINTAIN_LIABILITIES_FLAG) !== 0,
+        is_clawback_enabled: (line.flags & TRUSTLINE_CLAWBACK_ENABLED_FLAG) !==
+          0,
+        ...(line.sponsor && { sponsor: line.sponsor }),
+      };
+    });
+
+    return {
+      id: accountId,
+      paging_token: accountId,
+      account_id: accountId,
+      sequence: account.sequence.toString(),
+      subentry_count: account.subentries,
+      home_domain: account.homeDomain || undefined,
+      last_modified_ledger: this.simulator.latestLedger,
+      thresholds: {
+        low_threshold: account.thresholds.low,
+        med_threshold: account.thresholds.med,
+        high_threshold: account.thresholds.high,
+      },
+      flags: {
+        auth_required: (account.flags & AUTH_REQUIRED_FLAG) !== 0,
+        auth_revocable: (account.flags & AUTH_REVOCABLE_FLAG) !== 0,
+        auth_immutable: (account.flags & AUTH_IMMUTABLE_FLAG) !== 0,
+        auth_clawback_enabled: (account.flags & AUTH_CLAWBACK_ENABLED_FLAG) !==
+          0,
+      },
+      balances: [
+        ...trustlines,
+        {
+          balance: fromStroops(account.balance),
+          buying_liabilities: "0.0000000",
+          selling_liabilities: "0.0000000",
+          asset_type: "native",
+        },
+      ],
+      signers: [
+        ...Object.entries(account.signers).map(([key, signer]) => ({
+          key,
+          weight: signer.weight,
+          type: signerType(key),
+          ...(signer.sponsor && { sponsor: signer.sponsor }),
+        })),
+        {
+          key: accountId,
+          weight: account.masterWeight,
+          type: "ed25519_public_key",
+        },
+      ],
+      // The SDK moves the data entries of the response to data_attr, and
+      // adds a function loading each entry with its sponsor
+      data_attr: Object.fromEntries(
+        Object.entries(account.data).map(([name, entry]) => [
+          name,
+          entry.value,
+        ]),
+      ),
+      data: ({ key }: { key: string }) =>
+        account.data[key]
+          ? Promise.resolve(account.data[key])
+          : Promise.reject(notFound(`Data entry ${key}`)),
+      sponsor: account.sponsor,
+      num_sponsoring: account.numSponsoring,
+      num_sponsored: account.numSponsored,
+    } as unknown as Horizon.ServerApi.AccountRecord;
+  }
+
+  loadAccount(accountId: string): Promise<Horizon.AccountResponse> {
+    try {
+      return Promise.resolve(
+        new Horizon.AccountResponse(this.accountRecord(accountId)),
+      );
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  submitTransaction(
+    tx: Transaction | FeeBumpTransaction,
+  ): Promise<Horizon.HorizonApi.SubmitTransactionResponse> {
+    const outcome = this.simulator.submit(tx);
+    const record = outcome.record;
+
+    if (!record?.successful) {
+      const hash = tx.hash().toString("hex");
+      return Promise.reject(
+        new BadResponseError(
+          `Transaction submission failed. Server responded: 400 Transaction Failed`,
+          {
+            status: 400,
+            data: {
+              type: "https://stellar.org/horizon-errors/transaction_failed",
+              title: "Transaction Failed",
+              status: 400,
+              extras: {
+                envelope_xdr: tx.toEnvelope().toXDR("base64"),
+                result_xdr: outcome.resultXdr,
+                result_codes: {
+                  transaction: outcome.transactionCode,
+                  ...(outcome.innerTransactionCode &&
+                    { inner_transaction: outcome.innerTransactionCode }),
+                  ...(outcome.operationCodes.length &&
+                    { operations: outcome.operationCodes }),
+                },
+                hash,
+              },
+            },
+          },
+        ),
+      );
+    }
+
+    return Promise.resolve({
+      hash: record.hash,
+      ledger: record.ledger,
+      successful: true,
+      envelope_xdr: record.envelopeXdr,
+      result_xdr: record.resultXdr,
+      result_meta_xdr: record.resultMetaXdr,
+      paging_token: record.hash,
+    });
+  }
+
+  feeStats(): Promise<Horizon.HorizonApi.FeeStatsResponse> {
+    const fee = BASE_FEE.toString();
+    const distribution = Object.fromEntries(
+      ["max", "min", "mode", "p10", "p20", "p30", "p40", "p50", "p60", "p70"]
+        .concat(["p80", "p90", "p95", "p99"])
+        .map((key) => [key, fee]),
+    ) as unknown as Horizon.HorizonApi.FeeDistribution;
+
+    return Promise.resolve({
+      last_ledger: this.simulator.latestLedger.toString(),
+      last_ledger_base_fee: fee,
+      ledger_capacity_usage: "0.00",
+      fee_charged: distribution,
+      max_fee: distribution,
+    });
+  }
+
+  accounts(): AccountCallBuilder {
+    return {
+      accountId: (accountId: string) => ({
+        call: () => Promise.resolve(this.accountRecord(accountId)),
+      }),
+      sponsor: (sponsorId: string) =>
+        singlePage(
+          this.simulator.getSponsoredAccounts(sponsorId).map((account) =>
+            this.accountRecord(account.accountId)
+          ),
+        ),
+    } as unknown as AccountCallBuilder;
+  }
+
+  transactions(): TransactionCallBuilder {
+    return {
+      transaction: (hash: string) => ({
+        call: () => {
+          const record = this.simulator.getTransaction(hash);
+          return record
+            ? Promise.resolve(toTransactionRecord(record))
+            : Promise.reject(notFound(`Transaction ${hash}`));
+        },
+      }),
+      forAccount: (accountId: string) => ({
+        call: () =>
+          Promise.resolve({
+            records: this.simulator.getTransactions(accountId).map(
+              toTransactionRecord,
+            ),
+          }),
+      }),
+    } as unknown as TransactionCallBuilder;
+  }
+
+  // Only the latest ledger is kept
+  ledgers(): LedgerCallBuilder {
+    const sequence = this.simulator.latestLedger;
+    return singlePage([{
+      id: sequence.toString(),
+      paging_token: sequence.toString(),
+      sequence,
+      base_fee_in_stroops: Number(BASE_FEE),
+      base_reserve_in_stroops: Number(BASE_RESERVE),
+      closed_at: new Date().toISOString(),
+    }]) as unknown as LedgerCallBuilder;
+  }
+
+  // This function builds the Horizon records of the assets issued by an
+  // account, from the trustlines of their holders.
+  private assetRecords(issuerId: string): Horizon.ServerApi.AssetRecord[] {
+    const issuer = this.simulator.getAccount(issuerId);
+    const records = new Map<string, Horizon.ServerApi.AssetRecord>();
+    const balances = new Map<string, Record<string, bigint>>();
+
+    for (const line of this.simulator.getIssuedTrustlines(issuerId)) {
+      const [code] = line.asset.split(":");
+      const status = (line.flags & AUTHORIZED_FLAG) !== 0
+        ? "authorized"
+        : (line.flags & AUTHORIZED_TO_MAINTAIN_LIABILITIES_FLAG) !== 0
+        ? "authorized_to_maintain_liabilities"
+        : "unauthorized";
+      const totals = balances.get(line.asset) ?? {
+        authorized: 0n,
+        authorized_to_maintain_liabilities: 0n,
+        unauthorized: 0n,
+      };
+      totals[status] += line.balance;
+      balances.set(line.asset, totals);
+
+      const record = records.get(line.asset) ?? {
+        paging_token: line.asset,
+        asset_type: assetType(code),
+        asset_code: code,
+        asset_issuer: issuerId,
+        accounts: {
+          authorized: 0,
+          authorized_to_maintain_liabilities: 0,
+          unauthorized: 0,
+        },
+        // There are no claimable balances, liquidity pools or contracts on
+        // the simulator
+        num_claimable_balances: 0,
+        num_liquidity_pools: 0,
+        num_contracts: 0,
+        claimable_balances_amount: "0.0000000",
+        liquidity_pools_amount: "0.0000000",
+        contracts_amount: "0.0000000",
+        flags: {
+          auth_required: ((issuer?.flags ?? 0) & AUTH_REQUIRED_FLAG) !== 0,
+          auth_revocable: ((issuer?.flags ?? 0) & AUTH_REVOCABLE_FLAG) !== 0,
+          auth_immutable: ((issuer?.flags ?? 0) & AUTH_IMMUTABLE_FLAG) !== 0,
+          auth_clawback_enabled:
+            ((issuer?.flags ?? 0) & AUTH_CLAWBACK_ENABLED_FLAG) !== 0,
+        },
+      } as unknown as Horizon.ServerApi.AssetRecord;
+      record.accounts[status]++;
+      records.set(line.asset, record);
+    }
+
+    return [...records.entries()].map(([asset, record]) => ({
+      ...record,
+      balances: Object.fromEntries(
+        Object.entries(balances.get(asset)!).map(([status, total]) => [
+          status,
+          fromStroops(total),
+        ]),
+      ) as unknown as Horizon.HorizonApi.AssetBalances,
+    }));
+  }
+
+  assets(): AssetsCallBuilder {
+    const filter = { issuer: "", code: "" };
+    const builder = {
+      forIssuer: (issuer: string) => {
+        filter.issuer = issuer;
+        return builder;
+      },
+      forCode: (code: string) => {
+        filter.code = code;
+        return builder;
+      },
+      limit: () => builder,
+      call: () =>
+        singlePage(
+          this.assetRecords(filter.issuer).filter((record) =>
+            !filter.code || record.asset_code === filter.code
+          ),
+        ).call(),
+    };
+    return builder as unknown as AssetsCallBuilder;
+  }
+
+  offers(): OfferCallBuilder {
+    return {
+      forAccount: () => singlePage([]),
+      sponsor: () => singlePage([]),
+    } as unknown as OfferCallBuilder;
+  }
+
+  claimableBalances(): ClaimableBalanceCallBuilder {
+    return {
+      sponsor: () => singlePage([]),
+      claimant: () => singlePage([]),
+    } as unknown as ClaimableBalanceCallBuilder;
+  }
+}
+
+// This function routes the use cases to a ledger simulator instead of the
+// network: the default context is replaced by one on the simulated
+// network, and the funder account by the root account of the simulator.
+//
+// Args:
+// - simulator: The simulator to use, defaults to a new empty network
+export function useLedgerSimulator(
+  simulator: LedgerSimulator = new LedgerSimulator(SIMULATOR_PASSPHRASE),
+): LedgerSimulator {
+  setDefaultContext({
+    network: {
+      ...SIMULATOR_NETWORK,
+      networkPassphrase: simulator.networkPassphrase,
+    },
+    horizon: new SimulatedHorizonServer(simulator),
+  });
+  configureFundingPolicy({
+    funderAccount: simulator.rootKeypair,
+    startingBalance: "10000",
+  });
+
+  return simulator;
+}
+
+// This function creates a context running on a ledger simulator. Unlike
+// useLedgerSimulator, the default context is kept, so the simulated and
+// real networks can be used side by side.
+//
+// Args:
+// - simulator: The simulator to use, defaults to a new empty network
+export function createSimulatorContext(
+  simulator: LedgerSimulator = new LedgerSimulator(SIMULATOR_PASSPHRASE),
+): StellarContext {
+  return createContext({
+    network: {
+      ...SIMULATOR_NETWORK,
+      networkPassphrase: simulator.networkPassphrase,
+    },
+    horizon: new SimulatedHorizonServer(simulator),
+    fundingPolicy: {
+      ...FUNDING_POLICY,
+      funderAccount: simulator.rootKeypair,
+      startingBalance: "10000",
+    },
+  });
+}
+
+// Runs the asset controls, multisig, escrow and signed payload
+// demonstrations on the simulator
+if (import.meta.main) {
+  const { default: demonstrateAssetControls } = await import(
+    "../../use cases/classic/asset/configure-flags.ts"
+  );
+  const {
+    default: demonstrateMultisig,
+    demonstrateEscrow,
+    demonstrateSignedPayload,
+  } = await import("../../use cases/classic/authorization/multisig.ts");
+
+  const simulator = useLedgerSimulator();
+  await demonstrateAssetControls();
+  await demonstrateMultisig();
+  await demonstrateEscrow();
+  await demonstrateSignedPayload();
+
+  LOGGER.info(
+    `Simulated ${chalk.blue(simulator.latestLedger - 1)} ledgers offline.`,
+  );
+}
@@ -0,0 +1,747 @@
+/*
+    This script applies the operations of a transaction to the state of the
+    ledger simulator, following the rules of Stellar Core:
+    - create_account, payment and change_trust, with the reserve rules
+    - set_options: flags, thresholds, signers of any type and home domain
+    - manage_data
+    - allow_trust and set_trust_line_flags: trustline authorization
+    - clawback
+    - begin/end_sponsoring_future_reserves and revoke_sponsorship
+    - account_merge
+
+    Each operation returns a Horizon result code, e.g. op_success or
+    op_underfunded. Operations are applied to a copy of the state, which is
+    discarded when any of them fails, so they can modify it freely.
+
+    Other operations are not supported and fail with op_not_supported.
+*/
+
+import { Asset, type Operation } from "@stellar/stellar-sdk";
+import {
+  assetKey,
+  AUTH_CLAWBACK_ENABLED_FLAG,
+  AUTH_IMMUTABLE_FLAG,
+  AUTH_REQUIRED_FLAG,
+  AUTH_REVOCABLE_FLAG,
+  AUTHORIZED_FLAG,
+  AUTHORIZED_TO_MAINTAIN_LIABILITIES_FLAG,
+  availableBalance,
+  BASE_RESERVE,
+  type LedgerState,
+  MAX_AMOUNT,
+  MAX_SIGNERS,
+  minimumBalance,
+  newAccount,
+  signerStrKey,
+  type SimulatedAccount,
+  TRUSTLINE_CLAWBACK_ENABLED_FLAG,
+  trustlineKey,
+} from "./ledger-state.ts";
+import { toStroops } from "../../utils/amounts.ts";
+
+export interface OperationContext {
+  state: LedgerState;
+  // Sequence of the ledger being closed
+  ledger: number;
+  // Sponsored account -> sponsoring account, for the
+  // begin_sponsoring_future_reserves operations not ended yet
+  sponsorships: Record<string, string>;
+}
+
+const SUCCESS = "op_success";
+
+// Trustline flags that authorize an account to hold an asset
+const AUTHORIZATION_FLAGS = AUTHORIZED_FLAG |
+  AUTHORIZED_TO_MAINTAIN_LIABILITIES_FLAG;
+
+// This function adds reserves to an account, paid by its sponsor when the
+// account is being sponsored. Returns the sponsor, or an error code when
+// the paying account cannot afford the reserves.
+function addReserves(
+  context: OperationContext,
+  account: SimulatedAccount,
+  count: number,
+): { sponsor?: string; code?: string } {
+  const sponsorId = context.sponsorships[account.accountId];
+  if (!sponsorId) {
+    return minimumBalance(account) > account.balance
+      ? { code: "op_low_reserve" }
+      : {};
+  }
+
+  const sponsor = context.state.accounts[sponsorId];
+  sponsor.numSponsoring += count;
+  account.numSponsored += count;
+  return minimumBalance(sponsor) > sponsor.balance
+    ? { code: "op_low_reserve" }
+    : { sponsor: sponsorId };
+}
+
+// This function releases the reserves of a removed entry.
+function releaseReserves(
+  context: OperationContext,
+  account: SimulatedAccount,
+  count: number,
+  sponsorId?: string,
+) {
+  if (sponsorId) {
+    context.state.accounts[sponsorId].numSponsoring -= count;
+    account.numSponsored -= count;
+  }
+}
+
+function createAccount(
+  op: Operation.CreateAccount,
+  source: string,
+  context: OperationContext,
+): string {
+  const { accounts } = context.state;
+  const startingBalance = toStroops(op.startingBalance);
+  if (startingBalance < 0n || op.destination === source) {
+    return "op_malformed";
+  }
+  if (accounts[op.destination]) {
+    return "op_already_exists";
+  }
+  if (availableBalance(accounts[source]) < startingBalance) {
+    return "op_underfunded";
+  }
+
+  const account = newAccount(
+    op.destination,
+    startingBalance,
+    BigInt(context.ledger) << 32n,
+  );
+  accounts[op.destination] = account;
+  accounts[source].balance -= startingBalance;
+
+  // A sponsored account can start with 0 XLM, the sponsor pays
+  // the 2 base reserves of the account
+  const sponsorId = context.sponsorships[op.destination];
+  if (sponsorId) {
+    account.sponsor = sponsorId;
+    return addReserves(context, account, 2).code ?? SUCCESS;
+  }
+  return startingBalance < 2n * BASE_RESERVE ? "op_low_reserve" : SUCCESS;
+}
+
+function payment(
+  op: Operation.Payment,
+  source: string,
+  context: OperationContext,
+): string {
+  const { accounts, trustlines } = context.state;
+  const amount = toStroops(op.amount);
+  if (amount <= 0n) {
+    return "op_malformed";
+  }
+  const destination = accounts[op.destination];
+  if (!destination) {
+    return "op_no_destination";
+  }
+
+  if (op.asset.isNative()) {
+    if (availableBalance(accounts[source]) < amount) {
+      return "op_underfunded";
+    }
+    accounts[source].balance -= amount;
+    destination.balance += amount;
+    return SUCCESS;
+  }
+
+  const asset = assetKey(op.asset);
+  const issuer = op.asset.getIssuer();
+  if (!accounts[issuer]) {
+    return "op_no_issuer";
+  }
+
+  // The destination is credited first, as in Stellar Core. The issuer does
+  // not need trustlines: its payments mint and burn the asset.
+  if (op.destination !== issuer) {
+    const trustline = trustlines[trustlineKey(op.destination, asset)];
+    if (!trustline) {
+      return "op_no_trust";
+    }
+    if (!(trustline.flags & AUTHORIZED_FLAG)) {
+      return "op_not_authorized";
+    }
+    if (trustline.balance + amount > trustline.limit) {
+      return "op_line_full";
+    }
+    trustline.balance += amount;
+  }
+
+  if (source !== issuer) {
+    const trustline = trustlines[trustlineKey(source, asset)];
+    if (!trustline) {
+      return "op_src_no_trust";
+    }
+    if (!(trustline.flags & AUTHORIZED_FLAG)) {
+      return "op_src_not_authorized";
+    }
+    if (trustline.balance < amount) {
+      return "op_underfunded";
+    }
+    trustline.balance -= amount;
+  }
+
+  return SUCCESS;
+}
+
+function changeTrust(
+  op: Operation.ChangeTrust,
+  source: string,
+  context: OperationContext,
+): string {
+  const { accounts, trustlines } = context.state;
+  if (!(op.line instanceof Asset) || op.line.isNative()) {
+    return "op_malformed";
+  }
+  const issuerId = op.line.getIssuer();
+  if (issuerId === source) {
+    return "op_self_not_allowed";
+  }
+
+  const limit = op.limit === undefined ? MAX_AMOUNT : toStroops(op.limit);
+  const key = trustlineKey(source, assetKey(op.line));
+  const trustline = trustlines[key];
+  const account = accounts[source];
+
+  if (trustline) {
+    if (limit < trustline.balance) {
+      return "op_invalid_limit";
+    }
+    if (limit === 0n) {
+      delete trustlines[key];
+      account.subentries--;
+      releaseReserves(context, account, 1, trustline.sponsor);
+    } else {
+      trustline.limit = limit;
+    }
+    return SUCCESS;
+  }
+
+  if (limit === 0n) {
+    return "op_trust_line_missing";
+  }
+  const issuer = accounts[issuerId];
+  if (!issuer) {
+    return "op_no_issuer";
+  }
+
+  account.subentries++;
+  const { sponsor, code } = addReserves(context, account, 1);
+  if (code) {
+    return code;
+  }
+
+  // Trustlines are authorized right away unless the issuer requires
+  // authorization, and inherit the clawback flag of the issuer
+  trustlines[key] = {
+    accountId: source,
+    asset: assetKey(op.line),
+    balance: 0n,
+    limit,
+    flags: (issuer.flags & AUTH_REQUIRED_FLAG ? 0 : AUTHORIZED_FLAG) |
+      (issuer.flags & AUTH_CLAWBACK_ENABLED_FLAG
+        ? TRUSTLINE_CLAWBACK_ENABLED_FLAG
+        : 0),
+    sponsor,
+  };
+  return SUCCESS;
+}
+
+function setOptions(
+  op: Operation.SetOptions,
+  source: string,
+  context: OperationContext,
+): string {
+  const account = context.state.accounts[source];
+  const setFlags = Number(op.setFlags ?? 0);
+  const clearFlags = Number(op.clearFlags ?? 0);
+  const knownFlags = AUTH_REQUIRED_FLAG | AUTH_REVOCABLE_FLAG |
+    AUTH_IMMUTABLE_FLAG | AUTH_CLAWBACK_ENABLED_FLAG;
+
+  if ((setFlags | clearFlags) & ~knownFlags) {
+    return "op_unknown_flag";
+  }
+  if (setFlags & clearFlags) {
+    return "op_bad_flags";
+  }
+  if ((setFlags || clearFlags) && account.flags & AUTH_IMMUTABLE_FLAG) {
+    return "op_cant_change";
+  }
+  const flags = (account.flags | setFlags) & ~clearFlags;
+  if (flags & AUTH_CLAWBACK_ENABLED_FLAG && !(flags & AUTH_REVOCABLE_FLAG)) {
+    return "op_auth_revocable_required";
+  }
+  account.flags = flags;
+
+  const weights = [
+    op.masterWeight,
+    op.lowThreshold,
+    op.medThreshold,
+    op.highThreshold,
+  ];
+  if (weights.some((weight) => weight !== undefined && weight > 255)) {
+    return "op_threshold_out_of_range";
+  }
+  account.masterWeight = op.masterWeight ?? account.masterWeight;
+  account.thresholds = {
+    low: op.lowThreshold ?? account.thresholds.low,
+    med: op.medThreshold ?? account.thresholds.med,
+    high: op.highThreshold ?? account.thresholds.high,
+  };
+
+  if (op.homeDomain !== undefined) {
+    if (op.homeDomain.length > 32) {
+      return "op_invalid_home_domain";
+    }
+    account.homeDomain = op.homeDomain;
+  }
+
+  if (op.signer) {
+    const key = signerStrKey(op.signer);
+    const weight = Number(op.signer.weight ?? 0);
+    const signer = account.signers[key];
+    if (key === source) {
+      return "op_bad_signer";
+    }
+
+    if (weight === 0) {
+      // Removing a signer that does not exist does nothing
+      if (signer) {
+        delete account.signers[key];
+        account.subentries--;
+        releaseReserves(context, account, 1, signer.sponsor);
+      }
+    } else if (signer) {
+      signer.weight = weight;
+    } else {
+      if (Object.keys(account.signers).length >= MAX_SIGNERS) {
+        return "op_too_many_signers";
+      }
+      account.subentries++;
+      const { sponsor, code } = addReserves(context, account, 1);
+      if (code) {
+        return code;
+      }
+      account.signers[key] = { weight, sponsor };
+    }
+  }
+
+  return SUCCESS;
+}
+
+// This function sets, updates or removes (without a value) a data entry
+// of the source account.
+function manageData(
+  op: Operation.ManageData,
+  source: string,
+  context: OperationContext,
+): string {
+  const account = context.state.accounts[source];
+  const entry = account.data[op.name];
+  // Names are 1 to 64 printable ASCII characters
+  if (!/^[\x20-\x7E]{1,64}$/.test(op.name)) {
+    return "op_data_invalid_name";
+  }
+
+  if (!op.value) {
+    if (!entry) {
+      return "op_data_name_not_found";
+    }
+    delete account.data[op.name];
+    account.subentries--;
+    releaseReserves(context, account, 1, entry.sponsor);
+  } else if (entry) {
+    entry.value = op.value.toString("base64");
+  } else {
+    account.subentries++;
+    const { sponsor, code } = addReserves(context, account, 1);
+    if (code) {
+      return code;
+    }
+    account.data[op.name] = { value: op.value.toString("base64"), sponsor };
+  }
+
+  return SUCCESS;
+}
+
+// This function changes the authorization flags of a trustline on behalf
+// of the issuer. Shared by allow_trust and set_trust_line_flags.
+function updateAuthorization(
+  context: OperationContext,
+  issuerId: string,
+  trustor: string,
+  asset: string,
+  update: (flags: number) => number,
+): string {
+  const trustline = context.state.trustlines[trustlineKey(trustor, asset)];
+  if (!trustline) {
+    return "op_no_trustline";
+  }
+
+  const flags = update(trustline.flags);
+  if (
+    flags & AUTHORIZED_FLAG && flags & AUTHORIZED_TO_MAINTAIN_LIABILITIES_FLAG
+  ) {
+    return "op_invalid_state";
+  }
+
+  // Lowering the authorization is a revocation, which needs AUTH_REVOCABLE
+  const level = (value: number) =>
+    value & AUTHORIZED_FLAG
+      ? 2
+      : value & AUTHORIZED_TO_MAINTAIN_LIABILITIES_FLAG
+      ? 1
+      : 0;
+  const issuer = context.state.accounts[issuerId];
+  if (
+    level(flags) < level(trustline.flags) &&
+    !(issuer.flags & AUTH_REVOCABLE_FLAG)
+  ) {
+    return "op_cant_revoke";
+  }
+
+  trustline.flags = flags;
+  return SUCCESS;
+}
+
+function allowTrust(
+  op: Operation.AllowTrust,
+  source: string,
+  context: OperationContext,
+): string {
+  if (op.trustor === source) {
+    return "op_self_not_allowed";
+  }
+  // 0: deauthorized, 1: authorized, 2: authorized to maintain liabilities
+  const authorize = Number(op.authorize);
+  const authorizationFlags = authorize === 1
+    ? AUTHORIZED_FLAG
+    : authorize === 2
+    ? AUTHORIZED_TO_MAINTAIN_LIABILITIES_FLAG
+    : 0;
+
+  return updateAuthorization(
+    context,
+    source,
+    op.trustor,
+    `${op.assetCode}:${source}`,
+    (flags) => (flags & ~AUTHORIZATION_FLAGS) | authorizationFlags,
+  );
+}
+
+function setTrustLineFlags(
+  op: Operation.SetTrustLineFlags,
+  source: string,
+  context: OperationContext,
+): string {
+  // The clawback flag can only be cleared, it is set when the
+  // trustline is created
+  if (
+    op.asset.isNative() || op.asset.getIssuer() !== source ||
+    op.trustor === source || op.flags.clawbackEnabled === true
+  ) {
+    return "op_malformed";
+  }
+
+  const changes: [boolean | undefined, number][] = [
+    [op.flags.authorized, AUTHORIZED_FLAG],
+    [
+      op.flags.authorizedToMaintainLiabilities,
+      AUTHORIZED_TO_MAINTAIN_LIABILITIES_FLAG,
+    ],
+    [op.flags.clawbackEnabled, TRUSTLINE_CLAWBACK_ENABLED_FLAG],
+  ];
+
+  return updateAuthorization(
+    context,
+    source,
+    op.trustor,
+    assetKey(op.asset),
+    (flags) =>
+      changes.reduce(
+        (result, [enabled, flag]) =>
+          enabled === undefined
+            ? result
+            : enabled
+            ? result | flag
+            : result & ~flag,
+        flags,
+      ),
+  );
+}
+
+function clawback(
+  op: Operation.Clawback,
+  source: string,
+  context: OperationContext,
+): string {
+  const amount = toStroops(op.amount);
+  if (
+    op.asset.isNative() || op.asset.getIssuer() !== source ||
+    op.from === source || amount <= 0n
+  ) {
+    return "op_malformed";
+  }
+
+  const trustline =
+    context.state.trustlines[trustlineKey(op.from, assetKey(op.asset))];
+  if (!trustline) {
+    return "op_no_trust";
+  }
+  if (!(trustline.flags & TRUSTLINE_CLAWBACK_ENABLED_FLAG)) {
+    return "op_not_clawback_enabled";
+  }
+  if (trustline.balance < amount) {
+    return "op_underfunded";
+  }
+
+  trustline.balance -= amount;
+  return SUCCESS;
+}
+
+function beginSponsoring(
+  op: Operation.BeginSponsoringFutureReserves,
+  source: string,
+  { sponsorships }: OperationContext,
+): string {
+  if (op.sponsoredId === source) {
+    return "op_malformed";
+  }
+  if (sponsorships[op.sponsoredId]) {
+    return "op_already_sponsored";
+  }
+  // A sponsor cannot be sponsored, and a sponsored account cannot sponsor
+  if (
+    sponsorships[source] ||
+    Object.values(sponsorships).includes(op.sponsoredId)
+  ) {
+    return "op_recursive";
+  }
+
+  sponsorships[op.sponsoredId] = source;
+  return SUCCESS;
+}
+
+function endSponsoring(
+  source: string,
+  { sponsorships }: OperationContext,
+): string {
+  if (!sponsorships[source]) {
+    return "op_not_sponsored";
+  }
+  delete sponsorships[source];
+  return SUCCESS;
+}
+
+// This function revokes the sponsorship of an entry. Inside a
+// begin/end_sponsoring_future_reserves block, the sponsorship is
+// transferred to the sponsor of the source account instead.
+//
+// Args:
+// - entry: The sponsor of the entry and a function changing it
+// - owner: The account owning the entry
+// - count: The number of reserves of the entry
+function revokeSponsorship(
+  entry: { sponsor?: string; setSponsor: (sponsor?: string) => void },
+  owner: SimulatedAccount,
+  count: number,
+  source: string,
+  context: OperationContext,
+): string {
+  // Only the sponsor can revoke a sponsored entry, and only the owner
+  // can transfer an entry it pays for
+  if (source !== (entry.sponsor ?? owner.accountId)) {
+    return "op_not_sponsor";
+  }
+
+  const newSponsorId = context.sponsorships[source];
+  releaseReserves(context, owner, count, entry.sponsor);
+
+  if (newSponsorId) {
+    const newSponsor = context.state.accounts[newSponsorId];
+    newSponsor.numSponsoring += count;
+    owner.numSponsored += count;
+    entry.setSponsor(newSponsorId);
+    return minimumBalance(newSponsor) > newSponsor.balance
+      ? "op_low_reserve"
+      : SUCCESS;
+  }
+
+  entry.setSponsor(undefined);
+  return minimumBalance(owner) > owner.balance ? "op_low_reserve" : SUCCESS;
+}
+
+// This function applies the revoke_sponsorship operations of accounts,
+// trustlines and signers.
+//
+// They are decoded with a type per ledger entry, e.g.
+// revokeTrustlineSponsorship, while the type definitions of the SDK only
+// know about revokeSponsorship.
+function revokeEntrySponsorship(
+  revokeOp: Operation,
+  source: string,
+  context: OperationContext,
+): string {
+  const { accounts, trustlines } = context.state;
+
+  switch (revokeOp.type as string) {
+    case "revokeAccountSponsorship": {
+      const op = revokeOp as Operation.RevokeAccountSponsorship;
+      const account = accounts[op.account];
+      if (!account) {
+        return "op_does_not_exist";
+      }
+      return revokeSponsorship(
+        {
+          sponsor: account.sponsor,
+          setSponsor: (sponsor) => account.sponsor = sponsor,
+        },
+        account,
+        2,
+        source,
+        context,
+      );
+    }
+    case "revokeTrustlineSponsorship": {
+      const op = revokeOp as Operation.RevokeTrustlineSponsorship;
+      const trustline = op.asset instanceof Asset
+        ? trustlines[trustlineKey(op.account, assetKey(op.asset))]
+        : undefined;
+      if (!trustline) {
+        return "op_does_not_exist";
+      }
+      return revokeSponsorship(
+        {
+          sponsor: trustline.sponsor,
+          setSponsor: (sponsor) => trustline.sponsor = sponsor,
+        },
+        accounts[op.account],
+        1,
+        source,
+        context,
+      );
+    }
+    case "revokeSignerSponsorship": {
+      const op = revokeOp as Operation.RevokeSignerSponsorship;
+      const account = accounts[op.account];
+      const signer = account?.signers[signerStrKey(op.signer)];
+      if (!signer) {
+        return "op_does_not_exist";
+      }
+      return revokeSponsorship(
+        {
+          sponsor: signer.sponsor,
+          setSponsor: (sponsor) => signer.sponsor = sponsor,
+        },
+        account,
+        1,
+        source,
+        context,
+      );
+    }
+    case "revokeDataSponsorship": {
+      const op = revokeOp as Operation.RevokeDataSponsorship;
+      const account = accounts[op.account];
+      const entry = account?.data[op.name];
+      if (!entry) {
+        return "op_does_not_exist";
+      }
+      return revokeSponsorship(
+        {
+          sponsor: entry.sponsor,
+          setSponsor: (sponsor) => entry.sponsor = sponsor,
+        },
+        account,
+        1,
+        source,
+        context,
+      );
+    }
+    default:
+      return "op_not_supported";
+  }
+}
+
+// This function merges the source account into the destination: the
+// balance is sent to the destination and the account is removed. The
+// account must not have subentries left other than its signers, nor
+// sponsor other entries.
+function accountMerge(
+  op: Operation.AccountMerge,
+  source: string,
+  context: OperationContext,
+): string {
+  const { accounts } = context.state;
+  const account = accounts[source];
+  const destination = accounts[op.destination];
+  if (op.destination === source) {
+    return "op_malformed";
+  }
+  if (!destination) {
+    return "op_no_account";
+  }
+  if (account.flags & AUTH_IMMUTABLE_FLAG) {
+    return "op_immutable_set";
+  }
+  if (account.subentries > Object.keys(account.signers).length) {
+    return "op_has_sub_entries";
+  }
+  if (account.numSponsoring > 0) {
+    return "op_is_sponsor";
+  }
+
+  destination.balance += account.balance;
+  for (const signer of Object.values(account.signers)) {
+    releaseReserves(context, account, 1, signer.sponsor);
+  }
+  releaseReserves(context, account, 2, account.sponsor);
+  delete accounts[source];
+  return SUCCESS;
+}
+
+// This function applies an operation and returns its result code.
+//
+// Args:
+// - op: The decoded operation, e.g. from Transaction.operations
+// - source: The source account of the operation, which must exist
+// - context: The state being modified and the open sponsorships
+export function applyOperation(
+  op: Operation,
+  source: string,
+  context: OperationContext,
+): string {
+  if (op.type.startsWith("revoke")) {
+    return revokeEntrySponsorship(op, source, context);
+  }
+
+  switch (op.type) {
+    case "createAccount":
+      return createAccount(op, source, context);
+    case "payment":
+      return payment(op, source, context);
+    case "changeTrust":
+      return changeTrust(op, source, context);
+    case "setOptions":
+      return setOptions(op, source, context);
+    case "manageData":
+      return manageData(op, source, context);
+    case "allowTrust":
+      return allowTrust(op, source, context);
+    case "setTrustLineFlags":
+      return setTrustLineFlags(op, source, context);
+    case "clawback":
+      return clawback(op, source, context);
+    case "beginSponsoringFutureReserves":
+      return beginSponsoring(op, source, context);
+    case "endSponsoringFutureReserves":
+      return endSponsoring(source, context);
+    case "accountMerge":
+      return accountMerge(op, source, context);
+    default:
+      return "op_not_supported";
+  }
+}
@@ -0,0 +1,142 @@
+/*
+    This script manages a pool of channel accounts, so the operations of a
+    single account can be submitted in parallel.
+
+    A transaction must use the next sequence number of its source account,
+    so the transactions of an account are submitted one after the other
+    (see transaction-pipeline.ts). Channel accounts lift this limit: each
+    transaction uses a channel account as its source, which pays the fee
+    and provides the sequence number, while the operations keep the admin
+    account as their source. The transaction is signed by both.
+
+    The pool leases each channel to one submission at a time, and returns
+    it to the pool once the submission is over. When all the channels are
+    leased, submissions wait for the next one to be returned.
+
+    The sequence numbers of the channels are tracked by the pipeline, like
+    any source account. When a submission fails for any reason, the tracked
+    sequence number of its channel is discarded before the channel is
+    returned, so the next transaction reloads it from the network. If the
+    failed transaction is still included later, the next transaction of the
+    channel fails with tx_bad_seq, which discards it again, instead of
+    reusing a sequence number.
+
+    The channel accounts are created and funded beforehand, e.g. by
+    createChannelPool() in channel-accounts.ts.
+
+    const pool = new ChannelPool(admin, channels);
+    await Promise.all(payments.map((payment) =>
+      pool.submit({ operations: [payment] })
+    ));
+*/
+
+import type { Keypair } from "@stellar/stellar-sdk";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../context/stellar-context.ts";
+import {
+  resetSequence,
+  submitTransaction,
+  type TransactionPipelineResult,
+  type TransactionRequest,
+  withSource,
+} from "./transaction-pipeline.ts";
+
+// Request submitted through a channel. The admin account is the source of
+// the operations without one, and always signs.
+export interface ChannelRequest
+  extends Omit<TransactionRequest, "source" | "signers"> {
+  // Additional signers, e.g. the source accounts of other operations
+  signers?: Keypair[];
+}
+
+export interface ChannelPipelineResult extends TransactionPipelineResult {
+  // Public key of the channel account the transaction was submitted with
+  channel: string;
+}
+
+export class ChannelPool {
+  readonly channels: Keypair[];
+  #available: Keypair[];
+  // Submissions waiting for a channel, in order
+  #waiting: ((channel: Keypair) => void)[] = [];
+
+  // Args:
+  // - adminKeypair: The account the operations are submitted for
+  // - channels: The keypairs of the channel accounts, which must exist and
+  //   hold enough XLM for the fees
+  constructor(
+    readonly adminKeypair: Keypair,
+    channels: Keypair[],
+    readonly context: StellarContext = defaultContext(),
+  ) {
+    if (!channels.length) {
+      throw new Error("A channel pool needs at least one channel account.");
+    }
+    this.channels = [...channels];
+    this.#available = [...channels];
+  }
+
+  // Number of channels not leased
+  get available(): number {
+    return this.#available.length;
+  }
+
+  // This function leases a channel, waiting for one to be returned when
+  // they are all leased.
+  acquire(): Promise<Keypair> {
+    const channel = this.#available.shift();
+    if (channel) {
+      return Promise.resolve(channel);
+    }
+    return new Promise((resolve) => this.#waiting.push(resolve));
+  }
+
+  // This function returns a leased channel to the pool, or hands it over
+  // to the next waiting submission.
+  //
+  // Args:
+  // - channel: The channel to return
+  // - failed: Whether the submission failed, in which case the sequence
+  //   number of the channel is reloaded from the network on its next use
+  release(channel: Keypair, failed = false) {
+    if (failed) {
+      resetSequence(channel.publicKey(), this.context);
+    }
+    const next = this.#waiting.shift();
+    if (next) {
+      next(channel);
+    } else {
+      this.#available.push(channel);
+    }
+  }
+
+  // This function submits a transaction through the next available
+  // channel.
+  async submit(request: ChannelRequest): Promise<ChannelPipelineResult> {
+    const adminId = this.adminKeypair.publicKey();
+    const channel = await this.acquire();
+    try {
+      const result = await submitTransaction({
+        ...request,
+        source: channel.publicKey(),
+        operations: request.operations.map((operation) =>
+          withSource(operation, adminId)
+        ),
+        signers: [
+          channel,
+          this.adminKeypair,
+          ...(request.signers ?? []).filter((signer) =>
+            signer.publicKey() !== adminId
+          ),
+        ],
+      }, this.context);
+      this.release(channel);
+      return { ...result, channel: channel.publicKey() };
+    } catch (e) {
+      this.release(channel, true);
+      throw e;
+    }
+  }
+}
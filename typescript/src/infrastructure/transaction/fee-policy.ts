@@ -0,0 +1,131 @@
+/*
+    This script defines how the transaction pipeline chooses the fees
+    of its transactions.
+
+    The fee of a Stellar transaction is a maximum bid per operation. When
+    the network is not congested, only the base fee (100 stroops) is charged.
+    During surge pricing, the transactions with the highest bids are included
+    first and the others are rejected with tx_insufficient_fee or stay in the
+    queue until they time out.
+
+    Fee estimation:
+    Instead of a fixed bid, the fee is estimated from the fees charged in the
+    recent ledgers, reported by Horizon's fee_stats endpoint. The policy
+    defines which percentile to use (e.g. p70 means the bid is higher than
+    70% of the recently charged fees) and the minimum and maximum bids.
+
+    Fee bumps:
+    When a transaction is rejected for its fee or times out, it can be wrapped
+    in a fee-bump transaction. The fee bump keeps the original transaction
+    and its signatures untouched and only replaces the bid, paid by a
+    designated fee account. To replace a transaction that is still waiting in
+    the queue, Stellar Core requires the new bid to be at least 10 times higher.
+*/
+
+import { Keypair } from "@stellar/stellar-sdk";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../context/stellar-context.ts";
+
+export type FeePercentile =
+  | "p10"
+  | "p20"
+  | "p30"
+  | "p40"
+  | "p50"
+  | "p60"
+  | "p70"
+  | "p80"
+  | "p90"
+  | "p95"
+  | "p99"
+  | "mode";
+
+export interface FeePolicy {
+  // fixed: always bid the fixed fee
+  // estimate: bid the chosen percentile of the recently charged fees
+  mode: "fixed" | "estimate";
+  // Fee per operation, in stroops, used in fixed mode or when the
+  // fee stats cannot be fetched.
+  fixedFee: string;
+  percentile: FeePercentile;
+  // Bounds of the bid per operation, in stroops
+  minFee: string;
+  maxFee: string;
+  // Account paying for the fee bumps. Fee bumps are disabled without it.
+  feeBumpAccount?: Keypair;
+  // Multiplier applied to the previous bid on every fee bump
+  feeBumpMultiplier: number;
+  // Maximum number of fee bumps for the same transaction
+  maxFeeBumps: number;
+}
+
+export const FEE_POLICY: FeePolicy = {
+  mode: "estimate",
+  fixedFee: "1000",
+  percentile: "p70",
+  minFee: "100",
+  maxFee: "100000",
+  feeBumpMultiplier: 10,
+  maxFeeBumps: 2,
+};
+
+// This function changes the fee policy of the default context.
+// e.g. configureFeePolicy({ percentile: "p90", feeBumpAccount: adminKeypair })
+export function configureFeePolicy(changes: Partial<FeePolicy>) {
+  Object.assign(FEE_POLICY, changes);
+}
+
+const clampFee = (fee: bigint, policy: FeePolicy) => {
+  const min = BigInt(policy.minFee);
+  const max = BigInt(policy.maxFee);
+  return (fee < min ? min : fee > max ? max : fee).toString();
+};
+
+// This function returns the fee per operation to bid for a new transaction,
+// following the fee policy of the context.
+export async function estimateFee(
+  context: StellarContext = defaultContext(),
+): Promise<string> {
+  const policy = context.feePolicy;
+  if (policy.mode === "fixed") {
+    return policy.fixedFee;
+  }
+
+  try {
+    const feeStats = await context.horizon.feeStats();
+    return clampFee(BigInt(feeStats.fee_charged[policy.percentile]), policy);
+  } catch (e) {
+    context.logger.warn(
+      `Could not fetch the fee stats, using the fixed fee instead: ${
+        (e as Error).message
+      }`,
+    );
+    return policy.fixedFee;
+  }
+}
+
+// This function returns the fee per operation for the next fee bump
+// of a transaction, or undefined when no more bumps are allowed.
+//
+// Args:
+// - previousFee: The last fee per operation bid for the transaction
+// - attempt: The number of fee bumps already submitted
+export function nextFeeBump(
+  previousFee: string,
+  attempt: number,
+  policy: FeePolicy = FEE_POLICY,
+): string | undefined {
+  if (!policy.feeBumpAccount || attempt >= policy.maxFeeBumps) {
+    return undefined;
+  }
+
+  const fee = clampFee(
+    BigInt(previousFee) * BigInt(policy.feeBumpMultiplier),
+    policy,
+  );
+
+  // Once the maximum fee is reached, bumping again would not raise the bid
+  return BigInt(fee) > BigInt(previousFee) ? fee : undefined;
+}
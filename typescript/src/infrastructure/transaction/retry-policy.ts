@@ -0,0 +1,90 @@
+/*
+    This script defines how the transaction pipeline recovers from
+    submissions that time out.
+
+    When Horizon does not see a transaction included in a ledger after a
+    while, it responds with a 504 timeout. This does not mean the transaction
+    failed: it is still in the queue and can be included in a later ledger.
+    Building and submitting a new transaction right away would either fail
+    with tx_bad_seq (if the first one is included) or execute the operations
+    twice, e.g. sending the same payment two times.
+
+    Instead, the pipeline polls Horizon for the hash of the transaction until:
+    - It appears in a ledger: the submission is complete.
+    - Its time bound (set with setTimeout when building it) expires: the
+      network will never include it, so it is safe to build a new transaction
+      with a fresh sequence number and submit it again.
+
+    The number of times a transaction is rebuilt is bounded by the policy.
+*/
+
+import { Horizon, NotFoundError } from "@stellar/stellar-sdk";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../context/stellar-context.ts";
+import { TransactionExpiredError } from "./submission-error.ts";
+
+export interface RetryPolicy {
+  // Maximum number of times an expired transaction is rebuilt
+  // and submitted again
+  maxRetries: number;
+  // Interval between checks for the transaction hash, in milliseconds
+  pollInterval: number;
+  // Extra time to wait after the time bound, in milliseconds, so the
+  // last ledger closed before the expiration can be ingested by Horizon
+  expirationGrace: number;
+}
+
+export const RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  pollInterval: 2000,
+  expirationGrace: 10000,
+};
+
+// This function changes the retry policy of the default context.
+export function configureRetryPolicy(changes: Partial<RetryPolicy>) {
+  Object.assign(RETRY_POLICY, changes);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// This function waits until a transaction is found in a ledger or its
+// time bound expires.
+//
+// Args:
+// - hash: The hash of the submitted transaction. For fee bumps, the hash of
+//   the inner transaction also finds the fee bump that included it.
+// - maxTime: The maximum time bound of the transaction, in UNIX seconds.
+// - context: The context the transaction was submitted in
+//
+// Returns the transaction record, successful or not. Throws a
+// TransactionExpiredError if it was never included.
+export async function waitForTransaction(
+  hash: string,
+  maxTime: number,
+  context: StellarContext = defaultContext(),
+): Promise<Horizon.ServerApi.TransactionRecord> {
+  const policy = context.retryPolicy;
+  // Without a time bound, a transaction can be included at any time
+  // and it is never safe to submit it again.
+  if (!maxTime) {
+    throw new Error(`Transaction ${hash} has no time bound to wait for.`);
+  }
+  const deadline = maxTime * 1000 + policy.expirationGrace;
+
+  while (true) {
+    try {
+      return await context.horizon.transactions().transaction(hash).call();
+    } catch (e) {
+      if (!(e instanceof NotFoundError)) {
+        throw e;
+      }
+    }
+
+    if (Date.now() > deadline) {
+      throw new TransactionExpiredError(hash);
+    }
+    await sleep(policy.pollInterval);
+  }
+}
@@ -0,0 +1,311 @@
+/*
+    This script decodes the errors returned by Horizon when a transaction
+    submission fails.
+
+    When a transaction is rejected, Horizon responds with an HTTP 400 error
+    containing the result codes of the transaction and of each operation:
+
+    extras.result_codes = {
+      transaction: "tx_failed",
+      operations: ["op_success", "op_underfunded"]
+    }
+
+    These codes are converted into a typed error hierarchy:
+    - StellarSubmissionError: Base class for every decoded submission failure
+    - TransactionRejectedError: The transaction as a whole was invalid,
+      e.g. tx_bad_auth, tx_bad_seq, tx_insufficient_fee. No operation was
+      executed.
+    - OperationFailedError: The transaction was valid but one of its
+      operations failed, e.g. op_underfunded, op_not_authorized. Since
+      transactions are atomic, none of the operations took effect.
+    - TransactionExpiredError: The submission timed out and the transaction
+      was never included in a ledger before its time bound expired.
+
+    Each error carries a human-readable explanation of the codes and, for
+    operation failures, the index and type of the offending operation.
+*/
+
+import { FeeBumpTransaction, Transaction } from "@stellar/stellar-sdk";
+import { decodeTransactionResult } from "./transaction-result.ts";
+
+export const TRANSACTION_EXPLANATIONS: Record<string, string> = {
+  tx_failed: "One of the operations failed.",
+  tx_too_early: "The transaction was submitted before its minimum time bound.",
+  tx_too_late: "The transaction expired before being included in a ledger.",
+  tx_missing_operation: "The transaction has no operations.",
+  tx_bad_seq:
+    "The sequence number does not match the next sequence number of the source account.",
+  tx_bad_auth:
+    "The signatures do not meet the threshold of the source account, or a signature is invalid.",
+  tx_insufficient_balance:
+    "The source account would fall below its minimum balance after paying the fee.",
+  tx_no_source_account: "The source account does not exist.",
+  tx_insufficient_fee:
+    "The fee is too low to be included in the ledger at the current network load.",
+  tx_bad_auth_extra:
+    "The transaction has signatures that are not required by any of its operations.",
+  tx_internal_error: "An unknown error happened in the Stellar Core node.",
+  tx_not_supported: "The transaction type is not supported by the network.",
+  tx_fee_bump_inner_failed: "The inner transaction of the fee bump failed.",
+  tx_bad_sponsorship:
+    "A begin_sponsoring_future_reserves operation was not closed by an end_sponsoring_future_reserves operation.",
+  tx_bad_min_seq_age_or_gap:
+    "The minimum sequence age or gap preconditions were not met.",
+  tx_malformed: "The transaction is malformed.",
+  tx_soroban_invalid: "The Soroban transaction is invalid.",
+};
+
+export const OPERATION_EXPLANATIONS: Record<string, string> = {
+  // Generic failures, common to all operations
+  op_bad_auth:
+    "The signatures do not meet the threshold required by the operation source account.",
+  op_no_source_account: "The operation source account does not exist.",
+  op_not_supported: "The operation is not supported by the network.",
+  op_too_many_subentries:
+    "The account has reached the maximum number of subentries (1000).",
+  op_exceeded_work_limit: "The operation did too much work.",
+  op_too_many_sponsoring:
+    "The account is sponsoring too many entries or signers.",
+  // Specific failures
+  op_malformed: "The operation arguments are invalid.",
+  op_underfunded:
+    "The source account does not have enough funds, accounting for its minimum balance and liabilities.",
+  op_low_reserve:
+    "The account would fall below its minimum balance. Each new subentry (trustline, offer, signer, data entry) requires an extra base reserve.",
+  op_already_exists: "The destination account already exists.",
+  op_src_no_trust:
+    "The source account does not have a trustline for the asset.",
+  op_src_not_authorized:
+    "The source account is not authorized by the issuer to send the asset.",
+  op_no_destination: "The destination account does not exist.",
+  op_no_trust:
+    "The destination account does not have a trustline for the asset.",
+  op_not_authorized:
+    "The account is not authorized by the issuer to hold or receive the asset.",
+  op_line_full: "The destination trustline limit would be exceeded.",
+  op_no_issuer: "The issuer of the asset does not exist.",
+  op_invalid_limit:
+    "The trustline limit is lower than the current balance or liabilities.",
+  op_self_not_allowed: "An account cannot perform this operation on itself.",
+  op_trust_line_missing: "The trustline does not exist.",
+  op_cannot_delete:
+    "The trustline cannot be removed while it is used by a liquidity pool.",
+  op_not_auth_maintain_liabilities:
+    "The trustline is not authorized to maintain liabilities.",
+  op_no_trustline: "The trustor does not have a trustline for the asset.",
+  op_not_required:
+    "The issuer does not have the AUTH_REQUIRED flag set, so authorization cannot be changed.",
+  op_cant_revoke:
+    "The issuer does not have the AUTH_REVOCABLE flag set, so authorization cannot be revoked.",
+  op_not_clawback_enabled:
+    "The trustline does not have clawback enabled. The flag must be set on the issuer before the trustline is created.",
+  op_too_many_signers: "The account has reached the maximum of 20 signers.",
+  op_bad_flags: "The flags to set and clear are inconsistent.",
+  op_invalid_inflation: "The inflation destination does not exist.",
+  op_cant_change: "The flags can no longer be changed (AUTH_IMMUTABLE is set).",
+  op_unknown_flag: "One of the flags is unknown.",
+  op_threshold_out_of_range:
+    "Thresholds and weights must be between 0 and 255.",
+  op_bad_signer: "The signer cannot be the master key of the account.",
+  op_invalid_home_domain: "The home domain is malformed.",
+  op_auth_revocable_required:
+    "AUTH_CLAWBACK_ENABLED requires AUTH_REVOCABLE to be set as well.",
+  op_already_sponsored: "The account is already being sponsored.",
+  op_recursive: "The sponsored account is already sponsoring other reserves.",
+  op_not_sponsored:
+    "end_sponsoring_future_reserves was called without a matching begin operation.",
+  op_does_not_exist: "The ledger entry or signer does not exist.",
+  op_not_sponsor: "The source account is not the sponsor of the entry.",
+  op_only_transferable: "The sponsorship can only be transferred, not removed.",
+  op_no_account: "The account does not exist.",
+  op_immutable_set: "The account has AUTH_IMMUTABLE set and cannot be merged.",
+  op_has_sub_entries:
+    "The account still has subentries (trustlines, offers, signers or data entries).",
+  op_seq_num_too_far:
+    "The account sequence number is too high to be merged in this ledger.",
+  op_dest_full: "The destination balance would overflow.",
+  op_is_sponsor: "The account is still sponsoring reserves.",
+  op_not_supported_yet: "The operation is not supported yet.",
+  op_data_name_not_found: "The data entry does not exist.",
+  op_data_invalid_name: "The data entry name is invalid.",
+};
+
+// Shape of the error data returned by Horizon for failed submissions
+interface HorizonErrorData {
+  status?: number;
+  title?: string;
+  extras?: {
+    hash?: string;
+    envelope_xdr?: string;
+    result_xdr?: string;
+    result_codes?: {
+      transaction?: string;
+      // Only present for fee-bump transactions
+      inner_transaction?: string;
+      operations?: string[];
+    };
+  };
+}
+
+export const explainTransactionCode = (code: string) =>
+  TRANSACTION_EXPLANATIONS[code] ?? `Unknown transaction error (${code}).`;
+
+export const explainOperationCode = (code: string) =>
+  OPERATION_EXPLANATIONS[code] ?? `Unknown operation error (${code}).`;
+
+export class StellarSubmissionError extends Error {
+  constructor(
+    message: string,
+    readonly transactionCode: string,
+    readonly operationCodes: string[],
+    readonly explanation: string,
+    readonly resultXdr?: string,
+    readonly hash?: string,
+  ) {
+    super(message);
+    this.name = "StellarSubmissionError";
+  }
+}
+
+export class TransactionRejectedError extends StellarSubmissionError {
+  constructor(
+    transactionCode: string,
+    operationCodes: string[],
+    resultXdr?: string,
+    hash?: string,
+  ) {
+    const explanation = explainTransactionCode(transactionCode);
+    super(
+      `Transaction rejected (${transactionCode}): ${explanation}`,
+      transactionCode,
+      operationCodes,
+      explanation,
+      resultXdr,
+      hash,
+    );
+    this.name = "TransactionRejectedError";
+  }
+}
+
+export class TransactionExpiredError extends TransactionRejectedError {
+  constructor(hash: string) {
+    super("tx_too_late", [], undefined, hash);
+    this.name = "TransactionExpiredError";
+  }
+}
+
+export class OperationFailedError extends StellarSubmissionError {
+  constructor(
+    transactionCode: string,
+    operationCodes: string[],
+    readonly operationIndex: number,
+    readonly operationType: string,
+    resultXdr?: string,
+    hash?: string,
+  ) {
+    const operationCode = operationCodes[operationIndex];
+    const explanation = explainOperationCode(operationCode);
+    super(
+      `Operation #${operationIndex} (${operationType}) failed (${operationCode}): ${explanation}`,
+      transactionCode,
+      operationCodes,
+      explanation,
+      resultXdr,
+      hash,
+    );
+    this.name = "OperationFailedError";
+  }
+
+  get operationCode(): string {
+    return this.operationCodes[this.operationIndex];
+  }
+}
+
+// This function converts an error thrown by the Horizon client into a
+// StellarSubmissionError when it contains result codes. Other errors
+// (e.g. network failures) are returned unchanged.
+//
+// Args:
+// - error: The error thrown by the submitTransaction of a Horizon client
+// - tx: The submitted transaction, used to identify the failed operation
+export function decodeSubmissionError(
+  error: unknown,
+  tx?: Transaction | FeeBumpTransaction,
+): unknown {
+  const data = (error as { response?: { data?: HorizonErrorData } })
+    ?.response?.data;
+  const resultCodes = data?.extras?.result_codes;
+  if (!resultCodes?.transaction) {
+    return error;
+  }
+
+  // A fee bump is rejected as a whole when the inner transaction is
+  // invalid, so the inner code is the one explaining the failure.
+  const transactionCode = resultCodes.transaction === "tx_fee_bump_inner_failed"
+    ? resultCodes.inner_transaction ?? resultCodes.transaction
+    : resultCodes.transaction;
+  const operationCodes = resultCodes.operations ?? [];
+  const { result_xdr: resultXdr, hash } = data?.extras ?? {};
+
+  return fromResultCodes(transactionCode, operationCodes, tx, resultXdr, hash);
+}
+
+// This function converts the result XDR of a transaction that was included
+// in a ledger but failed into a StellarSubmissionError.
+export function decodeFailedResult(
+  resultXdr: string,
+  tx?: Transaction | FeeBumpTransaction,
+  hash?: string,
+): StellarSubmissionError {
+  const { transactionCode, operationResults } = decodeTransactionResult(
+    resultXdr,
+  );
+  return fromResultCodes(
+    transactionCode,
+    operationResults.map((result) => result.code),
+    tx,
+    resultXdr,
+    hash,
+  );
+}
+
+function fromResultCodes(
+  transactionCode: string,
+  operationCodes: string[],
+  tx?: Transaction | FeeBumpTransaction,
+  resultXdr?: string,
+  hash?: string,
+): StellarSubmissionError {
+  const innerTx = tx instanceof FeeBumpTransaction ? tx.innerTransaction : tx;
+  const operationIndex = operationCodes.findIndex((code) =>
+    code !== "op_success"
+  );
+  if (operationIndex === -1) {
+    return new TransactionRejectedError(
+      transactionCode,
+      operationCodes,
+      resultXdr,
+      hash,
+    );
+  }
+
+  return new OperationFailedError(
+    transactionCode,
+    operationCodes,
+    operationIndex,
+    innerTx?.operations[operationIndex]?.type ?? "unknown",
+    resultXdr,
+    hash,
+  );
+}
+
+// This function checks if a submission failed because the transaction
+// was not included in a ledger in time. Horizon responds with 504 after
+// waiting for a while, but the transaction can still be included later.
+export function isSubmissionTimeout(error: unknown): boolean {
+  const { response, code } = error as {
+    response?: { status?: number };
+    code?: string;
+  };
+  return response?.status === 504 || code === "ECONNABORTED";
+}
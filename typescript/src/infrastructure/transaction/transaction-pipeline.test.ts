@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { Asset, Keypair, Operation } from "@stellar/stellar-sdk";
+import { createSimulatorContext } from "../simulator/simulated-horizon.ts";
+import type { StellarContext } from "../context/stellar-context.ts";
+import {
+  OperationFailedError,
+  StellarSubmissionError,
+} from "./submission-error.ts";
+import { submitTransaction } from "./transaction-pipeline.ts";
+import { toStroops } from "../../utils/amounts.ts";
+import initalizeWithFriendbot from "../../use cases/classic/account/initialize-with-friendbot.ts";
+
+async function fundedKeypair(context: StellarContext) {
+  const keypair = Keypair.random();
+  await initalizeWithFriendbot(keypair.publicKey(), context);
+  return keypair;
+}
+
+// Native balance of an account, in stroops
+async function nativeBalance(accountId: string, context: StellarContext) {
+  const account = await context.horizon.loadAccount(accountId);
+  const { balance } = account.balances.find(({ asset_type }) =>
+    asset_type === "native"
+  )!;
+  return toStroops(balance);
+}
+
+// Sends 10 XLM with a fee below the base fee of 100 stroops
+async function underpaidPayment(context: StellarContext) {
+  const source = await fundedKeypair(context);
+  const destination = await fundedKeypair(context);
+  const request = {
+    source: source.publicKey(),
+    operations: [
+      Operation.payment({
+        destination: destination.publicKey(),
+        asset: Asset.native(),
+        amount: "10",
+      }),
+    ],
+    signers: [source],
+    fee: "50",
+  };
+  return { source, request };
+}
+
+Deno.test("a transaction with a low fee is rejected without a fee account", async () => {
+  const context = createSimulatorContext();
+  const { request } = await underpaidPayment(context);
+
+  await assert.rejects(
+    submitTransaction(request, context),
+    (e) =>
+      e instanceof StellarSubmissionError &&
+      e.transactionCode === "tx_insufficient_fee",
+  );
+});
+
+Deno.test("a transaction with a low fee is resubmitted in a fee bump", async () => {
+  const context = createSimulatorContext();
+  const feeAccount = await fundedKeypair(context);
+  context.feePolicy = { ...context.feePolicy, feeBumpAccount: feeAccount };
+  const { source, request } = await underpaidPayment(context);
+  const sourceBefore = await nativeBalance(source.publicKey(), context);
+  const feeAccountBefore = await nativeBalance(feeAccount.publicKey(), context);
+
+  const result = await submitTransaction(request, context);
+
+  // The fee account pays for the payment and the fee bump
+  assert.equal(result.successful, true);
+  assert.equal(result.feeCharged, "200");
+  assert.deepEqual(result.operationResults.map(({ code }) => code), [
+    "op_success",
+  ]);
+  assert.equal(
+    await nativeBalance(source.publicKey(), context),
+    sourceBefore - 100_000_000n,
+  );
+  assert.equal(
+    await nativeBalance(feeAccount.publicKey(), context),
+    feeAccountBefore - 200n,
+  );
+
+  // The sequence number of the inner transaction is tracked
+  await submitTransaction({ ...request, fee: "100" }, context);
+});
+
+Deno.test("the failure of a fee bump is reported with its inner transaction", async () => {
+  const context = createSimulatorContext();
+  const feeAccount = await fundedKeypair(context);
+  context.feePolicy = { ...context.feePolicy, feeBumpAccount: feeAccount };
+  const { request } = await underpaidPayment(context);
+  const payment = Operation.payment({
+    destination: feeAccount.publicKey(),
+    asset: Asset.native(),
+    amount: "20000",
+  });
+
+  await assert.rejects(
+    submitTransaction({ ...request, operations: [payment] }, context),
+    (e) =>
+      e instanceof OperationFailedError &&
+      e.transactionCode === "tx_failed" &&
+      e.operationCodes[0] === "op_underfunded",
+  );
+});
@@ -0,0 +1,352 @@
+/*
+    This script implements the transaction pipeline shared by all the
+    classic use cases.
+
+    Every transaction goes through the same steps:
+    1. Load the source account to get its current sequence number
+    2. Build the transaction with the operations, fee and timeout
+    3. Sign it with all the required signers
+    4. Submit it to the network through Horizon
+
+    Each transaction must use the next sequence number of its source account.
+    Instead of loading the account from Horizon before every transaction, the
+    pipeline keeps the sequence number of each source account locally and
+    increments it every time a transaction is built. This way, back-to-back
+    transactions from the same account only load it once.
+
+    If a submission fails, the local sequence number is discarded and the
+    account is loaded again on its next transaction. A transaction rejected
+    before reaching the ledger does not consume its sequence number, so the
+    local value would be out of sync with the network.
+
+    The fee of each transaction is chosen by the fee policy (see fee-policy.ts).
+    When a transaction is rejected with tx_insufficient_fee or times out, and a
+    fee account is configured, it is wrapped in a fee-bump transaction with a
+    higher bid and submitted again.
+
+    A transaction that timed out might still be included in a ledger, so it
+    is never rebuilt right away. The pipeline waits for it until its time
+    bound expires and only then builds a new one (see retry-policy.ts).
+
+    Every step runs in a context (see stellar-context.ts): the network the
+    transactions are built for, the Horizon client they are submitted to,
+    the signer, the policies and the tracked sequence numbers. Without one,
+    the default context of the active network is used.
+*/
+
+import chalk from "chalk";
+import {
+  Account,
+  decodeAddressToMuxedAccount,
+  FeeBumpTransaction,
+  Horizon,
+  Keypair,
+  Transaction,
+  TransactionBuilder,
+  xdr,
+} from "@stellar/stellar-sdk";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../context/stellar-context.ts";
+import { estimateFee, nextFeeBump } from "./fee-policy.ts";
+import { waitForTransaction } from "./retry-policy.ts";
+import {
+  decodeFailedResult,
+  decodeSubmissionError,
+  isSubmissionTimeout,
+  TransactionExpiredError,
+  TransactionRejectedError,
+} from "./submission-error.ts";
+import {
+  decodeTransactionResult,
+  type OperationResultSummary,
+} from "./transaction-result.ts";
+
+export interface TransactionOptions {
+  // Maximum fee per operation, in stroops. When not provided,
+  // it is chosen by the fee policy.
+  fee?: string;
+  // Time in seconds for the transaction to be included in a ledger.
+  timeout: number;
+}
+
+export interface TransactionRequest extends Partial<TransactionOptions> {
+  // Public key of the account that pays the fee and provides
+  // the sequence number.
+  source: string;
+  operations: xdr.Operation[];
+  // Keypairs that sign the transaction. The source account
+  // keypair must be included unless other signers meet its thresholds.
+  signers: Keypair[];
+}
+
+export interface TransactionPipelineResult {
+  hash: string;
+  ledger: number;
+  successful: boolean;
+  // Fee charged in stroops, which can be lower than the maximum fee
+  feeCharged: string;
+  // One result code per operation, in the same order as the operations
+  operationResults: OperationResultSummary[];
+  envelopeXdr: string;
+  resultXdr: string;
+  resultMetaXdr: string;
+}
+
+// Maximum number of operations in a transaction
+export const MAX_OPERATIONS = 100;
+// Maximum number of signatures of a transaction envelope
+export const MAX_SIGNATURES = 20;
+
+export const DEFAULT_TRANSACTION_OPTIONS: TransactionOptions = {
+  timeout: 30,
+};
+
+// This function returns the source account with its next sequence number.
+// It is only loaded from the network when it is not being tracked yet.
+export async function loadSourceAccount(
+  publicKey: string,
+  context: StellarContext = defaultContext(),
+): Promise<Account> {
+  const tracked = context.sequences.get(publicKey);
+  if (tracked) {
+    return tracked;
+  }
+
+  context.logger.info(
+    `Loading account ${chalk.blue(publicKey)} from the network...`,
+  );
+  const loadedAccount = await context.horizon.loadAccount(publicKey);
+  const account = new Account(publicKey, loadedAccount.sequenceNumber());
+  context.sequences.set(publicKey, account);
+
+  return account;
+}
+
+// This function starts tracking the sequence number of an account from
+// the sequence number of its last transaction included in a ledger.
+function trackSequence(
+  publicKey: string,
+  lastSequence: string,
+  context: StellarContext,
+) {
+  context.sequences.set(publicKey, new Account(publicKey, lastSequence));
+}
+
+// This function discards the local sequence number of an account, or of
+// all accounts when no public key is given, forcing a reload from the
+// network on the next transaction.
+export function resetSequence(
+  publicKey?: string,
+  context: StellarContext = defaultContext(),
+) {
+  if (publicKey) {
+    context.sequences.delete(publicKey);
+  } else {
+    context.sequences.clear();
+  }
+}
+
+// This function sets the source of an operation that has none. The
+// operation is copied, so the one of the caller is left unchanged.
+export function withSource(
+  operation: xdr.Operation,
+  source: string,
+): xdr.Operation {
+  if (operation.sourceAccount()) {
+    return operation;
+  }
+  const copy = xdr.Operation.fromXDR(operation.toXDR());
+  copy.sourceAccount(decodeAddressToMuxedAccount(source, false));
+  return copy;
+}
+
+// This function builds and signs a transaction without submitting it.
+//
+// Building the transaction increments the local sequence number of the
+// source account.
+export async function buildTransaction(
+  request: TransactionRequest,
+  context: StellarContext = defaultContext(),
+): Promise<Transaction> {
+  const { timeout } = { ...DEFAULT_TRANSACTION_OPTIONS, ...request };
+  const fee = request.fee ?? await estimateFee(context);
+  const sourceAccount = await loadSourceAccount(request.source, context);
+
+  const builder = new TransactionBuilder(sourceAccount, {
+    fee,
+    networkPassphrase: context.network.networkPassphrase,
+  });
+  request.operations.forEach((operation) => builder.addOperation(operation));
+  const tx = builder.setTimeout(timeout).build();
+
+  await context.signer(tx, request.signers);
+
+  return tx;
+}
+
+// This function converts a Horizon submission response or transaction
+// record into a uniform result.
+function toPipelineResult(
+  response: Horizon.HorizonApi.SubmitTransactionResponse,
+): TransactionPipelineResult {
+  const { feeCharged, operationResults } = decodeTransactionResult(
+    response.result_xdr,
+  );
+
+  return {
+    hash: response.hash,
+    ledger: response.ledger,
+    successful: response.successful,
+    feeCharged,
+    operationResults,
+    envelopeXdr: response.envelope_xdr,
+    resultXdr: response.result_xdr,
+    resultMetaXdr: response.result_meta_xdr,
+  };
+}
+
+// This function submits a signed transaction through Horizon and
+// wraps the response into a uniform result.
+//
+// Failed submissions are thrown as a StellarSubmissionError with the
+// decoded result codes.
+export async function submitSignedTransaction(
+  tx: Transaction | FeeBumpTransaction,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  try {
+    return toPipelineResult(await context.horizon.submitTransaction(tx));
+  } catch (e) {
+    const innerTx = tx instanceof FeeBumpTransaction ? tx.innerTransaction : tx;
+    resetSequence(innerTx.source, context);
+    throw decodeSubmissionError(e, tx);
+  }
+}
+
+// Fee bumps are only attempted for failures caused by the bid being
+// too low for the current network load.
+const isFeeFailure = (e: unknown) =>
+  (e instanceof TransactionRejectedError &&
+    e.transactionCode === "tx_insufficient_fee") ||
+  isSubmissionTimeout(e);
+
+// This function waits for a transaction whose submission timed out.
+// Throws a TransactionExpiredError if it was never included.
+async function confirmTimedOutTransaction(
+  tx: Transaction,
+  context: StellarContext,
+): Promise<TransactionPipelineResult> {
+  const hash = tx.hash().toString("hex");
+  context.logger.warn(
+    `Submission timed out, waiting for transaction ${
+      chalk.blue(hash)
+    } to be included or to expire...`,
+  );
+  const record = await waitForTransaction(
+    hash,
+    Number(tx.timeBounds?.maxTime ?? 0),
+    context,
+  );
+
+  // Once included, successful or not, the sequence number is consumed
+  trackSequence(tx.source, tx.sequence, context);
+  if (!record.successful) {
+    throw decodeFailedResult(record.result_xdr, tx, record.hash);
+  }
+
+  return toPipelineResult({ ...record, ledger: record.ledger_attr });
+}
+
+// This function submits a signed transaction and recovers from failures
+// where the outcome can still change:
+// - Bids that are too low are wrapped in fee bumps with increasing bids,
+//   paid by the fee account of the fee policy.
+// - Submissions that timed out are awaited until included or expired.
+//
+// Args:
+// - tx: The signed transaction to submit
+// - context: The context the transaction was built in
+export async function submitWithRecovery(
+  tx: Transaction,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  let error: unknown;
+  let timedOut = false;
+  try {
+    return await submitSignedTransaction(tx, context);
+  } catch (e) {
+    error = e;
+    timedOut = isSubmissionTimeout(e);
+  }
+
+  let fee = (BigInt(tx.fee) / BigInt(tx.operations.length)).toString();
+  for (let attempt = 0; isFeeFailure(error); attempt++) {
+    const bumpFee = nextFeeBump(fee, attempt, context.feePolicy);
+    const feeAccount = context.feePolicy.feeBumpAccount;
+    if (!bumpFee || !feeAccount) {
+      break;
+    }
+
+    context.logger.warn(
+      `Resubmitting transaction with a fee bump of ${
+        chalk.blue(bumpFee)
+      } stroops per operation paid by ${chalk.blue(feeAccount.publicKey())}...`,
+    );
+    const feeBumpTx = TransactionBuilder.buildFeeBumpTransaction(
+      feeAccount,
+      bumpFee,
+      tx,
+      context.network.networkPassphrase,
+    );
+    await context.signer(feeBumpTx, [feeAccount]);
+
+    try {
+      const result = await submitSignedTransaction(feeBumpTx, context);
+      trackSequence(tx.source, tx.sequence, context);
+      return result;
+    } catch (e) {
+      error = e;
+      timedOut ||= isSubmissionTimeout(e);
+      fee = bumpFee;
+    }
+  }
+
+  // Once any submission timed out, the transaction might still be included,
+  // even if a later fee bump was rejected. e.g. a fee bump is rejected
+  // with tx_bad_seq when the original transaction was included meanwhile.
+  if (timedOut) {
+    return await confirmTimedOutTransaction(tx, context);
+  }
+  throw error;
+}
+
+// This function runs the complete pipeline for a transaction:
+// load, build, sign and submit, bumping its fee if needed.
+//
+// Transactions that expire without being included are built again with
+// a fresh sequence number, up to the maximum retries of the retry policy.
+//
+// Args:
+// - request: The source, operations and signers of the transaction
+// - context: The context to run in, defaults to the active network
+export async function submitTransaction(
+  request: TransactionRequest,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  const { maxRetries } = context.retryPolicy;
+  for (let retry = 1;; retry++) {
+    const tx = await buildTransaction(request, context);
+    try {
+      return await submitWithRecovery(tx, context);
+    } catch (e) {
+      if (!(e instanceof TransactionExpiredError) || retry > maxRetries) {
+        throw e;
+      }
+      context.logger.warn(
+        `Transaction expired without being included. Rebuilding it (retry ${retry} of ${maxRetries})...`,
+      );
+    }
+  }
+}
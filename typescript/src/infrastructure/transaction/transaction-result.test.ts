@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { xdr } from "@stellar/stellar-sdk";
+import {
+  explainOperationCode,
+  OPERATION_EXPLANATIONS,
+} from "./submission-error.ts";
+import { summarizeOperationResult } from "./transaction-result.ts";
+
+// Builds the result of an operation from the names of its XDR type and
+// code, e.g. manageData + manageDataNameNotFound
+function operationResult(type: string, code: string): xdr.OperationResult {
+  const types = xdr as unknown as Record<string, unknown>;
+  const resultName = `${type.charAt(0).toUpperCase()}${type.slice(1)}Result`;
+  const ResultType = types[resultName] as new (code: unknown) => unknown;
+  const codes = types[`${resultName}Code`] as Record<string, () => unknown>;
+  return xdr.OperationResult.opInner(
+    (xdr.OperationResultTr as unknown as Record<
+      string,
+      (result: unknown) => xdr.OperationResultTr
+    >)[type](new ResultType(codes[code]())),
+  );
+}
+
+Deno.test("operation codes follow the XDR names", () => {
+  assert.deepEqual(
+    summarizeOperationResult(
+      operationResult("payment", "paymentUnderfunded"),
+    ),
+    { type: "payment", code: "op_underfunded" },
+  );
+  assert.deepEqual(
+    summarizeOperationResult(
+      operationResult("changeTrust", "changeTrustTrustLineMissing"),
+    ).code,
+    "op_trust_line_missing",
+  );
+  assert.deepEqual(
+    summarizeOperationResult(operationResult("setOptions", "setOptionsSuccess"))
+      .code,
+    "op_success",
+  );
+});
+
+Deno.test("irregular operation codes use the Horizon names", () => {
+  const cases: [string, string, string][] = [
+    ["createAccount", "createAccountAlreadyExist", "op_already_exists"],
+    ["manageData", "manageDataNameNotFound", "op_data_name_not_found"],
+    ["manageData", "manageDataInvalidName", "op_data_invalid_name"],
+    ["allowTrust", "allowTrustNoTrustLine", "op_no_trustline"],
+    ["allowTrust", "allowTrustTrustNotRequired", "op_not_required"],
+    ["setTrustLineFlags", "setTrustLineFlagsNoTrustLine", "op_no_trustline"],
+    ["accountMerge", "accountMergeSeqnumTooFar", "op_seq_num_too_far"],
+    ["manageBuyOffer", "manageBuyOfferNotFound", "op_offer_not_found"],
+    [
+      "pathPaymentStrictReceive",
+      "pathPaymentStrictReceiveOverSendmax",
+      "op_over_source_max",
+    ],
+    [
+      "pathPaymentStrictSend",
+      "pathPaymentStrictSendUnderDestmin",
+      "op_under_dest_min",
+    ],
+    [
+      "pathPaymentStrictSend",
+      "pathPaymentStrictSendOfferCrossSelf",
+      "op_cross_self",
+    ],
+  ];
+  for (const [type, code, expected] of cases) {
+    assert.deepEqual(
+      summarizeOperationResult(operationResult(type, code)).code,
+      expected,
+      code,
+    );
+  }
+});
+
+Deno.test("irregular operation codes are explained", () => {
+  for (
+    const code of [
+      "op_already_exists",
+      "op_data_name_not_found",
+      "op_no_trustline",
+      "op_not_required",
+      "op_seq_num_too_far",
+    ]
+  ) {
+    assert.ok(code in OPERATION_EXPLANATIONS, code);
+    assert.deepEqual(explainOperationCode(code), OPERATION_EXPLANATIONS[code]);
+  }
+});
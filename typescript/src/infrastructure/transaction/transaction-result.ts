@@ -0,0 +1,120 @@
+/*
+    This script decodes the result XDR returned by Horizon after a
+    transaction is included in a ledger.
+
+    The result contains the fee that was actually charged and one result
+    per operation. Each operation result is converted to the same codes
+    used by Horizon in its error responses (e.g. op_success, op_low_reserve,
+    op_underfunded), so successful and failed results can be read the same way.
+
+    For fee-bump transactions, the fee is the one charged to the fee
+    account and the operation results are the ones of the inner transaction.
+*/
+
+import { xdr } from "@stellar/stellar-sdk";
+
+export interface OperationResultSummary {
+  // Operation type, e.g. createAccount, payment, changeTrust
+  type: string;
+  // Horizon style result code, e.g. op_success, op_low_reserve
+  code: string;
+}
+
+export interface DecodedTransactionResult {
+  // Fee charged in stroops
+  feeCharged: string;
+  // Horizon style transaction code, e.g. tx_success, tx_failed
+  transactionCode: string;
+  operationResults: OperationResultSummary[];
+}
+
+// Operation-level failures that happen before the operation is applied.
+// Horizon reports some of them with a different name than the XDR.
+const OUTER_OPERATION_CODES: Record<string, string> = {
+  opNoAccount: "op_no_source_account",
+};
+
+// Some operations share the result type of another operation, so their
+// result codes carry the prefix of the shared type.
+const SHARED_RESULT_PREFIXES = ["manageSellOffer"];
+
+// Operation codes whose Horizon name does not follow the XDR name, by XDR
+// name without the operation prefix, e.g. manageDataNameNotFound ->
+// op_data_name_not_found
+const IRREGULAR_OPERATION_CODES: Record<string, string> = {
+  AlreadyExist: "op_already_exists",
+  NameNotFound: "op_data_name_not_found",
+  InvalidName: "op_data_invalid_name",
+  NoTrustLine: "op_no_trustline",
+  TrustNotRequired: "op_not_required",
+  SeqnumTooFar: "op_seq_num_too_far",
+  NotFound: "op_offer_not_found",
+  OfferCrossSelf: "op_cross_self",
+  OverSendmax: "op_over_source_max",
+  UnderDestmin: "op_under_dest_min",
+};
+
+const toSnakeCase = (name: string) =>
+  name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase();
+
+// Converts an XDR result code name into a Horizon result code.
+// e.g. txBadSeq -> tx_bad_seq
+export const toTransactionCode = (name: string) => toSnakeCase(name);
+
+// Converts an XDR operation result into a Horizon result code.
+// e.g. createAccountLowReserve -> op_low_reserve
+function toOperationCode(type: string, innerCode: string): string {
+  const prefix = [type, ...SHARED_RESULT_PREFIXES].find((candidate) =>
+    innerCode.startsWith(candidate)
+  );
+  const code = prefix ? innerCode.slice(prefix.length) : innerCode;
+  return IRREGULAR_OPERATION_CODES[code] ??
+    `op_${toSnakeCase(code.charAt(0).toLowerCase() + code.slice(1))}`;
+}
+
+export function summarizeOperationResult(
+  result: xdr.OperationResult,
+): OperationResultSummary {
+  const outerCode = result.switch().name;
+  if (outerCode !== "opInner") {
+    return {
+      type: "unknown",
+      code: OUTER_OPERATION_CODES[outerCode] ?? toSnakeCase(outerCode),
+    };
+  }
+
+  const tr = result.tr();
+  const type = tr.switch().name;
+  const innerCode = (tr.value() as { switch(): { name: string } }).switch()
+    .name;
+
+  return { type, code: toOperationCode(type, innerCode) };
+}
+
+export function decodeTransactionResult(
+  resultXdr: string,
+): DecodedTransactionResult {
+  const transactionResult = xdr.TransactionResult.fromXDR(resultXdr, "base64");
+  const result = transactionResult.result();
+  const code = result.switch().name;
+
+  // Fee-bump transactions wrap the result of the inner transaction.
+  // Only applied transactions have operation results, the other codes
+  // mean the transaction was rejected as a whole.
+  let operationResults: xdr.OperationResult[] = [];
+  if (code === "txFeeBumpInnerSuccess" || code === "txFeeBumpInnerFailed") {
+    const innerResult = result.innerResultPair().result().result();
+    const innerCode = innerResult.switch().name;
+    if (innerCode === "txSuccess" || innerCode === "txFailed") {
+      operationResults = innerResult.results();
+    }
+  } else if (code === "txSuccess" || code === "txFailed") {
+    operationResults = result.results();
+  }
+
+  return {
+    feeCharged: transactionResult.feeCharged().toString(),
+    transactionCode: toTransactionCode(code),
+    operationResults: operationResults.map(summarizeOperationResult),
+  };
+}
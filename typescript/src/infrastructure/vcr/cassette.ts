@@ -0,0 +1,118 @@
+/*
+    This script defines the cassettes of the HTTP recorder: the fixture files
+    holding the HTTP exchanges recorded from Horizon, Soroban RPC and
+    friendbot.
+
+    A cassette is a JSON file with:
+    - The network it was recorded on, since the recorded URLs and
+      transactions only exist on that network.
+    - The mnemonic from which the keypairs of the recording were derived
+      (see generate-keypair.ts), so a replay generates the same accounts and
+      requests the same URLs.
+    - The time the recording started at, and the interactions, each one a
+      request, the response received and the time it was received at. The
+      clock of a run is pinned to these times (see http-recorder.ts), so a
+      replay builds its transactions with the same time bounds.
+
+    During a replay, each request is answered with the next recorded response
+    of the same request, in the order they were recorded. Requests are
+    identified by their method and URL, plus the method of the JSON-RPC call
+    for Soroban RPC, whose requests are all posted to the same URL.
+
+    The body of a request must also be the same as the recorded one. With
+    the same keypairs, clock and responses, the replay submits the same
+    transactions, down to their signatures, as the recording. Any other
+    transaction, e.g. one built with other operations or signed by another
+    account, fails the replay.
+
+    !! The mnemonic controls the accounts of the recording. Only record
+    cassettes on test networks. !!
+*/
+
+import { dirname } from "node:path";
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  body?: string;
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  // JSON responses are kept parsed, so the fixtures are readable
+  body: unknown;
+}
+
+export interface Interaction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+  // Time the response was received at, in milliseconds since the epoch
+  time: number;
+}
+
+export interface Cassette {
+  networkPassphrase: string;
+  // Mnemonic of the keypairs generated during the recording
+  mnemonic: string;
+  // Time the recording started at, as an ISO 8601 date
+  recordedAt: string;
+  interactions: Interaction[];
+}
+
+// Error thrown when a cassette cannot be loaded or has no recording
+// matching a request
+export class CassetteError extends Error {
+  constructor(message: string, readonly path: string) {
+    super(`${path}: ${message}`);
+    this.name = "CassetteError";
+  }
+}
+
+// This function returns the key identifying a request in a cassette.
+// e.g. "GET https://horizon-testnet.stellar.org/accounts/G..." or
+// "POST https://soroban-testnet.stellar.org simulateTransaction"
+export function requestKey(request: RecordedRequest): string {
+  const key = `${request.method.toUpperCase()} ${request.url}`;
+  try {
+    const { method } = JSON.parse(request.body ?? "");
+    return typeof method === "string" ? `${key} ${method}` : key;
+  } catch {
+    return key;
+  }
+}
+
+// This function converts a response body into its recorded form.
+export function recordBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// This function converts a recorded body back into the text received.
+export const bodyText = (body: unknown) =>
+  typeof body === "string" ? body : JSON.stringify(body);
+
+export async function loadCassette(path: string): Promise<Cassette> {
+  let cassette: Cassette;
+  try {
+    cassette = JSON.parse(await Deno.readTextFile(path));
+  } catch (e) {
+    throw new CassetteError(
+      `Could not read the cassette: ${(e as Error).message}`,
+      path,
+    );
+  }
+  if (!Array.isArray(cassette.interactions) || !cassette.mnemonic) {
+    throw new CassetteError("Not a cassette of the HTTP recorder.", path);
+  }
+  return cassette;
+}
+
+export async function saveCassette(path: string, cassette: Cassette) {
+  await Deno.mkdir(dirname(path), { recursive: true });
+  await Deno.writeTextFile(path, JSON.stringify(cassette, null, 2) + "\n");
+}
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { CassetteError, loadCassette } from "./cassette.ts";
+import { startCassette, stopCassette, withCassette } from "./http-recorder.ts";
+
+// Serves the number of requests received, so the replayed responses can
+// be told apart from new ones
+function startCountingServer() {
+  let requests = 0;
+  const server = Deno.serve(
+    { port: 0, onListen: () => {} },
+    () => Response.json({ requests: ++requests }),
+  );
+  return { server, url: `http://localhost:${server.addr.port}/count` };
+}
+
+const fileExists = (path: string) =>
+  Deno.stat(path).then(() => true, () => false);
+
+Deno.test("a recording is replayed without the network", async () => {
+  const path = join(await Deno.makeTempDir(), "count.json");
+  const { server, url } = startCountingServer();
+  const countTwice = async () => [
+    await (await fetch(url)).json(),
+    await (await fetch(url)).json(),
+  ];
+
+  try {
+    assert.deepEqual(await withCassette(path, countTwice, "record"), [
+      { requests: 1 },
+      { requests: 2 },
+    ]);
+  } finally {
+    await server.shutdown();
+  }
+  assert.equal((await loadCassette(path)).interactions.length, 2);
+
+  assert.deepEqual(await withCassette(path, countTwice, "replay"), [
+    { requests: 1 },
+    { requests: 2 },
+  ]);
+  await assert.rejects(
+    withCassette(
+      path,
+      async () => [...await countTwice(), await fetch(url)],
+      "replay",
+    ),
+    CassetteError,
+  );
+});
+
+Deno.test("a replay sends the same bodies at the same times", async () => {
+  const path = join(await Deno.makeTempDir(), "bodies.json");
+  const { server, url } = startCountingServer();
+  // Returns the time of the clock around each request
+  const postAll = async (...bodies: string[]) => {
+    const times = [Date.now()];
+    for (const body of bodies) {
+      await (await fetch(url, { method: "POST", body })).json();
+      times.push(Date.now());
+    }
+    return times;
+  };
+
+  let recorded: number[];
+  try {
+    recorded = await withCassette(
+      path,
+      () => postAll("first", "second"),
+      "record",
+    );
+  } finally {
+    await server.shutdown();
+  }
+  // The clock stays at the time of the last response
+  const cassette = await loadCassette(path);
+  assert.deepEqual(recorded, [
+    Date.parse(cassette.recordedAt),
+    ...cassette.interactions.map(({ time }) => time),
+  ]);
+
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  assert.deepEqual(
+    await withCassette(path, () => postAll("first", "second"), "replay"),
+    recorded,
+  );
+  await assert.rejects(
+    withCassette(path, () => postAll("first", "other"), "replay"),
+    /POST .* differs from the recording/,
+  );
+});
+
+Deno.test("the recording of a failed run is not saved", async () => {
+  const path = join(await Deno.makeTempDir(), "failed.json");
+  const { server, url } = startCountingServer();
+  try {
+    await assert.rejects(
+      withCassette(path, async () => {
+        await (await fetch(url)).json();
+        throw new Error("The run failed");
+      }, "record"),
+      /The run failed/,
+    );
+  } finally {
+    await server.shutdown();
+  }
+  assert.equal(await fileExists(path), false);
+});
+
+Deno.test("a request that could not be sent fails the recording", async () => {
+  const path = join(await Deno.makeTempDir(), "unreachable.json");
+  const { server, url } = startCountingServer();
+  await server.shutdown();
+
+  await startCassette(path, "record");
+  // The error is handled by the run, but the recording is still broken
+  await assert.rejects(fetch(url));
+  await assert.rejects(stopCassette(), /1 requests failed/);
+  assert.equal(await fileExists(path), false);
+});
@@ -0,0 +1,460 @@
+/*
+    This script records the HTTP traffic of the use cases to a cassette, and
+    replays it later without a network, like a VCR.
+
+    The traffic goes through two HTTP layers, which are both intercepted
+    while a cassette is in use:
+    - The HTTP clients of the SDK for Horizon and Soroban RPC, including the
+      contract clients of the bindings (AssembledTransaction).
+    - fetch, used to request friendbot.
+
+    Modes:
+    - record: The requests are sent to the network and the exchanges are
+      saved in the cassette once the run succeeds. A request that could
+      not reach the network fails the recording, even when the error was
+      handled by the run.
+    - replay: The requests are answered from the cassette. A request without
+      a recording, or with another body than the recorded one, fails with a
+      CassetteError.
+    - auto: Replays the cassette when it exists, records it otherwise.
+
+    While a cassette is in use, the replay is made to send the same requests
+    as the recording:
+    - generateKeypair derives its keypairs from the mnemonic of the cassette
+      (STELLAR_MNEMONIC), so the same accounts are requested and sign.
+    - The clock (Date.now) is pinned: it starts at the start of the
+      recording, and moves to the time each recorded response was received
+      at. The time bounds of the transactions, computed from the clock, are
+      so the same. The runs are expected to send their requests one at a
+      time, like the use cases do.
+
+    e.g.
+
+    // Records on the first run, replays on the next ones
+    await withCassette("fixtures/counter.json", async () => {
+      const admin = await generateKeypair();
+      await initalizeWithFriendbot(admin.publicKey());
+      await readCounter(await createContractClient(admin));
+    });
+
+    The demonstrations of the use cases can be recorded and replayed with:
+
+    deno task vcr record fixtures/counter.json counter
+    deno task vcr replay fixtures/counter.json counter
+*/
+
+import chalk from "chalk";
+import { Horizon, rpc } from "@stellar/stellar-sdk";
+import { LOGGER } from "../../utils/logger.ts";
+import { defaultContext } from "../context/stellar-context.ts";
+import { resetSequence } from "../transaction/transaction-pipeline.ts";
+import { generateMnemonic } from "../../utils/mnemonic.ts";
+import { resetMnemonicIndex } from "../../use cases/classic/account/generate-keypair.ts";
+import {
+  bodyText,
+  type Cassette,
+  CassetteError,
+  type Interaction,
+  loadCassette,
+  recordBody,
+  type RecordedRequest,
+  type RecordedResponse,
+  requestKey,
+  saveCassette,
+} from "./cassette.ts";
+
+export type RecorderMode = "record" | "replay" | "auto";
+
+type HttpClient = typeof Horizon.AxiosClient;
+type HttpAdapter = NonNullable<HttpClient["defaults"]["adapter"]>;
+type HttpRequestConfig = Parameters<HttpAdapter>[0] & {
+  validateStatus?: ((status: number) => boolean) | null;
+};
+type HttpResponse = Awaited<ReturnType<HttpAdapter>>;
+
+interface ActiveCassette {
+  path: string;
+  mode: "record" | "replay";
+  cassette: Cassette;
+  // Recorded exchanges not replayed yet, by request key
+  pending: Map<string, Interaction[]>;
+  // Requests of the replay without a matching recording
+  unmatched: string[];
+  // Requests of the recording that could not reach the network
+  failed: string[];
+  // Environment variables replaced by the cassette
+  environment: Record<string, string | undefined>;
+  // Time of the pinned clock, in milliseconds since the epoch
+  clock: number;
+}
+
+// HTTP clients of the SDK for Horizon and Soroban RPC
+const HTTP_CLIENTS: HttpClient[] = [Horizon.AxiosClient, rpc.AxiosClient];
+
+const originalFetch = globalThis.fetch;
+const originalNow = Date.now;
+const originalAdapters = HTTP_CLIENTS.map((client) => client.defaults.adapter);
+
+// The bodies are decoded and the JSON ones reformatted when recorded, so
+// these headers would not match the replayed bodies
+const TRANSPORT_HEADERS = [
+  "content-encoding",
+  "content-length",
+  "transfer-encoding",
+];
+
+let active: ActiveCassette | undefined;
+
+// This function returns the mode of the recorder from the
+// STELLAR_VCR_MODE environment variable, defaulting to auto.
+export function recorderModeFromEnv(): RecorderMode {
+  const mode = Deno.env.get("STELLAR_VCR_MODE") ?? "auto";
+  if (!["record", "replay", "auto"].includes(mode)) {
+    throw new Error(
+      `Unknown recorder mode '${mode}'. Use one of: record, replay, auto`,
+    );
+  }
+  return mode as RecorderMode;
+}
+
+async function toRecordedResponse(
+  response: Response,
+): Promise<RecordedResponse> {
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: Object.fromEntries(
+      [...response.headers].filter(([name]) =>
+        !TRANSPORT_HEADERS.includes(name)
+      ),
+    ),
+    body: recordBody(await response.text()),
+  };
+}
+
+// This function answers a request from the cassette, or sends it to
+// the network and records the exchange.
+async function exchange(
+  request: RecordedRequest,
+  send: () => Promise<Response>,
+): Promise<RecordedResponse> {
+  const cassette = active!;
+
+  const key = requestKey(request);
+  if (cassette.mode === "record") {
+    let sent: Response;
+    try {
+      sent = await send();
+    } catch (e) {
+      cassette.failed.push(key);
+      throw e;
+    }
+    const response = await toRecordedResponse(sent);
+    cassette.clock = originalNow();
+    cassette.cassette.interactions.push({
+      request,
+      response,
+      time: cassette.clock,
+    });
+    return response;
+  }
+
+  const recorded = cassette.pending.get(key)?.shift();
+  if (!recorded) {
+    cassette.unmatched.push(key);
+    throw new CassetteError(
+      `No recorded response for ${key}. Record the cassette again.`,
+      cassette.path,
+    );
+  }
+  if ((recorded.request.body ?? "") !== (request.body ?? "")) {
+    cassette.unmatched.push(key);
+    throw new CassetteError(
+      `The body of ${key} differs from the recording, e.g. another transaction was submitted. Record the cassette again.`,
+      cassette.path,
+    );
+  }
+  cassette.clock = recorded.time;
+  return recorded.response;
+}
+
+// This function replaces the transport of the SDK HTTP clients. Like the
+// default adapters, it rejects the responses with an invalid status, so
+// the SDK can decode the errors of Horizon (e.g. the result codes).
+async function recorderAdapter(
+  config: HttpRequestConfig,
+): Promise<HttpResponse> {
+  const url = new URL(config.url ?? "", config.baseURL);
+  Object.entries(config.params ?? {}).forEach(([name, value]) =>
+    url.searchParams.append(name, String(value))
+  );
+  const request: RecordedRequest = {
+    method: (config.method ?? "get").toUpperCase(),
+    url: url.toString(),
+    ...(config.data !== undefined && {
+      body: typeof config.data === "string"
+        ? config.data
+        : JSON.stringify(config.data),
+    }),
+  };
+
+  const recorded = await exchange(request, () => {
+    // The headers are an AxiosHeaders instance, which serializes
+    // into a plain object
+    const headers: Record<string, unknown> = JSON.parse(
+      JSON.stringify(config.headers ?? {}),
+    );
+    return originalFetch(request.url, {
+      method: request.method,
+      headers: Object.entries(headers).map(([name, value]) => [
+        name,
+        String(value),
+      ]),
+      body: request.body,
+      signal: config.timeout ? AbortSignal.timeout(config.timeout) : undefined,
+    });
+  });
+
+  const response: HttpResponse = {
+    data: bodyText(recorded.body),
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.headers,
+    config,
+  };
+  if (config.validateStatus && !config.validateStatus(response.status)) {
+    throw Object.assign(
+      new Error(`Request failed with status code ${response.status}`),
+      { config, response },
+    );
+  }
+  return response;
+}
+
+// This function replaces fetch while a cassette is in use.
+async function recorderFetch(
+  input: string | URL | Request,
+  init?: RequestInit,
+): Promise<Response> {
+  const httpRequest = new Request(input, init);
+  const request: RecordedRequest = {
+    method: httpRequest.method,
+    url: httpRequest.url,
+    ...(httpRequest.body && { body: await httpRequest.clone().text() }),
+  };
+
+  const recorded = await exchange(request, () => originalFetch(httpRequest));
+
+  // Responses without content cannot have a body, not even an empty one
+  const noContent = [204, 205, 304].includes(recorded.status);
+  return new Response(noContent ? null : bodyText(recorded.body), {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.headers,
+  });
+}
+
+function pendingInteractions(interactions: Interaction[]) {
+  const pending = new Map<string, Interaction[]>();
+  for (const interaction of interactions) {
+    const key = requestKey(interaction.request);
+    pending.set(key, [...(pending.get(key) ?? []), interaction]);
+  }
+  return pending;
+}
+
+// This function starts recording or replaying the HTTP traffic.
+//
+// Args:
+// - path: The cassette file
+// - mode: Whether to record or replay, defaults to STELLAR_VCR_MODE
+export async function startCassette(
+  path: string,
+  mode: RecorderMode = recorderModeFromEnv(),
+): Promise<void> {
+  if (active) {
+    throw new CassetteError("Another cassette is already in use.", active.path);
+  }
+
+  let exists = true;
+  try {
+    await Deno.stat(path);
+  } catch {
+    exists = false;
+  }
+  const resolvedMode = mode === "auto" ? exists ? "replay" : "record" : mode;
+  const { network } = defaultContext();
+
+  const cassette: Cassette = resolvedMode === "replay"
+    ? await loadCassette(path)
+    : {
+      networkPassphrase: network.networkPassphrase,
+      mnemonic: generateMnemonic(128),
+      recordedAt: new Date().toISOString(),
+      interactions: [],
+    };
+  if (cassette.networkPassphrase !== network.networkPassphrase) {
+    throw new CassetteError(
+      `The cassette was recorded on another network than '${network.name}' (${cassette.networkPassphrase}).`,
+      path,
+    );
+  }
+
+  active = {
+    path,
+    mode: resolvedMode,
+    cassette,
+    pending: pendingInteractions(cassette.interactions),
+    unmatched: [],
+    failed: [],
+    environment: {
+      STELLAR_MNEMONIC: Deno.env.get("STELLAR_MNEMONIC"),
+      STELLAR_MNEMONIC_PASSPHRASE: Deno.env.get("STELLAR_MNEMONIC_PASSPHRASE"),
+    },
+    clock: Date.parse(cassette.recordedAt),
+  };
+  const started = active;
+
+  // The keypairs are derived from the mnemonic of the cassette, from
+  // its first account
+  Deno.env.set("STELLAR_MNEMONIC", cassette.mnemonic);
+  Deno.env.delete("STELLAR_MNEMONIC_PASSPHRASE");
+  resetMnemonicIndex();
+  resetSequence();
+
+  HTTP_CLIENTS.forEach((client) => client.defaults.adapter = recorderAdapter);
+  globalThis.fetch = recorderFetch;
+  Date.now = () => started.clock;
+
+  LOGGER.info(
+    resolvedMode === "record"
+      ? `Recording the HTTP traffic to ${chalk.blue(path)}...`
+      : `Replaying the HTTP traffic from ${chalk.blue(path)}...`,
+  );
+}
+
+// This function stops the cassette in use and restores the network.
+// A recording is saved unless the run or one of its requests failed, so
+// a broken cassette is never replayed. Throws a CassetteError when a
+// recording cannot be saved because of failed requests, or when a replay
+// received requests that did not match the recording.
+//
+// Args:
+// - save: Whether to save the recording
+export async function stopCassette(save = true): Promise<void> {
+  const cassette = active;
+  if (!cassette) {
+    return;
+  }
+  active = undefined;
+
+  HTTP_CLIENTS.forEach((client, index) =>
+    client.defaults.adapter = originalAdapters[index]
+  );
+  globalThis.fetch = originalFetch;
+  Date.now = originalNow;
+  for (const [name, value] of Object.entries(cassette.environment)) {
+    if (value === undefined) {
+      Deno.env.delete(name);
+    } else {
+      Deno.env.set(name, value);
+    }
+  }
+  resetMnemonicIndex();
+  resetSequence();
+
+  if (cassette.mode === "record") {
+    if (save && cassette.failed.length) {
+      throw new CassetteError(
+        `The recording was not saved, ${cassette.failed.length} requests failed: ${
+          cassette.failed.join(", ")
+        }`,
+        cassette.path,
+      );
+    }
+    if (save) {
+      await saveCassette(cassette.path, cassette.cassette);
+      LOGGER.info(
+        `Recorded ${cassette.cassette.interactions.length} HTTP exchanges to ${
+          chalk.blue(cassette.path)
+        }.`,
+      );
+    }
+    return;
+  }
+
+  if (cassette.unmatched.length) {
+    throw new CassetteError(
+      `No matching recording for ${cassette.unmatched.length} requests: ${
+        cassette.unmatched.join(", ")
+      }`,
+      cassette.path,
+    );
+  }
+  const unused = [...cassette.pending.values()].flat().length;
+  if (unused) {
+    LOGGER.warn(`${unused} recorded HTTP exchanges were not replayed.`);
+  }
+}
+
+// This function runs a function while recording or replaying a cassette.
+//
+// Args:
+// - path: The cassette file
+// - run: The function making the requests
+// - mode: Whether to record or replay, defaults to STELLAR_VCR_MODE
+export async function withCassette<T>(
+  path: string,
+  run: () => Promise<T>,
+  mode?: RecorderMode,
+): Promise<T> {
+  await startCassette(path, mode);
+  let result: T;
+  try {
+    result = await run();
+  } catch (e) {
+    // The error of the run explains the requests that did not match
+    await stopCassette(false).catch(() => {});
+    throw e;
+  }
+  await stopCassette();
+  return result;
+}
+
+// Records or replays the demonstration of a use case, e.g.
+// deno task vcr replay fixtures/counter.json counter
+if (import.meta.main) {
+  const DEMOS: Record<string, () => Promise<unknown>> = {
+    counter: async () =>
+      (await import("../../use cases/soroban/counter/counter.ts"))
+        .demonstrateCounter(),
+    events: async () =>
+      (await import("../../use cases/soroban/events/events.ts"))
+        .demonstrateEvents(),
+    "asset-controls": async () =>
+      (await import("../../use cases/classic/asset/configure-flags.ts"))
+        .default(),
+    multisig: async () =>
+      (await import("../../use cases/classic/authorization/multisig.ts"))
+        .default(),
+  };
+
+  const [mode, path, demo] = Deno.args;
+  if (
+    !["record", "replay", "auto"].includes(mode) || !path || !DEMOS[demo]
+  ) {
+    LOGGER.error(
+      `Usage: deno task vcr <record|replay|auto> <cassette> <${
+        Object.keys(DEMOS).join("|")
+      }>`,
+    );
+    Deno.exit(2);
+  }
+
+  try {
+    await withCassette(path, DEMOS[demo], mode as RecorderMode);
+  } catch (e) {
+    LOGGER.error(`${e}`);
+    Deno.exit(1);
+  }
+}
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { NETWORK_PROFILES } from "../network/network-profile.ts";
+import { setDefaultContext } from "../context/stellar-context.ts";
+import generateKeypair from "../../use cases/classic/account/generate-keypair.ts";
+import initalizeWithFriendbot from "../../use cases/classic/account/initialize-with-friendbot.ts";
+import {
+  createContractClient,
+  incrementCounter,
+  readCounter,
+} from "../../use cases/soroban/counter/counter.ts";
+import { loadCassette } from "./cassette.ts";
+import { withCassette } from "./http-recorder.ts";
+import { startStubNetwork } from "./stub-network.ts";
+
+const updateCounter = async () => {
+  const admin = await generateKeypair();
+  await initalizeWithFriendbot(admin.publicKey());
+  const client = await createContractClient(admin);
+  return [
+    await incrementCounter(client, 5n),
+    await incrementCounter(client, 3n),
+    await readCounter(client),
+  ];
+};
+
+Deno.test("the counter is recorded on the stub network and replayed", async () => {
+  const path = join(await Deno.makeTempDir(), "counter.json");
+  const server = startStubNetwork({ port: 0 });
+  const url = `http://localhost:${server.addr.port}`;
+  setDefaultContext({
+    network: {
+      ...NETWORK_PROFILES.local,
+      horizonUrl: url,
+      rpcUrl: `${url}/rpc`,
+      friendbotUrl: `${url}/friendbot`,
+    },
+  });
+
+  try {
+    try {
+      assert.deepEqual(await withCassette(path, updateCounter, "record"), [
+        5n,
+        8n,
+        8n,
+      ]);
+    } finally {
+      await server.shutdown();
+    }
+    const methods = (await loadCassette(path)).interactions.map(
+      ({ request }) => request.body && JSON.parse(request.body).method,
+    );
+    assert.equal(
+      methods.filter((method) => method === "sendTransaction").length,
+      2,
+    );
+
+    // The transactions are built again with the same time bounds
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    assert.deepEqual(await withCassette(path, updateCounter, "replay"), [
+      5n,
+      8n,
+      8n,
+    ]);
+  } finally {
+    setDefaultContext();
+  }
+});
@@ -0,0 +1,421 @@
+/*
+    This script runs a stub of a local network for the contracts of the
+    counter and events use cases. It answers the requests of their
+    demonstrations without a Stellar node, so their cassettes can be
+    recorded offline (see http-recorder.ts):
+    - GET /friendbot?addr=G...: Creates the account, like friendbot.
+    - GET /fee_stats: The fee stats of Horizon, with a base fee everywhere.
+    - POST /rpc: The Soroban RPC methods used by the contract clients, i.e.
+      getLedgerEntries (of accounts), simulateTransaction, sendTransaction
+      and getTransaction.
+
+    Every contract answers count, add and subtract like the counter contract,
+    and default and custom like the events contract, without emitting the
+    events. A transaction is rejected when its sequence number is not the
+    next one of its source account, or when the source account did not sign
+    it. Otherwise it is applied right away, in a ledger of its own.
+
+    !! The stub does not run the contracts: a cassette recorded with it only
+    checks that the use cases send the same requests as before. Record on
+    testnet to check them against the deployed contracts. !!
+
+    Usage, on the URLs of the local network:
+    deno run -A src/infrastructure/vcr/stub-network.ts --port 8000
+    STELLAR_NETWORK=local deno task vcr record <cassette> counter
+*/
+
+import chalk from "chalk";
+import { Buffer } from "node:buffer";
+import { parseArgs } from "node:util";
+import {
+  Address,
+  hash,
+  Keypair,
+  nativeToScVal,
+  Networks,
+  type Operation,
+  scValToNative,
+  SorobanDataBuilder,
+  StrKey,
+  type Transaction,
+  TransactionBuilder,
+  xdr,
+} from "@stellar/stellar-sdk";
+import { LOGGER } from "../../utils/logger.ts";
+
+export interface StubNetworkOptions {
+  port: number;
+  networkPassphrase?: string;
+}
+
+interface StubTransaction {
+  ledger: number;
+  createdAt: number;
+  envelopeXdr: string;
+  resultXdr: string;
+  resultMetaXdr: string;
+}
+
+// Result of a contract function called on the stub
+interface Invocation {
+  returnValue: xdr.ScVal;
+  // Whether the call changes the state of the contract
+  writes: boolean;
+}
+
+// Balance of the accounts created by the stub friendbot, in stroops
+const STARTING_BALANCE = "100000000000";
+const BASE_FEE = "100";
+const MAX_U64 = 2n ** 64n - 1n;
+
+// The type definitions declare factories for the unions switched on an
+// integer, e.g. TransactionMeta[3](), but the SDK only provides their
+// constructors
+const versioned = <T>(union: unknown) =>
+  union as new (version: number, value?: unknown) => T;
+const AccountEntryExt = versioned<xdr.AccountEntryExt>(xdr.AccountEntryExt);
+const ExtensionPoint = versioned<xdr.ExtensionPoint>(xdr.ExtensionPoint);
+const SorobanTransactionMetaExt = versioned<xdr.SorobanTransactionMetaExt>(
+  xdr.SorobanTransactionMetaExt,
+);
+const TransactionMeta = versioned<xdr.TransactionMeta>(xdr.TransactionMeta);
+const TransactionResultExt = versioned<xdr.TransactionResultExt>(
+  xdr.TransactionResultExt,
+);
+
+// Errors are returned in the same format as Horizon and friendbot
+const problem = (status: number, title: string, detail: string) =>
+  Response.json({ status, title, detail }, { status });
+
+// The ledger key of the instance of a contract, which holds the storage
+// of the counter
+const instanceKey = (contractId: string) =>
+  xdr.LedgerKey.contractData(
+    new xdr.LedgerKeyContractData({
+      contract: Address.fromString(contractId).toScAddress(),
+      key: xdr.ScVal.scvLedgerKeyContractInstance(),
+      durability: xdr.ContractDataDurability.persistent(),
+    }),
+  );
+
+function accountEntry(accountId: string, sequence: bigint) {
+  return xdr.LedgerEntryData.account(
+    new xdr.AccountEntry({
+      accountId: Keypair.fromPublicKey(accountId).xdrAccountId(),
+      balance: xdr.Int64.fromString(STARTING_BALANCE),
+      seqNum: xdr.Int64.fromString(sequence.toString()),
+      numSubEntries: 0,
+      inflationDest: null,
+      flags: 0,
+      homeDomain: "",
+      thresholds: Buffer.from([1, 0, 0, 0]),
+      signers: [],
+      ext: new AccountEntryExt(0),
+    }),
+  );
+}
+
+function transactionResult(
+  fee: string,
+  result: xdr.TransactionResultResult,
+): xdr.TransactionResult {
+  return new xdr.TransactionResult({
+    feeCharged: xdr.Int64.fromString(fee),
+    result,
+    ext: new TransactionResultExt(0),
+  });
+}
+
+// This function starts the stub network server.
+export function startStubNetwork(
+  options: StubNetworkOptions,
+): Deno.HttpServer<Deno.NetAddr> {
+  const networkPassphrase = options.networkPassphrase ?? Networks.STANDALONE;
+  // Sequence numbers of the accounts, by account ID
+  const accounts = new Map<string, bigint>();
+  // Values of the counters, by contract ID
+  const counters = new Map<string, bigint>();
+  const transactions = new Map<string, StubTransaction>();
+  let ledger = 1;
+
+  const closeTime = () => Math.floor(Date.now() / 1000);
+  const latestLedger = () => ({
+    latestLedger: ledger,
+    latestLedgerCloseTime: String(closeTime()),
+  });
+
+  function invoke(
+    contractId: string,
+    name: string,
+    args: xdr.ScVal[],
+    apply: boolean,
+  ): Invocation {
+    const count = counters.get(contractId) ?? 0n;
+    const amount = () => BigInt(scValToNative(args[0]));
+    let value: bigint;
+    switch (name) {
+      case "count":
+        return {
+          returnValue: nativeToScVal(count, { type: "u64" }),
+          writes: false,
+        };
+      case "add":
+        value = count + amount() > MAX_U64 ? MAX_U64 : count + amount();
+        break;
+      case "subtract":
+        value = count < amount() ? 0n : count - amount();
+        break;
+      case "default":
+      case "custom":
+        return { returnValue: xdr.ScVal.scvVoid(), writes: true };
+      default:
+        throw new Error(`The stub contracts have no function '${name}'.`);
+    }
+    if (apply) {
+      counters.set(contractId, value);
+    }
+    return { returnValue: nativeToScVal(value, { type: "u64" }), writes: true };
+  }
+
+  // This function calls the contract function of a transaction.
+  function invokeTransaction(transaction: Transaction, apply: boolean) {
+    const [operation] = transaction.operations;
+    if (operation?.type !== "invokeHostFunction") {
+      throw new Error("Only contract calls are supported by the stub.");
+    }
+    const call = (operation as Operation.InvokeHostFunction).func
+      .invokeContract();
+    const contractId = Address.fromScAddress(call.contractAddress())
+      .toString();
+    return {
+      contractId,
+      ...invoke(contractId, call.functionName().toString(), call.args(), apply),
+    };
+  }
+
+  function getLedgerEntries({ keys }: { keys: string[] }) {
+    const entries = keys.flatMap((key) => {
+      const ledgerKey = xdr.LedgerKey.fromXDR(key, "base64");
+      if (ledgerKey.switch() !== xdr.LedgerEntryType.account()) {
+        return [];
+      }
+      const accountId = StrKey.encodeEd25519PublicKey(
+        ledgerKey.account().accountId().ed25519(),
+      );
+      const sequence = accounts.get(accountId);
+      return sequence === undefined ? [] : [{
+        key,
+        xdr: accountEntry(accountId, sequence).toXDR("base64"),
+        lastModifiedLedgerSeq: ledger,
+      }];
+    });
+    return { entries, latestLedger: ledger };
+  }
+
+  function simulateTransaction({ transaction }: { transaction: string }) {
+    try {
+      const { contractId, returnValue, writes } = invokeTransaction(
+        TransactionBuilder.fromXDR(
+          transaction,
+          networkPassphrase,
+        ) as Transaction,
+        false,
+      );
+      const footprint = [instanceKey(contractId)];
+      const transactionData = new SorobanDataBuilder()
+        .setResources(1_000_000, 1_000, writes ? 1_000 : 0)
+        .setResourceFee(BASE_FEE)
+        .setFootprint(writes ? [] : footprint, writes ? footprint : [])
+        .build();
+      return {
+        ...latestLedger(),
+        minResourceFee: BASE_FEE,
+        transactionData: transactionData.toXDR("base64"),
+        results: [{ auth: [], xdr: returnValue.toXDR("base64") }],
+        events: [],
+      };
+    } catch (e) {
+      return { ...latestLedger(), error: (e as Error).message };
+    }
+  }
+
+  function sendTransaction({ transaction }: { transaction: string }) {
+    const envelope = TransactionBuilder.fromXDR(
+      transaction,
+      networkPassphrase,
+    ) as Transaction;
+    const transactionHash = envelope.hash();
+    const rejected = (result: xdr.TransactionResultResult) => ({
+      ...latestLedger(),
+      status: "ERROR",
+      hash: transactionHash.toString("hex"),
+      errorResultXdr: transactionResult(envelope.fee, result).toXDR("base64"),
+    });
+
+    const sequence = accounts.get(envelope.source);
+    if (sequence === undefined) {
+      return rejected(xdr.TransactionResultResult.txNoAccount());
+    }
+    if (BigInt(envelope.sequence) !== sequence + 1n) {
+      return rejected(xdr.TransactionResultResult.txBadSeq());
+    }
+    const source = Keypair.fromPublicKey(envelope.source);
+    if (
+      !envelope.signatures.some((signature) =>
+        source.verify(transactionHash, signature.signature())
+      )
+    ) {
+      return rejected(xdr.TransactionResultResult.txBadAuth());
+    }
+
+    const { returnValue } = invokeTransaction(envelope, true);
+    accounts.set(envelope.source, sequence + 1n);
+    ledger++;
+    const operationResult = xdr.OperationResult.opInner(
+      xdr.OperationResultTr.invokeHostFunction(
+        xdr.InvokeHostFunctionResult.invokeHostFunctionSuccess(
+          hash(returnValue.toXDR()),
+        ),
+      ),
+    );
+    const meta = new TransactionMeta(
+      3,
+      new xdr.TransactionMetaV3({
+        ext: new ExtensionPoint(0),
+        txChangesBefore: [],
+        operations: [new xdr.OperationMeta({ changes: [] })],
+        txChangesAfter: [],
+        sorobanMeta: new xdr.SorobanTransactionMeta({
+          ext: new SorobanTransactionMetaExt(0),
+          events: [],
+          returnValue,
+          diagnosticEvents: [],
+        }),
+      }),
+    );
+    transactions.set(transactionHash.toString("hex"), {
+      ledger,
+      createdAt: closeTime(),
+      envelopeXdr: transaction,
+      resultXdr: transactionResult(
+        envelope.fee,
+        xdr.TransactionResultResult.txSuccess([operationResult]),
+      ).toXDR("base64"),
+      resultMetaXdr: meta.toXDR("base64"),
+    });
+    return {
+      ...latestLedger(),
+      status: "PENDING",
+      hash: transactionHash.toString("hex"),
+    };
+  }
+
+  function getTransaction({ hash }: { hash: string }) {
+    const transaction = transactions.get(hash);
+    if (!transaction) {
+      return { ...latestLedger(), status: "NOT_FOUND" };
+    }
+    return {
+      ...latestLedger(),
+      oldestLedger: 1,
+      oldestLedgerCloseTime: String(transaction.createdAt),
+      status: "SUCCESS",
+      applicationOrder: 1,
+      feeBump: false,
+      ...transaction,
+      createdAt: String(transaction.createdAt),
+    };
+  }
+
+  const RPC_METHODS: Record<string, (params: never) => unknown> = {
+    getLedgerEntries,
+    simulateTransaction,
+    sendTransaction,
+    getTransaction,
+  };
+
+  function friendbot(address: string | null) {
+    if (!address || !StrKey.isValidEd25519PublicKey(address)) {
+      return problem(
+        400,
+        "Bad Request",
+        "The 'addr' parameter must be a valid public key (G...).",
+      );
+    }
+    if (accounts.has(address)) {
+      return problem(400, "Bad Request", "The account already exists.");
+    }
+    ledger++;
+    accounts.set(address, BigInt(ledger) << 32n);
+    return Response.json({
+      successful: true,
+      hash: hash(Buffer.from(address)).toString("hex"),
+      ledger,
+    });
+  }
+
+  function feeStats() {
+    const fees = Object.fromEntries(
+      ["max", "min", "mode", "p10", "p20", "p30", "p40", "p50", "p60", "p70"]
+        .concat(["p80", "p90", "p95", "p99"])
+        .map((name) => [name, BASE_FEE]),
+    );
+    return Response.json({
+      last_ledger: String(ledger),
+      last_ledger_base_fee: BASE_FEE,
+      ledger_capacity_usage: "0.00",
+      fee_charged: fees,
+      max_fee: fees,
+    });
+  }
+
+  return Deno.serve({
+    port: options.port,
+    onListen: () => {},
+  }, async (request) => {
+    const url = new URL(request.url);
+    if (request.method === "GET" && url.pathname === "/friendbot") {
+      return friendbot(url.searchParams.get("addr"));
+    }
+    if (request.method === "GET" && url.pathname === "/fee_stats") {
+      return feeStats();
+    }
+    if (request.method !== "POST" || url.pathname !== "/rpc") {
+      return problem(
+        404,
+        "Resource Missing",
+        `${url.pathname} is not stubbed.`,
+      );
+    }
+
+    const { id, method, params } = await request.json();
+    if (!RPC_METHODS[method]) {
+      return Response.json({
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32601, message: `method '${method}' not found` },
+      });
+    }
+    return Response.json({
+      jsonrpc: "2.0",
+      id,
+      result: RPC_METHODS[method](params as never),
+    });
+  });
+}
+
+if (import.meta.main) {
+  const { values } = parseArgs({
+    args: Deno.args,
+    options: {
+      port: { type: "string", default: "8000" },
+    },
+  });
+
+  startStubNetwork({ port: Number(values.port) });
+  LOGGER.info(
+    `Stub network listening on ${
+      chalk.blue(`http://localhost:${values.port}`)
+    }`,
+  );
+}
@@ -0,0 +1,20 @@
+import assert from "node:assert/strict";
+import { createSimulatorContext } from "../infrastructure/simulator/simulated-horizon.ts";
+import { runScenarioFile } from "./scenario-runner.ts";
+
+const example = (name: string) =>
+  new URL(`./examples/${name}`, import.meta.url).pathname;
+
+for (const name of ["asset-controls.yaml", "multisig.json"]) {
+  Deno.test(`the ${name} scenario passes on the simulator`, async () => {
+    const report = await runScenarioFile(
+      example(name),
+      createSimulatorContext(),
+    );
+    assert.deepEqual(
+      report.steps.filter((step) => step.status !== "passed"),
+      [],
+    );
+    assert.ok(report.passed);
+  });
+}
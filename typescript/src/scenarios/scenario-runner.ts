@@ -0,0 +1,441 @@
+/*
+    This script runs a scenario file (see scenario.ts) and prints a pass/fail
+    report of its steps.
+
+    The runner:
+    1. Creates the accounts of the scenario: new keypairs, funded with
+       friendbot when requested, or identities of the keystore.
+    2. Executes the steps in order with the functions of the use cases,
+       e.g. the payment action calls makePayment.
+    3. Compares the outcome of each step with its expectation. A step
+       expected to fail passes only if it fails, with the expected result
+       code when one is given (e.g. op_not_authorized).
+
+    Since each step usually depends on the previous ones, the remaining
+    steps are skipped after the first step that does not pass.
+
+    Usage:
+    deno task scenario 'src/scenarios/examples/asset-controls.yaml'
+*/
+
+import chalk from "chalk";
+import { Asset, Keypair } from "@stellar/stellar-sdk";
+import { resolveIdentity } from "../infrastructure/keystore/keystore.ts";
+import { fundAccounts } from "../infrastructure/funding/funding-service.ts";
+import { StellarSubmissionError } from "../infrastructure/transaction/submission-error.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../infrastructure/context/stellar-context.ts";
+import createAccount from "../use cases/classic/account/create-account.ts";
+import createAccountWithTrustline from "../use cases/classic/account/create-account-with-trustline.ts";
+import generateKeypair from "../use cases/classic/account/generate-keypair.ts";
+import initalizeWithFriendbot from "../use cases/classic/account/initialize-with-friendbot.ts";
+import createSponsoredAccountWithTrustline from "../use cases/classic/account/sponsor-account.ts";
+import createAsset from "../use cases/classic/asset/create-asset-and-mint.ts";
+import {
+  clawback,
+  createTrustline,
+  enableControlFlags,
+  makePayment,
+  setTrustlineAuthorization,
+} from "../use cases/classic/asset/configure-flags.ts";
+import {
+  configureMultisig,
+  makeMultisigPayment,
+  removeMultisigSigner,
+} from "../use cases/classic/authorization/multisig.ts";
+import * as counter from "../use cases/soroban/counter/counter.ts";
+import * as events from "../use cases/soroban/events/events.ts";
+import { loadScenario, type Scenario, type ScenarioStep } from "./scenario.ts";
+
+export type StepStatus = "passed" | "failed" | "skipped";
+
+export interface StepReport {
+  name: string;
+  action: string;
+  status: StepStatus;
+  // Why the step failed, or the expected error of a step that passed
+  message?: string;
+  // Duration of the step, in milliseconds
+  duration: number;
+}
+
+export interface ScenarioReport {
+  name: string;
+  passed: boolean;
+  steps: StepReport[];
+}
+
+// Accounts and assets of a running scenario, by their name in the file
+interface ScenarioState {
+  accounts: Record<string, Keypair>;
+  assets: Record<string, Asset>;
+}
+
+type StepArguments = Record<string, unknown>;
+
+const text = (value: unknown) => String(value);
+
+// Each action calls the use case with the accounts and assets of the step,
+// in the context the scenario runs in. Contract calls return the value
+// compared with expect.value.
+const ACTIONS: Record<
+  string,
+  (
+    step: StepArguments,
+    state: ScenarioState,
+    context: StellarContext,
+  ) => Promise<unknown>
+> = {
+  fundAccount: (step, { accounts }, context) =>
+    initalizeWithFriendbot(accounts[text(step.account)].publicKey(), context),
+  createAccount: (step, { accounts }, context) =>
+    createAccount(
+      accounts[text(step.admin)],
+      accounts[text(step.account)].publicKey(),
+      step.balance === undefined ? undefined : text(step.balance),
+      context,
+    ),
+  // The new account trusts an asset of the admin, so the issuer pays
+  createAccountWithTrustline: (step, { accounts, assets }, context) => {
+    const asset = assets[text(step.asset)];
+    return createAccountWithTrustline(
+      issuerOf(asset, accounts),
+      accounts[text(step.account)],
+      asset.getCode(),
+      context,
+    );
+  },
+  sponsorAccount: (step, { accounts, assets }, context) => {
+    const asset = assets[text(step.asset)];
+    return createSponsoredAccountWithTrustline(
+      issuerOf(asset, accounts),
+      accounts[text(step.account)],
+      asset.getCode(),
+      context,
+    );
+  },
+  issueAsset: (step, { accounts, assets }, context) => {
+    const asset = assets[text(step.asset)];
+    return createAsset(
+      issuerOf(asset, accounts),
+      accounts[text(step.distribution)],
+      asset.getCode(),
+      step.amount === undefined ? undefined : text(step.amount),
+      context,
+    );
+  },
+  enableFlags: (step, { accounts }, context) =>
+    enableControlFlags(accounts[text(step.issuer)], context),
+  createTrustline: (step, { accounts, assets }, context) =>
+    createTrustline(
+      accounts[text(step.account)],
+      assets[text(step.asset)],
+      context,
+    ),
+  authorizeTrustline: (step, state, context) =>
+    setAuthorization(step, state, true, context),
+  deauthorizeTrustline: (step, state, context) =>
+    setAuthorization(step, state, false, context),
+  payment: (step, { accounts, assets }, context) =>
+    makePayment(
+      accounts[text(step.from)],
+      accounts[text(step.to)].publicKey(),
+      step.asset === undefined || step.asset === "native"
+        ? Asset.native()
+        : assets[text(step.asset)],
+      text(step.amount),
+      context,
+    ),
+  clawback: (step, { accounts, assets }, context) => {
+    const asset = assets[text(step.asset)];
+    return clawback(
+      issuerOf(asset, accounts),
+      accounts[text(step.from)].publicKey(),
+      asset,
+      text(step.amount),
+      context,
+    );
+  },
+  configureMultisig: (step, { accounts }, context) => {
+    const signers = (step.signers as string[]).map((name) => accounts[name]);
+    if (signers.length !== 2) {
+      throw new Error(`Expected 2 signers, received ${signers.length}.`);
+    }
+    return configureMultisig(
+      accounts[text(step.account)],
+      signers[0],
+      signers[1],
+      context,
+    );
+  },
+  multisigPayment: (step, { accounts }, context) =>
+    makeMultisigPayment(
+      accounts[text(step.account)],
+      accounts[text(step.to)].publicKey(),
+      text(step.amount),
+      (step.signers as string[]).map((name) => accounts[name]),
+      context,
+    ),
+  removeSigner: (step, { accounts }, context) =>
+    removeMultisigSigner(
+      accounts[text(step.account)],
+      accounts[text(step.signer)].publicKey(),
+      (step.signers as string[]).map((name) => accounts[name]),
+      context,
+    ),
+  contractCall: async (step, { accounts }, context) => {
+    const admin = accounts[text(step.admin)];
+    const contractId = step.contractId === undefined
+      ? undefined
+      : text(step.contractId);
+
+    if (step.contract === "events") {
+      const client = await events.createContractClient(
+        admin,
+        contractId,
+        context,
+      );
+      if (step.message === undefined) {
+        return await events.emitDefaultEvent(client, context);
+      }
+      return await events.emitCustomEvent(
+        client,
+        text(step.message),
+        context,
+      );
+    }
+
+    const client = await counter.createContractClient(
+      admin,
+      contractId,
+      context,
+    );
+    const amount = BigInt(text(step.amount ?? 0));
+    switch (step.method) {
+      case "add":
+        return await counter.incrementCounter(client, amount, context);
+      case "subtract":
+        return await counter.decrementCounter(client, amount, context);
+      default:
+        return await counter.readCounter(client, context);
+    }
+  },
+};
+
+function issuerOf(asset: Asset, accounts: Record<string, Keypair>): Keypair {
+  // The issuer is always one of the accounts, as checked when loading
+  return Object.values(accounts).find((account) =>
+    account.publicKey() === asset.getIssuer()
+  )!;
+}
+
+function setAuthorization(
+  step: StepArguments,
+  { accounts, assets }: ScenarioState,
+  authorize: boolean,
+  context: StellarContext,
+) {
+  const asset = assets[text(step.asset)];
+  return setTrustlineAuthorization(
+    issuerOf(asset, accounts),
+    accounts[text(step.account)].publicKey(),
+    asset,
+    authorize,
+    context,
+  );
+}
+
+// This function creates the accounts and assets of the scenario.
+async function prepareScenario(
+  scenario: Scenario,
+  context: StellarContext,
+): Promise<ScenarioState> {
+  const accounts: Record<string, Keypair> = {};
+  for (const [name, account] of Object.entries(scenario.accounts)) {
+    context.logger.info(chalk.bgCyan(`Preparing account: ${name}`));
+    accounts[name] = account.identity
+      ? await resolveIdentity(account.identity)
+      : await generateKeypair();
+  }
+
+  // The accounts are funded at the same time, up to the concurrency
+  // of the funding policy
+  const funded = Object.entries(scenario.accounts)
+    .filter(([, account]) => account.fund)
+    .map(([name]) => accounts[name].publicKey());
+  if (funded.length) {
+    await fundAccounts(funded, context.fundingPolicy, context);
+  }
+
+  const assets = Object.fromEntries(
+    Object.entries(scenario.assets ?? {}).map(([name, asset]) => [
+      name,
+      new Asset(asset.code ?? name, accounts[asset.issuer].publicKey()),
+    ]),
+  );
+
+  return { accounts, assets };
+}
+
+// This function compares the outcome of a step with its expectation and
+// returns why the step failed, if it did.
+function checkOutcome(
+  step: ScenarioStep,
+  result: unknown,
+  error: unknown,
+): { passed: boolean; message?: string } {
+  const expectedFailure = step.expect?.failure;
+
+  if (error === undefined) {
+    if (expectedFailure) {
+      return {
+        passed: false,
+        message: `Unexpected success: expected ${
+          expectedFailure === true ? "a failure" : expectedFailure
+        }.`,
+      };
+    }
+    const expectedValue = step.expect?.value;
+    if (
+      expectedValue !== undefined && String(result) !== String(expectedValue)
+    ) {
+      return {
+        passed: false,
+        message: `Expected the value ${expectedValue}, received ${result}.`,
+      };
+    }
+    return { passed: true };
+  }
+
+  const message = (error as Error).message ?? String(error);
+  if (!expectedFailure) {
+    return { passed: false, message };
+  }
+  if (expectedFailure === true) {
+    return { passed: true, message };
+  }
+
+  // The code is looked up in the result codes of rejected transactions,
+  // and in the message of other errors, e.g. the simulation of a contract
+  const codes = error instanceof StellarSubmissionError
+    ? [error.transactionCode, ...error.operationCodes]
+    : [];
+  if (codes.includes(expectedFailure) || message.includes(expectedFailure)) {
+    return { passed: true, message };
+  }
+  return {
+    passed: false,
+    message: `Expected ${expectedFailure}, received: ${message}`,
+  };
+}
+
+// This function logs the report of a scenario.
+export function logScenarioReport(
+  report: ScenarioReport,
+  context: StellarContext = defaultContext(),
+) {
+  const symbols: Record<StepStatus, string> = {
+    passed: chalk.green("✔"),
+    failed: chalk.red("✘"),
+    skipped: chalk.gray("-"),
+  };
+
+  context.logger.info("");
+  context.logger.info(chalk.bold(`Scenario: ${report.name}`));
+  report.steps.forEach((step, index) => {
+    context.logger.info(
+      `${symbols[step.status]} ${index + 1}. ${step.name} ${
+        chalk.gray(`(${(step.duration / 1000).toFixed(1)}s)`)
+      }`,
+      { step: index + 1, action: step.action, status: step.status },
+    );
+    if (step.message) {
+      const details = `     ${step.message}`;
+      if (step.status === "failed") {
+        context.logger.error(chalk.red(details));
+      } else {
+        context.logger.info(chalk.gray(details));
+      }
+    }
+  });
+
+  const count = (status: StepStatus) =>
+    report.steps.filter((step) => step.status === status).length;
+  const summary = `${count("passed")} passed, ${count("failed")} failed, ${
+    count("skipped")
+  } skipped`;
+  if (report.passed) {
+    context.logger.info(chalk.green(`PASSED: ${summary}`), { passed: true });
+  } else {
+    context.logger.error(chalk.red(`FAILED: ${summary}`), { passed: false });
+  }
+}
+
+// Args:
+// - scenario: The scenario to run
+// - context: The context the accounts are created and the steps are run
+//   in, e.g. createSimulatorContext() to run the scenario offline
+export default async function runScenario(
+  scenario: Scenario,
+  context: StellarContext = defaultContext(),
+): Promise<ScenarioReport> {
+  context.logger.info(chalk.bgCyan(`Running scenario: ${scenario.name}`));
+  if (scenario.description) {
+    context.logger.info(scenario.description);
+  }
+
+  const state = await prepareScenario(scenario, context);
+  const steps: StepReport[] = [];
+  let failed = false;
+
+  for (const step of scenario.steps) {
+    const name = step.name ?? step.action;
+    if (failed) {
+      steps.push({ name, action: step.action, status: "skipped", duration: 0 });
+      continue;
+    }
+
+    context.logger.info("");
+    context.logger.info(chalk.bgCyan(name));
+    const start = Date.now();
+    let result: unknown;
+    let error: unknown;
+    try {
+      result = await ACTIONS[step.action](step, state, context);
+    } catch (e) {
+      error = e;
+    }
+
+    const outcome = checkOutcome(step, result, error);
+    failed = !outcome.passed;
+    steps.push({
+      name,
+      action: step.action,
+      status: outcome.passed ? "passed" : "failed",
+      message: outcome.message,
+      duration: Date.now() - start,
+    });
+  }
+
+  const report = { name: scenario.name, passed: !failed, steps };
+  logScenarioReport(report, context);
+  return report;
+}
+
+// This function loads and runs a scenario file.
+export async function runScenarioFile(
+  path: string,
+  context: StellarContext = defaultContext(),
+): Promise<ScenarioReport> {
+  return await runScenario(await loadScenario(path), context);
+}
+
+if (import.meta.main) {
+  if (!Deno.args[0]) {
+    throw new Error("Usage: deno task scenario <scenario.yaml|scenario.json>");
+  }
+  const report = await runScenarioFile(Deno.args[0]);
+  Deno.exit(report.passed ? 0 : 1);
+}
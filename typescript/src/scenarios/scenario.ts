@@ -0,0 +1,268 @@
+/*
+    This script defines the format of the scenarios and loads them from
+    JSON or YAML files.
+
+    A scenario describes a multi-step flow, such as the demonstrations of
+    the use cases, without writing code:
+    - accounts: The accounts used by the steps, generated or loaded from
+      the keystore.
+    - assets: The assets used by the steps, each issued by one of the
+      accounts.
+    - steps: The actions executed in order, and their expected outcome.
+
+    e.g.
+
+    name: Freeze a trustline
+    accounts:
+      issuer: { fund: true }
+      alice: {}
+    assets:
+      CTRL: { issuer: issuer }
+    steps:
+      - action: enableFlags
+        issuer: issuer
+      - action: createAccountWithTrustline
+        account: alice
+        asset: CTRL
+      - name: Payments require authorization
+        action: payment
+        from: issuer
+        to: alice
+        asset: CTRL
+        amount: "10"
+        expect:
+          failure: op_not_authorized
+
+    The references between accounts, assets and steps are checked when the
+    scenario is loaded, so mistakes are reported before anything is
+    submitted to the network.
+*/
+
+import { parse as parseYaml } from "yaml";
+import { extname } from "node:path";
+
+export interface ScenarioAccount {
+  // Keystore or Stellar CLI identity to use instead of a new keypair
+  identity?: string;
+  // Fund the new account with friendbot or the funder account
+  fund?: boolean;
+}
+
+export interface ScenarioAsset {
+  // Code of the asset, defaults to its name in the scenario
+  code?: string;
+  // Name of the issuer account
+  issuer: string;
+}
+
+export interface StepExpectation {
+  // The step must fail. Either true for any failure, or the result code
+  // expected in the failure, e.g. tx_bad_auth or op_not_authorized
+  failure?: boolean | string;
+  // Value returned by a contract call
+  value?: string | number | boolean;
+}
+
+export interface ScenarioStep {
+  // Description of the step in the report, defaults to the action
+  name?: string;
+  action: string;
+  expect?: StepExpectation;
+  // Arguments of the action
+  [argument: string]: unknown;
+}
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  accounts: Record<string, ScenarioAccount>;
+  assets?: Record<string, ScenarioAsset>;
+  steps: ScenarioStep[];
+}
+
+// Arguments of each action, and whether they refer to an account or an
+// asset of the scenario. Optional arguments end with "?".
+export type ArgumentKind = "account" | "accounts" | "asset" | "value";
+
+export const ACTION_ARGUMENTS: Record<string, Record<string, ArgumentKind>> = {
+  fundAccount: { account: "account" },
+  createAccount: { admin: "account", account: "account", "balance?": "value" },
+  createAccountWithTrustline: { account: "account", asset: "asset" },
+  sponsorAccount: { account: "account", asset: "asset" },
+  issueAsset: { asset: "asset", distribution: "account", "amount?": "value" },
+  enableFlags: { issuer: "account" },
+  createTrustline: { account: "account", asset: "asset" },
+  authorizeTrustline: { account: "account", asset: "asset" },
+  deauthorizeTrustline: { account: "account", asset: "asset" },
+  payment: {
+    from: "account",
+    to: "account",
+    "asset?": "asset",
+    amount: "value",
+  },
+  clawback: { asset: "asset", from: "account", amount: "value" },
+  configureMultisig: { account: "account", signers: "accounts" },
+  multisigPayment: {
+    account: "account",
+    to: "account",
+    amount: "value",
+    signers: "accounts",
+  },
+  removeSigner: { account: "account", signer: "account", signers: "accounts" },
+  contractCall: {
+    contract: "value",
+    method: "value",
+    admin: "account",
+    "contractId?": "value",
+    "amount?": "value",
+    "message?": "value",
+  },
+};
+
+// Methods of the contracts that can be called by the contractCall action
+export const CONTRACT_METHODS: Record<string, string[]> = {
+  counter: ["read", "add", "subtract"],
+  events: ["emit"],
+};
+
+// Error thrown when a scenario file is invalid
+export class ScenarioError extends Error {
+  constructor(message: string, readonly path: string) {
+    super(`${path}: ${message}`);
+    this.name = "ScenarioError";
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// This function checks the structure of a scenario and the references
+// between its accounts, assets and steps.
+export function validateScenario(data: unknown): Scenario {
+  if (!isObject(data)) {
+    throw new ScenarioError("The scenario must be an object.", "scenario");
+  }
+  if (typeof data.name !== "string") {
+    throw new ScenarioError("Missing the name of the scenario.", "name");
+  }
+  if (!isObject(data.accounts)) {
+    throw new ScenarioError(
+      "Missing the accounts of the scenario.",
+      "accounts",
+    );
+  }
+  if (!Array.isArray(data.steps) || !data.steps.length) {
+    throw new ScenarioError("Missing the steps of the scenario.", "steps");
+  }
+
+  const accounts = Object.keys(data.accounts);
+  for (const [name, account] of Object.entries(data.accounts)) {
+    // An empty account (alice: or alice: {}) is a new keypair
+    if (account !== null && !isObject(account)) {
+      throw new ScenarioError(
+        "An account must be an object.",
+        `accounts.${name}`,
+      );
+    }
+    data.accounts[name] = account ?? {};
+  }
+
+  const assets = isObject(data.assets) ? data.assets : {};
+  for (const [name, asset] of Object.entries(assets)) {
+    if (!isObject(asset) || !accounts.includes(asset.issuer as string)) {
+      throw new ScenarioError(
+        `The issuer must be one of the accounts: ${accounts.join(", ")}.`,
+        `assets.${name}.issuer`,
+      );
+    }
+  }
+
+  data.steps.forEach((step: unknown, index: number) => {
+    const path = `steps[${index}]`;
+    if (!isObject(step) || typeof step.action !== "string") {
+      throw new ScenarioError("A step must have an action.", path);
+    }
+    const expected = ACTION_ARGUMENTS[step.action];
+    if (!expected) {
+      throw new ScenarioError(
+        `Unknown action '${step.action}'. Use one of: ${
+          Object.keys(ACTION_ARGUMENTS).join(", ")
+        }.`,
+        `${path}.action`,
+      );
+    }
+
+    for (const [argument, kind] of Object.entries(expected)) {
+      const name = argument.replace(/\?$/, "");
+      const value = step[name];
+      if (value === undefined) {
+        if (!argument.endsWith("?")) {
+          throw new ScenarioError(
+            `Missing the argument of '${step.action}'.`,
+            `${path}.${name}`,
+          );
+        }
+        continue;
+      }
+
+      const references = kind === "account" || kind === "accounts"
+        ? accounts
+        : kind === "asset"
+        // Only payments can use XLM, the other actions need an issuer
+        ? [
+          ...(step.action === "payment" ? ["native"] : []),
+          ...Object.keys(assets),
+        ]
+        : undefined;
+      const values = kind === "accounts" ? value : [value];
+      if (!Array.isArray(values)) {
+        throw new ScenarioError(
+          "Expected a list of accounts.",
+          `${path}.${name}`,
+        );
+      }
+      for (const reference of values) {
+        if (references && !references.includes(reference as string)) {
+          throw new ScenarioError(
+            `Unknown ${kind.replace(/s$/, "")} '${reference}'.`,
+            `${path}.${name}`,
+          );
+        }
+      }
+    }
+
+    if (step.action === "contractCall") {
+      const methods = CONTRACT_METHODS[step.contract as string];
+      if (!methods) {
+        throw new ScenarioError(
+          `Unknown contract '${step.contract}'. Use one of: ${
+            Object.keys(CONTRACT_METHODS).join(", ")
+          }.`,
+          `${path}.contract`,
+        );
+      }
+      if (!methods.includes(step.method as string)) {
+        throw new ScenarioError(
+          `Unknown method '${step.method}'. Use one of: ${methods.join(", ")}.`,
+          `${path}.method`,
+        );
+      }
+    }
+  });
+
+  return { ...data, assets } as unknown as Scenario;
+}
+
+// This function loads a scenario from a .json, .yaml or .yml file.
+export async function loadScenario(path: string): Promise<Scenario> {
+  const text = await Deno.readTextFile(path);
+  const extension = extname(path).toLowerCase();
+
+  let data: unknown;
+  try {
+    data = extension === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (e) {
+    throw new ScenarioError((e as Error).message, path);
+  }
+  return validateScenario(data);
+}
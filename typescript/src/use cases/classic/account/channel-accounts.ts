@@ -0,0 +1,118 @@
+/*
+    This script creates the channel accounts of an admin account, so its
+    operations can be submitted in parallel through a channel pool (see
+    channel-pool.ts).
+
+    The channels are created and funded by the admin account in as few
+    transactions as possible (see provision-accounts.ts). Each channel
+    holds a few XLM, which pays the fees of the transactions submitted
+    through it.
+*/
+
+import chalk from "chalk";
+import { Asset, type Keypair, Operation } from "@stellar/stellar-sdk";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
+import { ChannelPool } from "../../../infrastructure/transaction/channel-pool.ts";
+import { StellarSubmissionError } from "../../../infrastructure/transaction/submission-error.ts";
+import { LOGGER } from "../../../utils/logger.ts";
+import { logHashLink } from "../../../utils/logHashLink.ts";
+import generateKeypair from "./generate-keypair.ts";
+import initalizeWithFriendbot from "./initialize-with-friendbot.ts";
+import provisionAccounts from "./provision-accounts.ts";
+
+// This function creates channel accounts funded by the admin account and
+// returns a pool of them.
+//
+// Args:
+// - adminKeypair: The account funding the channels, and the source of the
+//   operations submitted through them
+// - count: The number of channels, i.e. of parallel submissions
+// - startingBalance: The XLM of each channel, which pays the fees of its
+//   transactions
+export default async function createChannelPool(
+  adminKeypair: Keypair,
+  count: number,
+  startingBalance = "5",
+  context: StellarContext = defaultContext(),
+): Promise<ChannelPool> {
+  context.logger.info(
+    `Creating ${count} channel accounts for ${
+      chalk.blue(adminKeypair.publicKey())
+    }...`,
+  );
+  const { accounts } = await provisionAccounts(
+    adminKeypair,
+    count,
+    { startingBalance },
+    context,
+  );
+  const channels = accounts.filter((account) => account.created).map((
+    account,
+  ) => account.keypair!);
+
+  return new ChannelPool(adminKeypair, channels, context);
+}
+
+// e.g. deno task channels 5 20
+// Sends payments from an admin account through a pool of channels, one of
+// them to an account that does not exist, which fails without blocking
+// its channel.
+if (import.meta.main) {
+  const channelCount = Number(Deno.args[0] ?? "5");
+  const paymentCount = Number(Deno.args[1] ?? "20");
+
+  LOGGER.info(chalk.bgCyan`Creating and initializing admin account...`);
+  const adminKeypair = await generateKeypair();
+  await initalizeWithFriendbot(adminKeypair.publicKey());
+  const destinationKeypair = await generateKeypair();
+  await initalizeWithFriendbot(destinationKeypair.publicKey());
+
+  const pool = await createChannelPool(adminKeypair, channelCount);
+  const missingKeypair = await generateKeypair();
+
+  LOGGER.info(
+    chalk.bgCyan(
+      `Sending ${paymentCount} payments through ${pool.channels.length} channels...`,
+    ),
+  );
+  const start = Date.now();
+  const results = await Promise.allSettled(
+    Array.from({ length: paymentCount }, (_, index) =>
+      pool.submit({
+        operations: [
+          Operation.payment({
+            destination: index === 0
+              ? missingKeypair.publicKey()
+              : destinationKeypair.publicKey(),
+            asset: Asset.native(),
+            amount: "1",
+          }),
+        ],
+      })),
+  );
+
+  for (const result of results) {
+    if (result.status === "fulfilled") {
+      LOGGER.info(
+        `Ledger ${result.value.ledger} through ${
+          chalk.blue(result.value.channel)
+        }`,
+      );
+      logHashLink(result.value.hash);
+    } else if (result.reason instanceof StellarSubmissionError) {
+      LOGGER.warn(chalk.red(`Expected error: ${result.reason.message}`));
+    } else {
+      throw result.reason;
+    }
+  }
+  LOGGER.info(
+    chalk.green(
+      `Submitted ${paymentCount} transactions in ${
+        ((Date.now() - start) / 1000).toFixed(1)
+      }s.`,
+    ),
+  );
+}
@@ -14,35 +14,47 @@
 */
 
 import chalk from "chalk";
-import {
-  Asset,
-  Keypair,
-  Networks,
-  Operation,
-  TransactionBuilder,
-} from "@stellar/stellar-sdk";
+import { Asset, Keypair, Operation } from "@stellar/stellar-sdk";
 import generateKeypair from "./generate-keypair.ts";
 import initalizeWithFriendbot from "./initialize-with-friendbot.ts";
-import { HORIZON } from "../../../infrastructure/horizon/get-horizon-server.ts";
+import {
+  submitTransaction,
+  type TransactionPipelineResult,
+} from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
 import { logHashLink } from "../../../utils/logHashLink.ts";
+import { logExplorerLink } from "../../../utils/explorerLinks.ts";
+import { LOGGER } from "../../../utils/logger.ts";
+
+export interface CreateAccountWithTrustlineResult
+  extends TransactionPipelineResult {
+  // Public key of the account created by the transaction
+  accountId: string;
+  // Asset trusted by the new account in the CODE:ISSUER format
+  asset: string;
+}
 
 export default async function createAccountWithTrustline(
   adminKeypair: Keypair,
   newAccountKeypair: Keypair,
   assetSymbol: string,
-) {
-  console.log(``);
-  console.log(
+  context: StellarContext = defaultContext(),
+): Promise<CreateAccountWithTrustlineResult> {
+  context.logger.info(``);
+  context.logger.info(
     `Admin account ${
       chalk.blue(adminKeypair.publicKey())
     } will execute a create_account transaction.`,
   );
-  console.log(
+  context.logger.info(
     `The account ${
       chalk.green(newAccountKeypair.publicKey())
     } will be initialized with ${chalk.blue("2XLM")} and..`,
   );
-  console.log(
+  context.logger.info(
     `execute a change_trust operation to create a trustline for the ${
       chalk.blue(assetSymbol)
     } asset.`,
@@ -58,63 +70,62 @@ export default async function createAccountWithTrustline(
     source: adminKeypair.publicKey(),
   });
 
+  const asset = new Asset(assetSymbol, adminKeypair.publicKey());
+
   // Create the change_trust operation
   // asset: The asset to trust. Here we are trusting the asset issued by the admin account
   // source: The public key of the account that will be modified by getting a trustline
   const changeTrustOperation = Operation.changeTrust({
-    asset: new Asset(assetSymbol, adminKeypair.publicKey()),
+    asset,
     source: newAccountKeypair.publicKey(),
   });
 
-  // Load the admin account from the network to get
-  // the current sequence number.
-  console.log(`Loading the admin account from the network...`);
-  const loadedAdminAccount = await HORIZON.loadAccount(
-    adminKeypair.publicKey(),
+  // Build the transaction with the operations in order and sign it with
+  // both the admin account and the new account, since the change_trust
+  // operation modifies the new account. Then submit it to the network
+  // through Horizon.
+  context.logger.info(`Submitting transaction...`);
+  const transactionResult = await submitTransaction({
+    source: adminKeypair.publicKey(),
+    operations: [createAccountOperation, changeTrustOperation],
+    signers: [adminKeypair, newAccountKeypair],
+  }, context);
+  context.logger.info(chalk.green(`Success!`));
+  context.logger.info(``);
+  logHashLink(transactionResult.hash, context);
+  logExplorerLink(
+    "account",
+    newAccountKeypair.publicKey(),
+    "New account",
+    context,
   );
-
-  // Build the transaction, then append the operations in order
-  // and set a timeout of 30 seconds.
-  const tx = new TransactionBuilder(loadedAdminAccount, {
-    fee: "1000",
-    networkPassphrase: Networks.TESTNET,
-  })
-    .addOperation(createAccountOperation)
-    .addOperation(changeTrustOperation)
-    .setTimeout(30)
-    .build();
-
-  // Sign the transaction with the admin account
-  tx.sign(adminKeypair);
-  // Sign the transaction with the new account
-  tx.sign(newAccountKeypair);
-
-  // Submit the transaction to the network through the Horizon server
-  console.log(`Submitting transaction...`);
-  await HORIZON.submitTransaction(tx).then((transactionResult) => {
-    console.log(chalk.green(`Success!`));
-    console.log(``);
-    logHashLink(transactionResult.hash);
-  });
-  return;
+  return {
+    ...transactionResult,
+    accountId: newAccountKeypair.publicKey(),
+    asset: asset.toString(),
+  };
 }
 
 if (import.meta.main) {
-  console.log("");
-  console.log(chalk.bgCyan`Creating and Initializing Admin account...`);
+  LOGGER.info("");
+  LOGGER.info(chalk.bgCyan`Creating and Initializing Admin account...`);
 
   const adminKeypair = await generateKeypair();
   await initalizeWithFriendbot(adminKeypair.publicKey());
 
   const assetSymbol = "TEST";
 
-  console.log("");
-  console.log(
+  LOGGER.info("");
+  LOGGER.info(
     chalk.bgCyan`Creating new account with trutline for the ${
       chalk.blue(assetSymbol)
     } asset...`,
   );
   const newAccountKeypair = await generateKeypair();
 
-  createAccountWithTrustline(adminKeypair, newAccountKeypair, assetSymbol);
+  await createAccountWithTrustline(
+    adminKeypair,
+    newAccountKeypair,
+    assetSymbol,
+  );
 }
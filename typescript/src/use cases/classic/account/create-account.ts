@@ -11,30 +11,41 @@
 */
 
 import chalk from "chalk";
-import {
-  Keypair,
-  Networks,
-  Operation,
-  TransactionBuilder,
-} from "@stellar/stellar-sdk";
+import { Keypair, Operation } from "@stellar/stellar-sdk";
 import generateKeypair from "./generate-keypair.ts";
 import initalizeWithFriendbot from "./initialize-with-friendbot.ts";
-import { HORIZON } from "../../../infrastructure/horizon/get-horizon-server.ts";
+import {
+  submitTransaction,
+  type TransactionPipelineResult,
+} from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
 import { logHashLink } from "../../../utils/logHashLink.ts";
+import { logExplorerLink } from "../../../utils/explorerLinks.ts";
+import { LOGGER } from "../../../utils/logger.ts";
+
+export interface CreateAccountResult extends TransactionPipelineResult {
+  // Public key of the account created by the transaction
+  accountId: string;
+}
 
 export default async function createAccount(
   adminKeypair: Keypair,
   newAccountPublicKey: string,
-) {
-  console.log(``);
-  console.log(
+  startingBalance = "2",
+  context: StellarContext = defaultContext(),
+): Promise<CreateAccountResult> {
+  context.logger.info(``);
+  context.logger.info(
     `Account ${
       chalk.blue(adminKeypair.publicKey())
     } will execute a create_account transaction.`,
   );
-  console.log(
+  context.logger.info(
     `The account ${chalk.green(newAccountPublicKey)} will be initialized with ${
-      chalk.blue("2XLM")
+      chalk.blue(`${startingBalance}XLM`)
     }.`,
   );
 
@@ -44,50 +55,37 @@ export default async function createAccount(
   // source: The public key of the account that will pay for the transaction and the funds
   const createAccountOperation = Operation.createAccount({
     destination: newAccountPublicKey,
-    startingBalance: "2",
+    startingBalance,
     source: adminKeypair.publicKey(),
   });
 
-  // Load the admin account from the network to get
-  // the current sequence number.
-  console.log(`Loading the admin account from the network...`);
-  const loadedAdminAccount = await HORIZON.loadAccount(
-    adminKeypair.publicKey(),
-  );
-
-  // Build the transaction, then append the create_account operation
-  // and set a timeout of 30 seconds.
-  const tx = new TransactionBuilder(loadedAdminAccount, {
-    fee: "1000",
-    networkPassphrase: Networks.TESTNET,
-  })
-    .addOperation(createAccountOperation)
-    .setTimeout(30)
-    .build();
-
-  // Sign the transaction with the admin account
-  tx.sign(adminKeypair);
-
-  // Submit the transaction to the network through the Horizon server
-  console.log(`Submitting transaction...`);
-  HORIZON.submitTransaction(tx).then((transactionResult) => {
-    console.log(chalk.green(`Success!`));
-    console.log(``);
-    logHashLink(transactionResult.hash);
-  });
-  return;
+  // Build the transaction with the create_account operation, sign it with
+  // the admin account and submit it to the network through Horizon.
+  // The transaction pipeline loads the admin account to get its current
+  // sequence number and sets a timeout of 30 seconds.
+  context.logger.info(`Submitting transaction...`);
+  const transactionResult = await submitTransaction({
+    source: adminKeypair.publicKey(),
+    operations: [createAccountOperation],
+    signers: [adminKeypair],
+  }, context);
+  context.logger.info(chalk.green(`Success!`));
+  context.logger.info(``);
+  logHashLink(transactionResult.hash, context);
+  logExplorerLink("account", newAccountPublicKey, "New account", context);
+  return { ...transactionResult, accountId: newAccountPublicKey };
 }
 
 if (import.meta.main) {
-  console.log("");
-  console.log(chalk.bgCyan`Creating and Initializing Admin account...`);
+  LOGGER.info("");
+  LOGGER.info(chalk.bgCyan`Creating and Initializing Admin account...`);
 
   const adminKeypair = await generateKeypair();
   await initalizeWithFriendbot(adminKeypair.publicKey());
 
-  console.log("");
-  console.log(chalk.bgCyan`Creating new account...`);
+  LOGGER.info("");
+  LOGGER.info(chalk.bgCyan`Creating new account...`);
   const newAccountKeypair = await generateKeypair();
 
-  createAccount(adminKeypair, newAccountKeypair.publicKey());
+  await createAccount(adminKeypair, newAccountKeypair.publicKey());
 }
@@ -11,22 +11,87 @@
     In order to interact with the network, the keypair should be initialized as an
     active account through a create_account operation.
 
+    The secret key is redacted from the logs by default. Set STELLAR_LOG_REDACT
+    to "false" to print it, e.g. when the keypair needs to be imported in a wallet.
+
+    Mnemonic-based keypairs (SEP-5):
+    Instead of random keypairs, many keypairs can be derived from a single
+    recovery phrase (a BIP-39 mnemonic of 12 or 24 words), as wallets do
+    (see utils/mnemonic.ts).
+
+    The same mnemonic always derives the same accounts. When the
+    STELLAR_MNEMONIC environment variable is set, generateKeypair derives the
+    next account of the phrase (index 0, 1, 2...) instead of a random one, so
+    every account of a demo (admin, signers, destinations) can be regenerated.
+    The passphrase, if any, is read from STELLAR_MNEMONIC_PASSPHRASE.
+
+    !! The mnemonic controls every account derived from it and must be kept as
+    confidential as a secret key. !!
+
 */
 
 import chalk from "chalk";
 import { Keypair } from "@stellar/stellar-sdk";
+import { LOGGER, loggerOptionsFromEnv } from "../../../utils/logger.ts";
+import {
+  deriveKeypair,
+  deriveKeypairs,
+  generateMnemonic,
+} from "../../../utils/mnemonic.ts";
+
+// Index of the next account derived from STELLAR_MNEMONIC
+let nextMnemonicIndex = 0;
+
+// This function restarts the derivation of STELLAR_MNEMONIC at index 0,
+// e.g. when the mnemonic is changed while running.
+export function resetMnemonicIndex() {
+  nextMnemonicIndex = 0;
+}
 
 export default async function generateKeypair() {
-  const keypair = Keypair.random();
-  console.log();
-  console.log(``);
-  console.log(`Keypair generated!`);
-  console.log(`Public Key: ${chalk.green(keypair.publicKey())}`);
-  console.log(`Secret Key: ${chalk.red(keypair.secret())}`);
+  const mnemonic = Deno.env.get("STELLAR_MNEMONIC");
+  const keypair = mnemonic
+    ? await deriveKeypair(
+      mnemonic,
+      nextMnemonicIndex++,
+      Deno.env.get("STELLAR_MNEMONIC_PASSPHRASE"),
+    )
+    : Keypair.random();
+  LOGGER.info("");
+  LOGGER.info(``);
+  LOGGER.info(
+    mnemonic
+      ? `Keypair derived from the mnemonic (m/44'/148'/${
+        nextMnemonicIndex - 1
+      }')!`
+      : `Keypair generated!`,
+  );
+  LOGGER.info(`Public Key: ${chalk.green(keypair.publicKey())}`, {
+    publicKey: keypair.publicKey(),
+  });
+  LOGGER.info(`Secret Key: ${chalk.red(keypair.secret())}`);
 
   return keypair;
 }
 
 if (import.meta.main) {
-  generateKeypair();
+  if (Deno.args[0] === "mnemonic") {
+    // Generates a recovery phrase and derives its first accounts
+    const mnemonic = generateMnemonic();
+    const keypairs = await deriveKeypairs(mnemonic, 3);
+
+    // The mnemonic is not a secret key, so the logger cannot recognize it
+    LOGGER.info(
+      loggerOptionsFromEnv().redactSecrets
+        ? `Mnemonic generated! Set STELLAR_LOG_REDACT=false to print it.`
+        : `Mnemonic: ${chalk.red(mnemonic)}`,
+    );
+    keypairs.forEach((keypair, index) =>
+      LOGGER.info(
+        `m/44'/148'/${index}': ${chalk.green(keypair.publicKey())}`,
+      )
+    );
+  } else {
+    await generateKeypair();
+  }
 }
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import generateVanityKeypair, {
+  expectedAttempts,
+  validateVanityPattern,
+} from "./generate-vanity-keypair.ts";
+
+Deno.test("vanity patterns are normalized and validated", () => {
+  assert.deepEqual(validateVanityPattern("boot", "xlm"), {
+    prefix: "GBOOT",
+    suffix: "XLM",
+  });
+  assert.throws(() => validateVanityPattern("GB0OT"), /not base32/);
+  assert.throws(() => validateVanityPattern("GE"), /second character/);
+  assert.equal(expectedAttempts("GB"), 4);
+  assert.equal(expectedAttempts("GBO", "X"), 4 * 32 * 32);
+});
+
+Deno.test("the search needs at least one worker", async () => {
+  for (const workers of [0, -1, NaN, 1.5]) {
+    await assert.rejects(
+      generateVanityKeypair({ prefix: "GB", workers }),
+      /positive integer/,
+    );
+  }
+});
@@ -0,0 +1,216 @@
+/*
+    This script searches for a "vanity" Stellar address: a public key that
+    starts and/or ends with chosen characters, e.g. GBOOT...XLM, so accounts
+    such as an asset issuer are easy to recognize in explorers.
+
+    A public key cannot be chosen, since it is derived from the secret key.
+    The only way is to generate random keypairs until one of them matches,
+    so the search is spread over a pool of Deno workers, one per CPU core.
+
+    Addresses are base32 encoded, so only the characters A-Z and 2-7 can be
+    used. Each character multiplies the expected number of attempts by 32:
+    - The first character is always G (the version byte of public keys)
+    - The second character can only be A, B, C or D
+    - The last character is part of the checksum and can be anything
+
+    e.g. a 4-character prefix takes about 4 * 32^3 = 131,072 attempts, while
+    a 6-character prefix takes about 134 million.
+
+    The keypair found can be saved in the keystore under a name, or printed.
+
+    Usage:
+    deno task vanity --prefix GBOOT --suffix XLM --workers 4 --save issuer
+*/
+
+import chalk from "chalk";
+import { Keypair } from "@stellar/stellar-sdk";
+import { parseArgs } from "node:util";
+import { saveIdentity } from "../../../infrastructure/keystore/keystore.ts";
+import { LOGGER } from "../../../utils/logger.ts";
+import type { VanitySearch, VanityWorkerMessage } from "./vanity-worker.ts";
+
+export interface VanityOptions {
+  // Characters at the start of the address. The leading G is optional.
+  prefix?: string;
+  // Characters at the end of the address
+  suffix?: string;
+  // Number of workers, defaults to the number of CPU cores
+  workers?: number;
+  // Name of the keystore identity to save the keypair to
+  saveAs?: string;
+  // Passphrase of the keystore
+  passphrase?: string;
+  // Interval between progress reports, in milliseconds
+  progressInterval?: number;
+}
+
+export interface VanityResult {
+  keypair: Keypair;
+  attempts: number;
+  seconds: number;
+}
+
+const BASE32_PATTERN = /^[A-Z2-7]*$/;
+
+// This function validates and normalizes the requested pattern.
+// The prefix is returned with its leading G.
+export function validateVanityPattern(
+  prefix = "",
+  suffix = "",
+): { prefix: string; suffix: string } {
+  const normalizedPrefix = prefix.toUpperCase().startsWith("G")
+    ? prefix.toUpperCase()
+    : `G${prefix.toUpperCase()}`;
+  const normalizedSuffix = suffix.toUpperCase();
+
+  for (const pattern of [normalizedPrefix, normalizedSuffix]) {
+    if (!BASE32_PATTERN.test(pattern)) {
+      throw new Error(
+        `'${pattern}' is not base32: only the characters A-Z and 2-7 are allowed.`,
+      );
+    }
+  }
+  if (normalizedPrefix.length > 1 && !"ABCD".includes(normalizedPrefix[1])) {
+    throw new Error(
+      `The second character of an address can only be A, B, C or D, not '${
+        normalizedPrefix[1]
+      }'.`,
+    );
+  }
+  if (normalizedPrefix.length + normalizedSuffix.length > 56) {
+    throw new Error("The pattern is longer than an address.");
+  }
+
+  return { prefix: normalizedPrefix, suffix: normalizedSuffix };
+}
+
+// This function returns the expected number of attempts to find an address
+// matching the pattern.
+export function expectedAttempts(prefix = "", suffix = ""): number {
+  const pattern = validateVanityPattern(prefix, suffix);
+  // The leading G always matches and the second character has 4 options
+  const prefixAttempts = pattern.prefix.length > 1
+    ? 4 * 32 ** (pattern.prefix.length - 2)
+    : 1;
+  return prefixAttempts * 32 ** pattern.suffix.length;
+}
+
+const formatNumber = (value: number) =>
+  Math.round(value).toLocaleString("en-US");
+
+export default async function generateVanityKeypair(
+  options: VanityOptions,
+): Promise<VanityResult> {
+  const { prefix, suffix } = validateVanityPattern(
+    options.prefix,
+    options.suffix,
+  );
+  const workerCount = options.workers ?? navigator.hardwareConcurrency ?? 1;
+  // Without a worker, the search would never end
+  if (!Number.isInteger(workerCount) || workerCount < 1) {
+    throw new Error(
+      `The number of workers must be a positive integer, not '${workerCount}'.`,
+    );
+  }
+  const expected = expectedAttempts(prefix, suffix);
+
+  LOGGER.info(
+    `Searching for an address matching ${
+      chalk.green(`${prefix}...${suffix}`)
+    } with ${chalk.blue(workerCount)} workers.`,
+  );
+  LOGGER.info(
+    `Expected attempts: ${chalk.blue(formatNumber(expected))}`,
+    { expectedAttempts: expected },
+  );
+
+  const start = Date.now();
+  let attempts = 0;
+  const workers: Worker[] = [];
+
+  const elapsedSeconds = () => (Date.now() - start) / 1000;
+
+  // Reports the rate and the estimated time for the expected attempts
+  const progressTimer = setInterval(() => {
+    const rate = attempts / elapsedSeconds();
+    const remaining = Math.max(expected - attempts, 0) / rate;
+    LOGGER.info(
+      `${formatNumber(attempts)} attempts, ${formatNumber(rate)}/s, ~${
+        formatNumber(remaining)
+      }s remaining for the expected attempts...`,
+      { attempts, rate },
+    );
+  }, options.progressInterval ?? 5000);
+
+  try {
+    const secret = await new Promise<string>((resolve, reject) => {
+      const search: VanitySearch = { prefix, suffix, batchSize: 1000 };
+
+      for (let index = 0; index < workerCount; index++) {
+        const worker = new Worker(
+          new URL("./vanity-worker.ts", import.meta.url).href,
+          { type: "module" },
+        );
+        worker.onmessage = (event: MessageEvent<VanityWorkerMessage>) => {
+          attempts += event.data.attempts;
+          if (event.data.type === "found") {
+            resolve(event.data.secret);
+          }
+        };
+        worker.onerror = (event) => {
+          event.preventDefault();
+          reject(new Error(`Vanity worker failed: ${event.message}`));
+        };
+        worker.postMessage(search);
+        workers.push(worker);
+      }
+    });
+
+    const keypair = Keypair.fromSecret(secret);
+    const seconds = elapsedSeconds();
+
+    LOGGER.info(
+      chalk.green(
+        `Found after ${formatNumber(attempts)} attempts in ${
+          seconds.toFixed(1)
+        }s!`,
+      ),
+    );
+    LOGGER.info(`Public Key: ${chalk.green(keypair.publicKey())}`, {
+      publicKey: keypair.publicKey(),
+    });
+
+    if (options.saveAs) {
+      await saveIdentity(options.saveAs, keypair, options.passphrase);
+      LOGGER.info(
+        `Saved in the keystore as ${chalk.green(options.saveAs)}.`,
+      );
+    } else {
+      LOGGER.info(`Secret Key: ${chalk.red(keypair.secret())}`);
+    }
+
+    return { keypair, attempts, seconds };
+  } finally {
+    clearInterval(progressTimer);
+    workers.forEach((worker) => worker.terminate());
+  }
+}
+
+if (import.meta.main) {
+  const { values } = parseArgs({
+    args: Deno.args,
+    options: {
+      prefix: { type: "string" },
+      suffix: { type: "string" },
+      workers: { type: "string" },
+      save: { type: "string" },
+    },
+  });
+
+  await generateVanityKeypair({
+    prefix: values.prefix,
+    suffix: values.suffix,
+    workers: values.workers !== undefined ? Number(values.workers) : undefined,
+    saveAs: values.save,
+  });
+}
@@ -10,32 +10,85 @@
     cover the minimum balance requirements and the transaction fees when interacting with
     the network.
 
+    The friendbot URL is taken from the network of the context. Requests are
+    made through the funding service, which retries when friendbot is rate
+    limited or unavailable. When it is not available at all, such as on the
+    public network, the account is created by the funder account of the
+    funding policy instead (see STELLAR_FUNDER_IDENTITY).
+
 */
 import chalk from "chalk";
+import type { Keypair } from "@stellar/stellar-sdk";
 import generateKeypair from "./generate-keypair.ts";
+import {
+  fundAccount,
+  fundAccounts,
+  type FundingResult,
+} from "../../../infrastructure/funding/funding-service.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
+import { logExplorerLink } from "../../../utils/explorerLinks.ts";
+
+// Friendbot replies with the Horizon response of the create_account
+// transaction it submitted on behalf of the account. The method tells
+// whether the funder account had to be used instead.
+export type FriendbotResult = FundingResult;
 
-export default async function initalizeWithFriendbot(publicKey: string) {
-  console.log(``);
-  console.log(
+export default async function initalizeWithFriendbot(
+  publicKey: string,
+  context: StellarContext = defaultContext(),
+): Promise<FriendbotResult> {
+  context.logger.info(``);
+  context.logger.info(
     `Initializing account ${chalk.green(publicKey)} with friendbot...`,
   );
 
-  const URL = `https://friendbot.stellar.org?addr=${publicKey}`;
+  const result = await fundAccount(publicKey, context.fundingPolicy, context);
+  context.logger.info(`Account initialized!`);
+  logExplorerLink("account", publicKey, "Account", context);
+
+  return result;
+}
+
+// This function initializes many accounts at the same time, up to the
+// concurrency of the funding policy.
+export async function initializeManyWithFriendbot(
+  publicKeys: string[],
+  context: StellarContext = defaultContext(),
+): Promise<FriendbotResult[]> {
+  context.logger.info(``);
+  context.logger.info(
+    `Initializing ${chalk.blue(publicKeys.length)} accounts with friendbot...`,
+  );
 
-  await fetch(URL).then((response) => {
-    if (!response.ok) {
-      throw new Error(
-        `Friendbot responded with an error! status: ${response.status} Message: ${response.statusText}`,
-      );
-    }
-    console.log(`Account initialized!`);
-  });
+  const results = await fundAccounts(
+    publicKeys,
+    context.fundingPolicy,
+    context,
+  );
+  context.logger.info(`Accounts initialized!`);
+  results.forEach((result) =>
+    logExplorerLink("account", result.accountId, "Account", context)
+  );
 
-  return;
+  return results;
 }
 
+// e.g. deno task initialize 5
 if (import.meta.main) {
-  const keypair = await generateKeypair();
+  const count = Number(Deno.args[0] ?? 1);
+  const keypairs: Keypair[] = [];
+  for (let index = 0; index < count; index++) {
+    keypairs.push(await generateKeypair());
+  }
 
-  initalizeWithFriendbot(keypair.publicKey());
+  if (count === 1) {
+    await initalizeWithFriendbot(keypairs[0].publicKey());
+  } else {
+    await initializeManyWithFriendbot(
+      keypairs.map((keypair) => keypair.publicKey()),
+    );
+  }
 }
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { Asset, Keypair, Operation } from "@stellar/stellar-sdk";
+import { createSimulatorContext } from "../../../infrastructure/simulator/simulated-horizon.ts";
+import type { StellarContext } from "../../../infrastructure/context/stellar-context.ts";
+import { submitTransaction } from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import { fromStroops, toStroops } from "../../../utils/amounts.ts";
+import { sponsorEntries } from "../sponsorship/sponsorships.ts";
+import createAccountWithTrustline from "./create-account-with-trustline.ts";
+import initalizeWithFriendbot from "./initialize-with-friendbot.ts";
+import inspectAccount from "./inspect-account.ts";
+import { setDataEntry, STRING_CODEC } from "./manage-data.ts";
+
+async function fundedKeypair(context: StellarContext) {
+  const keypair = Keypair.random();
+  await initalizeWithFriendbot(keypair.publicKey(), context);
+  return keypair;
+}
+
+Deno.test("the minimum balance counts the subentries and sponsorships", async () => {
+  const context = createSimulatorContext();
+  const issuer = await fundedKeypair(context);
+  const account = await fundedKeypair(context);
+  const sponsor = await fundedKeypair(context);
+  const sponsored = await fundedKeypair(context);
+
+  // 2 trustlines and a data entry paid by the account
+  await submitTransaction({
+    source: account.publicKey(),
+    operations: ["USD", "EUR"].map((code) =>
+      Operation.changeTrust({ asset: new Asset(code, issuer.publicKey()) })
+    ),
+    signers: [account],
+  }, context);
+  await setDataEntry(account, "course", "bootcamp", STRING_CODEC, context);
+  // A data entry of the account paid by the sponsor, and one of another
+  // account paid by the account
+  await sponsorEntries(sponsor, account, [
+    Operation.manageData({ name: "sponsored", value: "yes" }),
+  ], context);
+  await sponsorEntries(account, sponsored, [
+    Operation.manageData({ name: "sponsored", value: "yes" }),
+  ], context);
+
+  const { reserve, balances } = await inspectAccount(
+    account.publicKey(),
+    context,
+  );
+
+  assert.deepEqual(
+    {
+      subentries: reserve.subentries,
+      sponsoring: reserve.sponsoring,
+      sponsored: reserve.sponsored,
+    },
+    { subentries: 4, sponsoring: 1, sponsored: 1 },
+  );
+  // (2 + 4 + 1 - 1) * 0.5 XLM
+  assert.equal(reserve.baseReserve, fromStroops(5_000_000n));
+  assert.equal(reserve.minimumBalance, fromStroops(30_000_000n));
+  assert.equal(reserve.locked, reserve.minimumBalance);
+
+  const native = balances.find(({ asset }) => asset === "native")!;
+  const available = toStroops(native.balance) - 30_000_000n;
+  assert.equal(reserve.available, fromStroops(available));
+  assert.equal(native.available, reserve.available);
+  assert.equal(
+    reserve.additionalSubentries,
+    Number((available - 100n) / 5_000_000n),
+  );
+  assert.deepEqual(
+    balances.filter(({ asset }) => asset !== "native").map(({ asset }) => asset)
+      .sort(),
+    [`EUR:${issuer.publicKey()}`, `USD:${issuer.publicKey()}`],
+  );
+});
+
+Deno.test("an account created with 2XLM and a trustline cannot pay another reserve", async () => {
+  const context = createSimulatorContext();
+  const admin = await fundedKeypair(context);
+  const account = Keypair.random();
+  await createAccountWithTrustline(admin, account, "TEST", context);
+
+  const { reserve } = await inspectAccount(account.publicKey(), context);
+
+  assert.equal(reserve.minimumBalance, fromStroops(15_000_000n));
+  assert.equal(reserve.available, fromStroops(5_000_000n));
+  assert.equal(reserve.additionalSubentries, 0);
+});
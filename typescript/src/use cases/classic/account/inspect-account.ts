@@ -0,0 +1,322 @@
+/*
+    This script inspects an account and explains where its XLM is: how much
+    can be spent, and how much is locked by the minimum balance.
+
+    Every account must keep a minimum balance in XLM:
+
+    (2 + subentries + sponsoring - sponsored) * base reserve
+
+    - subentries: trustlines, signers, offers and data entries
+    - sponsoring: reserves the account pays for other accounts
+    - sponsored: reserves of the account paid by other accounts
+
+    The base reserve is read from the latest ledger (0.5XLM on testnet and
+    pubnet). XLM offered in the order book (selling liabilities) is locked
+    as well, until the offers are taken or removed.
+
+    For instance, an account created with 2XLM and a trustline has a minimum
+    balance of (2 + 1) * 0.5 = 1.5XLM, so only 0.5XLM is available. Another
+    trustline would raise the minimum balance to 2XLM, but the fee of the
+    change_trust transaction is paid first, so the account is left with less
+    than 2XLM and the operation fails with op_low_reserve.
+
+    The report also lists the trustlines and their authorization, the signers
+    and their weights, the thresholds, the flags and the home domain.
+*/
+
+import chalk from "chalk";
+import type { Horizon } from "@stellar/stellar-sdk";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
+import type { SignerRecord } from "../../../infrastructure/horizon/get-horizon-server.ts";
+import { fromStroops, toStroops } from "../../../utils/amounts.ts";
+import { logExplorerLink } from "../../../utils/explorerLinks.ts";
+import { LOGGER } from "../../../utils/logger.ts";
+import createAccountWithTrustline from "./create-account-with-trustline.ts";
+import generateKeypair from "./generate-keypair.ts";
+import initalizeWithFriendbot from "./initialize-with-friendbot.ts";
+
+export interface BalanceInspection {
+  // "native" for XLM, CODE:ISSUER for the other assets, or the ID of the
+  // liquidity pool for pool shares
+  asset: string;
+  balance: string;
+  // Amount that can be received, trustlines only
+  limit?: string;
+  // Amounts reserved by the offers of the account
+  buyingLiabilities: string;
+  sellingLiabilities: string;
+  // Amount that can be sent: the balance minus the selling liabilities, and
+  // minus the minimum balance for XLM
+  available: string;
+  // Authorization of the trustline by the issuer, trustlines only
+  authorized?: boolean;
+  authorizedToMaintainLiabilities?: boolean;
+  clawbackEnabled?: boolean;
+  // Account paying the reserve of the trustline, when sponsored
+  sponsor?: string;
+}
+
+export interface ReserveInspection {
+  baseReserve: string;
+  subentries: number;
+  sponsoring: number;
+  sponsored: number;
+  // (2 + subentries + sponsoring - sponsored) * base reserve
+  minimumBalance: string;
+  // XLM that cannot be spent: the minimum balance and the selling
+  // liabilities
+  locked: string;
+  available: string;
+  // Subentries (e.g. trustlines) the available XLM can still pay the
+  // reserve of, after the fee of the transaction adding them
+  additionalSubentries: number;
+}
+
+export interface SignerInspection {
+  key: string;
+  type: string;
+  weight: number;
+  sponsor?: string;
+}
+
+export interface AccountInspection {
+  accountId: string;
+  sequence: string;
+  homeDomain?: string;
+  // Account paying the reserves of this account, when sponsored
+  sponsor?: string;
+  balances: BalanceInspection[];
+  reserve: ReserveInspection;
+  signers: SignerInspection[];
+  thresholds: { low: number; medium: number; high: number };
+  flags: {
+    authRequired: boolean;
+    authRevocable: boolean;
+    authImmutable: boolean;
+    authClawbackEnabled: boolean;
+  };
+}
+
+type BalanceLine = Horizon.HorizonApi.BalanceLine;
+
+const balanceAsset = (line: BalanceLine) => {
+  switch (line.asset_type) {
+    case "native":
+      return "native";
+    case "liquidity_pool_shares":
+      return line.liquidity_pool_id;
+    default:
+      return `${line.asset_code}:${line.asset_issuer}`;
+  }
+};
+
+// This function inspects the balance of an asset. The XLM locked by the
+// minimum balance is only known for the native balance.
+function inspectBalance(
+  line: BalanceLine,
+  minimumBalance: bigint,
+): BalanceInspection {
+  const buyingLiabilities = "buying_liabilities" in line
+    ? line.buying_liabilities
+    : "0";
+  const sellingLiabilities = "selling_liabilities" in line
+    ? line.selling_liabilities
+    : "0";
+  const locked = toStroops(sellingLiabilities) +
+    (line.asset_type === "native" ? minimumBalance : 0n);
+  const available = toStroops(line.balance) - locked;
+
+  const inspection: BalanceInspection = {
+    asset: balanceAsset(line),
+    balance: line.balance,
+    buyingLiabilities: fromStroops(toStroops(buyingLiabilities)),
+    sellingLiabilities: fromStroops(toStroops(sellingLiabilities)),
+    available: fromStroops(available > 0n ? available : 0n),
+  };
+
+  if (line.asset_type !== "native") {
+    inspection.limit = line.limit;
+    inspection.sponsor = line.sponsor;
+  }
+  if (
+    line.asset_type === "credit_alphanum4" ||
+    line.asset_type === "credit_alphanum12"
+  ) {
+    inspection.authorized = line.is_authorized;
+    inspection.authorizedToMaintainLiabilities =
+      line.is_authorized_to_maintain_liabilities;
+    inspection.clawbackEnabled = line.is_clawback_enabled ?? false;
+  }
+
+  return inspection;
+}
+
+function logInspection(inspection: AccountInspection, context: StellarContext) {
+  const { reserve, thresholds, flags } = inspection;
+  const enabled = (value?: boolean) =>
+    value ? chalk.green("yes") : chalk.red("no");
+
+  context.logger.info(``);
+  context.logger.info(chalk.bgCyan(`Account ${inspection.accountId}`));
+  context.logger.info(`Sequence: ${inspection.sequence}`);
+  context.logger.info(`Home domain: ${inspection.homeDomain ?? "none"}`);
+  if (inspection.sponsor) {
+    context.logger.info(`Sponsored by: ${chalk.blue(inspection.sponsor)}`);
+  }
+
+  context.logger.info(``);
+  context.logger.info(chalk.bgCyan`Reserve`);
+  context.logger.info(
+    `Minimum balance: ${
+      chalk.blue(reserve.minimumBalance)
+    } XLM = (2 + ${reserve.subentries} subentries + ${reserve.sponsoring} sponsoring - ${reserve.sponsored} sponsored) * ${reserve.baseReserve} XLM`,
+  );
+  context.logger.info(
+    `Locked: ${chalk.red(reserve.locked)} XLM, available: ${
+      chalk.green(reserve.available)
+    } XLM`,
+  );
+  context.logger.info(
+    reserve.additionalSubentries > 0
+      ? `The account can pay the reserve of ${
+        chalk.green(reserve.additionalSubentries)
+      } more subentries (trustlines, signers, offers or data entries).`
+      : chalk.yellow(
+        `The account cannot pay the reserve of another subentry: send it at least ${reserve.baseReserve} XLM plus the fee first.`,
+      ),
+  );
+
+  context.logger.info(``);
+  context.logger.info(chalk.bgCyan`Balances`);
+  for (const balance of inspection.balances) {
+    context.logger.info(
+      `${chalk.blue(balance.asset)}: ${balance.balance} (available ${
+        chalk.green(balance.available)
+      }, buying ${balance.buyingLiabilities}, selling ${balance.sellingLiabilities}${
+        balance.limit ? `, limit ${balance.limit}` : ""
+      })`,
+    );
+    if (balance.authorized !== undefined) {
+      context.logger.info(
+        `  authorized: ${
+          enabled(balance.authorized)
+        }, to maintain liabilities: ${
+          enabled(balance.authorizedToMaintainLiabilities)
+        }, clawback: ${enabled(balance.clawbackEnabled)}`,
+      );
+    }
+    if (balance.sponsor) {
+      context.logger.info(`  sponsored by: ${chalk.blue(balance.sponsor)}`);
+    }
+  }
+
+  context.logger.info(``);
+  context.logger.info(chalk.bgCyan`Signers`);
+  for (const signer of inspection.signers) {
+    context.logger.info(
+      `${chalk.blue(signer.key)} (${signer.type}): weight ${signer.weight}${
+        signer.sponsor ? `, sponsored by ${signer.sponsor}` : ""
+      }`,
+    );
+  }
+  context.logger.info(
+    `Thresholds: low ${thresholds.low}, medium ${thresholds.medium}, high ${thresholds.high}`,
+  );
+
+  context.logger.info(``);
+  context.logger.info(chalk.bgCyan`Flags`);
+  context.logger.info(`AUTH_REQUIRED: ${enabled(flags.authRequired)}`);
+  context.logger.info(`AUTH_REVOCABLE: ${enabled(flags.authRevocable)}`);
+  context.logger.info(`AUTH_IMMUTABLE: ${enabled(flags.authImmutable)}`);
+  context.logger.info(
+    `AUTH_CLAWBACK_ENABLED: ${enabled(flags.authClawbackEnabled)}`,
+  );
+}
+
+// Args:
+// - publicKey: The account to inspect
+export default async function inspectAccount(
+  publicKey: string,
+  context: StellarContext = defaultContext(),
+): Promise<AccountInspection> {
+  const [account, ledgers] = await Promise.all([
+    context.horizon.accounts().accountId(publicKey).call(),
+    context.horizon.ledgers().order("desc").limit(1).call(),
+  ]);
+  const { base_reserve_in_stroops, base_fee_in_stroops } = ledgers.records[0];
+  const baseReserve = BigInt(base_reserve_in_stroops);
+
+  const minimumBalance = BigInt(
+    2 + account.subentry_count + account.num_sponsoring -
+      account.num_sponsored,
+  ) * baseReserve;
+
+  const balances = account.balances.map((line) =>
+    inspectBalance(line, minimumBalance)
+  );
+  const native = balances.find((balance) => balance.asset === "native")!;
+  const locked = toStroops(native.balance) - toStroops(native.available);
+  const spendable = toStroops(native.available) - BigInt(base_fee_in_stroops);
+
+  const inspection: AccountInspection = {
+    accountId: account.account_id,
+    sequence: account.sequence,
+    homeDomain: account.home_domain || undefined,
+    sponsor: account.sponsor,
+    balances,
+    reserve: {
+      baseReserve: fromStroops(baseReserve),
+      subentries: account.subentry_count,
+      sponsoring: account.num_sponsoring,
+      sponsored: account.num_sponsored,
+      minimumBalance: fromStroops(minimumBalance),
+      locked: fromStroops(locked),
+      available: native.available,
+      additionalSubentries: spendable > 0n
+        ? Number(spendable / baseReserve)
+        : 0,
+    },
+    signers: account.signers.map((signer: SignerRecord) => ({
+      key: signer.key,
+      type: signer.type,
+      weight: signer.weight,
+      sponsor: signer.sponsor,
+    })),
+    thresholds: {
+      low: account.thresholds.low_threshold,
+      medium: account.thresholds.med_threshold,
+      high: account.thresholds.high_threshold,
+    },
+    flags: {
+      authRequired: account.flags.auth_required,
+      authRevocable: account.flags.auth_revocable,
+      authImmutable: account.flags.auth_immutable,
+      authClawbackEnabled: account.flags.auth_clawback_enabled,
+    },
+  };
+
+  logInspection(inspection, context);
+  logExplorerLink("account", publicKey, "Account", context);
+
+  return inspection;
+}
+
+// e.g. deno task inspect G...
+// Without an account, creates one with 2XLM and a trustline, which cannot
+// pay the reserve of another trustline.
+if (import.meta.main) {
+  if (Deno.args[0]) {
+    await inspectAccount(Deno.args[0]);
+  } else {
+    LOGGER.info(chalk.bgCyan`Creating and initializing admin account...`);
+    const adminKeypair = await generateKeypair();
+    await initalizeWithFriendbot(adminKeypair.publicKey());
+
+    const newAccountKeypair = await generateKeypair();
+    await createAccountWithTrustline(adminKeypair, newAccountKeypair, "TEST");
+    await inspectAccount(newAccountKeypair.publicKey());
+  }
+}
@@ -0,0 +1,68 @@
+/*
+    This script loads a named identity so the same account can be reused
+    across runs, instead of generating and funding a new one every time.
+
+    The identity is looked up in the encrypted local keystore first and then
+    among the identities created by the Stellar CLI. For instance, the `alice`
+    identity created by `make generate-account` in the Soroban contracts can
+    be loaded by name, so the deployed contract and the TypeScript use cases
+    share the same admin account.
+
+    When the identity does not exist yet, a new keypair is generated, funded
+    with friendbot and saved in the keystore encrypted with the passphrase.
+
+    e.g. STELLAR_KEYSTORE_PASSPHRASE=... deno task identity admin
+*/
+
+import chalk from "chalk";
+import { Keypair } from "@stellar/stellar-sdk";
+import { IdentityNotFoundError } from "../../../infrastructure/keystore/keystore-error.ts";
+import {
+  resolveIdentity,
+  saveIdentity,
+} from "../../../infrastructure/keystore/keystore.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
+import generateKeypair from "./generate-keypair.ts";
+import initalizeWithFriendbot from "./initialize-with-friendbot.ts";
+
+// Args:
+// - name: The name of the identity, e.g. "admin" or "alice"
+// - passphrase: The keystore passphrase. Defaults to the
+//   STELLAR_KEYSTORE_PASSPHRASE environment variable.
+export default async function loadOrCreateIdentity(
+  name: string,
+  passphrase?: string,
+  context: StellarContext = defaultContext(),
+): Promise<Keypair> {
+  try {
+    const keypair = await resolveIdentity(name, passphrase);
+    context.logger.info(
+      `Loaded identity ${chalk.green(name)}: ${
+        chalk.blue(keypair.publicKey())
+      }`,
+    );
+    return keypair;
+  } catch (e) {
+    // Only a missing identity is created, a wrong passphrase is not
+    if (!(e instanceof IdentityNotFoundError)) {
+      throw e;
+    }
+  }
+
+  context.logger.info(
+    `Identity ${chalk.green(name)} not found, creating it...`,
+  );
+  const keypair = await generateKeypair();
+  await initalizeWithFriendbot(keypair.publicKey(), context);
+  await saveIdentity(name, keypair, passphrase);
+  context.logger.info(chalk.green(`Identity ${name} saved in the keystore!`));
+
+  return keypair;
+}
+
+if (import.meta.main) {
+  await loadOrCreateIdentity(Deno.args[0] ?? "admin");
+}
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { Buffer } from "node:buffer";
+import { Keypair, Operation, xdr } from "@stellar/stellar-sdk";
+import {
+  createSimulatorContext,
+  SIMULATOR_PASSPHRASE,
+} from "../../../infrastructure/simulator/simulated-horizon.ts";
+import { LedgerSimulator } from "../../../infrastructure/simulator/ledger-simulator.ts";
+import {
+  DataEntryError,
+  dataEntryOperation,
+  getDataEntry,
+  HASH_CODEC,
+  INTEGER_CODEC,
+  JSON_CODEC,
+  listDataEntries,
+  PUBLIC_KEY_CODEC,
+  setDataEntry,
+  STRING_CODEC,
+} from "./manage-data.ts";
+import initalizeWithFriendbot from "./initialize-with-friendbot.ts";
+
+// Decodes the manage_data operation built for an entry
+const decoded = (operation: xdr.Operation) =>
+  Operation.fromXDRObject(operation) as Operation.ManageData;
+
+Deno.test("codecs encode and decode their values", () => {
+  const publicKey = Keypair.random().publicKey();
+  assert.equal(STRING_CODEC.decode(STRING_CODEC.encode("Ada")), "Ada");
+  assert.deepEqual(JSON_CODEC.decode(JSON_CODEC.encode({ a: [1] })), {
+    a: [1],
+  });
+  assert.equal(INTEGER_CODEC.decode(INTEGER_CODEC.encode(-42n)), -42n);
+  assert.equal(
+    HASH_CODEC.decode(HASH_CODEC.encode("ab".repeat(32))),
+    "ab".repeat(32),
+  );
+  assert.equal(
+    PUBLIC_KEY_CODEC.decode(PUBLIC_KEY_CODEC.encode(publicKey)),
+    publicKey,
+  );
+  assert.throws(() => INTEGER_CODEC.decode(Buffer.alloc(4)), /8 bytes/);
+  assert.throws(() => HASH_CODEC.encode("abc"), /32 bytes/);
+});
+
+Deno.test("names must be 1 to 64 printable ASCII characters", () => {
+  assert.equal(
+    decoded(dataEntryOperation("a ~!".repeat(16), "x", STRING_CODEC)).name,
+    "a ~!".repeat(16),
+  );
+  for (const name of ["", "a".repeat(65), "tab\tname", "line\n", "café"]) {
+    assert.throws(
+      () => dataEntryOperation(name, "x", STRING_CODEC),
+      DataEntryError,
+      JSON.stringify(name),
+    );
+  }
+});
+
+Deno.test("values can be empty but not longer than 64 bytes", () => {
+  const empty = decoded(dataEntryOperation("empty", "", STRING_CODEC));
+  assert.equal(empty.value?.length, 0);
+  assert.equal(
+    decoded(dataEntryOperation("full", "x".repeat(64), STRING_CODEC)).value
+      ?.length,
+    64,
+  );
+  assert.throws(
+    () => dataEntryOperation("long", "x".repeat(65), STRING_CODEC),
+    /at most 64 bytes, found 65/,
+  );
+  assert.equal(
+    decoded(dataEntryOperation("removed", null, STRING_CODEC)).value ?? null,
+    null,
+  );
+});
+
+Deno.test("entries are set and read back on the simulator", async () => {
+  const context = createSimulatorContext(
+    new LedgerSimulator(SIMULATOR_PASSPHRASE),
+  );
+  const account = Keypair.random();
+  await initalizeWithFriendbot(account.publicKey(), context);
+
+  await setDataEntry(account, "score", 42n, INTEGER_CODEC, context);
+  await setDataEntry(account, "empty", "", STRING_CODEC, context);
+
+  assert.equal(
+    await getDataEntry(account.publicKey(), "score", INTEGER_CODEC, context),
+    42n,
+  );
+  assert.equal(
+    await getDataEntry(account.publicKey(), "empty", STRING_CODEC, context),
+    "",
+  );
+  assert.equal(
+    await getDataEntry(account.publicKey(), "missing", STRING_CODEC, context),
+    undefined,
+  );
+  const entries = await listDataEntries(account.publicKey(), {
+    score: INTEGER_CODEC,
+  }, context);
+  assert.deepEqual(
+    entries.map(({ name, value }) => [name, value]).sort(),
+    [["empty", ""], ["score", 42n]],
+  );
+});
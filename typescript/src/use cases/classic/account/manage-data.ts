@@ -0,0 +1,385 @@
+/*
+    This script stores small pieces of metadata on an account with data
+    entries, e.g. the profile or the cohort of a student.
+
+    A data entry is a name of 1 to 64 printable ASCII characters and a
+    value of up to 64 bytes, set by the account with the manage_data
+    operation. Like trustlines and signers,
+    each entry is a subentry of the account and raises its minimum balance
+    by one base reserve, unless the reserve is sponsored (see
+    sponsorDataEntry in sponsorship/sponsorships.ts). A manage_data
+    operation without a value removes the entry and releases its reserve.
+
+    The network only stores bytes, so the values are written and read with
+    a codec:
+    - string: UTF-8 text
+    - json: a value serialized as JSON text
+    - integer: a signed 64-bit integer, 8 bytes big-endian
+    - hash: 32 bytes, read and written in hex, e.g. a SHA-256 hash
+    - publicKey: the 32 bytes of an account public key (G...)
+
+    Horizon returns the values in base64, in the data_attr field of the
+    account.
+*/
+
+import chalk from "chalk";
+import { Buffer } from "node:buffer";
+import {
+  type Keypair,
+  Operation,
+  StrKey,
+  type xdr,
+} from "@stellar/stellar-sdk";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
+import { loadDataEntries } from "../../../infrastructure/horizon/get-horizon-server.ts";
+import {
+  submitTransaction,
+  type TransactionPipelineResult,
+} from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import { logExplorerLink } from "../../../utils/explorerLinks.ts";
+import { logHashLink } from "../../../utils/logHashLink.ts";
+import { LOGGER } from "../../../utils/logger.ts";
+import generateKeypair from "./generate-keypair.ts";
+import initalizeWithFriendbot from "./initialize-with-friendbot.ts";
+
+// Maximum length of the name and of the value of a data entry, in bytes
+export const MAX_DATA_LENGTH = 64;
+
+// stellar-core only accepts names of printable ASCII characters, i.e.
+// without control characters or bytes above 0x7F
+const DATA_NAME_PATTERN = /^[\x20-\x7E]*$/;
+
+export interface DataCodec<T> {
+  name: string;
+  encode: (value: T) => Buffer;
+  // Throws when the bytes are not a valid value, e.g. too short
+  decode: (value: Buffer) => T;
+}
+
+// Codec of an entry that is only read
+export type DataDecoder = Pick<DataCodec<unknown>, "name" | "decode">;
+
+export interface DataEntry {
+  name: string;
+  // Value as stored, in base64
+  raw: string;
+  // Value decoded with the codec of the entry
+  value: unknown;
+  // Name of the codec the value was decoded with
+  codec: string;
+  // Account paying the reserve of the entry, when sponsored
+  sponsor?: string;
+}
+
+// Error thrown when a data entry exceeds the limits of the network or
+// cannot be encoded or decoded with its codec
+export class DataEntryError extends Error {
+  constructor(readonly entryName: string, message: string) {
+    super(`Data entry '${entryName}': ${message}`);
+    this.name = "DataEntryError";
+  }
+}
+
+const fixedLength = (value: Buffer, length: number) => {
+  if (value.length !== length) {
+    throw new Error(`expected ${length} bytes, found ${value.length}.`);
+  }
+  return value;
+};
+
+export const STRING_CODEC: DataCodec<string> = {
+  name: "string",
+  encode: (value) => Buffer.from(value, "utf8"),
+  decode: (value) => new TextDecoder("utf-8", { fatal: true }).decode(value),
+};
+
+export const JSON_CODEC: DataCodec<unknown> = {
+  name: "json",
+  encode: (value) => Buffer.from(JSON.stringify(value), "utf8"),
+  decode: (value) => JSON.parse(STRING_CODEC.decode(value)),
+};
+
+export const INTEGER_CODEC: DataCodec<bigint> = {
+  name: "integer",
+  encode: (value) => {
+    const bytes = Buffer.alloc(8);
+    bytes.writeBigInt64BE(value);
+    return bytes;
+  },
+  decode: (value) => fixedLength(value, 8).readBigInt64BE(),
+};
+
+export const HASH_CODEC: DataCodec<string> = {
+  name: "hash",
+  encode: (value) => {
+    if (!/^[0-9a-fA-F]{64}$/.test(value)) {
+      throw new Error("expected 32 bytes in hex.");
+    }
+    return Buffer.from(value, "hex");
+  },
+  decode: (value) => fixedLength(value, 32).toString("hex"),
+};
+
+export const PUBLIC_KEY_CODEC: DataCodec<string> = {
+  name: "publicKey",
+  encode: (value) => Buffer.from(StrKey.decodeEd25519PublicKey(value)),
+  decode: (value) => StrKey.encodeEd25519PublicKey(fixedLength(value, 32)),
+};
+
+export const DATA_CODECS = {
+  string: STRING_CODEC,
+  json: JSON_CODEC,
+  integer: INTEGER_CODEC,
+  hash: HASH_CODEC,
+  publicKey: PUBLIC_KEY_CODEC,
+};
+
+// Values read without a codec are shown as text when they are, and in hex
+// otherwise
+const TEXT_PATTERN = /^[\p{L}\p{N}\p{P}\p{S} ]*$/u;
+
+function decodeUnknown(value: Buffer): { value: string; codec: string } {
+  try {
+    const text = STRING_CODEC.decode(value);
+    if (TEXT_PATTERN.test(text)) {
+      return { value: text, codec: STRING_CODEC.name };
+    }
+  } catch {
+    // Not UTF-8
+  }
+  return { value: value.toString("hex"), codec: "hex" };
+}
+
+// This function builds the manage_data operation setting an entry, or
+// removing it when the value is null. Throws a DataEntryError when the
+// name has characters the network rejects, or when the name or the
+// encoded value is longer than 64 bytes. An empty value is valid.
+//
+// Args:
+// - name: The name of the entry
+// - value: The value of the entry, or null to remove it
+// - codec: The codec encoding the value
+// - source: The account of the entry, defaults to the transaction source
+export function dataEntryOperation<T>(
+  name: string,
+  value: T | null,
+  codec: DataCodec<T>,
+  source?: string,
+): xdr.Operation {
+  const nameLength = Buffer.byteLength(name, "utf8");
+  if (nameLength === 0 || nameLength > MAX_DATA_LENGTH) {
+    throw new DataEntryError(
+      name,
+      `the name must be 1 to ${MAX_DATA_LENGTH} bytes, found ${nameLength}.`,
+    );
+  }
+  if (!DATA_NAME_PATTERN.test(name)) {
+    throw new DataEntryError(
+      name,
+      "the name can only contain printable ASCII characters.",
+    );
+  }
+
+  let encoded: Buffer | null = null;
+  if (value !== null) {
+    try {
+      encoded = codec.encode(value);
+    } catch (e) {
+      throw new DataEntryError(
+        name,
+        `cannot encode the value as ${codec.name}: ${(e as Error).message}`,
+      );
+    }
+    if (encoded.length > MAX_DATA_LENGTH) {
+      throw new DataEntryError(
+        name,
+        `the value must be at most ${MAX_DATA_LENGTH} bytes, found ${encoded.length}.`,
+      );
+    }
+  }
+
+  return Operation.manageData({ name, value: encoded, source });
+}
+
+// This function sets a data entry of an account. The account pays for its
+// reserve when the entry is new.
+//
+// Args:
+// - accountKeypair: The account to set the entry of
+// - name: The name of the entry
+// - value: The value of the entry
+// - codec: The codec encoding the value, e.g. DATA_CODECS.json
+export async function setDataEntry<T>(
+  accountKeypair: Keypair,
+  name: string,
+  value: T,
+  codec: DataCodec<T>,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  const operation = dataEntryOperation(name, value, codec);
+  context.logger.info(
+    `Setting data entry ${chalk.green(name)} (${codec.name}) of ${
+      chalk.blue(accountKeypair.publicKey())
+    }...`,
+  );
+
+  const result = await submitTransaction({
+    source: accountKeypair.publicKey(),
+    operations: [operation],
+    signers: [accountKeypair],
+  }, context);
+  logHashLink(result.hash, context);
+  return result;
+}
+
+// This function removes a data entry of an account, releasing its reserve.
+export async function deleteDataEntry(
+  accountKeypair: Keypair,
+  name: string,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  const operation = dataEntryOperation(name, null, STRING_CODEC);
+  context.logger.info(
+    `Removing data entry ${chalk.green(name)} of ${
+      chalk.blue(accountKeypair.publicKey())
+    }...`,
+  );
+
+  const result = await submitTransaction({
+    source: accountKeypair.publicKey(),
+    operations: [operation],
+    signers: [accountKeypair],
+  }, context);
+  logHashLink(result.hash, context);
+  return result;
+}
+
+// This function reads a data entry of an account. Returns undefined when
+// the account has no entry with this name, and throws a DataEntryError
+// when its value cannot be decoded with the codec.
+export async function getDataEntry<T>(
+  accountId: string,
+  name: string,
+  codec: Pick<DataCodec<T>, "name" | "decode">,
+  context: StellarContext = defaultContext(),
+): Promise<T | undefined> {
+  const account = await context.horizon.accounts().accountId(accountId).call();
+  const raw = account.data_attr?.[name];
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  try {
+    return codec.decode(Buffer.from(raw, "base64"));
+  } catch (e) {
+    throw new DataEntryError(
+      name,
+      `cannot decode the value as ${codec.name}: ${(e as Error).message}`,
+    );
+  }
+}
+
+// This function lists the data entries of an account, with their decoded
+// values and sponsors.
+//
+// Args:
+// - accountId: The account to list the entries of
+// - codecs: The codec of each entry, by name. The entries without one are
+//   decoded as text, or in hex when they are not text.
+export async function listDataEntries(
+  accountId: string,
+  codecs: Record<string, DataDecoder> = {},
+  context: StellarContext = defaultContext(),
+): Promise<DataEntry[]> {
+  const account = await context.horizon.accounts().accountId(accountId).call();
+  const entries = (await loadDataEntries(account)).map(
+    ({ name, value: raw, sponsor }): DataEntry => {
+      const bytes = Buffer.from(raw, "base64");
+      const codec = codecs[name];
+      if (!codec) {
+        return { name, raw, ...decodeUnknown(bytes), sponsor };
+      }
+      try {
+        return {
+          name,
+          raw,
+          value: codec.decode(bytes),
+          codec: codec.name,
+          sponsor,
+        };
+      } catch (e) {
+        throw new DataEntryError(
+          name,
+          `cannot decode the value as ${codec.name}: ${(e as Error).message}`,
+        );
+      }
+    },
+  );
+
+  context.logger.info(``);
+  context.logger.info(chalk.bgCyan(`Data entries of ${accountId}`));
+  for (const entry of entries) {
+    context.logger.info(
+      `${chalk.green(entry.name)} (${entry.codec}): ${
+        typeof entry.value === "object"
+          ? JSON.stringify(entry.value)
+          : entry.value
+      }${entry.sponsor ? `, sponsored by ${chalk.blue(entry.sponsor)}` : ""}`,
+    );
+  }
+  return entries;
+}
+
+// Stores a profile on a new account, reads it back and removes an entry
+if (import.meta.main) {
+  LOGGER.info(chalk.bgCyan`Creating and initializing account...`);
+  const accountKeypair = await generateKeypair();
+  await initalizeWithFriendbot(accountKeypair.publicKey());
+  const mentorKeypair = await generateKeypair();
+
+  LOGGER.info(chalk.bgCyan`Setting data entries...`);
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode("bootcamp"),
+  );
+  await setDataEntry(accountKeypair, "name", "Ada", STRING_CODEC);
+  await setDataEntry(accountKeypair, "profile", {
+    cohort: 2025,
+    track: "soroban",
+  }, JSON_CODEC);
+  await setDataEntry(accountKeypair, "score", 42n, INTEGER_CODEC);
+  await setDataEntry(
+    accountKeypair,
+    "commitment",
+    Buffer.from(digest).toString("hex"),
+    HASH_CODEC,
+  );
+  await setDataEntry(
+    accountKeypair,
+    "mentor",
+    mentorKeypair.publicKey(),
+    PUBLIC_KEY_CODEC,
+  );
+
+  LOGGER.info(chalk.bgCyan`Reading data entries...`);
+  await listDataEntries(accountKeypair.publicKey(), {
+    profile: JSON_CODEC,
+    score: INTEGER_CODEC,
+    commitment: HASH_CODEC,
+    mentor: PUBLIC_KEY_CODEC,
+  });
+  const score = await getDataEntry(
+    accountKeypair.publicKey(),
+    "score",
+    INTEGER_CODEC,
+  );
+  LOGGER.info(`Score: ${chalk.green(score)}`);
+
+  LOGGER.info(chalk.bgCyan`Removing a data entry...`);
+  await deleteDataEntry(accountKeypair, "score");
+  await listDataEntries(accountKeypair.publicKey());
+  logExplorerLink("account", accountKeypair.publicKey(), "Account");
+}
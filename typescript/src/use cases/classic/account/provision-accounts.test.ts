@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { Asset, Keypair, Operation } from "@stellar/stellar-sdk";
+import { createSimulatorContext } from "../../../infrastructure/simulator/simulated-horizon.ts";
+import {
+  MAX_OPERATIONS,
+  MAX_SIGNATURES,
+} from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import initalizeWithFriendbot from "./initialize-with-friendbot.ts";
+import provisionAccounts, {
+  DEFAULT_PROVISION_OPTIONS,
+  packBatches,
+  planAccount,
+  type ProvisionOptions,
+  separateFailedAccounts,
+} from "./provision-accounts.ts";
+
+const funderId = Keypair.random().publicKey();
+const asset = (code: string) => new Asset(code, funderId);
+
+// Plans the creation of new accounts with the same options
+const planAccounts = (count: number, options: Partial<ProvisionOptions>) =>
+  Array.from({ length: count }, () =>
+    planAccount(
+      funderId,
+      { account: Keypair.random() },
+      { ...DEFAULT_PROVISION_OPTIONS, ...options },
+    ));
+
+const sizes = (batches: unknown[][]) => batches.map((batch) => batch.length);
+
+Deno.test("an account is created with its trustlines and sponsorship", () => {
+  const plain = planAccount(
+    funderId,
+    { account: Keypair.random().publicKey() },
+    DEFAULT_PROVISION_OPTIONS,
+  );
+  assert.equal(plain.signs, false);
+  assert.deepEqual(
+    plain.operations.map((operation) =>
+      Operation.fromXDRObject(operation).type
+    ),
+    ["createAccount"],
+  );
+
+  const keypair = Keypair.random();
+  const sponsored = planAccount(
+    funderId,
+    { account: keypair, assets: [asset("USD"), asset("EUR")] },
+    { ...DEFAULT_PROVISION_OPTIONS, sponsored: true },
+  );
+  assert.equal(sponsored.signs, true);
+  assert.equal(sponsored.accountId, keypair.publicKey());
+  const operations = sponsored.operations.map((operation) =>
+    Operation.fromXDRObject(operation)
+  );
+  assert.deepEqual(operations.map(({ type }) => type), [
+    "beginSponsoringFutureReserves",
+    "createAccount",
+    "changeTrust",
+    "changeTrust",
+    "endSponsoringFutureReserves",
+  ]);
+  assert.deepEqual(operations.map(({ source }) => source), [
+    funderId,
+    funderId,
+    keypair.publicKey(),
+    keypair.publicKey(),
+    keypair.publicKey(),
+  ]);
+});
+
+Deno.test("the accounts are packed by 100 operations per transaction", () => {
+  const accounts = planAccounts(250, {});
+  const batches = packBatches(accounts);
+
+  assert.deepEqual(sizes(batches), [100, 100, 50]);
+  assert.deepEqual(batches.flat(), accounts);
+});
+
+Deno.test("the accounts signing are packed by 20 signatures per transaction", () => {
+  // The funder keeps one of the signatures
+  const batches = packBatches(planAccounts(40, { assets: [asset("USD")] }));
+
+  assert.equal(MAX_SIGNATURES, 20);
+  assert.deepEqual(sizes(batches), [19, 19, 2]);
+});
+
+Deno.test("the operations of an account are never split", () => {
+  // 6 operations per account
+  const batches = packBatches(
+    planAccounts(40, {
+      assets: [asset("USD"), asset("EUR"), asset("GBP")],
+      sponsored: true,
+    }),
+  );
+
+  assert.deepEqual(sizes(batches), [16, 16, 8]);
+  for (const batch of batches) {
+    assert.ok(
+      batch.flatMap(({ operations }) => operations).length <= MAX_OPERATIONS,
+    );
+  }
+});
+
+Deno.test("the accounts of the failed operations are left out", () => {
+  const [first, second, third] = planAccounts(3, { assets: [asset("USD")] });
+
+  const { failed, remaining } = separateFailedAccounts(
+    [first, second, third],
+    [
+      "op_success",
+      "op_success",
+      "op_already_exists",
+      "op_success",
+      "op_success",
+      "op_success",
+    ],
+  );
+
+  assert.deepEqual(failed, [{ account: second, code: "op_already_exists" }]);
+  assert.deepEqual(remaining, [first, third]);
+  // No account is singled out when the transaction is rejected before its
+  // operations are applied, e.g. tx_insufficient_balance
+  assert.deepEqual(separateFailedAccounts([first], []), {
+    failed: [],
+    remaining: [first],
+  });
+});
+
+Deno.test("the transaction is submitted again without the existing accounts", async () => {
+  const context = createSimulatorContext();
+  const funder = Keypair.random();
+  await initalizeWithFriendbot(funder.publicKey(), context);
+  const existing = Keypair.random();
+  await initalizeWithFriendbot(existing.publicKey(), context);
+  const accounts = [Keypair.random(), existing, Keypair.random()];
+
+  const result = await provisionAccounts(funder, accounts, {}, context);
+
+  assert.equal(result.transactions.length, 1);
+  assert.deepEqual(
+    result.accounts.map(({ accountId, created }) => ({ accountId, created })),
+    accounts.map((account) => ({
+      accountId: account.publicKey(),
+      created: account !== existing,
+    })),
+  );
+  assert.match(result.accounts[1].error!, /^op_already_exists/);
+});
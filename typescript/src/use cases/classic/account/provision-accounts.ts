@@ -0,0 +1,378 @@
+/*
+    This script creates many accounts at once, e.g. the accounts of the
+    students of a bootcamp cohort, with as few transactions as possible.
+
+    Each account is created by a create_account operation of the funder
+    account, followed by a change_trust operation of the new account for
+    each asset it should trust. When the account is sponsored, these
+    operations are wrapped in begin/end_sponsoring_future_reserves, so the
+    funder also pays the reserves of the account and of its trustlines.
+
+    The operations of many accounts are packed in the same transaction, up
+    to the limits of the network:
+    - 100 operations per transaction
+    - 20 signatures per transaction envelope. The funder signs every
+      transaction, and each new account with trustlines or a sponsorship
+      signs its own operations, so at most 19 of them fit in a transaction.
+
+    The operations of an account are never split between two transactions.
+    Transactions are atomic: when an operation fails (e.g. an account that
+    already exists), the accounts whose operations failed are left out and
+    the transaction is submitted again for the others.
+*/
+
+import chalk from "chalk";
+import { Asset, Keypair, Operation, type xdr } from "@stellar/stellar-sdk";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
+import {
+  MAX_OPERATIONS,
+  MAX_SIGNATURES,
+  submitTransaction,
+  type TransactionPipelineResult,
+} from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import {
+  explainOperationCode,
+  StellarSubmissionError,
+} from "../../../infrastructure/transaction/submission-error.ts";
+import { logHashLink } from "../../../utils/logHashLink.ts";
+import { LOGGER } from "../../../utils/logger.ts";
+import generateKeypair from "./generate-keypair.ts";
+import initalizeWithFriendbot from "./initialize-with-friendbot.ts";
+
+export interface ProvisionOptions {
+  // XLM sent to each new account. Sponsored accounts can start with 0XLM.
+  startingBalance: string;
+  // Assets each new account trusts
+  assets: Asset[];
+  // Whether the funder pays the reserves of the accounts and their
+  // trustlines
+  sponsored: boolean;
+}
+
+export const DEFAULT_PROVISION_OPTIONS: ProvisionOptions = {
+  startingBalance: "10",
+  assets: [],
+  sponsored: false,
+};
+
+// Account to create, with the options that differ from the ones of the
+// whole provisioning
+export interface AccountProvision extends Partial<ProvisionOptions> {
+  // The keypair of the account, or only its public key when the account
+  // has no trustlines and is not sponsored
+  account: Keypair | string;
+}
+
+export interface ProvisionedAccount {
+  accountId: string;
+  // The keypair of the account, when provided or generated
+  keypair?: Keypair;
+  created: boolean;
+  // Hash of the transaction that created the account
+  hash?: string;
+  // Reason of the failure, when the account was not created
+  error?: string;
+}
+
+export interface ProvisionResult {
+  accounts: ProvisionedAccount[];
+  // Successful transactions, in order
+  transactions: TransactionPipelineResult[];
+}
+
+// Error thrown when the accounts to provision are invalid. Nothing is
+// submitted.
+export class ProvisionError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Cannot provision the accounts:\n- ${problems.join("\n- ")}`);
+    this.name = "ProvisionError";
+  }
+}
+
+// Account with the operations creating it
+export interface PlannedAccount {
+  accountId: string;
+  keypair?: Keypair;
+  operations: xdr.Operation[];
+  // Whether the account signs the transaction
+  signs: boolean;
+}
+
+// This function plans the operations creating an account
+export function planAccount(
+  funderId: string,
+  provision: AccountProvision,
+  options: ProvisionOptions,
+): PlannedAccount {
+  const { startingBalance, assets, sponsored } = { ...options, ...provision };
+  const keypair = typeof provision.account === "string"
+    ? undefined
+    : provision.account;
+  const accountId = keypair?.publicKey() ?? (provision.account as string);
+
+  const operations = [
+    Operation.createAccount({
+      destination: accountId,
+      startingBalance,
+      source: funderId,
+    }),
+    ...assets.map((asset) =>
+      Operation.changeTrust({ asset, source: accountId })
+    ),
+  ];
+  if (sponsored) {
+    operations.unshift(Operation.beginSponsoringFutureReserves({
+      sponsoredId: accountId,
+      source: funderId,
+    }));
+    operations.push(Operation.endSponsoringFutureReserves({
+      source: accountId,
+    }));
+  }
+
+  return {
+    accountId,
+    keypair,
+    operations,
+    signs: operations.length > 1,
+  };
+}
+
+// This function packs the accounts in batches that fit in a transaction.
+// The funder signs every transaction, so one signature is kept for it.
+export function packBatches(planned: PlannedAccount[]): PlannedAccount[][] {
+  const batches: PlannedAccount[][] = [];
+  let batch: PlannedAccount[] = [];
+  let operations = 0;
+  let signatures = 1;
+
+  for (const account of planned) {
+    const accountSignatures = account.signs ? 1 : 0;
+    if (
+      batch.length &&
+      (operations + account.operations.length > MAX_OPERATIONS ||
+        signatures + accountSignatures > MAX_SIGNATURES)
+    ) {
+      batches.push(batch);
+      batch = [];
+      operations = 0;
+      signatures = 1;
+    }
+    batch.push(account);
+    operations += account.operations.length;
+    signatures += accountSignatures;
+  }
+  if (batch.length) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+// This function finds the accounts of a batch whose operations failed,
+// from the result codes of the operations of its transaction. Returns the
+// code of the first failed operation of each failed account, and the
+// accounts that can be submitted again.
+export function separateFailedAccounts(
+  batch: PlannedAccount[],
+  operationCodes: string[],
+): {
+  failed: { account: PlannedAccount; code: string }[];
+  remaining: PlannedAccount[];
+} {
+  const failed: { account: PlannedAccount; code: string }[] = [];
+  const remaining: PlannedAccount[] = [];
+  let index = 0;
+  for (const account of batch) {
+    const codes = operationCodes.slice(
+      index,
+      index + account.operations.length,
+    );
+    index += account.operations.length;
+    const code = codes.find((code) => code !== "op_success");
+    if (code) {
+      failed.push({ account, code });
+    } else {
+      remaining.push(account);
+    }
+  }
+  return { failed, remaining };
+}
+
+// This function submits the transaction of a batch. When operations fail,
+// their accounts are reported as failed and the transaction is submitted
+// again without them.
+async function submitBatch(
+  funderKeypair: Keypair,
+  batch: PlannedAccount[],
+  result: ProvisionResult,
+  context: StellarContext,
+) {
+  const failed = (account: PlannedAccount, error: string) =>
+    result.accounts.push({
+      accountId: account.accountId,
+      keypair: account.keypair,
+      created: false,
+      error,
+    });
+
+  try {
+    const transaction = await submitTransaction({
+      source: funderKeypair.publicKey(),
+      operations: batch.flatMap((account) => account.operations),
+      signers: [
+        funderKeypair,
+        ...batch.filter((account) => account.signs).map((account) =>
+          account.keypair!
+        ),
+      ],
+    }, context);
+    logHashLink(transaction.hash, context);
+    result.transactions.push(transaction);
+    for (const account of batch) {
+      result.accounts.push({
+        accountId: account.accountId,
+        keypair: account.keypair,
+        created: true,
+        hash: transaction.hash,
+      });
+    }
+  } catch (e) {
+    if (!(e instanceof StellarSubmissionError)) {
+      throw e;
+    }
+
+    const separated = separateFailedAccounts(batch, e.operationCodes);
+    for (const { account, code } of separated.failed) {
+      failed(account, `${code}: ${explainOperationCode(code)}`);
+    }
+    const { remaining } = separated;
+
+    // The whole transaction was rejected, e.g. tx_insufficient_balance
+    if (remaining.length === batch.length) {
+      context.logger.error(chalk.red(e.message));
+      remaining.forEach((account) => failed(account, e.message));
+      return;
+    }
+    context.logger.warn(
+      chalk.yellow(
+        `${
+          batch.length - remaining.length
+        } accounts failed, submitting the transaction again without them...`,
+      ),
+    );
+    if (remaining.length) {
+      await submitBatch(funderKeypair, remaining, result, context);
+    }
+  }
+}
+
+// Args:
+// - funderKeypair: The account funding the new accounts, and paying their
+//   reserves when they are sponsored
+// - accounts: The accounts to create, or the number of accounts to
+//   generate
+// - options: The options of every account, e.g. { assets: [asset] }
+export default async function provisionAccounts(
+  funderKeypair: Keypair,
+  accounts: (AccountProvision | Keypair | string)[] | number,
+  options: Partial<ProvisionOptions> = {},
+  context: StellarContext = defaultContext(),
+): Promise<ProvisionResult> {
+  const provisionOptions = { ...DEFAULT_PROVISION_OPTIONS, ...options };
+  const provisions: AccountProvision[] = [];
+  if (typeof accounts === "number") {
+    for (let index = 0; index < accounts; index++) {
+      provisions.push({ account: await generateKeypair() });
+    }
+  } else {
+    provisions.push(
+      ...accounts.map((account) =>
+        typeof account === "string" || account instanceof Keypair
+          ? { account }
+          : account
+      ),
+    );
+  }
+
+  const funderId = funderKeypair.publicKey();
+  const planned = provisions.map((provision) =>
+    planAccount(funderId, provision, provisionOptions)
+  );
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  for (const account of planned) {
+    if (account.signs && !account.keypair) {
+      problems.push(
+        `The keypair of ${account.accountId} is needed to sign its trustlines or sponsorship.`,
+      );
+    }
+    if (seen.has(account.accountId)) {
+      problems.push(`${account.accountId} is listed more than once.`);
+    }
+    seen.add(account.accountId);
+  }
+  if (problems.length) {
+    throw new ProvisionError(problems);
+  }
+
+  const batches = packBatches(planned);
+  context.logger.info(``);
+  context.logger.info(
+    `Account ${chalk.blue(funderId)} will create ${
+      chalk.green(planned.length)
+    } accounts in ${batches.length} transactions...`,
+  );
+
+  const result: ProvisionResult = { accounts: [], transactions: [] };
+  for (const [index, batch] of batches.entries()) {
+    context.logger.info(
+      `Submitting transaction ${
+        index + 1
+      } of ${batches.length} (${batch.length} accounts)...`,
+    );
+    await submitBatch(funderKeypair, batch, result, context);
+  }
+
+  // Report the accounts in the order they were requested
+  const order = new Map(planned.map((account, index) => [
+    account.accountId,
+    index,
+  ]));
+  result.accounts.sort((a, b) =>
+    order.get(a.accountId)! - order.get(b.accountId)!
+  );
+
+  const created = result.accounts.filter((account) => account.created);
+  context.logger.info(
+    chalk.green(
+      `Created ${created.length} of ${planned.length} accounts in ${result.transactions.length} transactions.`,
+    ),
+  );
+  for (const account of result.accounts.filter(({ created }) => !created)) {
+    context.logger.warn(
+      chalk.red(`${account.accountId} was not created: ${account.error}`),
+    );
+  }
+
+  return result;
+}
+
+// e.g. deno task provision 300
+// Creates the accounts of a cohort, each with 5XLM and a trustline to an
+// asset of the funder.
+if (import.meta.main) {
+  const count = Number(Deno.args[0] ?? "30");
+
+  LOGGER.info(chalk.bgCyan`Creating and initializing funder account...`);
+  const funderKeypair = await generateKeypair();
+  await initalizeWithFriendbot(funderKeypair.publicKey());
+
+  LOGGER.info(chalk.bgCyan(`Provisioning ${count} accounts...`));
+  await provisionAccounts(funderKeypair, count, {
+    startingBalance: "5",
+    assets: [new Asset("COHORT", funderKeypair.publicKey())],
+  });
+}
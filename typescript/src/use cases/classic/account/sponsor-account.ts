@@ -10,37 +10,52 @@
 */
 
 import chalk from "chalk";
-import {
-  Asset,
-  Keypair,
-  Networks,
-  Operation,
-  TransactionBuilder,
-} from "@stellar/stellar-sdk";
+import { Asset, Keypair, Operation } from "@stellar/stellar-sdk";
 import generateKeypair from "./generate-keypair.ts";
 import initalizeWithFriendbot from "./initialize-with-friendbot.ts";
-import { HORIZON } from "../../../infrastructure/horizon/get-horizon-server.ts";
+import {
+  submitTransaction,
+  type TransactionPipelineResult,
+} from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
 import { logHashLink } from "../../../utils/logHashLink.ts";
+import { logExplorerLink } from "../../../utils/explorerLinks.ts";
+import { LOGGER } from "../../../utils/logger.ts";
+
+export interface CreateSponsoredAccountResult
+  extends TransactionPipelineResult {
+  // Public key of the account created by the transaction
+  accountId: string;
+  // Public key of the account sponsoring the reserves
+  sponsorId: string;
+  // Asset trusted by the new account in the CODE:ISSUER format
+  asset: string;
+}
 
 export default async function createSponsoredAccountWithTrustline(
   adminKeypair: Keypair,
   newAccountKeypair: Keypair,
-) {
-  console.log(``);
-  console.log(
+  assetSymbol = "TEST",
+  context: StellarContext = defaultContext(),
+): Promise<CreateSponsoredAccountResult> {
+  context.logger.info(``);
+  context.logger.info(
     `Admin account ${
       chalk.blue(adminKeypair.publicKey())
     } will execute a create_account transaction`,
   );
-  console.log(
+  context.logger.info(
     `The account ${
       chalk.green(newAccountKeypair.publicKey())
     } will be initialized with ${chalk.red("0XLM")} and..`,
   );
-  console.log(
-    `...execute a change_trust operation to create a trustline for the TEST asset.`,
+  context.logger.info(
+    `...execute a change_trust operation to create a trustline for the ${assetSymbol} asset.`,
   );
-  console.log(
+  context.logger.info(
     `The operations will be sponsored by the admin account to cover the minimum balance requirements.`,
   );
 
@@ -67,11 +82,13 @@ export default async function createSponsoredAccountWithTrustline(
     source: adminKeypair.publicKey(),
   });
 
+  const asset = new Asset(assetSymbol, adminKeypair.publicKey());
+
   // Create the change_trust operation
-  // asset: The asset to trust. Here we are trusting the TEST asset issued by the admin account
+  // asset: The asset to trust. Here we are trusting the asset issued by the admin account
   // source: The public key of the account that will be modified by getting a trustline
   const changeTrustOperation = Operation.changeTrust({
-    asset: new Asset("TEST", adminKeypair.publicKey()),
+    asset,
     source: newAccountKeypair.publicKey(),
   });
 
@@ -84,53 +101,50 @@ export default async function createSponsoredAccountWithTrustline(
     source: newAccountKeypair.publicKey(),
   });
 
-  // Load the admin account from the network to get
-  // the current sequence number.
-  console.log(`Loading the admin account from the network...`);
-  const loadedAdminAccount = await HORIZON.loadAccount(
-    adminKeypair.publicKey(),
+  // Build the transaction with the operations in order and sign it with
+  // both the admin account and the new account, since the sponsored
+  // operations modify the new account. Then submit it to the network
+  // through Horizon.
+  context.logger.info(`Submitting transaction...`);
+  const transactionResult = await submitTransaction({
+    source: adminKeypair.publicKey(),
+    operations: [
+      beginSponsoringOp,
+      createAccountOperation,
+      changeTrustOperation,
+      endSponsoringOp,
+    ],
+    signers: [adminKeypair, newAccountKeypair],
+  }, context);
+  context.logger.info(chalk.green(`Success!`));
+  context.logger.info(``);
+  logHashLink(transactionResult.hash, context);
+  logExplorerLink(
+    "account",
+    newAccountKeypair.publicKey(),
+    "Sponsored account",
+    context,
   );
-
-  // Build the transaction, then append the operations in order
-  // and set a timeout of 30 seconds.
-  const tx = new TransactionBuilder(loadedAdminAccount, {
-    fee: "1000",
-    networkPassphrase: Networks.TESTNET,
-  })
-    .addOperation(beginSponsoringOp)
-    .addOperation(createAccountOperation)
-    .addOperation(changeTrustOperation)
-    .addOperation(endSponsoringOp)
-    .setTimeout(30)
-    .build();
-
-  // Sign the transaction with the admin account
-  tx.sign(adminKeypair);
-  // Sign the transaction with the new account
-  tx.sign(newAccountKeypair);
-
-  // Submit the transaction to the network through the Horizon server
-  console.log(`Submitting transaction...`);
-  HORIZON.submitTransaction(tx).then((transactionResult) => {
-    console.log(chalk.green(`Success!`));
-    console.log(``);
-    logHashLink(transactionResult.hash);
-  });
-  return;
+  return {
+    ...transactionResult,
+    accountId: newAccountKeypair.publicKey(),
+    sponsorId: adminKeypair.publicKey(),
+    asset: asset.toString(),
+  };
 }
 
 if (import.meta.main) {
-  console.log("");
-  console.log(chalk.bgCyan`Creating and Initializing Admin account...`);
+  LOGGER.info("");
+  LOGGER.info(chalk.bgCyan`Creating and Initializing Admin account...`);
 
   const adminKeypair = await generateKeypair();
   await initalizeWithFriendbot(adminKeypair.publicKey());
 
-  console.log("");
-  console.log(
+  LOGGER.info("");
+  LOGGER.info(
     chalk.bgCyan`Sponsoring the Creation of a new account with trutline...`,
   );
   const newAccountKeypair = await generateKeypair();
 
-  createSponsoredAccountWithTrustline(adminKeypair, newAccountKeypair);
+  await createSponsoredAccountWithTrustline(adminKeypair, newAccountKeypair);
 }
@@ -0,0 +1,163 @@
+import assert from "node:assert/strict";
+import { type Horizon, Keypair, Operation, xdr } from "@stellar/stellar-sdk";
+import { MAX_OPERATIONS } from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import {
+  batchTeardown,
+  buildTeardownPlan,
+  TeardownError,
+} from "./teardown-account.ts";
+
+const issuer = Keypair.random().publicKey();
+const destination = Keypair.random().publicKey();
+
+// The fields of an account record read by the teardown
+function accountRecord(
+  fields: Partial<Horizon.ServerApi.AccountRecord> = {},
+): Horizon.ServerApi.AccountRecord {
+  const accountId = Keypair.random().publicKey();
+  return {
+    account_id: accountId,
+    balances: [{ asset_type: "native", balance: "100.0000000" }],
+    data_attr: {},
+    num_sponsoring: 0,
+    flags: { auth_immutable: false },
+    signers: [{ key: accountId, type: "ed25519_public_key", weight: 1 }],
+    ...fields,
+  } as unknown as Horizon.ServerApi.AccountRecord;
+}
+
+const trustline = (code: string, balance: string, authorized = true) =>
+  ({
+    asset_type: "credit_alphanum4",
+    asset_code: code,
+    asset_issuer: issuer,
+    balance,
+    is_authorized: authorized,
+  }) as Horizon.HorizonApi.BalanceLine;
+
+const offer = (id: number) =>
+  ({
+    id: id.toString(),
+    selling: { asset_type: "native" },
+    buying: {
+      asset_type: "credit_alphanum4",
+      asset_code: "USD",
+      asset_issuer: issuer,
+    },
+    price: "1",
+  }) as unknown as Horizon.ServerApi.OfferRecord;
+
+const noRevocations = { operations: [], reserves: 0 };
+
+// Types of the operations of each transaction
+const types = (batches: xdr.Operation[][]) =>
+  batches.map((batch) =>
+    batch.map((operation) => Operation.fromXDRObject(operation).type)
+  );
+
+const lengths = (batches: xdr.Operation[][]) =>
+  batches.map((batch) => batch.length);
+
+const bumpSequences = (count: number) =>
+  Array.from({ length: count }, () => Operation.bumpSequence({ bumpTo: "0" }));
+
+Deno.test("the teardown removes the entries in order and merges last", () => {
+  const signer = Keypair.random().publicKey();
+  const account = accountRecord({
+    balances: [
+      { asset_type: "native", balance: "100.0000000" },
+      trustline("USD", "5.0000000"),
+      trustline("EUR", "0.0000000"),
+    ] as Horizon.HorizonApi.BalanceLine[],
+    data_attr: { course: "Ym9vdGNhbXA=" },
+    num_sponsoring: 1,
+  });
+  account.signers.push({ key: signer, type: "ed25519_public_key", weight: 1 });
+  const revocations = {
+    operations: [
+      Operation.revokeDataSponsorship({ account: signer, name: "course" }),
+    ],
+    reserves: 1,
+  };
+
+  const plan = buildTeardownPlan(account, [offer(1)], revocations, destination);
+
+  assert.deepEqual(
+    {
+      offers: plan.offers,
+      payments: plan.payments,
+      trustlines: plan.trustlines,
+      dataEntries: plan.dataEntries,
+      sponsorships: plan.sponsorships,
+      signers: plan.signers,
+    },
+    {
+      offers: 1,
+      payments: 1,
+      trustlines: 2,
+      dataEntries: 1,
+      sponsorships: 1,
+      signers: 1,
+    },
+  );
+  assert.deepEqual(types(plan.batches), [[
+    "manageSellOffer",
+    "payment",
+    "changeTrust",
+    "changeTrust",
+    "manageData",
+    "revokeDataSponsorship",
+    "setOptions",
+    "accountMerge",
+  ]]);
+  const payment = Operation.fromXDRObject(plan.batches[0][1]);
+  assert.ok(payment.type === "payment");
+  assert.equal(payment.destination, issuer);
+  assert.equal(payment.amount, "5.0000000");
+});
+
+Deno.test("the signers and the merge go in the last transaction", () => {
+  const final = [
+    Operation.setOptions({
+      signer: { ed25519PublicKey: destination, weight: 0 },
+    }),
+    Operation.accountMerge({ destination }),
+  ];
+  const batchesOf = (count: number) =>
+    batchTeardown(bumpSequences(count), final);
+
+  assert.deepEqual(batchesOf(0), [final]);
+  // The final operations fit in the last transaction
+  assert.deepEqual(lengths(batchesOf(MAX_OPERATIONS - 2)), [MAX_OPERATIONS]);
+  // They do not, so they are submitted on their own
+  const batches = batchesOf(MAX_OPERATIONS - 1);
+  assert.deepEqual(lengths(batches), [
+    MAX_OPERATIONS - 1,
+    2,
+  ]);
+  assert.deepEqual(batches[1], final);
+  assert.deepEqual(
+    lengths(batchesOf(2 * MAX_OPERATIONS + 10)),
+    [MAX_OPERATIONS, MAX_OPERATIONS, 12],
+  );
+  assert.deepEqual(batchesOf(2 * MAX_OPERATIONS + 10).at(-1)!.slice(-2), final);
+});
+
+Deno.test("the entries the account cannot remove are reported as blockers", () => {
+  const account = accountRecord({
+    balances: [
+      { asset_type: "native", balance: "100.0000000" },
+      trustline("USD", "5.0000000", false),
+      { asset_type: "liquidity_pool_shares", liquidity_pool_id: "ab" },
+    ] as Horizon.HorizonApi.BalanceLine[],
+    // A claimable balance, which cannot be revoked
+    num_sponsoring: 1,
+  });
+
+  assert.throws(
+    () => buildTeardownPlan(account, [], noRevocations, destination),
+    (e) =>
+      e instanceof TeardownError && e.accountId === account.account_id &&
+      e.blockers.length === 3,
+  );
+});
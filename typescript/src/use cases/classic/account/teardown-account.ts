@@ -0,0 +1,357 @@
+/*
+    This script tears down an account and sends its XLM to another account,
+    so the accounts funded by the demos can be reclaimed.
+
+    An account can only be merged once it has no subentries left and no
+    longer sponsors the reserves of other entries. The teardown plans the
+    operations removing them in an order the network accepts:
+
+    1. Cancel the open offers, which releases their liabilities.
+    2. Send the balances of issued assets back to their issuers, which
+       burns them.
+    3. Remove the trustlines, now empty, and the data entries.
+    4. Revoke the sponsorships of the entries of other accounts, which then
+       pay for their own reserves.
+    5. Remove the signers other than the master key.
+    6. Merge the account with account_merge: its remaining XLM is sent to
+       the destination account and the account is deleted.
+
+    A transaction holds at most 100 operations, so large accounts are torn
+    down in several transactions. The signers are removed in the last one,
+    together with the merge, so the earlier ones can still be signed by them.
+
+    Some entries cannot be removed by the account alone, e.g. balances of a
+    trustline the issuer has deauthorized or liquidity pool shares. They are
+    reported as blockers before anything is submitted.
+*/
+
+import chalk from "chalk";
+import {
+  Asset,
+  type Horizon,
+  type Keypair,
+  Operation,
+  type xdr,
+} from "@stellar/stellar-sdk";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
+import {
+  loadAll,
+  type SignerRecord,
+} from "../../../infrastructure/horizon/get-horizon-server.ts";
+import {
+  MAX_OPERATIONS,
+  resetSequence,
+  submitTransaction,
+  type TransactionPipelineResult,
+} from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import { toStroops } from "../../../utils/amounts.ts";
+import { logExplorerLink } from "../../../utils/explorerLinks.ts";
+import { logHashLink } from "../../../utils/logHashLink.ts";
+import { LOGGER } from "../../../utils/logger.ts";
+import {
+  listSponsorships,
+  revokeOperation,
+  signerKey,
+} from "../sponsorship/sponsorships.ts";
+import createAccountWithTrustline from "./create-account-with-trustline.ts";
+import generateKeypair from "./generate-keypair.ts";
+import initalizeWithFriendbot from "./initialize-with-friendbot.ts";
+
+export interface TeardownPlan {
+  accountId: string;
+  destination: string;
+  // Number of operations of each step
+  offers: number;
+  payments: number;
+  trustlines: number;
+  dataEntries: number;
+  sponsorships: number;
+  signers: number;
+  // Operations of each transaction, in the order they are submitted
+  batches: xdr.Operation[][];
+}
+
+export interface TeardownResult {
+  plan: TeardownPlan;
+  // Transactions submitted, in order
+  transactions: TransactionPipelineResult[];
+}
+
+// Error thrown when an account cannot be torn down by the teardown alone
+export class TeardownError extends Error {
+  constructor(readonly accountId: string, readonly blockers: string[]) {
+    super(
+      `Account ${accountId} cannot be torn down:\n- ${blockers.join("\n- ")}`,
+    );
+    this.name = "TeardownError";
+  }
+}
+
+const offerAsset = (asset: Horizon.ServerApi.OfferRecord["selling"]) =>
+  asset.asset_type === "native"
+    ? Asset.native()
+    : new Asset(asset.asset_code!, asset.asset_issuer);
+
+// Revocations of the sponsorships paid by an account
+export interface TeardownRevocations {
+  operations: xdr.Operation[];
+  // Number of reserves the revocations release
+  reserves: number;
+}
+
+// This function plans the revocation of the sponsorships paid by an
+// account. Claimable balances are left out, since their sponsorship can
+// only be transferred.
+async function planRevocations(
+  accountId: string,
+  context: StellarContext,
+): Promise<TeardownRevocations> {
+  const { sponsoring } = await listSponsorships(accountId, context);
+  const revocable = sponsoring.filter(({ entry }) =>
+    entry.type !== "claimableBalance"
+  );
+
+  return {
+    operations: revocable.map(({ entry }) => revokeOperation(entry)),
+    reserves: revocable.reduce((total, { reserves }) => total + reserves, 0),
+  };
+}
+
+// This function plans the teardown of an account, without submitting it.
+// Throws a TeardownError when some entries cannot be removed.
+//
+// Args:
+// - accountId: The account to tear down
+// - destination: The account receiving the remaining XLM
+export async function planTeardown(
+  accountId: string,
+  destination: string,
+  context: StellarContext = defaultContext(),
+): Promise<TeardownPlan> {
+  if (accountId === destination) {
+    throw new TeardownError(accountId, [
+      "The destination must be another account.",
+    ]);
+  }
+
+  const [account, offers, revocations] = await Promise.all([
+    context.horizon.accounts().accountId(accountId).call(),
+    loadAll(context.horizon.offers().forAccount(accountId).limit(200).call()),
+    planRevocations(accountId, context),
+  ]);
+  return buildTeardownPlan(account, offers, revocations, destination);
+}
+
+// This function plans the teardown of a loaded account, see planTeardown.
+//
+// Args:
+// - account: The account to tear down
+// - offers: The open offers of the account
+// - revocations: The sponsorships of the account to revoke
+// - destination: The account receiving the remaining XLM
+export function buildTeardownPlan(
+  account: Horizon.ServerApi.AccountRecord,
+  offers: Horizon.ServerApi.OfferRecord[],
+  revocations: TeardownRevocations,
+  destination: string,
+): TeardownPlan {
+  const accountId = account.account_id;
+  const blockers: string[] = [];
+
+  const cancelOffers = offers.map((offer) =>
+    Operation.manageSellOffer({
+      selling: offerAsset(offer.selling),
+      buying: offerAsset(offer.buying),
+      amount: "0",
+      price: offer.price,
+      offerId: offer.id.toString(),
+    })
+  );
+
+  const payments: xdr.Operation[] = [];
+  const removeTrustlines: xdr.Operation[] = [];
+  for (const line of account.balances) {
+    if (line.asset_type === "native") {
+      continue;
+    }
+    if (line.asset_type === "liquidity_pool_shares") {
+      blockers.push(
+        `Withdraw from liquidity pool ${line.liquidity_pool_id} and remove its trustline first.`,
+      );
+      continue;
+    }
+
+    const asset = new Asset(line.asset_code, line.asset_issuer);
+    if (toStroops(line.balance) > 0n) {
+      if (!line.is_authorized) {
+        blockers.push(
+          `The trustline to ${asset.getCode()} is not authorized, so its ${line.balance} balance cannot be sent back to ${line.asset_issuer}.`,
+        );
+        continue;
+      }
+      // Sending an asset to its issuer burns it
+      payments.push(Operation.payment({
+        destination: line.asset_issuer,
+        asset,
+        amount: line.balance,
+      }));
+    }
+    removeTrustlines.push(Operation.changeTrust({ asset, limit: "0" }));
+  }
+
+  const removeData = Object.keys(account.data_attr ?? {}).map((name) =>
+    Operation.manageData({ name, value: null })
+  );
+
+  // Entries sponsored by the account that cannot be revoked, e.g.
+  // claimable balances
+  if (account.num_sponsoring > revocations.reserves) {
+    blockers.push(
+      `The account sponsors ${
+        account.num_sponsoring - revocations.reserves
+      } reserves of entries that cannot be revoked, e.g. claimable balances: transfer their sponsorship to another account first.`,
+    );
+  }
+  if (account.flags.auth_immutable) {
+    blockers.push("AUTH_IMMUTABLE is set, so the account cannot be merged.");
+  }
+  if (blockers.length) {
+    throw new TeardownError(accountId, blockers);
+  }
+
+  const removeSigners = (account.signers as SignerRecord[])
+    .filter((signer) => signer.key !== accountId)
+    .map((signer) =>
+      Operation.setOptions({ signer: { ...signerKey(signer), weight: 0 } })
+    );
+
+  // The signers are removed in the last transaction, with the merge
+  const operations = [
+    ...cancelOffers,
+    ...payments,
+    ...removeTrustlines,
+    ...removeData,
+    ...revocations.operations,
+  ];
+  const final = [...removeSigners, Operation.accountMerge({ destination })];
+
+  return {
+    accountId,
+    destination,
+    offers: cancelOffers.length,
+    payments: payments.length,
+    trustlines: removeTrustlines.length,
+    dataEntries: removeData.length,
+    sponsorships: revocations.operations.length,
+    signers: removeSigners.length,
+    batches: batchTeardown(operations, final),
+  };
+}
+
+// This function splits the operations of a teardown into transactions of
+// at most MAX_OPERATIONS operations, in order. The final operations, i.e.
+// the removal of the signers and the merge, all go in the last one.
+export function batchTeardown(
+  operations: xdr.Operation[],
+  final: xdr.Operation[],
+): xdr.Operation[][] {
+  const batches: xdr.Operation[][] = [];
+  for (let index = 0; index < operations.length; index += MAX_OPERATIONS) {
+    batches.push(operations.slice(index, index + MAX_OPERATIONS));
+  }
+  const last = batches.at(-1);
+  if (last && last.length + final.length <= MAX_OPERATIONS) {
+    last.push(...final);
+  } else {
+    batches.push(final);
+  }
+  return batches;
+}
+
+// Args:
+// - accountKeypair: The account to tear down
+// - destination: The account receiving the remaining XLM
+// - signers: The keypairs signing the teardown, defaults to the account
+//   keypair. The transactions need the high threshold of the account.
+export default async function teardownAccount(
+  accountKeypair: Keypair,
+  destination: string,
+  signers: Keypair[] = [accountKeypair],
+  context: StellarContext = defaultContext(),
+): Promise<TeardownResult> {
+  const accountId = accountKeypair.publicKey();
+  context.logger.info(``);
+  context.logger.info(
+    `Tearing down account ${chalk.blue(accountId)} into ${
+      chalk.green(destination)
+    }...`,
+  );
+
+  const plan = await planTeardown(accountId, destination, context);
+  context.logger.info(
+    `Planned ${plan.offers} offers to cancel, ${plan.payments} balances to return, ${plan.trustlines} trustlines, ${plan.dataEntries} data entries, ${plan.sponsorships} sponsorships and ${plan.signers} signers to remove, in ${plan.batches.length} transactions.`,
+  );
+
+  const transactions: TransactionPipelineResult[] = [];
+  for (const [index, operations] of plan.batches.entries()) {
+    context.logger.info(
+      `Submitting transaction ${
+        index + 1
+      } of ${plan.batches.length} (${operations.length} operations)...`,
+    );
+    const result = await submitTransaction({
+      source: accountId,
+      operations,
+      signers,
+    }, context);
+    logHashLink(result.hash, context);
+    transactions.push(result);
+  }
+
+  // The account no longer exists
+  resetSequence(accountId, context);
+  context.logger.info(chalk.green(`Account merged!`));
+  logExplorerLink("account", destination, "Destination", context);
+
+  return { plan, transactions };
+}
+
+// This function tears down many accounts into the same destination, one
+// after the other. The accounts that cannot be torn down are skipped and
+// their errors are returned with the results.
+export async function teardownAccounts(
+  accountKeypairs: Keypair[],
+  destination: string,
+  context: StellarContext = defaultContext(),
+): Promise<(TeardownResult | Error)[]> {
+  const results: (TeardownResult | Error)[] = [];
+  for (const keypair of accountKeypairs) {
+    try {
+      results.push(
+        await teardownAccount(keypair, destination, [keypair], context),
+      );
+    } catch (e) {
+      context.logger.error(chalk.red((e as Error).message));
+      results.push(e as Error);
+    }
+  }
+  return results;
+}
+
+// Creates an account with a trustline, then tears it down into the
+// account that funded it
+if (import.meta.main) {
+  LOGGER.info(chalk.bgCyan`Creating and initializing admin account...`);
+  const adminKeypair = await generateKeypair();
+  await initalizeWithFriendbot(adminKeypair.publicKey());
+
+  LOGGER.info(chalk.bgCyan`Creating an account with a trustline...`);
+  const accountKeypair = await generateKeypair();
+  await createAccountWithTrustline(adminKeypair, accountKeypair, "TEST");
+
+  LOGGER.info(chalk.bgCyan`Tearing down the account...`);
+  await teardownAccount(accountKeypair, adminKeypair.publicKey());
+}
@@ -0,0 +1,43 @@
+/// <reference lib="deno.worker" />
+
+// Worker used by generate-vanity-keypair.ts. Each worker generates random
+// keypairs until one of them matches the requested pattern, reporting the
+// number of attempts periodically so the main thread can show the progress.
+
+import { Keypair } from "@stellar/stellar-sdk";
+
+export interface VanitySearch {
+  // Full prefix of the address, including the leading G
+  prefix: string;
+  suffix: string;
+  // Number of attempts between progress reports
+  batchSize: number;
+}
+
+export type VanityWorkerMessage =
+  | { type: "progress"; attempts: number }
+  | { type: "found"; secret: string; attempts: number };
+
+self.onmessage = (event: MessageEvent<VanitySearch>) => {
+  const { prefix, suffix, batchSize } = event.data;
+
+  while (true) {
+    for (let attempt = 1; attempt <= batchSize; attempt++) {
+      const keypair = Keypair.random();
+      const address = keypair.publicKey();
+      if (address.startsWith(prefix) && address.endsWith(suffix)) {
+        self.postMessage(
+          {
+            type: "found",
+            secret: keypair.secret(),
+            attempts: attempt,
+          } satisfies VanityWorkerMessage,
+        );
+        return;
+      }
+    }
+    self.postMessage(
+      { type: "progress", attempts: batchSize } satisfies VanityWorkerMessage,
+    );
+  }
+};
@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import { Asset, Keypair } from "@stellar/stellar-sdk";
+import { createSimulatorContext } from "../../../infrastructure/simulator/simulated-horizon.ts";
+import type { StellarContext } from "../../../infrastructure/context/stellar-context.ts";
+import { OperationFailedError } from "../../../infrastructure/transaction/submission-error.ts";
+import initalizeWithFriendbot from "../account/initialize-with-friendbot.ts";
+import createAccountWithTrustline from "../account/create-account-with-trustline.ts";
+import {
+  clawback,
+  enableControlFlags,
+  makePayment,
+  setTrustlineAuthorization,
+} from "./configure-flags.ts";
+
+// Creates an issuer with all the control flags, and two holders of its
+// asset whose trustlines are not authorized yet
+async function setUpControlledAsset(context: StellarContext) {
+  const issuer = Keypair.random();
+  await initalizeWithFriendbot(issuer.publicKey(), context);
+  await enableControlFlags(issuer, context);
+  const asset = new Asset("CTRL", issuer.publicKey());
+
+  const alice = Keypair.random();
+  const bob = Keypair.random();
+  await createAccountWithTrustline(issuer, alice, asset.getCode(), context);
+  await createAccountWithTrustline(issuer, bob, asset.getCode(), context);
+  return { issuer, asset, alice, bob };
+}
+
+// Same as setUpControlledAsset, with both trustlines authorized and 1000
+// CTRL paid to alice
+async function setUpHolders(context: StellarContext) {
+  const accounts = await setUpControlledAsset(context);
+  const { issuer, asset, alice, bob } = accounts;
+  for (const holder of [alice, bob]) {
+    await setTrustlineAuthorization(
+      issuer,
+      holder.publicKey(),
+      asset,
+      true,
+      context,
+    );
+  }
+  await makePayment(issuer, alice.publicKey(), asset, "1000", context);
+  return accounts;
+}
+
+async function trustline(
+  accountId: string,
+  asset: Asset,
+  context: StellarContext,
+) {
+  const account = await context.horizon.loadAccount(accountId);
+  const line = account.balances.find((balance) =>
+    "asset_code" in balance && balance.asset_code === asset.getCode() &&
+    balance.asset_issuer === asset.getIssuer()
+  );
+  assert.ok(line && "is_authorized" in line);
+  return line;
+}
+
+const balanceOf = async (
+  accountId: string,
+  asset: Asset,
+  context: StellarContext,
+) => Number((await trustline(accountId, asset, context)).balance);
+
+// Returns whether a promise fails with the code of its first operation
+const failsWith = (promise: Promise<unknown>, operationCode: string) =>
+  assert.rejects(
+    promise,
+    (e) =>
+      e instanceof OperationFailedError &&
+      e.operationCodes[0] === operationCode,
+  );
+
+Deno.test("the asset can only be held once the trustline is authorized", async () => {
+  const context = createSimulatorContext();
+  const { issuer, asset, alice } = await setUpControlledAsset(context);
+
+  const line = await trustline(alice.publicKey(), asset, context);
+  assert.equal(line.is_authorized, false);
+  assert.equal(line.is_clawback_enabled, true);
+  await failsWith(
+    makePayment(issuer, alice.publicKey(), asset, "1000", context),
+    "op_not_authorized",
+  );
+
+  await setTrustlineAuthorization(
+    issuer,
+    alice.publicKey(),
+    asset,
+    true,
+    context,
+  );
+  await makePayment(issuer, alice.publicKey(), asset, "1000", context);
+
+  assert.equal(
+    (await trustline(alice.publicKey(), asset, context)).is_authorized,
+    true,
+  );
+  assert.equal(await balanceOf(alice.publicKey(), asset, context), 1000);
+});
+
+Deno.test("a frozen trustline cannot send payments", async () => {
+  const context = createSimulatorContext();
+  const { issuer, asset, alice, bob } = await setUpHolders(context);
+  await makePayment(alice, bob.publicKey(), asset, "500", context);
+
+  await setTrustlineAuthorization(
+    issuer,
+    alice.publicKey(),
+    asset,
+    false,
+    context,
+  );
+  assert.equal(
+    (await trustline(alice.publicKey(), asset, context)).is_authorized,
+    false,
+  );
+  await failsWith(
+    makePayment(alice, bob.publicKey(), asset, "100", context),
+    "op_src_not_authorized",
+  );
+
+  await setTrustlineAuthorization(
+    issuer,
+    alice.publicKey(),
+    asset,
+    true,
+    context,
+  );
+  await makePayment(alice, bob.publicKey(), asset, "100", context);
+
+  assert.equal(await balanceOf(alice.publicKey(), asset, context), 400);
+  assert.equal(await balanceOf(bob.publicKey(), asset, context), 600);
+});
+
+Deno.test("the issuer claws back the asset from a holder", async () => {
+  const context = createSimulatorContext();
+  const { issuer, asset, alice, bob } = await setUpHolders(context);
+  await makePayment(alice, bob.publicKey(), asset, "500", context);
+
+  await clawback(issuer, bob.publicKey(), asset, "250", context);
+  assert.equal(await balanceOf(bob.publicKey(), asset, context), 250);
+
+  await failsWith(
+    clawback(issuer, bob.publicKey(), asset, "500", context),
+    "op_underfunded",
+  );
+  assert.equal(await balanceOf(bob.publicKey(), asset, context), 250);
+});
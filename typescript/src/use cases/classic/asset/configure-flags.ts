@@ -25,16 +25,22 @@ import {
   AuthRequiredFlag,
   AuthRevocableFlag,
   Keypair,
-  Networks,
   Operation,
-  TransactionBuilder,
 } from "@stellar/stellar-sdk";
 
-import { HORIZON } from "../../../infrastructure/horizon/get-horizon-server.ts";
+import {
+  submitTransaction,
+  type TransactionPipelineResult,
+} from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
 import { logHashLink } from "../../../utils/logHashLink.ts";
 import generateKeypair from "../account/generate-keypair.ts";
 import initalizeWithFriendbot from "../account/initialize-with-friendbot.ts";
 import createAccountWithTrustline from "../account/create-account-with-trustline.ts";
+import { logExplorerLink } from "../../../utils/explorerLinks.ts";
 
 // This function sets up an asset with the following control flags:
 // - AUTH_REQUIRED: Requires issuer approval before accounts can hold the asset
@@ -42,15 +48,14 @@ import createAccountWithTrustline from "../account/create-account-with-trustline
 // - AUTH_CLAWBACK_ENABLED: Allows the issuer to retrieve assets from accounts
 export async function enableControlFlags(
   issuerKeypair: Keypair,
-) {
-  console.log(
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  context.logger.info(
     `Enabling control flags on issuer account ${
       chalk.blue(issuerKeypair.publicKey())
     }...`,
   );
 
-  const loadedAccount = await HORIZON.loadAccount(issuerKeypair.publicKey());
-
   // Operation to set the flags on the asset. The operation used here
   // is called setOptions and it serves multiple purposes. In a general
   // sense, it is used to modify certaint attributes of an account.
@@ -70,23 +75,17 @@ export async function enableControlFlags(
     source: issuerKeypair.publicKey(),
   });
 
-  const tx = new TransactionBuilder(loadedAccount, {
-    fee: "1000",
-    networkPassphrase: Networks.TESTNET,
-  })
-    .addOperation(setOptionsOperation)
-    .setTimeout(30)
-    .build();
-
-  tx.sign(issuerKeypair);
-
-  console.log(`Submitting set flags transaction...`);
-  await HORIZON.submitTransaction(tx).then((result) => {
-    console.log(chalk.green(`Flags set successfully!`));
-    logHashLink(result.hash);
-  });
-
-  return;
+  context.logger.info(`Submitting set flags transaction...`);
+  const result = await submitTransaction({
+    source: issuerKeypair.publicKey(),
+    operations: [setOptionsOperation],
+    signers: [issuerKeypair],
+  }, context);
+  context.logger.info(chalk.green(`Flags set successfully!`));
+  logHashLink(result.hash, context);
+  logExplorerLink("account", issuerKeypair.publicKey(), "Issuer", context);
+
+  return result;
 }
 
 // This function creates a trustline for an account.
@@ -97,32 +96,29 @@ export async function enableControlFlags(
 export async function createTrustline(
   accountKeypair: Keypair,
   asset: Asset,
-) {
-  console.log(
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  context.logger.info(
     `Creating trustline for account ${
       chalk.blue(accountKeypair.publicKey())
     }...`,
   );
 
-  const loadedAccount = await HORIZON.loadAccount(accountKeypair.publicKey());
-
-  const tx = new TransactionBuilder(loadedAccount, {
-    fee: "1000",
-    networkPassphrase: Networks.TESTNET,
-  })
-    .addOperation(Operation.changeTrust({
-      asset,
-      source: accountKeypair.publicKey(),
-    }))
-    .setTimeout(30)
-    .build();
-
-  tx.sign(accountKeypair);
-
-  console.log(`Submitting trustline creation...`);
-  const result = await HORIZON.submitTransaction(tx);
-  console.log(chalk.green(`Trustline created successfully!`));
-  logHashLink(result.hash);
+  context.logger.info(`Submitting trustline creation...`);
+  const result = await submitTransaction({
+    source: accountKeypair.publicKey(),
+    operations: [
+      Operation.changeTrust({
+        asset,
+        source: accountKeypair.publicKey(),
+      }),
+    ],
+    signers: [accountKeypair],
+  }, context);
+  context.logger.info(chalk.green(`Trustline created successfully!`));
+  logHashLink(result.hash, context);
+
+  return result;
 }
 
 // This function sets the authorization for a trustline.
@@ -137,8 +133,9 @@ export async function setTrustlineAuthorization(
   accountPublicKey: string,
   asset: Asset,
   authorize: boolean,
-) {
-  console.log(
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  context.logger.info(
     `\n${
       authorize ? chalk.green("Authorizing") : chalk.red("Deauthorizing")
     } trustline for account ${chalk.blue(accountPublicKey)}...`,
@@ -158,27 +155,19 @@ export async function setTrustlineAuthorization(
     source: issuerKeypair.publicKey(),
   });
 
-  const loadedAccount = await HORIZON.loadAccount(issuerKeypair.publicKey());
-
-  const tx = new TransactionBuilder(loadedAccount, {
-    fee: "1000",
-    networkPassphrase: Networks.TESTNET,
-  })
-    .addOperation(allowTrustOperation)
-    .setTimeout(30)
-    .build();
-
-  tx.sign(issuerKeypair);
-
-  console.log(`Submitting authorization change...`);
-  const result = await HORIZON.submitTransaction(tx).catch((e) => {
-    console.log(
-      chalk.red(`Error: ${e.response.data.extras.result_codes.operations}`),
-    );
-    throw new Error(e.response.data.extras.result_codes.operations);
+  context.logger.info(`Submitting authorization change...`);
+  const result = await submitTransaction({
+    source: issuerKeypair.publicKey(),
+    operations: [allowTrustOperation],
+    signers: [issuerKeypair],
+  }, context).catch((e) => {
+    context.logger.error(chalk.red(`Error: ${(e as Error).message}`));
+    throw e;
   });
-  console.log(chalk.green(`Authorization updated successfully!`));
-  logHashLink(result.hash);
+  context.logger.info(chalk.green(`Authorization updated successfully!`));
+  logHashLink(result.hash, context);
+
+  return result;
 }
 
 // This function makes a payment from one account to another.
@@ -196,8 +185,9 @@ export async function makePayment(
   toPublicKey: string,
   asset: Asset,
   amount: string,
-) {
-  console.log(
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  context.logger.info(
     `Making payment of ${chalk.blue(amount)} ${asset.getCode()} from ${
       chalk.green(fromKeypair.publicKey())
     } to ${chalk.green(toPublicKey)}...`,
@@ -217,22 +207,16 @@ export async function makePayment(
     source: fromKeypair.publicKey(),
   });
 
-  const loadedAccount = await HORIZON.loadAccount(fromKeypair.publicKey());
-
-  const tx = new TransactionBuilder(loadedAccount, {
-    fee: "1000",
-    networkPassphrase: Networks.TESTNET,
-  })
-    .addOperation(paymentOperation)
-    .setTimeout(30)
-    .build();
-
-  tx.sign(fromKeypair);
+  context.logger.info(`Submitting payment transaction...`);
+  const result = await submitTransaction({
+    source: fromKeypair.publicKey(),
+    operations: [paymentOperation],
+    signers: [fromKeypair],
+  }, context);
+  context.logger.info(chalk.green(`Payment successful!`));
+  logHashLink(result.hash, context);
 
-  console.log(`Submitting payment transaction...`);
-  const result = await HORIZON.submitTransaction(tx);
-  console.log(chalk.green(`Payment successful!`));
-  logHashLink(result.hash);
+  return result;
 }
 
 // This function performs a clawback of an asset from an account.
@@ -247,8 +231,9 @@ export async function clawback(
   fromPublicKey: string,
   asset: Asset,
   amount: string,
-) {
-  console.log(
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  context.logger.info(
     `Clawing back ${chalk.blue(amount)} ${asset.getCode()} from ${
       chalk.green(fromPublicKey)
     }...`,
@@ -268,80 +253,93 @@ export async function clawback(
     source: issuerKeypair.publicKey(),
   });
 
-  const loadedAccount = await HORIZON.loadAccount(issuerKeypair.publicKey());
-
-  const tx = new TransactionBuilder(loadedAccount, {
-    fee: "1000",
-    networkPassphrase: Networks.TESTNET,
-  })
-    .addOperation(clawbackOperation)
-    .setTimeout(30)
-    .build();
-
-  tx.sign(issuerKeypair);
+  context.logger.info(`Submitting clawback transaction...`);
+  const result = await submitTransaction({
+    source: issuerKeypair.publicKey(),
+    operations: [clawbackOperation],
+    signers: [issuerKeypair],
+  }, context);
+  context.logger.info(chalk.green(`Clawback successful!`));
+  logHashLink(result.hash, context);
 
-  console.log(`Submitting clawback transaction...`);
-  const result = await HORIZON.submitTransaction(tx);
-  console.log(chalk.green(`Clawback successful!`));
-  logHashLink(result.hash);
+  return result;
 }
 
 // Final script that demonstrates the control flags.
 //
-export default async function demonstrateAssetControls() {
+export default async function demonstrateAssetControls(
+  context: StellarContext = defaultContext(),
+) {
   try {
-    console.log(chalk.bgCyan`Creating and initializing issuer account...`);
+    context.logger.info(
+      chalk.bgCyan`Creating and initializing issuer account...`,
+    );
     const issuerKeypair = await generateKeypair();
-    await initalizeWithFriendbot(issuerKeypair.publicKey());
+    await initalizeWithFriendbot(issuerKeypair.publicKey(), context);
 
     const assetCode = "CTRL";
     const asset = new Asset(assetCode, issuerKeypair.publicKey());
 
-    console.log(chalk.bgCyan`Enabling control flags on issuer account...`);
-    await enableControlFlags(issuerKeypair);
+    context.logger.info(
+      chalk.bgCyan`Enabling control flags on issuer account...`,
+    );
+    await enableControlFlags(issuerKeypair, context);
+    logExplorerLink("asset", asset.toString(), "Asset", context);
 
-    console.log(
+    context.logger.info(
       chalk.bgCyan`Creating and initializing user account: Alice`,
     );
     const alice = await generateKeypair();
-    await createAccountWithTrustline(issuerKeypair, alice, assetCode);
+    await createAccountWithTrustline(issuerKeypair, alice, assetCode, context);
 
-    console.log(chalk.bgCyan`Creating and initializing user account: Bob`);
+    context.logger.info(
+      chalk.bgCyan`Creating and initializing user account: Bob`,
+    );
     const bob = await generateKeypair();
-    await createAccountWithTrustline(issuerKeypair, bob, assetCode);
+    await createAccountWithTrustline(issuerKeypair, bob, assetCode, context);
 
-    console.log(chalk.bgCyan`\nDemonstrating AUTH_REQUIRED...`);
+    context.logger.info(chalk.bgCyan`\nDemonstrating AUTH_REQUIRED...`);
     try {
-      await makePayment(issuerKeypair, alice.publicKey(), asset, "1000");
-      console.log(chalk.red(`Unexpected success: Payment should have failed`));
+      await makePayment(
+        issuerKeypair,
+        alice.publicKey(),
+        asset,
+        "1000",
+        context,
+      );
+      context.logger.error(
+        chalk.red(`Unexpected success: Payment should have failed`),
+      );
     } catch (e) {
-      console.log(
+      context.logger.warn(
         chalk.yellow(`Expected error: Payment failed before authorization!
             ${(e as Error).message}\n`),
       );
     }
 
-    console.log(chalk.bgCyan`Authorizing trustlines...`);
+    context.logger.info(chalk.bgCyan`Authorizing trustlines...`);
     await setTrustlineAuthorization(
       issuerKeypair,
       alice.publicKey(),
       asset,
       true,
+      context,
     );
     await setTrustlineAuthorization(
       issuerKeypair,
       bob.publicKey(),
       asset,
       true,
+      context,
     );
 
-    console.log(chalk.bgCyan`Making payments...`);
-    await makePayment(issuerKeypair, alice.publicKey(), asset, "1000");
-    await makePayment(alice, bob.publicKey(), asset, "500");
+    context.logger.info(chalk.bgCyan`Making payments...`);
+    await makePayment(issuerKeypair, alice.publicKey(), asset, "1000", context);
+    await makePayment(alice, bob.publicKey(), asset, "500", context);
 
     // Demonstrate AUTH_REVOCABLE (freeze)
-    console.log(chalk.bgCyan`\nDemonstrating AUTH_REVOCABLE...`);
-    console.log(
+    context.logger.info(chalk.bgCyan`\nDemonstrating AUTH_REVOCABLE...`);
+    context.logger.info(
       chalk.bgCyan`Alice's account will be frozen and a payment will fail.`,
     );
     await setTrustlineAuthorization(
@@ -349,18 +347,21 @@ export default async function demonstrateAssetControls() {
       alice.publicKey(),
       asset,
       false,
+      context,
     );
     try {
-      await makePayment(alice, bob.publicKey(), asset, "100");
-      console.log(chalk.red(`Unexpected success: Payment should have failed`));
+      await makePayment(alice, bob.publicKey(), asset, "100", context);
+      context.logger.error(
+        chalk.red(`Unexpected success: Payment should have failed`),
+      );
     } catch (e) {
-      console.log(
+      context.logger.warn(
         chalk.yellow(`Expected error: Payment failed while frozen
         ${(e as Error).message} \n`),
       );
     }
 
-    console.log(
+    context.logger.info(
       chalk
         .bgCyan`Alice's account will be unfrozen and a payment will succeed.`,
     );
@@ -369,23 +370,24 @@ export default async function demonstrateAssetControls() {
       alice.publicKey(),
       asset,
       true,
+      context,
     );
-    await makePayment(alice, bob.publicKey(), asset, "100");
+    await makePayment(alice, bob.publicKey(), asset, "100", context);
 
     // Demonstrate CLAWBACK
     const amount = "250";
-    console.log(chalk.bgCyan`\nDemonstrating AUTH_CLAWBACK_ENABLED...`);
-    console.log(
+    context.logger.info(chalk.bgCyan`\nDemonstrating AUTH_CLAWBACK_ENABLED...`);
+    context.logger.info(
       chalk.bgCyan`Bob's account will be clawed back and ${
         chalk.blue(amount) + " " + asset.getCode()
       } will be burned.`,
     );
-    await clawback(issuerKeypair, bob.publicKey(), asset, amount);
+    await clawback(issuerKeypair, bob.publicKey(), asset, amount, context);
   } catch (e) {
-    console.error(chalk.red(`Error in demonstration:`));
+    context.logger.error(chalk.red(`Error in demonstration: ${e}`));
   }
 }
 
 if (import.meta.main) {
-  demonstrateAssetControls();
+  await demonstrateAssetControls();
 }
@@ -21,25 +21,39 @@
 */
 
 import chalk from "chalk";
+import { Asset, Keypair, Operation } from "@stellar/stellar-sdk";
 import {
-  Asset,
-  Keypair,
-  Networks,
-  Operation,
-  TransactionBuilder,
-} from "@stellar/stellar-sdk";
-import { HORIZON } from "../../../infrastructure/horizon/get-horizon-server.ts";
+  submitTransaction,
+  type TransactionPipelineResult,
+} from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
 import { logHashLink } from "../../../utils/logHashLink.ts";
 import generateKeypair from "../account/generate-keypair.ts";
 import initalizeWithFriendbot from "../account/initialize-with-friendbot.ts";
+import { logExplorerLink } from "../../../utils/explorerLinks.ts";
+import { LOGGER } from "../../../utils/logger.ts";
+
+export interface CreateAssetResult extends TransactionPipelineResult {
+  // Asset identifier in the CODE:ISSUER format
+  asset: string;
+  issuer: string;
+  distribution: string;
+  // Amount of tokens minted to the distribution account
+  amountMinted: string;
+}
 
 export default async function createAsset(
   issuerKeypair: Keypair,
   distributionKeypair: Keypair,
   assetSymbol: string,
-) {
-  console.log(``);
-  console.log(
+  amountMinted = "1000000",
+  context: StellarContext = defaultContext(),
+): Promise<CreateAssetResult> {
+  context.logger.info(``);
+  context.logger.info(
     `Creating asset ${chalk.green(assetSymbol)} with:
      - Issuer: ${chalk.blue(issuerKeypair.publicKey())}
      - Distribution: ${chalk.blue(distributionKeypair.publicKey())}
@@ -48,10 +62,13 @@ export default async function createAsset(
      ${chalk.green(assetSymbol + ":" + issuerKeypair.publicKey())}
       
 The distribution account will create a trustline for the asset.
- and receive ${chalk.blue("1M")} newly minted ${assetSymbol} tokens.
+ and receive ${chalk.blue(amountMinted)} newly minted ${assetSymbol} tokens.
  `,
   );
 
+  // The asset is identified by its symbol and the issuer's public key
+  const asset = new Asset(assetSymbol, issuerKeypair.publicKey());
+
   // Create the change_trust operation
   //
   // asset: The asset to trust. Here we are trusting the custom asset
@@ -60,7 +77,7 @@ The distribution account will create a trustline for the asset.
   // source: The public key of the account that will be modified by getting
   // a trustline. In this case, the distribution account
   const changeTrustOperation = Operation.changeTrust({
-    asset: new Asset(assetSymbol, issuerKeypair.publicKey()),
+    asset,
     source: distributionKeypair.publicKey(),
   });
 
@@ -72,68 +89,64 @@ The distribution account will create a trustline for the asset.
   // asset: The asset to send. In this case, the custom asset issued by the
   // issuer account
   //
-  // amount: The amount of the asset to send. In this case, 1M tokens
+  // amount: The amount of the asset to send. By default, 1M tokens
   //
   // source: The public key of the account sending the payment. In this case,
   // the issuer account. As this is the issuer account, the tokens are minted
   // in the process.
   const payment = Operation.payment({
     destination: distributionKeypair.publicKey(),
-    asset: new Asset(assetSymbol, issuerKeypair.publicKey()),
-    amount: "1000000",
+    asset,
+    amount: amountMinted,
     source: issuerKeypair.publicKey(),
   });
 
-  // Load the issuer account from the network to get
-  // the current sequence number.
-  console.log(`Loading the admin account from the network...`);
-  const loadedIssuerAccount = await HORIZON.loadAccount(
-    issuerKeypair.publicKey(),
+  // Build the transaction with the operations in order and sign it with
+  // both the issuer and the distribution accounts. Then submit it to the
+  // network through Horizon.
+  context.logger.info(`Submitting transaction...`);
+  const transactionResult = await submitTransaction({
+    source: issuerKeypair.publicKey(),
+    operations: [changeTrustOperation, payment],
+    signers: [issuerKeypair, distributionKeypair],
+  }, context);
+  context.logger.info(chalk.green(`Success!`));
+  context.logger.info(``);
+  logHashLink(transactionResult.hash, context);
+  logExplorerLink("asset", asset.toString(), "Asset", context);
+  logExplorerLink("account", issuerKeypair.publicKey(), "Issuer", context);
+  logExplorerLink(
+    "account",
+    distributionKeypair.publicKey(),
+    "Distribution",
+    context,
   );
-
-  // Build the transaction, then append the operations in order
-  // and set a timeout of 30 seconds.
-  const tx = new TransactionBuilder(loadedIssuerAccount, {
-    fee: "1000",
-    networkPassphrase: Networks.TESTNET,
-  })
-    .addOperation(changeTrustOperation)
-    .addOperation(payment)
-    .setTimeout(30)
-    .build();
-
-  // Sign the transaction with the issuer account
-  tx.sign(issuerKeypair);
-  // Sign the transaction with the distribution account
-  tx.sign(distributionKeypair);
-
-  // Submit the transaction to the network through the Horizon server
-  console.log(`Submitting transaction...`);
-  HORIZON.submitTransaction(tx).then((transactionResult) => {
-    console.log(chalk.green(`Success!`));
-    console.log(``);
-    logHashLink(transactionResult.hash);
-  });
-  return;
+  return {
+    ...transactionResult,
+    asset: asset.toString(),
+    issuer: issuerKeypair.publicKey(),
+    distribution: distributionKeypair.publicKey(),
+    amountMinted,
+  };
 }
 
 if (import.meta.main) {
-  console.log("");
-  console.log(chalk.bgCyan`Creating and initializing the issuer account...`);
+  LOGGER.info("");
+  LOGGER.info(chalk.bgCyan`Creating and initializing the issuer account...`);
 
   const issuerKeypair = await generateKeypair();
   await initalizeWithFriendbot(issuerKeypair.publicKey());
 
-  console.log("");
-  console.log(
+  LOGGER.info("");
+  LOGGER.info(
     chalk.bgCyan`Creating and initializing the distribution account...`,
   );
   const distributionKeypair = await generateKeypair();
   await initalizeWithFriendbot(distributionKeypair.publicKey());
 
-  console.log("");
-  console.log(chalk.bgCyan`Creating the asset and minting tokens...`);
+  LOGGER.info("");
+  LOGGER.info(chalk.bgCyan`Creating the asset and minting tokens...`);
 
   const assetSymbol = "FIFO";
-  createAsset(issuerKeypair, distributionKeypair, assetSymbol);
+  await createAsset(issuerKeypair, distributionKeypair, assetSymbol);
 }
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import {
+  Asset,
+  Keypair,
+  Operation,
+  type StellarToml,
+} from "@stellar/stellar-sdk";
+import { createSimulatorContext } from "../../../infrastructure/simulator/simulated-horizon.ts";
+import type { StellarContext } from "../../../infrastructure/context/stellar-context.ts";
+import { submitTransaction } from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import initalizeWithFriendbot from "../account/initialize-with-friendbot.ts";
+import { checkStellarToml, generateStellarToml } from "./stellar-toml.ts";
+
+const DOMAIN = "bootcamp.example";
+
+// Issues a supply of BOOT to a holder, then locks the issuer so the supply
+// is fixed
+async function issueFixedSupply(supply: string, context: StellarContext) {
+  const issuer = Keypair.random();
+  const holder = Keypair.random();
+  await initalizeWithFriendbot(issuer.publicKey(), context);
+  await initalizeWithFriendbot(holder.publicKey(), context);
+  const asset = new Asset("BOOT", issuer.publicKey());
+
+  await submitTransaction({
+    source: issuer.publicKey(),
+    operations: [
+      Operation.changeTrust({ asset, source: holder.publicKey() }),
+      Operation.payment({
+        destination: holder.publicKey(),
+        asset,
+        amount: supply,
+      }),
+      Operation.setOptions({ homeDomain: DOMAIN, masterWeight: 0 }),
+    ],
+    signers: [issuer, holder],
+  }, context);
+  return issuer.publicKey();
+}
+
+// Checks a stellar.toml listing the asset with the given fields
+const checkCurrency = (
+  issuer: string,
+  fields: Partial<StellarToml.Api.Currency>,
+  context: StellarContext,
+) =>
+  checkStellarToml(DOMAIN, {
+    NETWORK_PASSPHRASE: context.network
+      .networkPassphrase as StellarToml.Api.StellarToml["NETWORK_PASSPHRASE"],
+    ACCOUNTS: [issuer],
+    CURRENCIES: [{ code: "BOOT", issuer, ...fields }],
+  }, context);
+
+Deno.test("a fixed supply is published as a whole number of tokens", async () => {
+  const context = createSimulatorContext();
+  const issuer = await issueFixedSupply("900000000001", context);
+
+  const toml = await generateStellarToml([issuer], {}, context);
+  assert.match(toml, /^fixed_number = 900000000001$/m);
+  assert.doesNotMatch(toml, /is_unlimited/);
+
+  const valid = await checkCurrency(
+    issuer,
+    { fixed_number: 900000000001, max_number: 900000000001 },
+    context,
+  );
+  assert.deepEqual(valid.problems, []);
+  const invalid = await checkCurrency(
+    issuer,
+    { fixed_number: 900000000000, max_number: 900000000000 },
+    context,
+  );
+  assert.equal(invalid.problems.length, 2);
+});
+
+Deno.test("a fixed supply with decimals has no fixed_number", async () => {
+  const context = createSimulatorContext();
+  const issuer = await issueFixedSupply("900000000000.1234567", context);
+
+  const toml = await generateStellarToml([issuer], {}, context);
+  assert.doesNotMatch(toml, /fixed_number|is_unlimited/);
+
+  // The decimals are not lost when comparing with the supply
+  const { problems } = await checkCurrency(
+    issuer,
+    { fixed_number: 900000000000, max_number: 900000000000 },
+    context,
+  );
+  assert.deepEqual(problems, [
+    "Currency BOOT has a fixed_number of 900000000000, but its supply is 900000000000.1234567.",
+    "Currency BOOT has a max_number of 900000000000, below its supply of 900000000000.1234567.",
+  ]);
+});
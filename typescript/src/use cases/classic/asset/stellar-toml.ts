@@ -0,0 +1,535 @@
+/*
+    This script publishes the metadata of the assets of an issuer with a
+    stellar.toml file (SEP-1), so wallets and explorers can show their name,
+    conditions and supply, and check that they are issued by the
+    organization they claim to be from.
+
+    The link between the issuer and the organization goes both ways:
+    - The issuer sets its home domain (e.g. bootcamp.example) with
+      set_options.
+    - The domain serves https://bootcamp.example/.well-known/stellar.toml,
+      which lists the issuer in ACCOUNTS and its assets in [[CURRENCIES]].
+
+    The file is generated from the state of the issuer on the network:
+    - regulated (SEP-8): the issuer sets AUTH_REQUIRED and AUTH_REVOCABLE,
+      so it approves each transaction. Regulated assets also need the
+      approval_server, which is not on the network and must be given.
+    - conditions: the control flags of the issuer, e.g. clawback
+    - fixed_number: the supply of an issuer that can no longer sign, so no
+      more tokens can be minted. Otherwise the asset is_unlimited. SEP-1
+      counts the tokens in whole numbers, so a supply with decimals has no
+      fixed_number.
+
+    Validation reads a published file, e.g. after it was edited by hand, and
+    reports what does not match the network, such as a missing home domain
+    or a fixed_number that differs from the supply.
+
+    For testing, the file can be served from a local HTTP server and read
+    over http, e.g. with the home domain localhost:8002.
+*/
+
+import chalk from "chalk";
+import { type Keypair, Operation, StellarToml } from "@stellar/stellar-sdk";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
+import {
+  loadAll,
+  type SignerRecord,
+} from "../../../infrastructure/horizon/get-horizon-server.ts";
+import {
+  submitTransaction,
+  type TransactionPipelineResult,
+} from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import { fromStroops, toStroops } from "../../../utils/amounts.ts";
+import { logHashLink } from "../../../utils/logHashLink.ts";
+import { LOGGER } from "../../../utils/logger.ts";
+import generateKeypair from "../account/generate-keypair.ts";
+import initalizeWithFriendbot from "../account/initialize-with-friendbot.ts";
+import createAsset from "./create-asset-and-mint.ts";
+import { enableControlFlags } from "./configure-flags.ts";
+
+// Version of SEP-1 the generated files follow
+export const SEP1_VERSION = "2.7.0";
+// Path of the file on the home domain
+export const STELLAR_TOML_PATH = "/.well-known/stellar.toml";
+
+// Asset issued by an account, as found on the network
+export interface IssuedCurrency {
+  code: string;
+  issuer: string;
+  authRequired: boolean;
+  authRevocable: boolean;
+  clawbackEnabled: boolean;
+  // Whether the issuer can no longer sign, so the supply is fixed
+  locked: boolean;
+  // Tokens held by accounts, claimable balances, liquidity pools and
+  // contracts
+  supply: string;
+  holders: number;
+}
+
+export interface StellarTomlOptions {
+  // Description of the organization, e.g. { ORG_NAME: "Bootcamp" }
+  documentation?: StellarToml.Api.Documentation;
+  // Fields added to the currencies, by code, e.g.
+  // { BOOT: { name: "Bootcamp token", approval_server: "https://..." } }
+  currencies?: Record<string, Partial<StellarToml.Api.Currency>>;
+}
+
+export interface StellarTomlValidation {
+  domain: string;
+  toml: StellarToml.Api.StellarToml;
+  // Currencies of the file found on the network
+  currencies: IssuedCurrency[];
+  // What does not match the network, empty when the file is valid
+  problems: string[];
+}
+
+// Error thrown when the stellar.toml of a domain cannot be read
+export class StellarTomlError extends Error {
+  constructor(readonly domain: string, message: string) {
+    super(`stellar.toml of ${domain}: ${message}`);
+    this.name = "StellarTomlError";
+  }
+}
+
+// This function sets the home domain of an issuer, the domain serving its
+// stellar.toml.
+//
+// Args:
+// - issuerKeypair: The issuer of the assets
+// - domain: The domain, without protocol or path, up to 32 characters,
+//   e.g. bootcamp.example
+export async function setHomeDomain(
+  issuerKeypair: Keypair,
+  domain: string,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  context.logger.info(
+    `Setting the home domain of ${chalk.blue(issuerKeypair.publicKey())} to ${
+      chalk.green(domain)
+    }...`,
+  );
+  const result = await submitTransaction({
+    source: issuerKeypair.publicKey(),
+    operations: [Operation.setOptions({ homeDomain: domain })],
+    signers: [issuerKeypair],
+  }, context);
+  logHashLink(result.hash, context);
+  return result;
+}
+
+// This function loads the assets issued by an account, with their supply.
+// Only the assets with at least one holder are found.
+export async function loadIssuedCurrencies(
+  issuerId: string,
+  context: StellarContext = defaultContext(),
+): Promise<IssuedCurrency[]> {
+  const [issuer, assets] = await Promise.all([
+    context.horizon.accounts().accountId(issuerId).call(),
+    loadAll(context.horizon.assets().forIssuer(issuerId).limit(200).call()),
+  ]);
+
+  // Payments need the medium threshold, and at least one signature
+  const weight = (issuer.signers as SignerRecord[]).reduce(
+    (total, signer) => total + signer.weight,
+    0,
+  );
+  const locked = weight < Math.max(issuer.thresholds.med_threshold, 1);
+
+  return assets.map((asset) => ({
+    code: asset.asset_code,
+    issuer: issuerId,
+    authRequired: issuer.flags.auth_required,
+    authRevocable: issuer.flags.auth_revocable,
+    clawbackEnabled: issuer.flags.auth_clawback_enabled,
+    locked,
+    supply: fromStroops(
+      [
+        ...Object.values(asset.balances),
+        asset.claimable_balances_amount,
+        asset.liquidity_pools_amount,
+        asset.contracts_amount,
+      ].reduce((total, amount) => total + toStroops(amount ?? "0"), 0n),
+    ),
+    holders: Object.values(asset.accounts).reduce(
+      (total, count) => total + count,
+      0,
+    ),
+  }));
+}
+
+// This function describes the control flags of an asset, published as its
+// conditions.
+function describeConditions(currency: IssuedCurrency): string {
+  const conditions = [
+    currency.authRequired &&
+    "Holders must be approved by the issuer before they can receive the asset.",
+    currency.authRevocable &&
+    "The issuer can freeze the balance of any holder.",
+    currency.clawbackEnabled &&
+    "The issuer can claw back the balance of any holder.",
+    currency.locked &&
+    "The issuer can no longer sign, so no more tokens can be minted.",
+  ].filter(Boolean);
+  return conditions.length
+    ? conditions.join(" ")
+    : "The issuer has no control over the balances of the holders.";
+}
+
+// This function builds the [[CURRENCIES]] entry of an asset.
+function currencyEntry(
+  currency: IssuedCurrency,
+  status: StellarToml.Api.Currency["status"],
+  fields: Partial<StellarToml.Api.Currency> = {},
+): StellarToml.Api.Currency {
+  const fixedNumber = supplyToTokens(currency.supply);
+  return {
+    code: currency.code,
+    issuer: currency.issuer,
+    status,
+    display_decimals: 7,
+    conditions: describeConditions(currency),
+    ...(!currency.locked
+      ? { is_unlimited: true }
+      : fixedNumber !== undefined && { fixed_number: fixedNumber }),
+    ...(currency.authRequired && currency.authRevocable && { regulated: true }),
+    ...fields,
+  };
+}
+
+const STROOPS_PER_TOKEN = toStroops("1");
+
+// This function converts a number of tokens of a stellar.toml into stroops,
+// the unit of the supply. Returns undefined when it is not a whole number,
+// which SEP-1 does not allow.
+const tokensToStroops = (tokens: number) =>
+  Number.isSafeInteger(tokens) ? BigInt(tokens) * STROOPS_PER_TOKEN : undefined;
+
+// This function converts a supply into a whole number of tokens, or
+// undefined when it has decimals.
+function supplyToTokens(supply: string): number | undefined {
+  const stroops = toStroops(supply);
+  return stroops % STROOPS_PER_TOKEN === 0n
+    ? Number(stroops / STROOPS_PER_TOKEN)
+    : undefined;
+}
+
+// TOML values of a stellar.toml: strings and numbers, alone or in arrays
+const formatValue = (value: unknown): string =>
+  Array.isArray(value)
+    ? `[${value.map(formatValue).join(", ")}]`
+    : typeof value === "string"
+    ? JSON.stringify(value)
+    : String(value);
+
+const formatFields = (fields: Record<string, unknown>) =>
+  Object.entries(fields)
+    .filter(([, value]) => value !== undefined && !isTable(value))
+    .map(([key, value]) => `${key} = ${formatValue(value)}`);
+
+const isTable = (value: unknown) =>
+  typeof value === "object" && value !== null &&
+  (!Array.isArray(value) || typeof value[0] === "object");
+
+// This function serializes a stellar.toml. The tables, e.g.
+// [DOCUMENTATION], come after the global fields, and the arrays of tables
+// are written as [[CURRENCIES]].
+export function formatStellarToml(toml: StellarToml.Api.StellarToml): string {
+  const lines = formatFields(toml);
+  for (const [name, value] of Object.entries(toml)) {
+    if (!isTable(value)) {
+      continue;
+    }
+    const tables = Array.isArray(value) ? value : [value];
+    for (const table of tables) {
+      lines.push(
+        "",
+        Array.isArray(value) ? `[[${name}]]` : `[${name}]`,
+        ...formatFields(table),
+      );
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+// This function generates the stellar.toml describing the assets of
+// issuers, from their state on the network.
+//
+// Args:
+// - issuerIds: The issuers of the assets, listed in ACCOUNTS
+// - options: The fields the network does not know about, e.g. the name of
+//   the organization or of the assets
+export async function generateStellarToml(
+  issuerIds: string[],
+  options: StellarTomlOptions = {},
+  context: StellarContext = defaultContext(),
+): Promise<string> {
+  const currencies = (await Promise.all(
+    issuerIds.map((issuerId) => loadIssuedCurrencies(issuerId, context)),
+  )).flat();
+  const status = context.network.name === "pubnet" ? "live" : "test";
+  const entries = currencies.map((currency) =>
+    currencyEntry(currency, status, options.currencies?.[currency.code])
+  );
+  for (const entry of entries) {
+    if (entry.regulated && !entry.approval_server) {
+      context.logger.warn(
+        chalk.yellow(
+          `${entry.code} is regulated: add its approval_server to the stellar.toml.`,
+        ),
+      );
+    }
+  }
+
+  context.logger.info(
+    `Generated stellar.toml with ${chalk.green(currencies.length)} currencies${
+      currencies.length
+        ? `: ${currencies.map((currency) => currency.code).join(", ")}`
+        : ""
+    }`,
+  );
+  return formatStellarToml({
+    VERSION: SEP1_VERSION,
+    NETWORK_PASSPHRASE: context.network
+      .networkPassphrase as StellarToml.Api.StellarToml["NETWORK_PASSPHRASE"],
+    ACCOUNTS: issuerIds,
+    ...(options.documentation && { DOCUMENTATION: options.documentation }),
+    CURRENCIES: entries,
+  });
+}
+
+// This function checks a stellar.toml against the network. Returns the
+// problems found, without throwing.
+//
+// Args:
+// - domain: The domain serving the file, which the issuers must have as
+//   their home domain
+// - toml: The parsed file
+export async function checkStellarToml(
+  domain: string,
+  toml: StellarToml.Api.StellarToml,
+  context: StellarContext = defaultContext(),
+): Promise<StellarTomlValidation> {
+  const problems: string[] = [];
+  if (toml.NETWORK_PASSPHRASE !== context.network.networkPassphrase) {
+    problems.push(
+      `NETWORK_PASSPHRASE is '${
+        toml.NETWORK_PASSPHRASE ?? ""
+      }' instead of '${context.network.networkPassphrase}'.`,
+    );
+  }
+
+  const issued = new Map<string, IssuedCurrency[]>();
+  const homeDomains = new Map<string, string | undefined>();
+  for (const issuer of new Set(toml.CURRENCIES?.map(({ issuer }) => issuer))) {
+    if (!issuer) {
+      continue;
+    }
+    try {
+      const account = await context.horizon.accounts().accountId(issuer)
+        .call();
+      homeDomains.set(issuer, account.home_domain);
+      issued.set(issuer, await loadIssuedCurrencies(issuer, context));
+    } catch (e) {
+      problems.push(`Issuer ${issuer}: ${(e as Error).message}`);
+    }
+  }
+  for (const [issuer, homeDomain] of homeDomains) {
+    if (homeDomain !== domain) {
+      problems.push(
+        `Issuer ${issuer} has the home domain '${
+          homeDomain ?? ""
+        }' instead of '${domain}'.`,
+      );
+    }
+    if (!toml.ACCOUNTS?.includes(issuer)) {
+      problems.push(`Issuer ${issuer} is missing from ACCOUNTS.`);
+    }
+  }
+
+  const currencies: IssuedCurrency[] = [];
+  for (const [index, entry] of (toml.CURRENCIES ?? []).entries()) {
+    const name = `Currency ${entry.code ?? `#${index + 1}`}`;
+    if (!entry.code || !entry.issuer) {
+      // Templates describe many assets, e.g. one per maturity date
+      if (!entry.code_template) {
+        problems.push(`${name} has no code or issuer.`);
+      }
+      continue;
+    }
+    if (!issued.has(entry.issuer)) {
+      continue;
+    }
+    const currency = issued.get(entry.issuer)!.find(({ code }) =>
+      code === entry.code
+    );
+    if (!currency) {
+      problems.push(
+        `${name} has no holders on the network, or is not issued by ${entry.issuer}.`,
+      );
+      continue;
+    }
+    currencies.push(currency);
+
+    if (entry.regulated && !(currency.authRequired && currency.authRevocable)) {
+      problems.push(
+        `${name} is regulated, but its issuer does not set AUTH_REQUIRED and AUTH_REVOCABLE.`,
+      );
+    }
+    if (entry.regulated && !entry.approval_server) {
+      problems.push(`${name} is regulated, but has no approval_server.`);
+    }
+    if (
+      currency.clawbackEnabled && !/claw ?back/i.test(entry.conditions ?? "")
+    ) {
+      problems.push(
+        `${name} can be clawed back, but its conditions do not say so.`,
+      );
+    }
+
+    const supply = toStroops(currency.supply);
+    if (entry.fixed_number !== undefined) {
+      if (!currency.locked) {
+        problems.push(
+          `${name} has a fixed_number, but its issuer can still mint tokens.`,
+        );
+      } else if (tokensToStroops(entry.fixed_number) !== supply) {
+        problems.push(
+          `${name} has a fixed_number of ${entry.fixed_number}, but its supply is ${currency.supply}.`,
+        );
+      }
+    }
+    if (entry.is_unlimited && currency.locked) {
+      problems.push(
+        `${name} is_unlimited, but its issuer can no longer mint tokens.`,
+      );
+    }
+    const maxNumber = entry.max_number === undefined
+      ? undefined
+      : tokensToStroops(entry.max_number);
+    if (entry.max_number !== undefined && maxNumber === undefined) {
+      problems.push(
+        `${name} has a max_number of ${entry.max_number}, which is not a whole number of tokens.`,
+      );
+    } else if (maxNumber !== undefined && maxNumber < supply) {
+      problems.push(
+        `${name} has a max_number of ${entry.max_number}, below its supply of ${currency.supply}.`,
+      );
+    }
+  }
+
+  return { domain, toml, currencies, problems };
+}
+
+// This function reads the stellar.toml of a domain and checks it against
+// the network. Throws a StellarTomlError when the file cannot be read.
+//
+// Args:
+// - domain: The domain serving the file, e.g. bootcamp.example
+// - allowHttp: Whether to read the file over http, e.g. from a local server
+export async function validateStellarToml(
+  domain: string,
+  allowHttp = false,
+  context: StellarContext = defaultContext(),
+): Promise<StellarTomlValidation> {
+  context.logger.info(``);
+  context.logger.info(
+    `Validating the stellar.toml of ${chalk.green(domain)}...`,
+  );
+
+  let toml: StellarToml.Api.StellarToml;
+  try {
+    toml = await StellarToml.Resolver.resolve(domain, {
+      allowHttp,
+      timeout: 10_000,
+    });
+  } catch (e) {
+    throw new StellarTomlError(domain, (e as Error).message);
+  }
+
+  const validation = await checkStellarToml(domain, toml, context);
+  for (const currency of validation.currencies) {
+    context.logger.info(
+      `${
+        chalk.green(currency.code)
+      }: supply of ${currency.supply} held by ${currency.holders} accounts`,
+    );
+  }
+  if (validation.problems.length) {
+    for (const problem of validation.problems) {
+      context.logger.warn(chalk.red(problem));
+    }
+  } else {
+    context.logger.info(chalk.green(`The stellar.toml matches the network.`));
+  }
+  return validation;
+}
+
+// This function serves a stellar.toml at /.well-known/stellar.toml, e.g.
+// to test it before publishing it. Wallets read it from the browser, so
+// it is served with CORS enabled, as SEP-1 requires.
+//
+// Args:
+// - toml: The content of the file
+// - port: The port of the server
+export function serveStellarToml(toml: string, port = 8002): Deno.HttpServer {
+  return Deno.serve({ port, onListen: () => {} }, (request) => {
+    if (new URL(request.url).pathname !== STELLAR_TOML_PATH) {
+      return new Response("Not Found", { status: 404 });
+    }
+    return new Response(toml, {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Access-Control-Allow-Origin": "*",
+      },
+    });
+  });
+}
+
+// e.g. deno task stellar-toml 8002
+// Issues an asset with control flags, publishes its stellar.toml from a
+// local server and validates it, then validates a file claiming a fixed
+// supply.
+if (import.meta.main) {
+  const port = Number(Deno.args[0] ?? "8002");
+  const domain = `localhost:${port}`;
+
+  LOGGER.info(chalk.bgCyan`Creating and initializing issuer accounts...`);
+  const issuerKeypair = await generateKeypair();
+  await initalizeWithFriendbot(issuerKeypair.publicKey());
+  const distributionKeypair = await generateKeypair();
+  await initalizeWithFriendbot(distributionKeypair.publicKey());
+
+  LOGGER.info(chalk.bgCyan`Issuing the asset...`);
+  await createAsset(issuerKeypair, distributionKeypair, "TOML", "5000");
+  await enableControlFlags(issuerKeypair);
+  await setHomeDomain(issuerKeypair, domain);
+
+  LOGGER.info(chalk.bgCyan`Generating and serving the stellar.toml...`);
+  const toml = await generateStellarToml([issuerKeypair.publicKey()], {
+    documentation: { ORG_NAME: "Stellar Bootcamp" },
+    currencies: {
+      TOML: {
+        name: "Bootcamp token",
+        approval_server: `http://${domain}/approve`,
+      },
+    },
+  });
+  LOGGER.info(`\n${toml}`);
+  const server = serveStellarToml(toml, port);
+  await validateStellarToml(domain, true);
+  await server.shutdown();
+
+  LOGGER.info(
+    chalk.bgCyan`Validating a stellar.toml claiming a fixed supply...`,
+  );
+  const edited = serveStellarToml(
+    toml.replace("is_unlimited = true", "fixed_number = 1000"),
+    port,
+  );
+  await validateStellarToml(domain, true);
+  await edited.shutdown();
+}
@@ -0,0 +1,302 @@
+import assert from "node:assert/strict";
+import { Buffer } from "node:buffer";
+import {
+  Account,
+  Asset,
+  hash,
+  Keypair,
+  Operation,
+  TransactionBuilder,
+} from "@stellar/stellar-sdk";
+import {
+  createSimulatorContext,
+  SIMULATOR_PASSPHRASE,
+} from "../../../infrastructure/simulator/simulated-horizon.ts";
+import { LedgerSimulator } from "../../../infrastructure/simulator/ledger-simulator.ts";
+import type { StellarContext } from "../../../infrastructure/context/stellar-context.ts";
+import {
+  buildTransaction,
+  submitSignedTransaction,
+  submitTransaction,
+} from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import {
+  OperationFailedError,
+  StellarSubmissionError,
+} from "../../../infrastructure/transaction/submission-error.ts";
+import initalizeWithFriendbot from "../account/initialize-with-friendbot.ts";
+import {
+  configureMultisig,
+  configureSigners,
+  createHashLockedEscrow,
+  makeMultisigPayment,
+  refundEscrow,
+  releaseEscrow,
+  removeMultisigSigner,
+  signedPayloadSigner,
+  submitWithExtraSignatures,
+} from "./multisig.ts";
+
+const newSimulatorContext = () =>
+  createSimulatorContext(new LedgerSimulator(SIMULATOR_PASSPHRASE));
+
+async function fundedKeypair(context: StellarContext) {
+  const keypair = Keypair.random();
+  await initalizeWithFriendbot(keypair.publicKey(), context);
+  return keypair;
+}
+
+async function nativeBalance(accountId: string, context: StellarContext) {
+  const account = await context.horizon.loadAccount(accountId);
+  return Number(
+    account.balances.find(({ asset_type }) => asset_type === "native")!
+      .balance,
+  );
+}
+
+// Creates an escrow of 50 XLM locked by the hash of a secret, refunded
+// after the deadline, in an hour by default
+async function setUpEscrow(
+  context: StellarContext,
+  deadline = new Date(Date.now() + 60 * 60 * 1000),
+) {
+  const depositor = await fundedKeypair(context);
+  const recipient = await fundedKeypair(context);
+  const secret = Buffer.from("the secret of the escrow");
+  const escrow = await createHashLockedEscrow(
+    depositor,
+    recipient.publicKey(),
+    "50",
+    hash(secret),
+    deadline,
+    context,
+  );
+  return { depositor, recipient, secret, escrow };
+}
+
+// Returns whether a promise fails with the transaction code
+const rejectsWith = (promise: Promise<unknown>, transactionCode: string) =>
+  assert.rejects(
+    promise,
+    (e) =>
+      e instanceof StellarSubmissionError &&
+      e.transactionCode === transactionCode,
+  );
+
+// Returns whether a promise fails with the code of its first operation
+const failsWith = (promise: Promise<unknown>, operationCode: string) =>
+  assert.rejects(
+    promise,
+    (e) =>
+      e instanceof OperationFailedError &&
+      e.operationCodes[0] === operationCode,
+  );
+
+Deno.test("the signers of a multisig account must reach the thresholds", async () => {
+  const context = newSimulatorContext();
+  const primary = await fundedKeypair(context);
+  const destination = await fundedKeypair(context);
+  const signer1 = Keypair.random();
+  const signer2 = Keypair.random();
+  await configureMultisig(primary, signer1, signer2, context);
+  const before = await nativeBalance(destination.publicKey(), context);
+
+  // Payments need a weight of 2, which the first signer does not have
+  await failsWith(
+    makeMultisigPayment(
+      primary,
+      destination.publicKey(),
+      "10",
+      [signer1],
+      context,
+    ),
+    "op_bad_auth",
+  );
+  await makeMultisigPayment(
+    primary,
+    destination.publicKey(),
+    "10",
+    [signer2],
+    context,
+  );
+  assert.equal(
+    await nativeBalance(destination.publicKey(), context),
+    before + 10,
+  );
+
+  // Signatures that are not needed are rejected
+  await rejectsWith(
+    makeMultisigPayment(
+      primary,
+      destination.publicKey(),
+      "10",
+      [signer2, Keypair.random()],
+      context,
+    ),
+    "tx_bad_auth_extra",
+  );
+
+  // Removing a signer needs a weight of 3
+  await failsWith(
+    removeMultisigSigner(primary, signer1.publicKey(), [signer2], context),
+    "op_bad_auth",
+  );
+  await removeMultisigSigner(
+    primary,
+    signer1.publicKey(),
+    [primary, signer2],
+    context,
+  );
+  const account = await context.horizon.loadAccount(primary.publicKey());
+  assert.deepEqual(
+    account.signers.map(({ key }) => key).sort(),
+    [primary.publicKey(), signer2.publicKey()].sort(),
+  );
+});
+
+Deno.test("an escrow is released to its recipient with the secret", async () => {
+  const context = newSimulatorContext();
+  const { recipient, secret, escrow } = await setUpEscrow(context);
+  const before = await nativeBalance(recipient.publicKey(), context);
+
+  await rejectsWith(
+    releaseEscrow(escrow, recipient, Buffer.from("not the secret"), context),
+    "tx_bad_auth",
+  );
+  await releaseEscrow(escrow, recipient, secret, context);
+
+  assert.ok(await nativeBalance(recipient.publicKey(), context) > before + 49);
+  await assert.rejects(context.horizon.loadAccount(escrow.escrowId));
+});
+
+Deno.test("a release cannot be redirected to another account", async () => {
+  const context = newSimulatorContext();
+  const { depositor, recipient, secret, escrow } = await setUpEscrow(context);
+  const attacker = await fundedKeypair(context);
+
+  // A release seen before it is included, e.g. pending or failed
+  const release = await buildTransaction({
+    source: escrow.escrowId,
+    operations: [
+      Operation.accountMerge({ destination: recipient.publicKey() }),
+    ],
+    signers: [recipient],
+  }, context);
+  release.signHashX(secret);
+
+  // Its signatures on the same merge to the attacker
+  const redirected = new TransactionBuilder(
+    new Account(
+      escrow.escrowId,
+      (BigInt(release.sequence) - 1n).toString(),
+    ),
+    { fee: release.fee, networkPassphrase: SIMULATOR_PASSPHRASE },
+  )
+    .addOperation(
+      Operation.accountMerge({ destination: attacker.publicKey() }),
+    )
+    .setTimeout(0)
+    .build();
+  release.signatures.forEach((signature) =>
+    redirected.addDecoratedSignature(signature)
+  );
+  await rejectsWith(
+    submitSignedTransaction(redirected, context),
+    "tx_bad_auth",
+  );
+
+  // The depositor knows the secret, but cannot sign for the recipient
+  const toDepositor = await buildTransaction({
+    source: escrow.escrowId,
+    operations: [
+      Operation.accountMerge({ destination: depositor.publicKey() }),
+    ],
+    signers: [depositor],
+  }, context);
+  toDepositor.signHashX(secret);
+  await rejectsWith(
+    submitSignedTransaction(toDepositor, context),
+    "tx_bad_auth",
+  );
+
+  await submitSignedTransaction(release, context);
+  await assert.rejects(context.horizon.loadAccount(escrow.escrowId));
+});
+
+Deno.test("an escrow is refunded to its depositor after the deadline", async () => {
+  const context = newSimulatorContext();
+  const deadline = new Date(Date.now() + 2000);
+  const { depositor, recipient, secret, escrow } = await setUpEscrow(
+    context,
+    deadline,
+  );
+
+  await rejectsWith(refundEscrow(escrow, context), "tx_too_early");
+  await new Promise((resolve) =>
+    setTimeout(resolve, deadline.getTime() - Date.now())
+  );
+  const before = await nativeBalance(depositor.publicKey(), context);
+  await refundEscrow(escrow, context);
+
+  assert.ok(await nativeBalance(depositor.publicKey(), context) > before + 49);
+  // The refund merged the escrow account, so it cannot be released anymore
+  await assert.rejects(context.horizon.loadAccount(escrow.escrowId));
+  await assert.rejects(releaseEscrow(escrow, recipient, secret, context));
+});
+
+Deno.test("a signed payload approval is used once by the payment removing it", async () => {
+  const context = newSimulatorContext();
+  const owner = await fundedKeypair(context);
+  const destination = await fundedKeypair(context);
+  const cosigner = Keypair.random();
+  const terms = hash(Buffer.from("Pay 10 XLM"));
+  const approvalSigner = signedPayloadSigner(cosigner.publicKey(), terms);
+  await configureSigners(
+    owner,
+    [{ signer: approvalSigner, weight: 1 }],
+    { medThreshold: 2, highThreshold: 2 },
+    context,
+  );
+  const payment = Operation.payment({
+    destination: destination.publicKey(),
+    asset: Asset.native(),
+    amount: "10",
+  });
+  const approval = { signedPayloads: [{ keypair: cosigner, payload: terms }] };
+
+  await rejectsWith(
+    submitTransaction({
+      source: owner.publicKey(),
+      operations: [payment],
+      signers: [owner],
+    }, context),
+    "tx_failed",
+  );
+  await submitWithExtraSignatures(
+    {
+      source: owner.publicKey(),
+      operations: [
+        payment,
+        Operation.setOptions({ signer: { ...approvalSigner, weight: 0 } }),
+      ],
+      signers: [owner],
+    },
+    approval,
+    context,
+  );
+
+  // The signer is gone, so the approval no longer counts
+  const account = await context.horizon.loadAccount(owner.publicKey());
+  assert.deepEqual(account.signers.map(({ key }) => key), [owner.publicKey()]);
+  await rejectsWith(
+    submitWithExtraSignatures(
+      {
+        source: owner.publicKey(),
+        operations: [payment],
+        signers: [owner],
+      },
+      approval,
+      context,
+    ),
+    "tx_failed",
+  );
+});
@@ -29,35 +29,74 @@
     - Additional signers to a transaction that are not directly related to
       the underlying operations will invalidate the envelope".
 
+    Besides ed25519 keys, an account can have signers that are not keypairs:
+    - preAuthTx: the hash of a transaction built in advance, e.g. with a
+      future sequence number. Once registered, the transaction can be
+      submitted by anyone, without signatures. The signer is removed when
+      the transaction is applied.
+    - sha256Hash (hash(x)): the hash of a secret. Revealing the secret, as
+      a signature of the transaction, provides the weight of the signer. The
+      secret becomes public once submitted.
+    - ed25519SignedPayload (CAP-40): an ed25519 key and a payload of up to
+      64 bytes. The signature of the payload provides the weight of the
+      signer, and is published with the transaction. Unlike the signature
+      of a transaction, it is valid for any transaction of the account
+      until the signer is removed, whatever the payload is.
+
+    The hash-locked escrow combines them: the funds are released to the
+    recipient when it reveals the secret and signs the release, or returned
+    to the depositor by a pre-authorized transaction once the deadline has
+    passed.
 */
 
 import chalk from "chalk";
+import { Buffer } from "node:buffer";
 import {
+  Account,
   Asset,
+  hash,
   Keypair,
-  Networks,
   Operation,
+  type SignerKeyOptions,
+  StrKey,
+  type Transaction,
   TransactionBuilder,
+  xdr,
 } from "@stellar/stellar-sdk";
-import { HORIZON } from "../../../infrastructure/horizon/get-horizon-server.ts";
+import {
+  buildTransaction,
+  loadSourceAccount,
+  resetSequence,
+  submitSignedTransaction,
+  submitTransaction,
+  submitWithRecovery,
+  type TransactionPipelineResult,
+  type TransactionRequest,
+} from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import { estimateFee } from "../../../infrastructure/transaction/fee-policy.ts";
+import { StellarSubmissionError } from "../../../infrastructure/transaction/submission-error.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
 import { logHashLink } from "../../../utils/logHashLink.ts";
 import generateKeypair from "../account/generate-keypair.ts";
 import initalizeWithFriendbot from "../account/initialize-with-friendbot.ts";
+import { logExplorerLink } from "../../../utils/explorerLinks.ts";
 
 // This function configures multiple signers and thresholds for an account
 export async function configureMultisig(
   primaryKeypair: Keypair,
   signer1Keypair: Keypair,
   signer2Keypair: Keypair,
-) {
-  console.log(
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  context.logger.info(
     `Configuring multisig for account ${
       chalk.blue(primaryKeypair.publicKey())
     }...`,
   );
 
-  const loadedAccount = await HORIZON.loadAccount(primaryKeypair.publicKey());
-
   // Set up thresholds and add signers with different weights
   // The setOptions operation is used to configure this and
   // other account settings.
@@ -91,22 +130,23 @@ export async function configureMultisig(
     source: primaryKeypair.publicKey(),
   });
 
-  const tx = new TransactionBuilder(loadedAccount, {
-    fee: "1000",
-    networkPassphrase: Networks.TESTNET,
-  })
-    .addOperation(setOptionsOperation)
-    .addOperation(addSecondSignerOperation)
-    .setTimeout(30)
-    .build();
-
-  // Sign with the master key
-  tx.sign(primaryKeypair);
-
-  console.log(`Submitting multisig configuration...`);
-  const result = await HORIZON.submitTransaction(tx);
-  console.log(chalk.green(`Multisig configured successfully!`));
-  logHashLink(result.hash);
+  context.logger.info(`Submitting multisig configuration...`);
+  const result = await submitTransaction({
+    source: primaryKeypair.publicKey(),
+    operations: [setOptionsOperation, addSecondSignerOperation],
+    // Sign with the master key
+    signers: [primaryKeypair],
+  }, context);
+  context.logger.info(chalk.green(`Multisig configured successfully!`));
+  logHashLink(result.hash, context);
+  logExplorerLink(
+    "account",
+    primaryKeypair.publicKey(),
+    "Multisig account",
+    context,
+  );
+
+  return result;
 }
 
 // Generic function to make a payment with provided signers
@@ -114,10 +154,9 @@ export async function makeMultisigPayment(
   sourceKeypair: Keypair,
   destinationPublicKey: string,
   amount: string,
-  ...signers: Keypair[]
-) {
-  const loadedAccount = await HORIZON.loadAccount(sourceKeypair.publicKey());
-
+  signers: Keypair[],
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
   const paymentOperation = Operation.payment({
     destination: destinationPublicKey,
     asset: Asset.native(),
@@ -125,18 +164,12 @@ export async function makeMultisigPayment(
     source: sourceKeypair.publicKey(),
   });
 
-  const tx = new TransactionBuilder(loadedAccount, {
-    fee: "1000",
-    networkPassphrase: Networks.TESTNET,
-  })
-    .addOperation(paymentOperation)
-    .setTimeout(30)
-    .build();
-
-  // Sign with all provided signers
-  signers.forEach((signer) => tx.sign(signer));
-
-  return await HORIZON.submitTransaction(tx);
+  return await submitTransaction({
+    source: sourceKeypair.publicKey(),
+    operations: [paymentOperation],
+    // Sign with all provided signers
+    signers: signers,
+  }, context);
 }
 
 // Generic function to remove a signer with provided signers
@@ -149,14 +182,13 @@ export async function makeMultisigPayment(
 export async function removeMultisigSigner(
   sourceKeypair: Keypair,
   signerToRemove: string,
-  ...signers: Keypair[]
-) {
-  console.log(
+  signers: Keypair[],
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  context.logger.info(
     `Removing signer ${signerToRemove} from multisig account ${sourceKeypair.publicKey()}...`,
   );
 
-  const loadedAccount = await HORIZON.loadAccount(sourceKeypair.publicKey());
-
   const removeSignerOperation = Operation.setOptions({
     signer: {
       ed25519PublicKey: signerToRemove,
@@ -165,118 +197,448 @@ export async function removeMultisigSigner(
     source: sourceKeypair.publicKey(),
   });
 
-  const tx = new TransactionBuilder(loadedAccount, {
-    fee: "1000",
-    networkPassphrase: Networks.TESTNET,
-  })
-    .addOperation(removeSignerOperation)
-    .setTimeout(30)
-    .build();
+  return await submitTransaction({
+    source: sourceKeypair.publicKey(),
+    operations: [removeSignerOperation],
+    // Sign with all provided signers
+    signers: signers,
+  }, context);
+}
+
+export interface WeightedSigner {
+  signer: SignerKeyOptions;
+  // Weight of the signer, or 0 to remove it
+  weight: number;
+}
+
+export interface AccountThresholds {
+  masterWeight: number;
+  lowThreshold: number;
+  medThreshold: number;
+  highThreshold: number;
+}
+
+// Signatures that are not made with the keypairs of a transaction request
+export interface ExtraSignatures {
+  // Secrets of hash(x) signers
+  preimages?: Buffer[];
+  // Payloads signed for signed payload signers
+  signedPayloads?: { keypair: Keypair; payload: Buffer }[];
+}
+
+// This function returns the hash(x) signer of a secret: its SHA-256 hash.
+export function hashXSigner(preimage: Buffer): SignerKeyOptions {
+  return { sha256Hash: hash(preimage) };
+}
+
+// This function returns the signer pre-authorizing a transaction: its hash.
+export function preAuthTxSigner(tx: Transaction): SignerKeyOptions {
+  return { preAuthTx: tx.hash() };
+}
+
+// This function returns the signer of a payload signed by an ed25519 key.
+// Anyone who sees the signature of the payload can reuse it in another
+// transaction of the account, until the signer is removed.
+//
+// Args:
+// - publicKey: The key signing the payload
+// - payload: Up to 64 bytes, e.g. a hash
+export function signedPayloadSigner(
+  publicKey: string,
+  payload: Buffer,
+): SignerKeyOptions {
+  const signedPayload = new xdr.SignerKeyEd25519SignedPayload({
+    ed25519: StrKey.decodeEd25519PublicKey(publicKey),
+    payload,
+  });
+  return {
+    ed25519SignedPayload: StrKey.encodeSignedPayload(signedPayload.toXDR()),
+  };
+}
+
+// This function adds, updates or removes signers of any type, and sets the
+// master weight and thresholds, in a single transaction signed by the
+// account.
+//
+// Args:
+// - accountKeypair: The account to configure
+// - signers: The signers and their weights
+// - thresholds: The master weight and thresholds to change, e.g.
+//   { masterWeight: 0 } so the master key can no longer sign
+export async function configureSigners(
+  accountKeypair: Keypair,
+  signers: WeightedSigner[],
+  thresholds: Partial<AccountThresholds> = {},
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  context.logger.info(
+    `Configuring ${signers.length} signers of ${
+      chalk.blue(accountKeypair.publicKey())
+    }...`,
+  );
+
+  // There is only one signer per setOptions operation, and the thresholds
+  // are set last, so the master key can still sign for the signers
+  const operations = signers.map(({ signer, weight }) =>
+    Operation.setOptions({ signer: { ...signer, weight } })
+  );
+  if (Object.keys(thresholds).length) {
+    operations.push(Operation.setOptions(thresholds));
+  }
+  const result = await submitTransaction({
+    source: accountKeypair.publicKey(),
+    operations,
+    signers: [accountKeypair],
+  }, context);
+  logHashLink(result.hash, context);
+  return result;
+}
+
+// This function builds a transaction to be pre-authorized, without
+// signing it. Its sequence number comes after the transactions the source
+// account submits before it, e.g. the one adding it as a signer.
+//
+// Args:
+// - request: The source and operations of the transaction
+// - transactionsBefore: The number of transactions the source account
+//   submits before this one
+// - minTime: The time before which the transaction cannot be included.
+//   The transaction never expires.
+export async function buildPreAuthorizedTransaction(
+  request: Omit<TransactionRequest, "signers" | "timeout">,
+  transactionsBefore = 1,
+  minTime?: Date,
+  context: StellarContext = defaultContext(),
+): Promise<Transaction> {
+  const fee = request.fee ?? await estimateFee(context);
+  const sourceAccount = await loadSourceAccount(request.source, context);
+  // A copy, so the tracked sequence number is left unchanged
+  const futureAccount = new Account(
+    request.source,
+    (BigInt(sourceAccount.sequenceNumber()) + BigInt(transactionsBefore))
+      .toString(),
+  );
+
+  const builder = new TransactionBuilder(futureAccount, {
+    fee,
+    networkPassphrase: context.network.networkPassphrase,
+    timebounds: {
+      minTime: minTime ? Math.floor(minTime.getTime() / 1000) : 0,
+      maxTime: 0,
+    },
+  });
+  request.operations.forEach((operation) => builder.addOperation(operation));
+  return builder.build();
+}
+
+// This function submits a pre-authorized transaction, which needs no
+// signature.
+export async function submitPreAuthorizedTransaction(
+  tx: Transaction,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  context.logger.info(
+    `Submitting pre-authorized transaction ${
+      chalk.blue(tx.hash().toString("hex"))
+    }...`,
+  );
+  const result = await submitSignedTransaction(tx, context);
+  // The transaction was not built by the pipeline, so the tracked
+  // sequence number is behind
+  resetSequence(tx.source, context);
+  logHashLink(result.hash, context);
+  return result;
+}
+
+// This function submits a transaction signed by keypairs and by signers
+// that are not keypairs: the secrets of hash(x) signers and the signed
+// payloads.
+//
+// Args:
+// - request: The transaction, with the keypairs signing it, if any
+// - signatures: The other signatures
+export async function submitWithExtraSignatures(
+  request: TransactionRequest,
+  signatures: ExtraSignatures,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  const tx = await buildTransaction(request, context);
+  for (const preimage of signatures.preimages ?? []) {
+    tx.signHashX(preimage);
+  }
+  for (const { keypair, payload } of signatures.signedPayloads ?? []) {
+    tx.addDecoratedSignature(keypair.signPayloadDecorated(payload));
+  }
+  const result = await submitWithRecovery(tx, context);
+  logHashLink(result.hash, context);
+  return result;
+}
+
+export interface HashLockedEscrow {
+  escrowId: string;
+  depositor: string;
+  recipient: string;
+  // SHA-256 hash of the secret releasing the funds
+  hashLock: Buffer;
+  // Time after which the funds can be returned to the depositor
+  deadline: Date;
+  // Transaction returning the funds to the depositor, pre-authorized by
+  // the escrow account
+  refundTransaction: Transaction;
+}
+
+// This function locks XLM in a new escrow account, which can only be:
+// - released to the recipient, with the secret of the hash lock and the
+//   signature of the recipient
+// - or returned to the depositor after the deadline, by the pre-authorized
+//   refund transaction
+//
+// Both merge the escrow account and use the same sequence number, so only
+// one of them can ever succeed. The master key of the escrow account is
+// disabled.
+//
+// The recipient is an ed25519 signer, whose signature covers the hash of
+// the release transaction. Once the secret is public, e.g. after a failed
+// release, the release still cannot be redirected to another account.
+//
+// Args:
+// - depositorKeypair: The account funding the escrow
+// - recipient: The account receiving the funds
+// - amount: The XLM locked, at least 2.5XLM for the reserves of the escrow
+//   account and its 3 signers
+// - hashLock: The SHA-256 hash of the secret
+// - deadline: The time after which the depositor can get the funds back
+export async function createHashLockedEscrow(
+  depositorKeypair: Keypair,
+  recipient: string,
+  amount: string,
+  hashLock: Buffer,
+  deadline: Date,
+  context: StellarContext = defaultContext(),
+): Promise<HashLockedEscrow> {
+  const escrowKeypair = await generateKeypair();
+  const escrowId = escrowKeypair.publicKey();
+  context.logger.info(
+    `Locking ${chalk.green(amount)} XLM in escrow ${
+      chalk.blue(escrowId)
+    } until ${deadline.toISOString()}...`,
+  );
+  const created = await submitTransaction({
+    source: depositorKeypair.publicKey(),
+    operations: [
+      Operation.createAccount({
+        destination: escrowId,
+        startingBalance: amount,
+      }),
+    ],
+    signers: [depositorKeypair],
+  }, context);
+  logHashLink(created.hash, context);
+
+  // The refund comes after the transaction configuring the signers
+  const refundTransaction = await buildPreAuthorizedTransaction(
+    {
+      source: escrowId,
+      operations: [
+        Operation.accountMerge({ destination: depositorKeypair.publicKey() }),
+      ],
+    },
+    1,
+    deadline,
+    context,
+  );
+
+  // The secret and the recipient together, or the refund alone, reach the
+  // thresholds
+  await configureSigners(escrowKeypair, [
+    { signer: { sha256Hash: hashLock }, weight: 1 },
+    { signer: { ed25519PublicKey: recipient }, weight: 1 },
+    { signer: preAuthTxSigner(refundTransaction), weight: 2 },
+  ], {
+    masterWeight: 0,
+    lowThreshold: 2,
+    medThreshold: 2,
+    highThreshold: 2,
+  }, context);
+
+  return {
+    escrowId,
+    depositor: depositorKeypair.publicKey(),
+    recipient,
+    hashLock,
+    deadline,
+    refundTransaction,
+  };
+}
+
+// This function releases the funds of an escrow to its recipient. The
+// secret is revealed in the transaction, which is signed by the recipient.
+//
+// Args:
+// - escrow: The escrow to release
+// - recipientKeypair: The recipient of the escrow
+// - preimage: The secret whose hash is the hash lock
+export async function releaseEscrow(
+  escrow: HashLockedEscrow,
+  recipientKeypair: Keypair,
+  preimage: Buffer,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  context.logger.info(
+    `Releasing escrow ${chalk.blue(escrow.escrowId)} to ${
+      chalk.green(recipientKeypair.publicKey())
+    }...`,
+  );
+  const result = await submitWithExtraSignatures(
+    {
+      source: escrow.escrowId,
+      operations: [
+        Operation.accountMerge({ destination: recipientKeypair.publicKey() }),
+      ],
+      signers: [recipientKeypair],
+    },
+    { preimages: [preimage] },
+    context,
+  );
+  // The escrow account no longer exists
+  resetSequence(escrow.escrowId, context);
+  return result;
+}
 
-  // Sign with all provided signers
-  signers.forEach((signer) => tx.sign(signer));
+// This function returns the funds of an escrow to its depositor, once its
+// deadline has passed. Fails with tx_too_early before.
+export async function refundEscrow(
+  escrow: HashLockedEscrow,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  context.logger.info(
+    `Refunding escrow ${chalk.blue(escrow.escrowId)} to ${
+      chalk.green(escrow.depositor)
+    }...`,
+  );
+  return await submitPreAuthorizedTransaction(
+    escrow.refundTransaction,
+    context,
+  );
+}
 
-  return await HORIZON.submitTransaction(tx);
+// Logs the decoded reason of a failure expected by the demonstration.
+// Errors that were not caused by the network rejecting the transaction
+// are unexpected and are rethrown.
+function logExpectedError(e: unknown, context: StellarContext) {
+  if (!(e instanceof StellarSubmissionError)) {
+    throw e;
+  }
+  context.logger.warn(chalk.red(`Expected error: ${e.message}`));
 }
 
 // Main demonstration script
-export default async function demonstrateMultisig() {
+export default async function demonstrateMultisig(
+  context: StellarContext = defaultContext(),
+) {
   try {
-    console.log(chalk.bgCyan`Creating and initializing primary account...`);
+    context.logger.info(
+      chalk.bgCyan`Creating and initializing primary account...`,
+    );
     const primaryKeypair = await generateKeypair();
-    await initalizeWithFriendbot(primaryKeypair.publicKey());
+    await initalizeWithFriendbot(primaryKeypair.publicKey(), context);
 
-    console.log(chalk.bgCyan`Generating additional signer accounts...`);
+    context.logger.info(chalk.bgCyan`Generating additional signer accounts...`);
     const signer1Keypair = await generateKeypair(); // weight 1
     const signer2Keypair = await generateKeypair(); // weight 2
 
-    console.log(chalk.bgCyan`Configuring multisig setup...`);
-    await configureMultisig(primaryKeypair, signer1Keypair, signer2Keypair);
+    context.logger.info(chalk.bgCyan`Configuring multisig setup...`);
+    await configureMultisig(
+      primaryKeypair,
+      signer1Keypair,
+      signer2Keypair,
+      context,
+    );
 
     // Create a destination account for payment demonstration
-    console.log(chalk.bgCyan`Creating destination account...`);
+    context.logger.info(chalk.bgCyan`Creating destination account...`);
     const destinationKeypair = await generateKeypair();
-    await initalizeWithFriendbot(destinationKeypair.publicKey());
+    await initalizeWithFriendbot(destinationKeypair.publicKey(), context);
 
     // Demonstrate medium threshold (2) payment scenarios
-    console.log(
+    context.logger.info(
       `\nDemonstrating payment scenarios requiring medium threshold (2)...`,
     );
 
     // Try with just weight 1 signer
     try {
-      console.log(
+      context.logger.info(
         chalk.yellow(`Attempting payment with just weight 1 signer...`),
       );
       await makeMultisigPayment(
         primaryKeypair,
         destinationKeypair.publicKey(),
         "100",
-        signer1Keypair, // weight 1
+        [signer1Keypair], // weight 1
+        context,
       );
     } catch (e) {
-      console.log(
-        chalk.red(
-          `Expected error: Payment failed - insufficient signatures (weight 1 < threshold 2)`,
-        ),
-      );
+      logExpectedError(e, context);
     }
 
     // Try with weight 2 signer
     try {
-      console.log(
+      context.logger.info(
         chalk.yellow(`\nAttempting payment with just weight 2 signer...`),
       );
       const result = await makeMultisigPayment(
         primaryKeypair,
         destinationKeypair.publicKey(),
         "100",
-        signer2Keypair, // weight 2
+        [signer2Keypair], // weight 2
+        context,
+      );
+      context.logger.info(
+        chalk.green(`Payment successful with weight 2 signer!`),
       );
-      console.log(chalk.green(`Payment successful with weight 2 signer!`));
-      logHashLink(result.hash);
+      logHashLink(result.hash, context);
     } catch (e) {
-      console.error(chalk.red(`Unexpected error: ${e}`));
+      context.logger.error(chalk.red(`Unexpected error: ${e}`));
     }
 
     // Demonstrate high threshold (3) scenarios
-    console.log(`\nDemonstrating high threshold (3) operation scenarios...`);
+    context.logger.info(
+      `\nDemonstrating high threshold (3) operation scenarios...`,
+    );
 
     // Try with just weight 1 signer
     try {
-      console.log(chalk.yellow(`Attempting with just weight 1 signer...`));
+      context.logger.info(
+        chalk.yellow(`Attempting with just weight 1 signer...`),
+      );
       await removeMultisigSigner(
         primaryKeypair,
         signer1Keypair.publicKey(),
-        primaryKeypair, // weight 1
+        [primaryKeypair], // weight 1
+        context,
       );
     } catch (e) {
-      console.log(
-        chalk.red(
-          `Expected error: Operation failed - insufficient signatures (weight 1 < threshold 3)`,
-        ),
-      );
+      logExpectedError(e, context);
     }
 
     // Try with just weight 2 signer
     try {
-      console.log(chalk.yellow(`\nAttempting with just weight 2 signer...`));
+      context.logger.info(
+        chalk.yellow(`\nAttempting with just weight 2 signer...`),
+      );
       await removeMultisigSigner(
         primaryKeypair,
         signer1Keypair.publicKey(),
-        signer2Keypair, // weight 2
+        [signer2Keypair], // weight 2
+        context,
       );
     } catch (e) {
-      console.log(
-        chalk.red(
-          `Expected error: Operation failed - insufficient signatures (weight 2 < threshold 3)`,
-        ),
-      );
+      logExpectedError(e, context);
     }
 
     // Try with weight 1 + weight 2 signers combined
     try {
-      console.log(
+      context.logger.info(
         chalk.yellow(
           `\nAttempting with weight 1 + weight 2 signers combined...`,
         ),
@@ -284,21 +646,210 @@ export default async function demonstrateMultisig() {
       const result = await removeMultisigSigner(
         primaryKeypair,
         signer1Keypair.publicKey(),
-        primaryKeypair, // weight 1
-        signer2Keypair, // weight 2
+        [primaryKeypair, signer2Keypair], // weight 1 + weight 2
+        context,
       );
-      console.log(
+      context.logger.info(
         chalk.green(`Operation successful with combined weight 3 signatures!`),
       );
-      logHashLink(result.hash);
+      logHashLink(result.hash, context);
     } catch (e) {
-      console.error(chalk.red(`Unexpected error: ${e}`));
+      context.logger.error(chalk.red(`Unexpected error: ${e}`));
     }
   } catch (e) {
-    console.error(chalk.red(`Error in demonstration: ${e}`));
+    context.logger.error(chalk.red(`Error in demonstration: ${e}`));
   }
 }
 
+// Random 32 bytes, the secret of a hash lock
+const newSecret = () => Buffer.from(crypto.getRandomValues(new Uint8Array(32)));
+
+// Demonstrates a hash-locked escrow released with its secret, and another
+// one refunded after its deadline
+export async function demonstrateEscrow(
+  context: StellarContext = defaultContext(),
+) {
+  context.logger.info(
+    chalk.bgCyan`Creating and initializing depositor and recipient...`,
+  );
+  const depositorKeypair = await generateKeypair();
+  await initalizeWithFriendbot(depositorKeypair.publicKey(), context);
+  const recipientKeypair = await generateKeypair();
+  await initalizeWithFriendbot(recipientKeypair.publicKey(), context);
+
+  // Each escrow has its own secret: a secret revealed by a release is
+  // public, and would release any other escrow locked by the same hash
+  const secret = newSecret();
+  const hashLock = hash(secret);
+  context.logger.info(`Hash lock: ${chalk.green(hashLock.toString("hex"))}`);
+
+  context.logger.info(
+    chalk.bgCyan`Creating an escrow released by the secret...`,
+  );
+  const escrow = await createHashLockedEscrow(
+    depositorKeypair,
+    recipientKeypair.publicKey(),
+    "50",
+    hashLock,
+    new Date(Date.now() + 60 * 60 * 1000),
+    context,
+  );
+
+  context.logger.info(
+    chalk.yellow(`\nAttempting the refund before the deadline...`),
+  );
+  try {
+    await refundEscrow(escrow, context);
+  } catch (e) {
+    logExpectedError(e, context);
+  }
+
+  context.logger.info(
+    chalk.yellow(`\nAttempting a release with a wrong secret...`),
+  );
+  try {
+    await releaseEscrow(
+      escrow,
+      recipientKeypair,
+      Buffer.from("not the secret"),
+      context,
+    );
+  } catch (e) {
+    logExpectedError(e, context);
+  }
+
+  context.logger.info(chalk.yellow(`\nReleasing with the secret...`));
+  await releaseEscrow(escrow, recipientKeypair, secret, context);
+  context.logger.info(chalk.green(`Escrow released to the recipient!`));
+
+  context.logger.info(
+    chalk.yellow(`\nAttempting the refund after the release...`),
+  );
+  try {
+    await refundEscrow(escrow, context);
+  } catch (e) {
+    logExpectedError(e, context);
+  }
+
+  context.logger.info(
+    chalk.bgCyan`Creating an escrow refunded after its deadline...`,
+  );
+  const deadline = new Date(Date.now() + 5_000);
+  const expiring = await createHashLockedEscrow(
+    depositorKeypair,
+    recipientKeypair.publicKey(),
+    "50",
+    hash(newSecret()),
+    deadline,
+    context,
+  );
+  // The deadline is checked against the close time of the next ledger
+  context.logger.info(`Waiting for the deadline...`);
+  await new Promise((resolve) =>
+    setTimeout(resolve, deadline.getTime() - Date.now() + 5_000)
+  );
+  await refundEscrow(expiring, context);
+  context.logger.info(chalk.green(`Escrow refunded to the depositor!`));
+  logExplorerLink(
+    "account",
+    depositorKeypair.publicKey(),
+    "Depositor",
+    context,
+  );
+}
+
+// Demonstrates a signed payload signer (CAP-40): a payment of an account
+// needs the approval of a cosigner, who signs the terms of the payment
+// instead of the transaction. The signature of the terms is published with
+// the transaction, so anyone can check what the cosigner approved.
+//
+// The network does not check that the transaction matches the terms, and
+// the signature would be valid for any transaction of the account. So the
+// approved payment also removes the signer: the approval is used once.
+export async function demonstrateSignedPayload(
+  context: StellarContext = defaultContext(),
+) {
+  context.logger.info(
+    chalk.bgCyan`Creating and initializing owner and destination...`,
+  );
+  const ownerKeypair = await generateKeypair();
+  await initalizeWithFriendbot(ownerKeypair.publicKey(), context);
+  const destinationKeypair = await generateKeypair();
+  await initalizeWithFriendbot(destinationKeypair.publicKey(), context);
+  const cosignerKeypair = await generateKeypair();
+
+  const terms = hash(
+    Buffer.from(`Pay 10 XLM to ${destinationKeypair.publicKey()}`),
+  );
+  const approvalSigner = signedPayloadSigner(
+    cosignerKeypair.publicKey(),
+    terms,
+  );
+
+  context.logger.info(
+    chalk.bgCyan`Adding the cosigner's approval of the terms as a signer...`,
+  );
+  await configureSigners(
+    ownerKeypair,
+    [
+      { signer: approvalSigner, weight: 1 },
+    ],
+    { medThreshold: 2, highThreshold: 2 },
+    context,
+  );
+
+  const payment = {
+    source: ownerKeypair.publicKey(),
+    operations: [
+      Operation.payment({
+        destination: destinationKeypair.publicKey(),
+        asset: Asset.native(),
+        amount: "10",
+      }),
+      Operation.setOptions({ signer: { ...approvalSigner, weight: 0 } }),
+    ],
+    signers: [ownerKeypair],
+  };
+  const approval = { keypair: cosignerKeypair, payload: terms };
+
+  context.logger.info(
+    chalk.yellow(`\nAttempting the payment without the approval...`),
+  );
+  try {
+    await submitTransaction(payment, context);
+  } catch (e) {
+    logExpectedError(e, context);
+  }
+
+  context.logger.info(chalk.yellow(`\nSubmitting the approved payment...`));
+  await submitWithExtraSignatures(
+    payment,
+    { signedPayloads: [approval] },
+    context,
+  );
+  context.logger.info(chalk.green(`Payment approved by the cosigner!`));
+
+  context.logger.info(
+    chalk.yellow(`\nAttempting to reuse the approval...`),
+  );
+  try {
+    await submitWithExtraSignatures(
+      { ...payment, operations: payment.operations.slice(0, 1) },
+      { signedPayloads: [approval] },
+      context,
+    );
+  } catch (e) {
+    logExpectedError(e, context);
+  }
+}
+
+// e.g. deno task multisig, deno task escrow or deno task signed-payload
 if (import.meta.main) {
-  demonstrateMultisig();
+  if (Deno.args[0] === "escrow") {
+    await demonstrateEscrow();
+  } else if (Deno.args[0] === "signed-payload") {
+    await demonstrateSignedPayload();
+  } else {
+    await demonstrateMultisig();
+  }
 }
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { Keypair, Operation } from "@stellar/stellar-sdk";
+import { LedgerSimulator } from "../../../infrastructure/simulator/ledger-simulator.ts";
+import {
+  createSimulatorContext,
+  SIMULATOR_PASSPHRASE,
+} from "../../../infrastructure/simulator/simulated-horizon.ts";
+import initalizeWithFriendbot from "../account/initialize-with-friendbot.ts";
+import { sponsorEntries } from "./sponsorships.ts";
+
+Deno.test("the operations without a source create entries of the sponsored account", async () => {
+  const simulator = new LedgerSimulator(SIMULATOR_PASSPHRASE);
+  const context = createSimulatorContext(simulator);
+  const sponsor = Keypair.random();
+  const account = Keypair.random();
+  await initalizeWithFriendbot(sponsor.publicKey(), context);
+  await initalizeWithFriendbot(account.publicKey(), context);
+
+  await sponsorEntries(sponsor, account, [
+    Operation.manageData({ name: "course", value: "bootcamp" }),
+  ], context);
+
+  const entry = simulator.getAccount(account.publicKey())!.data.course;
+  assert.equal(entry.sponsor, sponsor.publicKey());
+  assert.equal(simulator.getAccount(account.publicKey())!.numSponsored, 1);
+  assert.equal(simulator.getAccount(sponsor.publicKey())!.numSponsoring, 1);
+  assert.deepEqual(simulator.getAccount(sponsor.publicKey())!.data, {});
+});
@@ -0,0 +1,668 @@
+/*
+    This script manages the sponsorships of ledger entries, so an account
+    (e.g. an onboarding service) can pay the reserves of the entries of
+    other accounts.
+
+    Every entry of an account locks part of its XLM in reserve: 2 base
+    reserves for the account itself, 1 for each trustline (2 for liquidity
+    pool shares), signer, offer and data entry. A claimable balance locks 1
+    base reserve per claimant, paid by the account creating it.
+
+    An entry created between a begin_sponsoring_future_reserves operation
+    of the sponsor and an end_sponsoring_future_reserves operation of the
+    sponsored account has its reserve paid by the sponsor instead:
+
+    1. begin_sponsoring_future_reserves (source: sponsor)
+    2. change_trust, set_options, manage_data, manage_sell_offer or
+       create_claimable_balance (source: sponsored account)
+    3. end_sponsoring_future_reserves (source: sponsored account)
+
+    The transaction is signed by both accounts.
+
+    The revoke_sponsorship operation changes who pays for an existing entry:
+    - Submitted by the sponsor alone, the reserve goes back to the owner of
+      the entry, which must have enough XLM to pay for it.
+    - Submitted by the current sponsor (or by the owner of an entry that is
+      not sponsored) inside a begin/end_sponsoring_future_reserves block of
+      another account, the sponsorship is transferred to that account.
+
+    The sponsorship of a claimable balance can only be transferred, since
+    its creator may no longer exist.
+*/
+
+import chalk from "chalk";
+import {
+  Asset,
+  type Claimant,
+  type Horizon,
+  type Keypair,
+  LiquidityPoolId,
+  Operation,
+  type SignerKeyOptions,
+  StrKey,
+  type xdr,
+} from "@stellar/stellar-sdk";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
+import {
+  loadAll,
+  loadDataEntries,
+  type SignerRecord,
+} from "../../../infrastructure/horizon/get-horizon-server.ts";
+import {
+  submitTransaction,
+  type TransactionPipelineResult,
+  withSource,
+} from "../../../infrastructure/transaction/transaction-pipeline.ts";
+import { StellarSubmissionError } from "../../../infrastructure/transaction/submission-error.ts";
+import { logExplorerLink } from "../../../utils/explorerLinks.ts";
+import { logHashLink } from "../../../utils/logHashLink.ts";
+import { type DataCodec, dataEntryOperation } from "../account/manage-data.ts";
+import createSponsoredAccountWithTrustline from "../account/sponsor-account.ts";
+import generateKeypair from "../account/generate-keypair.ts";
+import initalizeWithFriendbot from "../account/initialize-with-friendbot.ts";
+
+// Entry of the ledger whose reserve can be sponsored
+export type SponsoredEntry =
+  | { type: "account"; account: string }
+  | { type: "trustline"; account: string; asset: Asset | LiquidityPoolId }
+  | { type: "signer"; account: string; signer: SignerKeyOptions }
+  | { type: "data"; account: string; name: string }
+  | { type: "offer"; seller: string; offerId: string }
+  | { type: "claimableBalance"; balanceId: string };
+
+export interface Sponsorship {
+  entry: SponsoredEntry;
+  // Account paying the reserve of the entry
+  sponsor: string;
+  // Number of base reserves paid by the sponsor
+  reserves: number;
+}
+
+export interface SponsorshipReport {
+  accountId: string;
+  // Reserves paid by the account for other accounts, and paid by other
+  // accounts for this one, as counted by the network
+  numSponsoring: number;
+  numSponsored: number;
+  // Entries of other accounts whose reserves the account pays
+  sponsoring: Sponsorship[];
+  // Entries of the account whose reserves other accounts pay
+  sponsoredBy: Sponsorship[];
+}
+
+// Offer to create with a sponsored reserve, sold at a price in units of
+// the buying asset per unit of the selling asset
+export interface SponsoredOffer {
+  selling: Asset;
+  buying: Asset;
+  amount: string;
+  price: string;
+}
+
+// Claimable balance to create with a sponsored reserve
+export interface SponsoredClaimableBalance {
+  asset: Asset;
+  amount: string;
+  claimants: Claimant[];
+}
+
+// This function converts the key of a signer into the key used by the
+// operations, e.g. T... -> { preAuthTx: <transaction hash> }
+export function signerKey(signer: SignerRecord): SignerKeyOptions {
+  switch (signer.type) {
+    case "sha256_hash":
+      return { sha256Hash: StrKey.decodeSha256Hash(signer.key) };
+    case "preauth_tx":
+      return { preAuthTx: StrKey.decodePreAuthTx(signer.key) };
+    case "ed25519_signed_payload":
+      return { ed25519SignedPayload: signer.key };
+    default:
+      return { ed25519PublicKey: signer.key };
+  }
+}
+
+// This function describes an entry for the logs, e.g. "trustline TEST of
+// G..."
+export function describeEntry(entry: SponsoredEntry): string {
+  switch (entry.type) {
+    case "account":
+      return `account ${entry.account}`;
+    case "trustline":
+      return `trustline ${
+        entry.asset instanceof Asset
+          ? entry.asset.getCode()
+          : entry.asset.getLiquidityPoolId()
+      } of ${entry.account}`;
+    case "signer": {
+      const [key] = Object.values(entry.signer);
+      return `signer ${
+        typeof key === "string" ? key : key.toString("hex")
+      } of ${entry.account}`;
+    }
+    case "data":
+      return `data entry ${entry.name} of ${entry.account}`;
+    case "offer":
+      return `offer ${entry.offerId} of ${entry.seller}`;
+    case "claimableBalance":
+      return `claimable balance ${entry.balanceId}`;
+  }
+}
+
+// This function builds the revoke_sponsorship operation of an entry.
+//
+// Args:
+// - entry: The entry whose sponsorship is revoked
+// - source: The account submitting the operation, i.e. the sponsor of the
+//   entry, or its owner when the entry is not sponsored
+export function revokeOperation(
+  entry: SponsoredEntry,
+  source?: string,
+): xdr.Operation {
+  switch (entry.type) {
+    case "account":
+      return Operation.revokeAccountSponsorship({
+        account: entry.account,
+        source,
+      });
+    case "trustline":
+      return Operation.revokeTrustlineSponsorship({
+        account: entry.account,
+        asset: entry.asset,
+        source,
+      });
+    case "signer":
+      return Operation.revokeSignerSponsorship({
+        account: entry.account,
+        signer: entry.signer,
+        source,
+      });
+    case "data":
+      return Operation.revokeDataSponsorship({
+        account: entry.account,
+        name: entry.name,
+        source,
+      });
+    case "offer":
+      return Operation.revokeOfferSponsorship({
+        seller: entry.seller,
+        offerId: entry.offerId,
+        source,
+      });
+    case "claimableBalance":
+      return Operation.revokeClaimableBalanceSponsorship({
+        balanceId: entry.balanceId,
+        source,
+      });
+  }
+}
+
+// This function lists the sponsored entries of an account, with their
+// sponsors. Offers are listed separately, since they are not part of the
+// account record.
+async function accountSponsorships(
+  account: Horizon.ServerApi.AccountRecord,
+): Promise<Sponsorship[]> {
+  const sponsorships: Sponsorship[] = [];
+  const accountId = account.account_id;
+
+  if (account.sponsor) {
+    sponsorships.push({
+      entry: { type: "account", account: accountId },
+      sponsor: account.sponsor,
+      reserves: 2,
+    });
+  }
+  for (const line of account.balances) {
+    if (line.asset_type === "native" || !line.sponsor) {
+      continue;
+    }
+    sponsorships.push(
+      line.asset_type === "liquidity_pool_shares"
+        ? {
+          entry: {
+            type: "trustline",
+            account: accountId,
+            asset: new LiquidityPoolId(line.liquidity_pool_id),
+          },
+          sponsor: line.sponsor,
+          reserves: 2,
+        }
+        : {
+          entry: {
+            type: "trustline",
+            account: accountId,
+            asset: new Asset(line.asset_code, line.asset_issuer),
+          },
+          sponsor: line.sponsor,
+          reserves: 1,
+        },
+    );
+  }
+  for (const signer of account.signers as SignerRecord[]) {
+    if (signer.sponsor) {
+      sponsorships.push({
+        entry: {
+          type: "signer",
+          account: accountId,
+          signer: signerKey(signer),
+        },
+        sponsor: signer.sponsor,
+        reserves: 1,
+      });
+    }
+  }
+  for (const { name, sponsor } of await loadDataEntries(account)) {
+    if (sponsor) {
+      sponsorships.push({
+        entry: { type: "data", account: accountId, name },
+        sponsor,
+        reserves: 1,
+      });
+    }
+  }
+
+  return sponsorships;
+}
+
+const offerSponsorship = (
+  offer: Horizon.ServerApi.OfferRecord,
+): Sponsorship => ({
+  entry: { type: "offer", seller: offer.seller, offerId: offer.id.toString() },
+  sponsor: offer.sponsor!,
+  reserves: 1,
+});
+
+// This function lists the entries an account sponsors for other accounts,
+// and the entries of the account sponsored by other accounts.
+//
+// Args:
+// - accountId: The account to list the sponsorships of
+export async function listSponsorships(
+  accountId: string,
+  context: StellarContext = defaultContext(),
+): Promise<SponsorshipReport> {
+  const [
+    account,
+    sponsoredAccounts,
+    sponsoredOffers,
+    sponsoredBalances,
+    offers,
+  ] = await Promise.all([
+    context.horizon.accounts().accountId(accountId).call(),
+    loadAll(context.horizon.accounts().sponsor(accountId).limit(200).call()),
+    loadAll(context.horizon.offers().sponsor(accountId).limit(200).call()),
+    loadAll(
+      context.horizon.claimableBalances().sponsor(accountId).limit(200).call(),
+    ),
+    loadAll(context.horizon.offers().forAccount(accountId).limit(200).call()),
+  ]);
+
+  const sponsoring = [
+    ...(await Promise.all(sponsoredAccounts.map(accountSponsorships))).flat()
+      .filter(({ sponsor }) => sponsor === accountId),
+    ...sponsoredOffers.map(offerSponsorship),
+    ...sponsoredBalances.map((balance): Sponsorship => ({
+      entry: { type: "claimableBalance", balanceId: balance.id },
+      sponsor: accountId,
+      reserves: balance.claimants.length,
+    })),
+  ];
+  const sponsoredBy = [
+    ...await accountSponsorships(account),
+    ...offers.filter((offer) => offer.sponsor).map(offerSponsorship),
+  ];
+
+  return {
+    accountId,
+    numSponsoring: account.num_sponsoring,
+    numSponsored: account.num_sponsored,
+    sponsoring,
+    sponsoredBy,
+  };
+}
+
+// This function logs the sponsorships of a report
+export function logSponsorships(
+  report: SponsorshipReport,
+  context: StellarContext = defaultContext(),
+) {
+  const reserves = (sponsorships: Sponsorship[]) =>
+    sponsorships.reduce((total, { reserves }) => total + reserves, 0);
+
+  context.logger.info(``);
+  context.logger.info(chalk.bgCyan(`Sponsorships of ${report.accountId}`));
+  context.logger.info(
+    `Sponsoring ${chalk.blue(report.numSponsoring)} reserves (${
+      reserves(report.sponsoring)
+    } listed):`,
+  );
+  for (const { entry, reserves } of report.sponsoring) {
+    context.logger.info(`  ${describeEntry(entry)} (${reserves} reserves)`);
+  }
+  context.logger.info(
+    `Sponsored for ${chalk.blue(report.numSponsored)} reserves (${
+      reserves(report.sponsoredBy)
+    } listed):`,
+  );
+  for (const { entry, sponsor, reserves } of report.sponsoredBy) {
+    context.logger.info(
+      `  ${describeEntry(entry)} (${reserves} reserves) by ${
+        chalk.green(sponsor)
+      }`,
+    );
+  }
+}
+
+// This function submits operations of an account with their reserves
+// sponsored by another account. The sponsor pays the transaction fee.
+//
+// Args:
+// - sponsorKeypair: The account paying the reserves
+// - accountKeypair: The account the entries are created for. The
+//   operations without a source are given this account as their source,
+//   since the transaction source is the sponsor.
+// - operations: The operations creating the entries
+export async function sponsorEntries(
+  sponsorKeypair: Keypair,
+  accountKeypair: Keypair,
+  operations: xdr.Operation[],
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  const sponsorId = sponsorKeypair.publicKey();
+  const accountId = accountKeypair.publicKey();
+  context.logger.info(
+    `Account ${chalk.blue(sponsorId)} sponsors ${operations.length} ${
+      operations.length === 1 ? "operation" : "operations"
+    } of ${chalk.green(accountId)}...`,
+  );
+
+  const result = await submitTransaction({
+    source: sponsorId,
+    operations: [
+      Operation.beginSponsoringFutureReserves({
+        sponsoredId: accountId,
+        source: sponsorId,
+      }),
+      ...operations.map((operation) => withSource(operation, accountId)),
+      Operation.endSponsoringFutureReserves({ source: accountId }),
+    ],
+    // The operations of the account need its signature, as well as the
+    // end of the sponsorship
+    signers: [sponsorKeypair, accountKeypair],
+  }, context);
+  context.logger.info(chalk.green(`Sponsored!`));
+  logHashLink(result.hash, context);
+
+  return result;
+}
+
+// This function creates trustlines of an account with sponsored reserves.
+export async function sponsorTrustlines(
+  sponsorKeypair: Keypair,
+  accountKeypair: Keypair,
+  assets: Asset[],
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  return await sponsorEntries(
+    sponsorKeypair,
+    accountKeypair,
+    assets.map((asset) =>
+      Operation.changeTrust({ asset, source: accountKeypair.publicKey() })
+    ),
+    context,
+  );
+}
+
+// This function adds a signer to an account with a sponsored reserve.
+//
+// Args:
+// - signer: The key of the signer, e.g. { ed25519PublicKey: "G..." }
+// - weight: The weight of the signer
+export async function sponsorSigner(
+  sponsorKeypair: Keypair,
+  accountKeypair: Keypair,
+  signer: SignerKeyOptions,
+  weight: number,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  return await sponsorEntries(
+    sponsorKeypair,
+    accountKeypair,
+    [
+      Operation.setOptions({
+        signer: { ...signer, weight } as Operation.SetOptions["signer"],
+        source: accountKeypair.publicKey(),
+      }),
+    ],
+    context,
+  );
+}
+
+// This function sets a data entry of an account with a sponsored reserve.
+//
+// Args:
+// - name: The name of the entry, up to 64 bytes
+// - value: The value of the entry, up to 64 bytes once encoded
+// - codec: The codec encoding the value, e.g. DATA_CODECS.json (see
+//   account/manage-data.ts)
+export async function sponsorDataEntry<T>(
+  sponsorKeypair: Keypair,
+  accountKeypair: Keypair,
+  name: string,
+  value: T,
+  codec: DataCodec<T>,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  return await sponsorEntries(
+    sponsorKeypair,
+    accountKeypair,
+    [dataEntryOperation(name, value, codec, accountKeypair.publicKey())],
+    context,
+  );
+}
+
+// This function creates a sell offer of an account with a sponsored
+// reserve. The account must hold the amount sold.
+export async function sponsorOffer(
+  sponsorKeypair: Keypair,
+  accountKeypair: Keypair,
+  offer: SponsoredOffer,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  return await sponsorEntries(
+    sponsorKeypair,
+    accountKeypair,
+    [
+      Operation.manageSellOffer({
+        ...offer,
+        source: accountKeypair.publicKey(),
+      }),
+    ],
+    context,
+  );
+}
+
+// This function creates a claimable balance from an account, with the
+// reserves of its claimants sponsored. The account must hold the amount.
+export async function sponsorClaimableBalance(
+  sponsorKeypair: Keypair,
+  accountKeypair: Keypair,
+  balance: SponsoredClaimableBalance,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  return await sponsorEntries(
+    sponsorKeypair,
+    accountKeypair,
+    [
+      Operation.createClaimableBalance({
+        ...balance,
+        source: accountKeypair.publicKey(),
+      }),
+    ],
+    context,
+  );
+}
+
+// This function revokes the sponsorship of an entry: its owner pays for
+// its reserve again, and must have enough XLM available to do so.
+//
+// Args:
+// - sponsorKeypair: The current sponsor of the entry
+// - entry: The entry whose sponsorship is revoked
+export async function revokeSponsorship(
+  sponsorKeypair: Keypair,
+  entry: SponsoredEntry,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  context.logger.info(
+    `Revoking the sponsorship of ${describeEntry(entry)} by ${
+      chalk.blue(sponsorKeypair.publicKey())
+    }...`,
+  );
+
+  const result = await submitTransaction({
+    source: sponsorKeypair.publicKey(),
+    operations: [revokeOperation(entry)],
+    signers: [sponsorKeypair],
+  }, context);
+  context.logger.info(chalk.green(`Sponsorship revoked!`));
+  logHashLink(result.hash, context);
+
+  return result;
+}
+
+// This function transfers the sponsorship of an entry to a new sponsor.
+// The current payer revokes the sponsorship inside a sponsoring block of
+// the new sponsor, which pays the transaction fee.
+//
+// Args:
+// - currentKeypair: The current sponsor of the entry, or its owner when
+//   the entry is not sponsored yet
+// - newSponsorKeypair: The account paying the reserve from now on
+// - entry: The entry whose sponsorship is transferred
+export async function transferSponsorship(
+  currentKeypair: Keypair,
+  newSponsorKeypair: Keypair,
+  entry: SponsoredEntry,
+  context: StellarContext = defaultContext(),
+): Promise<TransactionPipelineResult> {
+  const currentId = currentKeypair.publicKey();
+  const newSponsorId = newSponsorKeypair.publicKey();
+  context.logger.info(
+    `Transferring the sponsorship of ${describeEntry(entry)} from ${
+      chalk.blue(currentId)
+    } to ${chalk.green(newSponsorId)}...`,
+  );
+
+  const result = await submitTransaction({
+    source: newSponsorId,
+    operations: [
+      Operation.beginSponsoringFutureReserves({
+        sponsoredId: currentId,
+        source: newSponsorId,
+      }),
+      revokeOperation(entry, currentId),
+      Operation.endSponsoringFutureReserves({ source: currentId }),
+    ],
+    signers: [newSponsorKeypair, currentKeypair],
+  }, context);
+  context.logger.info(chalk.green(`Sponsorship transferred!`));
+  logHashLink(result.hash, context);
+
+  return result;
+}
+
+// Main demonstration script: an onboarding service sponsors the reserves
+// of a new user, then hands some of them over to a partner or back to the
+// user.
+export default async function demonstrateSponsorships(
+  context: StellarContext = defaultContext(),
+) {
+  context.logger.info(
+    chalk.bgCyan`Creating and initializing the sponsor accounts...`,
+  );
+  const serviceKeypair = await generateKeypair();
+  const partnerKeypair = await generateKeypair();
+  await initalizeWithFriendbot(serviceKeypair.publicKey(), context);
+  await initalizeWithFriendbot(partnerKeypair.publicKey(), context);
+
+  context.logger.info(chalk.bgCyan`Onboarding a user with 0XLM...`);
+  const userKeypair = await generateKeypair();
+  await createSponsoredAccountWithTrustline(
+    serviceKeypair,
+    userKeypair,
+    "TEST",
+    context,
+  );
+
+  context.logger.info(chalk.bgCyan`Sponsoring a trustline and a signer...`);
+  const reward = new Asset("REWARD", serviceKeypair.publicKey());
+  await sponsorTrustlines(serviceKeypair, userKeypair, [reward], context);
+  const deviceKeypair = await generateKeypair();
+  await sponsorSigner(
+    serviceKeypair,
+    userKeypair,
+    { ed25519PublicKey: deviceKeypair.publicKey() },
+    1,
+    context,
+  );
+  logSponsorships(
+    await listSponsorships(serviceKeypair.publicKey(), context),
+    context,
+  );
+
+  context.logger.info(chalk.bgCyan`Handing the trustline to a partner...`);
+  await transferSponsorship(
+    serviceKeypair,
+    partnerKeypair,
+    { type: "trustline", account: userKeypair.publicKey(), asset: reward },
+    context,
+  );
+
+  context.logger.info(chalk.bgCyan`Handing the signer back to the user...`);
+  const signer: SponsoredEntry = {
+    type: "signer",
+    account: userKeypair.publicKey(),
+    signer: { ed25519PublicKey: deviceKeypair.publicKey() },
+  };
+  try {
+    await revokeSponsorship(serviceKeypair, signer, context);
+  } catch (e) {
+    if (!(e instanceof StellarSubmissionError)) {
+      throw e;
+    }
+    // The user has no XLM to pay for the reserve yet
+    context.logger.warn(chalk.red(`Expected error: ${e.message}`));
+  }
+  context.logger.info(`Sending 5XLM to the user for the reserve...`);
+  await submitTransaction({
+    source: serviceKeypair.publicKey(),
+    operations: [
+      Operation.payment({
+        destination: userKeypair.publicKey(),
+        asset: Asset.native(),
+        amount: "5",
+      }),
+    ],
+    signers: [serviceKeypair],
+  }, context);
+  await revokeSponsorship(serviceKeypair, signer, context);
+
+  logSponsorships(
+    await listSponsorships(userKeypair.publicKey(), context),
+    context,
+  );
+  logExplorerLink(
+    "account",
+    userKeypair.publicKey(),
+    "Sponsored account",
+    context,
+  );
+}
+
+if (import.meta.main) {
+  await demonstrateSponsorships();
+}
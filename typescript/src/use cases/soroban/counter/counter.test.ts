@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { Keypair } from "@stellar/stellar-sdk";
+import { fileURLToPath } from "node:url";
+import { NETWORK_PROFILES } from "../../../infrastructure/network/network-profile.ts";
+import { setDefaultContext } from "../../../infrastructure/context/stellar-context.ts";
+import { withCassette } from "../../../infrastructure/vcr/http-recorder.ts";
+import generateKeypair from "../../classic/account/generate-keypair.ts";
+import initalizeWithFriendbot from "../../classic/account/initialize-with-friendbot.ts";
+import {
+  createContractClient,
+  decrementCounter,
+  demonstrateCounter,
+  incrementCounter,
+  readCounter,
+} from "./counter.ts";
+
+// Recorded from the demonstration, on the stub network running on the
+// URLs of the local network (see stub-network.ts)
+const CASSETTE = fileURLToPath(
+  new URL("./fixtures/counter.json", import.meta.url),
+);
+
+async function replay<T>(run: () => Promise<T>): Promise<T> {
+  setDefaultContext({ network: NETWORK_PROFILES.local });
+  try {
+    return await withCassette(CASSETTE, run, "replay");
+  } finally {
+    setDefaultContext();
+  }
+}
+
+async function setUpClient() {
+  const admin = await generateKeypair();
+  await initalizeWithFriendbot(admin.publicKey());
+  return createContractClient(admin);
+}
+
+Deno.test("the counter demonstration is replayed offline", async () => {
+  await replay(() => demonstrateCounter());
+});
+
+Deno.test("the counter is read and updated from the recording", async () => {
+  const values = await replay(async () => {
+    const client = await setUpClient();
+    return [
+      await readCounter(client),
+      await incrementCounter(client, 1n),
+      await incrementCounter(client, 2n),
+      await readCounter(client),
+      await decrementCounter(client, 1n),
+      await readCounter(client),
+    ];
+  });
+  assert.deepEqual(values, [0n, 1n, 3n, 3n, 2n, 2n]);
+});
+
+Deno.test("the replay fails when another transaction is simulated", async () => {
+  await assert.rejects(
+    replay(async () => {
+      const client = await setUpClient();
+      await readCounter(client);
+      await incrementCounter(client, 5n);
+    }),
+    /simulateTransaction differs from the recording/,
+  );
+});
+
+Deno.test("the replay fails when another envelope is submitted", async () => {
+  await assert.rejects(
+    replay(async () => {
+      const client = await setUpClient();
+      // The recorded transaction, signed by another account
+      const other = await createContractClient(Keypair.random());
+      client.options.signTransaction = other.options.signTransaction;
+      await readCounter(client);
+      await incrementCounter(client, 1n);
+    }),
+    /sendTransaction differs from the recording/,
+  );
+});
@@ -25,9 +25,18 @@ import initalizeWithFriendbot from "../../classic/account/initialize-with-friend
 import { Keypair, TransactionBuilder } from "@stellar/stellar-sdk";
 import chalk from "chalk";
 import { logHashLink } from "../../../utils/logHashLink.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
+import { logExplorerLink } from "../../../utils/explorerLinks.ts";
+import { resolveIdentity } from "../../../infrastructure/keystore/keystore.ts";
 
 // Set up transaction signing function for the contract client
-async function setupTransactionSigner(adminKeypair: Keypair) {
+async function setupTransactionSigner(
+  adminKeypair: Keypair,
+  context: StellarContext = defaultContext(),
+) {
   return async (xdr: string, opts?: {
     networkPassphrase?: string;
     address?: string;
@@ -36,10 +45,10 @@ async function setupTransactionSigner(adminKeypair: Keypair) {
   }) => {
     const txEnvelope = TransactionBuilder.fromXDR(
       xdr,
-      opts?.networkPassphrase ?? networks.testnet.networkPassphrase,
+      opts?.networkPassphrase ?? context.network.networkPassphrase,
     );
 
-    txEnvelope.sign(adminKeypair);
+    await context.signer(txEnvelope, [adminKeypair]);
 
     return {
       signedTxXdr: txEnvelope.toXDR(),
@@ -49,109 +58,154 @@ async function setupTransactionSigner(adminKeypair: Keypair) {
 }
 
 // Create a new contract client instance
-async function createContractClient(adminKeypair: Keypair) {
-  console.log(
+//
+// The bindings only know the contract ID deployed to testnet. When using
+// a different network, provide the ID of the contract deployed there.
+async function createContractClient(
+  adminKeypair: Keypair,
+  contractId: string = networks.testnet.contractId,
+  context: StellarContext = defaultContext(),
+) {
+  context.logger.info(
     chalk.blue(
       `Creating contract client for admin ${adminKeypair.publicKey()}...`,
     ),
   );
 
+  if (!context.network.rpcUrl) {
+    throw new Error(
+      `The '${context.network.name}' network has no RPC URL configured!`,
+    );
+  }
+  logExplorerLink("contract", contractId, "Contract", context);
+
   return new Client({
-    contractId: networks.testnet.contractId,
-    networkPassphrase: networks.testnet.networkPassphrase,
-    rpcUrl: "https://soroban-testnet.stellar.org",
-    signTransaction: await setupTransactionSigner(adminKeypair),
+    contractId,
+    networkPassphrase: context.network.networkPassphrase,
+    rpcUrl: context.network.rpcUrl,
+    allowHttp: context.network.allowHttp,
+    signTransaction: await setupTransactionSigner(adminKeypair, context),
     publicKey: adminKeypair.publicKey(),
   });
 }
 
 // Read the current counter value
-async function readCounter(client: Client) {
-  console.log(chalk.yellow("Reading current counter value..."));
+async function readCounter(
+  client: Client,
+  context: StellarContext = defaultContext(),
+) {
+  context.logger.info(chalk.yellow("Reading current counter value..."));
   const count = (await client.count()).result;
-  console.log(chalk.green(`Current counter value: ${count}`));
+  context.logger.info(chalk.green(`Current counter value: ${count}`));
   return count;
 }
 
 // Increment the counter by a specified amount
-async function incrementCounter(client: Client, amount: bigint) {
-  console.log(chalk.yellow(`Incrementing counter by ${amount}...`));
+async function incrementCounter(
+  client: Client,
+  amount: bigint,
+  context: StellarContext = defaultContext(),
+) {
+  context.logger.info(chalk.yellow(`Incrementing counter by ${amount}...`));
 
   // First simulate the transaction
   const simulation = await client.add({ amount });
-  console.log(chalk.blue("Simulation successful, submitting transaction..."));
+  context.logger.info(
+    chalk.blue("Simulation successful, submitting transaction..."),
+  );
 
   // Submit the actual transaction
   const result = await simulation.signAndSend();
-  console.log(
+  context.logger.info(
     chalk.green(`Counter incremented successfully to ${result.result}`),
   );
   if (result.sendTransactionResponse?.hash) {
-    logHashLink(result.sendTransactionResponse.hash);
+    logHashLink(result.sendTransactionResponse.hash, context);
   }
 
   return result.result;
 }
 
 // Decrement the counter by a specified amount
-async function decrementCounter(client: Client, amount: bigint) {
-  console.log(chalk.yellow(`Decrementing counter by ${amount}...`));
+async function decrementCounter(
+  client: Client,
+  amount: bigint,
+  context: StellarContext = defaultContext(),
+) {
+  context.logger.info(chalk.yellow(`Decrementing counter by ${amount}...`));
 
   // First simulate the transaction
   const simulation = await client.subtract({ amount });
-  console.log(chalk.blue("Simulation successful, submitting transaction..."));
+  context.logger.info(
+    chalk.blue("Simulation successful, submitting transaction..."),
+  );
 
   // Submit the actual transaction
   const result = await simulation.signAndSend();
-  console.log(
+  context.logger.info(
     chalk.green(`Counter decremented successfully to ${result.result}`),
   );
   if (result.sendTransactionResponse?.hash) {
-    logHashLink(result.sendTransactionResponse.hash);
+    logHashLink(result.sendTransactionResponse.hash, context);
   }
 
   return result.result;
 }
 
 // Main demonstration script
-async function demonstrateCounter() {
+async function demonstrateCounter(context: StellarContext = defaultContext()) {
   try {
-    console.log(chalk.bgCyan("Setting up admin account..."));
-    const adminKeypair = await generateKeypair();
-    await initalizeWithFriendbot(adminKeypair.publicKey());
-
-    console.log(chalk.bgCyan("Initializing contract client..."));
-    const client = await createContractClient(adminKeypair);
+    context.logger.info(chalk.bgCyan("Setting up admin account..."));
+    // Set STELLAR_IDENTITY to reuse a named identity, e.g. the Stellar CLI's
+    // "alice" that deployed the contract. Otherwise a new account is funded.
+    const identity = Deno.env.get("STELLAR_IDENTITY");
+    const adminKeypair = identity
+      ? await resolveIdentity(identity)
+      : await generateKeypair();
+    if (!identity) {
+      await initalizeWithFriendbot(adminKeypair.publicKey(), context);
+    }
+
+    context.logger.info(chalk.bgCyan("Initializing contract client..."));
+    const client = await createContractClient(
+      adminKeypair,
+      networks.testnet.contractId,
+      context,
+    );
 
     // Read initial value
-    console.log(chalk.bgCyan("\nReading initial state..."));
-    await readCounter(client);
+    context.logger.info(chalk.bgCyan("\nReading initial state..."));
+    await readCounter(client, context);
 
     // Demonstrate increment
-    console.log(chalk.bgCyan("\nDemonstrating increment..."));
-    await incrementCounter(client, 1n);
-    await incrementCounter(client, 2n);
-    await readCounter(client);
+    context.logger.info(chalk.bgCyan("\nDemonstrating increment..."));
+    await incrementCounter(client, 1n, context);
+    await incrementCounter(client, 2n, context);
+    await readCounter(client, context);
 
     // Demonstrate decrement
-    console.log(chalk.bgCyan("\nDemonstrating decrement..."));
-    await decrementCounter(client, 1n);
-    await readCounter(client);
+    context.logger.info(chalk.bgCyan("\nDemonstrating decrement..."));
+    await decrementCounter(client, 1n, context);
+    await readCounter(client, context);
 
-    console.log(chalk.green("\nCounter demonstration completed successfully!"));
+    context.logger.info(
+      chalk.green("\nCounter demonstration completed successfully!"),
+    );
   } catch (e) {
-    console.error(chalk.red(`Error in demonstration: ${e}`));
+    context.logger.error(chalk.red(`Error in demonstration: ${e}`));
+    throw e;
   }
 }
 
 // Run the demonstration if this is the main module
 if (import.meta.main) {
-  demonstrateCounter();
+  await demonstrateCounter();
 }
 
 export {
   createContractClient,
   decrementCounter,
+  demonstrateCounter,
   incrementCounter,
   readCounter,
 };
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { NETWORK_PROFILES } from "../../../infrastructure/network/network-profile.ts";
+import { setDefaultContext } from "../../../infrastructure/context/stellar-context.ts";
+import { withCassette } from "../../../infrastructure/vcr/http-recorder.ts";
+import generateKeypair from "../../classic/account/generate-keypair.ts";
+import initalizeWithFriendbot from "../../classic/account/initialize-with-friendbot.ts";
+import {
+  createContractClient,
+  demonstrateEvents,
+  emitCustomEvent,
+  emitDefaultEvent,
+} from "./events.ts";
+
+// Recorded from the demonstration, on the stub network running on the
+// URLs of the local network (see stub-network.ts)
+const CASSETTE = fileURLToPath(
+  new URL("./fixtures/events.json", import.meta.url),
+);
+
+async function replay<T>(run: () => Promise<T>): Promise<T> {
+  setDefaultContext({ network: NETWORK_PROFILES.local });
+  try {
+    return await withCassette(CASSETTE, run, "replay");
+  } finally {
+    setDefaultContext();
+  }
+}
+
+async function setUpClient() {
+  const admin = await generateKeypair();
+  await initalizeWithFriendbot(admin.publicKey());
+  return createContractClient(admin);
+}
+
+Deno.test("the events demonstration is replayed offline", async () => {
+  await replay(() => demonstrateEvents());
+});
+
+Deno.test("the events are emitted from the recording", async () => {
+  await replay(async () => {
+    const client = await setUpClient();
+    await emitDefaultEvent(client);
+    await emitCustomEvent(client, "HELLO");
+    await emitCustomEvent(client, "TEST");
+  });
+});
+
+Deno.test("the replay fails when another event is emitted", async () => {
+  await assert.rejects(
+    replay(async () => {
+      const client = await setUpClient();
+      await emitDefaultEvent(client);
+      await emitCustomEvent(client, "GOODBYE");
+    }),
+    /simulateTransaction differs from the recording/,
+  );
+});
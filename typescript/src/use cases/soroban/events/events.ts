@@ -25,9 +25,19 @@ import initalizeWithFriendbot from "../../classic/account/initialize-with-friend
 import { Keypair, TransactionBuilder } from "@stellar/stellar-sdk";
 import chalk from "chalk";
 import { logHashLink } from "../../../utils/logHashLink.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../../../infrastructure/context/stellar-context.ts";
+import { estimateFee } from "../../../infrastructure/transaction/fee-policy.ts";
+import { logExplorerLink } from "../../../utils/explorerLinks.ts";
+import { resolveIdentity } from "../../../infrastructure/keystore/keystore.ts";
 
 // Set up transaction signing function for the contract client
-async function setupTransactionSigner(adminKeypair: Keypair) {
+async function setupTransactionSigner(
+  adminKeypair: Keypair,
+  context: StellarContext = defaultContext(),
+) {
   return async (xdr: string, opts?: {
     networkPassphrase?: string;
     address?: string;
@@ -36,10 +46,10 @@ async function setupTransactionSigner(adminKeypair: Keypair) {
   }) => {
     const txEnvelope = TransactionBuilder.fromXDR(
       xdr,
-      opts?.networkPassphrase ?? networks.testnet.networkPassphrase,
+      opts?.networkPassphrase ?? context.network.networkPassphrase,
     );
 
-    txEnvelope.sign(adminKeypair);
+    await context.signer(txEnvelope, [adminKeypair]);
 
     return {
       signedTxXdr: txEnvelope.toXDR(),
@@ -49,94 +59,145 @@ async function setupTransactionSigner(adminKeypair: Keypair) {
 }
 
 // Create a new contract client instance
-async function createContractClient(adminKeypair: Keypair) {
-  console.log(
+//
+// The bindings only know the contract ID deployed to testnet. When using
+// a different network, provide the ID of the contract deployed there.
+async function createContractClient(
+  adminKeypair: Keypair,
+  contractId: string = networks.testnet.contractId,
+  context: StellarContext = defaultContext(),
+) {
+  context.logger.info(
     chalk.blue(
       `Creating contract client for admin ${adminKeypair.publicKey()}...`,
     ),
   );
 
+  if (!context.network.rpcUrl) {
+    throw new Error(
+      `The '${context.network.name}' network has no RPC URL configured!`,
+    );
+  }
+  logExplorerLink("contract", contractId, "Contract", context);
+
   return new Client({
-    contractId: networks.testnet.contractId,
-    networkPassphrase: networks.testnet.networkPassphrase,
-    rpcUrl: "https://soroban-testnet.stellar.org",
-    signTransaction: await setupTransactionSigner(adminKeypair),
+    contractId,
+    networkPassphrase: context.network.networkPassphrase,
+    rpcUrl: context.network.rpcUrl,
+    allowHttp: context.network.allowHttp,
+    signTransaction: await setupTransactionSigner(adminKeypair, context),
     publicKey: adminKeypair.publicKey(),
   });
 }
 
 // Emit a default event
-async function emitDefaultEvent(client: Client) {
-  console.log(chalk.yellow("Emitting default event..."));
-
-  // First simulate the transaction
+async function emitDefaultEvent(
+  client: Client,
+  context: StellarContext = defaultContext(),
+) {
+  context.logger.info(chalk.yellow("Emitting default event..."));
+
+  // First simulate the transaction. The fee is the inclusion fee bid,
+  // the resource fee is added on top of it from the simulation.
   const simulation = await client.default({
-    fee: 10000000,
+    fee: Number(await estimateFee(context)),
     timeoutInSeconds: 30,
   });
-  console.log(chalk.blue("Simulation successful, submitting transaction..."));
+  context.logger.info(
+    chalk.blue("Simulation successful, submitting transaction..."),
+  );
 
   // Submit the actual transaction
   const result = await simulation.signAndSend({ force: true });
-  console.log(
+  context.logger.info(
     chalk.green("Default event emitted successfully"),
   );
   if (result.sendTransactionResponse?.hash) {
-    logHashLink(result.sendTransactionResponse.hash);
+    logHashLink(result.sendTransactionResponse.hash, context);
   }
 }
 
 // Emit a custom event with a specific message
-async function emitCustomEvent(client: Client, message: string) {
-  console.log(
+async function emitCustomEvent(
+  client: Client,
+  message: string,
+  context: StellarContext = defaultContext(),
+) {
+  context.logger.info(
     chalk.yellow(`Emitting custom event with message: ${message}...`),
   );
 
-  // First simulate the transaction
+  // First simulate the transaction. The fee is the inclusion fee bid,
+  // the resource fee is added on top of it from the simulation.
   const simulation = await client.custom({ message }, {
-    fee: 10000000,
+    fee: Number(await estimateFee(context)),
     timeoutInSeconds: 30,
   });
-  console.log(chalk.blue("Simulation successful, submitting transaction..."));
+  context.logger.info(
+    chalk.blue("Simulation successful, submitting transaction..."),
+  );
 
   // Submit the actual transaction
   const result = await simulation.signAndSend();
-  console.log(
+  context.logger.info(
     chalk.green(`Custom event with message '${message}' emitted successfully`),
   );
   if (result.sendTransactionResponse?.hash) {
-    logHashLink(result.sendTransactionResponse.hash);
+    logHashLink(result.sendTransactionResponse.hash, context);
   }
 }
 
 // Main demonstration script
-async function demonstrateEvents() {
+async function demonstrateEvents(context: StellarContext = defaultContext()) {
   try {
-    console.log(chalk.bgCyan("Setting up admin account..."));
-    const adminKeypair = await generateKeypair();
-    await initalizeWithFriendbot(adminKeypair.publicKey());
-
-    console.log(chalk.bgCyan("Initializing contract client..."));
-    const client = await createContractClient(adminKeypair);
+    context.logger.info(chalk.bgCyan("Setting up admin account..."));
+    // Set STELLAR_IDENTITY to reuse a named identity, e.g. the Stellar CLI's
+    // "alice" that deployed the contract. Otherwise a new account is funded.
+    const identity = Deno.env.get("STELLAR_IDENTITY");
+    const adminKeypair = identity
+      ? await resolveIdentity(identity)
+      : await generateKeypair();
+    if (!identity) {
+      await initalizeWithFriendbot(adminKeypair.publicKey(), context);
+    }
+
+    context.logger.info(chalk.bgCyan("Initializing contract client..."));
+    const client = await createContractClient(
+      adminKeypair,
+      networks.testnet.contractId,
+      context,
+    );
 
     // Demonstrate default event emission
-    console.log(chalk.bgCyan("\nDemonstrating default event emission..."));
-    await emitDefaultEvent(client);
+    context.logger.info(
+      chalk.bgCyan("\nDemonstrating default event emission..."),
+    );
+    await emitDefaultEvent(client, context);
 
     // Demonstrate custom event emission
-    console.log(chalk.bgCyan("\nDemonstrating custom event emission..."));
-    await emitCustomEvent(client, "HELLO");
-    await emitCustomEvent(client, "TEST");
+    context.logger.info(
+      chalk.bgCyan("\nDemonstrating custom event emission..."),
+    );
+    await emitCustomEvent(client, "HELLO", context);
+    await emitCustomEvent(client, "TEST", context);
 
-    console.log(chalk.green("\nEvent demonstration completed successfully!"));
+    context.logger.info(
+      chalk.green("\nEvent demonstration completed successfully!"),
+    );
   } catch (e) {
-    console.error(chalk.red(`Error in demonstration: ${e}`));
+    context.logger.error(chalk.red(`Error in demonstration: ${e}`));
+    throw e;
   }
 }
 
 // Run the demonstration if this is the main module
 if (import.meta.main) {
-  demonstrateEvents();
+  await demonstrateEvents();
 }
 
-export { createContractClient, emitCustomEvent, emitDefaultEvent };
+export {
+  createContractClient,
+  demonstrateEvents,
+  emitCustomEvent,
+  emitDefaultEvent,
+};
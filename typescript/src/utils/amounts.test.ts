@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { fromStroops, toStroops } from "./amounts.ts";
+
+Deno.test("amounts are converted into stroops", () => {
+  assert.equal(toStroops("0"), 0n);
+  assert.equal(toStroops("12.5"), 125_000_000n);
+  assert.equal(toStroops("1.0000001"), 10_000_001n);
+  assert.equal(toStroops("922337203685.4775807"), 9_223_372_036_854_775_807n);
+  assert.equal(toStroops("-1.5"), -15_000_000n);
+  assert.equal(toStroops("-0.0000001"), -1n);
+  assert.equal(toStroops("-3"), -30_000_000n);
+});
+
+Deno.test("malformed amounts are rejected", () => {
+  for (const amount of ["", ".5", "5.", "1.2.3", "abc", "1e7", "+1", "--1"]) {
+    assert.throws(() => toStroops(amount), /not a decimal amount/, amount);
+  }
+  assert.throws(() => toStroops("1.00000001"), /more than 7 decimals/);
+  assert.throws(() => toStroops("-0.12345678"), /more than 7 decimals/);
+});
+
+Deno.test("stroops are converted into Horizon amounts", () => {
+  assert.equal(fromStroops(125_000_000n), "12.5000000");
+  assert.equal(fromStroops(-15_000_000n), "-1.5000000");
+  assert.equal(fromStroops(1n), "0.0000001");
+  for (const amount of ["-1.5000000", "0.0000000", "100.0000001"]) {
+    assert.equal(fromStroops(toStroops(amount)), amount);
+  }
+});
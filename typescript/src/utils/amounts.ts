@@ -0,0 +1,37 @@
+/*
+    This script converts amounts between the decimal format of Horizon and
+    stroops, the unit the ledger keeps them in (1 XLM = 10,000,000 stroops).
+
+    Stroops are bigints, so amounts can be added and compared without being
+    rounded.
+*/
+
+// An optional sign, the units and up to 7 decimals, e.g. -12.5
+const AMOUNT_PATTERN = /^(-?)(\d+)(?:\.(\d+))?$/;
+
+// This function converts an amount with up to 7 decimals into stroops.
+// Throws when the amount is malformed or has more than 7 decimals, which
+// a stroop cannot represent. e.g. "12.5" -> 125000000n
+export function toStroops(amount: string): bigint {
+  const match = AMOUNT_PATTERN.exec(amount);
+  if (!match) {
+    throw new Error(`'${amount}' is not a decimal amount.`);
+  }
+  const [, sign, units, decimals = ""] = match;
+  if (decimals.length > 7) {
+    throw new Error(`'${amount}' has more than 7 decimals.`);
+  }
+  const stroops = BigInt(units) * 10_000_000n +
+    BigInt(decimals.padEnd(7, "0"));
+  return sign ? -stroops : stroops;
+}
+
+// This function converts stroops into an amount with 7 decimals, the
+// format used by Horizon. e.g. 125000000n -> "12.5000000"
+export function fromStroops(stroops: bigint): string {
+  const sign = stroops < 0n ? "-" : "";
+  const value = stroops < 0n ? -stroops : stroops;
+  return `${sign}${value / 10_000_000n}.${
+    (value % 10_000_000n).toString().padStart(7, "0")
+  }`;
+}
@@ -0,0 +1,141 @@
+/*
+    This script builds block explorer links for the entities created by the
+    use cases, so they can be inspected right after being created.
+
+    Entities:
+    - transaction: a transaction hash
+    - account: a public key (G...)
+    - asset: an asset in the CODE:ISSUER format, or "native" for XLM
+    - liquidityPool: a liquidity pool ID
+    - contract: a contract ID (C...)
+
+    Explorers:
+    - stellar.expert: https://stellar.expert (testnet, futurenet and pubnet)
+    - stellarchain: https://stellarchain.io (testnet, futurenet and pubnet)
+    - horizon: the JSON resources of the Horizon instance of the network
+
+    The explorer and the network come from the network profile of the
+    context. When the selected explorer does not index the network (e.g. a local
+    quickstart), the links point to the network's own Horizon instead.
+*/
+
+import chalk from "chalk";
+import {
+  type ExplorerName,
+  type NetworkName,
+  type NetworkProfile,
+} from "../infrastructure/network/network-profile.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../infrastructure/context/stellar-context.ts";
+
+export type ExplorerEntity =
+  | "transaction"
+  | "account"
+  | "asset"
+  | "liquidityPool"
+  | "contract";
+
+interface Explorer {
+  // Base URL of the explorer for each network it indexes
+  baseUrls: Partial<Record<NetworkName, string>>;
+  // Path of each entity, or undefined when the explorer does not show it
+  path: (entity: ExplorerEntity, id: string) => string | undefined;
+}
+
+// Assets are identified as CODE-ISSUER in the explorer URLs
+const assetSlug = (asset: string) =>
+  asset === "native" ? "XLM" : asset.replace(":", "-");
+
+const EXPLORERS: Record<ExplorerName, Explorer> = {
+  "stellar.expert": {
+    baseUrls: {
+      testnet: "https://stellar.expert/explorer/testnet",
+      futurenet: "https://stellar.expert/explorer/futurenet",
+      pubnet: "https://stellar.expert/explorer/public",
+    },
+    path: (entity, id) =>
+      ({
+        transaction: `/tx/${id}`,
+        account: `/account/${id}`,
+        asset: `/asset/${assetSlug(id)}`,
+        liquidityPool: `/liquidity-pool/${id}`,
+        contract: `/contract/${id}`,
+      })[entity],
+  },
+  stellarchain: {
+    baseUrls: {
+      testnet: "https://testnet.stellarchain.io",
+      futurenet: "https://futurenet.stellarchain.io",
+      pubnet: "https://stellarchain.io",
+    },
+    path: (entity, id) =>
+      ({
+        transaction: `/transactions/${id}`,
+        account: `/accounts/${id}`,
+        asset: `/assets/${assetSlug(id)}`,
+        liquidityPool: `/liquidity-pools/${id}`,
+        contract: `/contracts/${id}`,
+      })[entity],
+  },
+  // Horizon does not index contracts or the native asset
+  horizon: {
+    baseUrls: {},
+    path: (entity, id) => {
+      const [code, issuer] = id.split(":");
+      return {
+        transaction: `/transactions/${id}`,
+        account: `/accounts/${id}`,
+        asset: issuer
+          ? `/assets?asset_code=${code}&asset_issuer=${issuer}`
+          : undefined,
+        liquidityPool: `/liquidity_pools/${id}`,
+        contract: undefined,
+      }[entity];
+    },
+  },
+};
+
+// This function returns the explorer link of an entity, or undefined when
+// the explorer has no page for it.
+//
+// Args:
+// - entity: The kind of entity, e.g. "account"
+// - id: The identifier of the entity, e.g. the public key of the account
+// - network: The network profile, defaults to the one of the default
+//   context
+export function explorerLink(
+  entity: ExplorerEntity,
+  id: string,
+  network: NetworkProfile = defaultContext().network,
+): string | undefined {
+  const explorer = EXPLORERS[network.explorer];
+  const baseUrl = network.explorerUrl ?? explorer.baseUrls[network.name];
+
+  if (!baseUrl) {
+    const path = EXPLORERS.horizon.path(entity, id);
+    return path && `${network.horizonUrl}${path}`;
+  }
+
+  const path = explorer.path(entity, id);
+  return path && `${baseUrl}${path}`;
+}
+
+// This function logs the explorer link of an entity with a label, on the
+// network of the context.
+// e.g. logExplorerLink("account", publicKey, "New account")
+export const logExplorerLink = (
+  entity: ExplorerEntity,
+  id: string,
+  label: string,
+  context: StellarContext = defaultContext(),
+) => {
+  const link = explorerLink(entity, id, context.network);
+
+  context.logger.info(`${label}: ${chalk.blue(link ?? id)}`, {
+    entity,
+    id,
+    link,
+  });
+};
@@ -1,7 +1,16 @@
 import chalk from "chalk";
+import { explorerLink } from "./explorerLinks.ts";
+import {
+  defaultContext,
+  type StellarContext,
+} from "../infrastructure/context/stellar-context.ts";
 
-export const logHashLink = (hash: string) => {
-  console.log(
-    chalk.blue(`https://stellar.expert/explorer/testnet/tx/${hash} \n`),
-  );
+// Prints the explorer link of a transaction, on the network of the context.
+export const logHashLink = (
+  hash: string,
+  context: StellarContext = defaultContext(),
+) => {
+  const link = explorerLink("transaction", hash, context.network);
+
+  context.logger.info(chalk.blue(`${link} \n`), { hash, link });
 };
@@ -0,0 +1,127 @@
+/*
+    This script provides the logger used by all the use cases instead of
+    writing directly to the console.
+
+    Formats:
+    - pretty (default): Colored human-readable output, as in a terminal
+    - json: One JSON object per line, without colors, for CI and services
+    - silent: No output at all
+
+    Levels: debug, info, warn, error. Messages below the configured
+    level are discarded.
+
+    Secret keys (S...) are redacted from every message and field by default,
+    so they don't end up in CI logs or log aggregators.
+
+    The logger is configured through environment variables:
+    - STELLAR_LOG_FORMAT: pretty | json | silent
+    - STELLAR_LOG_LEVEL: debug | info | warn | error
+    - STELLAR_LOG_REDACT: set to "false" to print secret keys
+
+    A different logger implementation can be injected with setLogger.
+*/
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFormat = "pretty" | "json" | "silent";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface LoggerOptions {
+  format: LogFormat;
+  level: LogLevel;
+  redactSecrets: boolean;
+}
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+// Stellar secret keys are encoded as 56 base32 characters starting with S.
+// Word boundaries are not used since colored text is preceded by ANSI codes.
+const SECRET_KEY_PATTERN = /(?<![A-Z2-7])S[A-Z2-7]{55}(?![A-Z2-7])/g;
+const REDACTED_SECRET = "S****[REDACTED]****";
+
+// deno-lint-ignore no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+export const redactSecrets = (text: string) =>
+  text.replace(SECRET_KEY_PATTERN, REDACTED_SECRET);
+
+const stripColors = (text: string) => text.replace(ANSI_PATTERN, "");
+
+// This function creates a logger with the given options.
+export function createLogger(options: LoggerOptions): Logger {
+  const redact = (text: string) =>
+    options.redactSecrets ? redactSecrets(text) : text;
+
+  const write = (level: LogLevel, message: string, fields?: LogFields) => {
+    if (
+      options.format === "silent" ||
+      LEVEL_PRIORITY[level] < LEVEL_PRIORITY[options.level]
+    ) {
+      return;
+    }
+
+    if (options.format === "pretty") {
+      const output = level === "error" ? console.error : console.log;
+      output(redact(message));
+      return;
+    }
+
+    // Blank lines are only used for spacing in the pretty format
+    const text = stripColors(message).trim();
+    if (!text && !fields) {
+      return;
+    }
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      message: text,
+      ...fields,
+    }, (_key, value) => typeof value === "bigint" ? value.toString() : value);
+    console.log(redact(line));
+  };
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+  };
+}
+
+// This function reads the logger options from the environment variables.
+export function loggerOptionsFromEnv(): LoggerOptions {
+  const format = Deno.env.get("STELLAR_LOG_FORMAT") ?? "pretty";
+  const level = Deno.env.get("STELLAR_LOG_LEVEL") ?? "info";
+
+  if (!["pretty", "json", "silent"].includes(format)) {
+    throw new Error(`Unknown log format '${format}'.`);
+  }
+  if (!(level in LEVEL_PRIORITY)) {
+    throw new Error(`Unknown log level '${level}'.`);
+  }
+
+  return {
+    format: format as LogFormat,
+    level: level as LogLevel,
+    redactSecrets: Deno.env.get("STELLAR_LOG_REDACT") !== "false",
+  };
+}
+
+export let LOGGER: Logger = createLogger(loggerOptionsFromEnv());
+
+// This function replaces the logger used by all the use cases.
+// e.g. setLogger(createLogger({ format: "json", level: "warn", redactSecrets: true }))
+export function setLogger(logger: Logger) {
+  LOGGER = logger;
+}
@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { deriveKeypair, deriveKeypairs, generateMnemonic } from "./mnemonic.ts";
+
+interface Sep5Vector {
+  mnemonic: string;
+  passphrase: string;
+  // Public and secret keys of the accounts m/44'/148'/0' to 2'
+  accounts: [string, string][];
+}
+
+// Test vectors of SEP-5
+// https://github.com/stellar/stellar-protocol/blob/master/ecosystem/sep-0005.md
+const SEP5_VECTORS: Sep5Vector[] = [
+  {
+    mnemonic:
+      "illness spike retreat truth genius clock brain pass fit cave bargain toe",
+    passphrase: "",
+    accounts: [
+      [
+        "GDRXE2BQUC3AZNPVFSCEZ76NJ3WWL25FYFK6RGZGIEKWE4SOOHSUJUJ6",
+        "SBGWSG6BTNCKCOB3DIFBGCVMUPQFYPA2G4O34RMTB343OYPXU5DJDVMN",
+      ],
+      [
+        "GBAW5XGWORWVFE2XTJYDTLDHXTY2Q2MO73HYCGB3XMFMQ562Q2W2GJQX",
+        "SCEPFFWGAG5P2VX5DHIYK3XEMZYLTYWIPWYEKXFHSK25RVMIUNJ7CTIS",
+      ],
+      [
+        "GAY5PRAHJ2HIYBYCLZXTHID6SPVELOOYH2LBPH3LD4RUMXUW3DOYTLXW",
+        "SDAILLEZCSA67DUEP3XUPZJ7NYG7KGVRM46XA7K5QWWUIGADUZCZWTJP",
+      ],
+    ],
+  },
+  {
+    mnemonic:
+      "resource asthma orphan phone ice canvas fire useful arch jewel impose vague theory cushion top",
+    passphrase: "",
+    accounts: [
+      [
+        "GAVXVW5MCK7Q66RIBWZZKZEDQTRXWCZUP4DIIFXCCENGW2P6W4OA34RH",
+        "SAKS7I2PNDBE5SJSUSU2XLJ7K5XJ3V3K4UDFAHMSBQYPOKE247VHAGDB",
+      ],
+      [
+        "GDFCYVCICATX5YPJUDS22KM2GW5QU2KKSPPPT2IC5AQIU6TP3BZSLR5K",
+        "SAZ2H5GLAVWCUWNPQMB6I3OHRI63T2ACUUAWSH7NAGYYPXGIOPLPW3Q4",
+      ],
+      [
+        "GAUA3XK3SGEQFNCBM423WIM5WCZ4CR4ZDPDFCYSFLCTODGGGJMPOHAAE",
+        "SDVSSLPL76I33DKAI4LFTOAKCHJNCXUERGPCMVFT655Z4GRLWM6ZZTSC",
+      ],
+    ],
+  },
+  {
+    mnemonic:
+      "bench hurt jump file august wise shallow faculty impulse spring exact slush thunder author capable act festival slice deposit sauce coconut afford frown better",
+    passphrase: "",
+    accounts: [
+      [
+        "GC3MMSXBWHL6CPOAVERSJITX7BH76YU252WGLUOM5CJX3E7UCYZBTPJQ",
+        "SAEWIVK3VLNEJ3WEJRZXQGDAS5NVG2BYSYDFRSH4GKVTS5RXNVED5AX7",
+      ],
+      [
+        "GB3MTYFXPBZBUINVG72XR7AQ6P2I32CYSXWNRKJ2PV5H5C7EAM5YYISO",
+        "SBKSABCPDWXDFSZISAVJ5XKVIEWV4M5O3KBRRLSPY3COQI7ZP423FYB4",
+      ],
+      [
+        "GDYF7GIHS2TRGJ5WW4MZ4ELIUIBINRNYPPAWVQBPLAZXC2JRDI4DGAKU",
+        "SD5CCQAFRIPB3BWBHQYQ5SC66IB2AVMFNWWPBYGSUXVRZNCIRJ7IHESQ",
+      ],
+    ],
+  },
+  {
+    mnemonic:
+      "cable spray genius state float twenty onion head street palace net private method loan turn phrase state blanket interest dry amazing dress blast tube",
+    passphrase: "p4ssphr4se",
+    accounts: [
+      [
+        "GDAHPZ2NSYIIHZXM56Y36SBVTV5QKFIZGYMMBHOU53ETUSWTP62B63EQ",
+        "SAFWTGXVS7ELMNCXELFWCFZOPMHUZ5LXNBGUVRCY3FHLFPXK4QPXYP2X",
+      ],
+      [
+        "GDY47CJARRHHL66JH3RJURDYXAMIQ5DMXZLP3TDAUJ6IN2GUOFX4OJOC",
+        "SBQPDFUGLMWJYEYXFRM5TQX3AX2BR47WKI4FDS7EJQUSEUUVY72MZPJF",
+      ],
+      [
+        "GCLAQF5H5LGJ2A6ACOMNEHSWYDJ3VKVBUBHDWFGRBEPAVZ56L4D7JJID",
+        "SAF2LXRW6FOSVQNC4HHIIDURZL4SCGCG7UEGG23ZQG6Q2DKIGMPZV6BZ",
+      ],
+    ],
+  },
+  {
+    mnemonic:
+      "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about",
+    passphrase: "",
+    accounts: [
+      [
+        "GB3JDWCQJCWMJ3IILWIGDTQJJC5567PGVEVXSCVPEQOTDN64VJBDQBYX",
+        "SBUV3MRWKNS6AYKZ6E6MOUVF2OYMON3MIUASWL3JLY5E3ISDJFELYBRZ",
+      ],
+      [
+        "GDVSYYTUAJ3ACHTPQNSTQBDQ4LDHQCMNY4FCEQH5TJUMSSLWQSTG42MV",
+        "SCHDCVCWGAKGIMTORV6K5DYYV3BY4WG3RA4M6MCBGJLHUCWU2MC6DL66",
+      ],
+      [
+        "GBFPWBTN4AXHPWPTQVQBP4KRZ2YVYYOGRMV2PEYL2OBPPJDP7LECEVHR",
+        "SAPLVTLUXSDLFRDGCCFLPDZMTCEVMP3ZXTM74EBJCVKZKM34LGQPF7K3",
+      ],
+    ],
+  },
+];
+
+for (const vector of SEP5_VECTORS) {
+  const words = vector.mnemonic.split(" ");
+  Deno.test(
+    `SEP-5 vector ${words[0]} (${words.length} words${
+      vector.passphrase ? ", with passphrase" : ""
+    })`,
+    async () => {
+      const keypairs = await deriveKeypairs(
+        vector.mnemonic,
+        vector.accounts.length,
+        vector.passphrase,
+      );
+      assert.deepEqual(
+        keypairs.map((keypair) => [keypair.publicKey(), keypair.secret()]),
+        vector.accounts,
+      );
+    },
+  );
+}
+
+Deno.test("the passphrase changes the derived accounts", async () => {
+  const [vector] = SEP5_VECTORS;
+  const keypair = await deriveKeypair(vector.mnemonic, 0, "p4ssphr4se");
+  assert.notEqual(keypair.publicKey(), vector.accounts[0][0]);
+});
+
+Deno.test("mnemonics are normalized before the derivation", async () => {
+  const [vector] = SEP5_VECTORS;
+  const keypair = await deriveKeypair(
+    `  ${vector.mnemonic.toUpperCase().replaceAll(" ", "\n ")} `,
+  );
+  assert.equal(keypair.publicKey(), vector.accounts[0][0]);
+});
+
+Deno.test("invalid mnemonics and indexes are rejected", async () => {
+  const [vector] = SEP5_VECTORS;
+  await assert.rejects(
+    deriveKeypair(vector.mnemonic.replace("toe", "tow")),
+    /Invalid mnemonic/,
+  );
+  await assert.rejects(
+    deriveKeypair(vector.mnemonic.replace("toe", "illness")),
+    /Invalid mnemonic/,
+  );
+  await assert.rejects(deriveKeypair(vector.mnemonic, -1), /account index/);
+  await assert.rejects(deriveKeypair(vector.mnemonic, 1.5), /account index/);
+});
+
+Deno.test("generated mnemonics have 12 or 24 words", async () => {
+  assert.equal(generateMnemonic(128).split(" ").length, 12);
+  const mnemonic = generateMnemonic();
+  assert.equal(mnemonic.split(" ").length, 24);
+  await deriveKeypair(mnemonic);
+});
@@ -0,0 +1,112 @@
+/*
+    This script derives Stellar keypairs from a recovery phrase (SEP-5), as
+    wallets do. A recovery phrase is a BIP-39 mnemonic of 12 or 24 words:
+
+    1. The mnemonic (and an optional passphrase) is converted into a 64-byte
+       seed with PBKDF2-HMAC-SHA512, as defined in BIP-39.
+    2. The seed is used to derive ed25519 keys with SLIP-10, following the
+       path m/44'/148'/n', where 148 is the coin type registered for Stellar
+       and n is the index of the account.
+
+    The same mnemonic always derives the same accounts.
+
+    !! The mnemonic controls every account derived from it and must be kept as
+    confidential as a secret key. !!
+*/
+
+import { Keypair } from "@stellar/stellar-sdk";
+import {
+  generateMnemonic as generateBip39Mnemonic,
+  mnemonicToSeed,
+  validateMnemonic,
+} from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english";
+import { Buffer } from "node:buffer";
+
+// SLIP-10 master key for ed25519 curves
+const ED25519_CURVE = new TextEncoder().encode("ed25519 seed");
+const HARDENED_OFFSET = 0x80000000;
+
+// Stellar's registered coin type in SLIP-44
+const STELLAR_COIN_TYPE = 148;
+
+// This function generates a new BIP-39 mnemonic.
+//
+// Args:
+// - strength: The entropy in bits. 128 generates 12 words and 256
+//   generates 24 words.
+export function generateMnemonic(strength: 128 | 256 = 256): string {
+  return generateBip39Mnemonic(wordlist, strength);
+}
+
+async function hmacSha512(
+  key: Uint8Array<ArrayBuffer>,
+  data: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: "SHA-512" },
+    false,
+    ["sign"],
+  );
+  return new Uint8Array(await crypto.subtle.sign("HMAC", cryptoKey, data));
+}
+
+// This function derives an ed25519 private key from a seed following
+// SLIP-10. Only hardened indexes are supported for ed25519.
+async function deriveEd25519Key(
+  seed: Uint8Array<ArrayBuffer>,
+  path: number[],
+): Promise<Uint8Array<ArrayBuffer>> {
+  let digest = await hmacSha512(ED25519_CURVE, seed);
+
+  for (const index of path) {
+    // data = 0x00 || key || ser32(index + 2^31)
+    const data = new Uint8Array(37);
+    data.set(digest.slice(0, 32), 1);
+    new DataView(data.buffer).setUint32(33, index + HARDENED_OFFSET);
+    digest = await hmacSha512(digest.slice(32), data);
+  }
+
+  return digest.slice(0, 32);
+}
+
+// This function derives the keypair of an account from a mnemonic
+// following SEP-5 (m/44'/148'/index').
+//
+// Args:
+// - mnemonic: The BIP-39 recovery phrase
+// - index: The index of the account, starting at 0
+// - passphrase: The optional BIP-39 passphrase, also known as 25th word
+export async function deriveKeypair(
+  mnemonic: string,
+  index = 0,
+  passphrase = "",
+): Promise<Keypair> {
+  const normalized = mnemonic.trim().toLowerCase().split(/\s+/).join(" ");
+  if (!validateMnemonic(normalized, wordlist)) {
+    throw new Error("Invalid mnemonic: unknown words or bad checksum.");
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+    throw new Error(`Invalid account index ${index}.`);
+  }
+
+  const seed = new Uint8Array(await mnemonicToSeed(normalized, passphrase));
+  const key = await deriveEd25519Key(seed, [44, STELLAR_COIN_TYPE, index]);
+
+  return Keypair.fromRawEd25519Seed(Buffer.from(key));
+}
+
+// This function derives the keypairs of the first accounts of a mnemonic.
+export async function deriveKeypairs(
+  mnemonic: string,
+  count: number,
+  passphrase = "",
+): Promise<Keypair[]> {
+  const keypairs: Keypair[] = [];
+  for (let index = 0; index < count; index++) {
+    keypairs.push(await deriveKeypair(mnemonic, index, passphrase));
+  }
+  return keypairs;
+}